@@ -37,6 +37,7 @@ import {
   type Side as TwoSide,
   type Card,
   type Section,
+  type Arcana,
   type Fighter,
   type Players,
   type Phase,
@@ -45,7 +46,12 @@ import {
   LEGACY_FROM_SIDE,
 } from "./game/types";
 import { easeInOutCubic, inSection, createSeededRng } from "./game/math";
-import { VC_META, genWheelSections } from "./game/wheel";
+import { genWheelSections, type WheelTemplate } from "./game/wheel";
+import type { Slice0Rule } from "./game/slice0Rules";
+import type { TieBreakRule } from "./game/tieBreakers";
+import type { RulesConfig } from "./game/rules";
+import { listVictoryConditions } from "./game/victoryConditions";
+import { laneIndexes } from "./game/lanes";
 import { DEFAULT_GAME_MODE, normalizeGameMode } from "./gameModes";
 import {
   DEFAULT_CPU_DIFFICULTY,
@@ -74,6 +80,8 @@ import {
 } from "./features/threeWheel/utils/combat";
 import {
   computeSpellCost,
+  createSpellRng,
+  createSpellStackEntry,
   resolvePendingSpell,
   type PendingSpellDescriptor,
   type SpellEffectPayload,
@@ -91,17 +99,34 @@ import HandDock from "./features/threeWheel/components/HandDock";
 import FirstRunCoach from "./features/threeWheel/components/FirstRunCoach";
 import HUDPanels from "./features/threeWheel/components/HUDPanels";
 import VictoryOverlay from "./features/threeWheel/components/VictoryOverlay";
+import ReplayViewer from "./features/threeWheel/components/ReplayViewer";
+import SpellPreviewPanel from "./features/threeWheel/components/SpellPreviewPanel";
+import ReactionPrompt from "./features/threeWheel/components/ReactionPrompt";
+import SplitFaceChooser from "./features/threeWheel/components/SplitFaceChooser";
 import {
   getLearnedSpellsForFighter,
   getSpellDefinitions,
+  getSpellForGrimoire,
   getSpellTargetStage,
   type SpellDefinition,
   type SpellId,
   type SpellRuntimeState,
 } from "./game/spells";
-import { countSymbolsFromCards, getVisibleSpellsForHand } from "./game/grimoire";
+import {
+  countFighterSymbols,
+  countSymbolsFromCards,
+  getVisibleSpellsForHand,
+  type GrimoireSymbols,
+  type MatchGrimoire,
+} from "./game/grimoire";
+import { getComboChain } from "./game/spellCombos";
+import { describeSpellCastBlock, getSpellCastBlock } from "./game/spellLimits";
 import StSCard from "./components/StSCard";
-import { chooseCpuSpellResponse, type CpuSpellDecision } from "./game/ai/grimoireCpu";
+import {
+  chooseCpuSpellResponse,
+  type CpuSpellCandidate,
+  type CpuSpellDecision,
+} from "./game/ai/grimoireCpu";
 import { chooseCpuSkillResponse } from "./game/ai/skillCpu";
 import { isReserveBoostTarget, type AbilityKind, SKILL_ABILITY_LABELS } from "./game/skills";
 
@@ -111,7 +136,7 @@ type AblyChannel = ReturnType<AblyRealtime["channels"]["get"]>;
 type LegacySide = "player" | "enemy";
 
 type SideState<T> = Record<LegacySide, T>;
-type WheelSideState<T> = [SideState<T>, SideState<T>, SideState<T>];
+type WheelSideState<T> = SideState<T>[];
 
 type ReserveTargetSpec = {
   kind: "reserve";
@@ -153,6 +178,14 @@ const SKILL_TARGET_SPECS: Record<AbilityKind, SkillTargetSpec> = {
     lanePrompt: "Select a friendly lane to receive the reserve boost.",
     requirePositiveReserve: true,
   },
+  shiftPointer: {
+    kind: "friendlyLane",
+    prompt: "Select a lane whose wheel pointer to shift.",
+  },
+  lockWheel: {
+    kind: "friendlyLane",
+    prompt: "Select a lane whose wheel to lock.",
+  },
 };
 
 type SkillTargetingState = {
@@ -168,20 +201,8 @@ type SkillTargetSelection =
   | { type: "reserve"; cardId: string }
   | { type: "lane"; laneIndex: number };
 
-function createWheelSideState<T>(value: T): WheelSideState<T> {
-  return [
-    { player: value, enemy: value },
-    { player: value, enemy: value },
-    { player: value, enemy: value },
-  ];
-}
-
-function createWheelLockState(): [boolean, boolean, boolean] {
-  return [false, false, false];
-}
-
-function createPointerShiftState(): [number, number, number] {
-  return [0, 0, 0];
+function createWheelSideState<T>(laneCount: number, value: T): WheelSideState<T> {
+  return laneIndexes(laneCount).map(() => ({ player: value, enemy: value }));
 }
 
 function createReservePenaltyState(): SideState<number> {
@@ -264,6 +285,8 @@ const SKILL_EFFECT_EMOJIS: Record<AbilityKind, { lane?: string; reserve?: string
   rerollReserve: { reserve: "🎲" },
   boostCard: { lane: "💥" },
   reserveBoost: { lane: "✨", reserve: "✨" },
+  shiftPointer: { lane: "👉" },
+  lockWheel: { lane: "🔒" },
 };
 
 // ---------------- Main Component ----------------
@@ -277,6 +300,12 @@ export default function ThreeWheel_WinsOnly({
   hostId,
   targetWins,
   easyMode = false,
+  laneCount: laneCountSetting,
+  wheelTemplates,
+  slice0Rule: slice0RuleSetting,
+  tieBreak,
+  rules: rulesSetting,
+  grimoires,
   cpuDifficulty = DEFAULT_CPU_DIFFICULTY,
   onExit,
 }: {
@@ -289,10 +318,18 @@ export default function ThreeWheel_WinsOnly({
   hostId?: string;
   targetWins?: number;
   easyMode?: boolean;
+  laneCount?: number;
+  wheelTemplates?: WheelTemplate[];
+  slice0Rule?: Slice0Rule;
+  tieBreak?: TieBreakRule;
+  rules?: RulesConfig;
+  grimoires?: Record<TwoSide, MatchGrimoire>;
   cpuDifficulty?: CpuDifficulty;
   onExit?: () => void;
 }) {
 
+  const spellRuntimeStateRef = useRef<SpellRuntimeState>({});
+
   const { state, derived, refs, actions } = useThreeWheelGame({
     localSide,
     localPlayerId,
@@ -303,7 +340,14 @@ export default function ThreeWheel_WinsOnly({
     targetWins,
     gameMode,
     easyMode,
+    laneCount: laneCountSetting,
+    wheelTemplates,
+    slice0Rule: slice0RuleSetting,
+    tieBreak,
+    rules: rulesSetting,
+    grimoires,
     cpuDifficulty,
+    spellRuntimeState: spellRuntimeStateRef,
     onExit,
   });
   // --- from hook
@@ -324,21 +368,38 @@ export default function ThreeWheel_WinsOnly({
     handClearance,
     wheelSize,
     wheelSections,
+    wheelSlices,
     tokens,
+    wheelLocks,
+    pointerShifts,
+    rules,
+    slice0Rule,
+    carryOver,
+    statusEffects,
     active,
     wheelHUD,
     assign,
+    splitChoices,
+    splitFacePrompt,
     dragCardId,
     dragOverWheel,
     selectedCardId,
     reserveSums,
+    reserveChoices,
+    reserveCards,
     isPtrDragging,
     ptrDragCard,
     ptrDragType,
     lockedWheelSize,
     log,
     spellHighlights,
+    mana,
+    spellStack,
+    reactionWindow,
+    spellCasts,
+    spellCombo,
     skill,
+    replay,
   } = state;
 
   const {
@@ -348,6 +409,7 @@ export default function ThreeWheel_WinsOnly({
     HUD_COLORS,
     winGoal,
     isMultiplayer,
+    laneCount,
     localWinsCount,
     remoteWinsCount,
     localWon,
@@ -368,11 +430,15 @@ export default function ThreeWheel_WinsOnly({
     startPointerDrag,
     startTouchDrag,
     assignToWheelLocal,
+    chooseSplitFace,
+    toggleReserveCard,
     handleRevealClick,
     handleNextClick: handleNextClickBase,
     handleRematchClick,
     handleExitClick,
-    applySpellEffects,
+    declareSpell,
+    passReaction,
+    previewSpell,
     setAnteBet,
     useSkillAbility: useSkillAbilityBase,
   } = actions;
@@ -387,39 +453,36 @@ export default function ThreeWheel_WinsOnly({
   const isSkillMode = activeGameModes.includes("skill") || hookSkillMode;
   const skillUiEnabled = isSkillMode && skill.enabled;
   const effectiveGameMode = activeGameModes.length > 0 ? activeGameModes.join("+") : "classic";
-  const spellRuntimeStateRef = useRef<SpellRuntimeState>({});
-
   const [cpuSpellResponseTick, setCpuSpellResponseTick] = useState(0);
   const [cpuSkillResponseTick, setCpuSkillResponseTick] = useState(0);
 
-  const applySpellEffectsWithAi = useCallback(
-    (payload: SpellEffectPayload, options?: { broadcast?: boolean }) => {
-      applySpellEffects(payload, options);
-      if (
-        !isMultiplayer &&
-        isGrimoireMode &&
-        payload.caster === localLegacySide &&
-        remoteLegacySide !== localLegacySide
-      ) {
-        setCpuSpellResponseTick((tick) => tick + 1);
-      }
-    },
-    [
-      applySpellEffects,
-      isGrimoireMode,
-      isMultiplayer,
-      localLegacySide,
-      remoteLegacySide,
-    ],
-  );
-
+  // Cast spells wait on the stack so the other side can react before they apply.
   const handleApplySpellEffects = useCallback(
-    (payload: SpellEffectPayload) => {
-      applySpellEffectsWithAi(payload);
+    (payload: SpellEffectPayload, descriptor: PendingSpellDescriptor) => {
+      declareSpell(createSpellStackEntry(descriptor, payload));
     },
-    [applySpellEffectsWithAi],
+    [declareSpell],
   );
 
+  // Once a stack the player started has resolved, the CPU gets its usual answer.
+  const stackBottomSideRef = useRef<LegacySide | null>(null);
+  useEffect(() => {
+    if (spellStack.length > 0) {
+      stackBottomSideRef.current = spellStack[0].side;
+      return;
+    }
+    const bottomSide = stackBottomSideRef.current;
+    stackBottomSideRef.current = null;
+    if (
+      bottomSide === localLegacySide &&
+      !isMultiplayer &&
+      isGrimoireMode &&
+      remoteLegacySide !== localLegacySide
+    ) {
+      setCpuSpellResponseTick((tick) => tick + 1);
+    }
+  }, [isGrimoireMode, isMultiplayer, localLegacySide, remoteLegacySide, spellStack]);
+
   const localGrimoireSpellIds = useMemo<SpellId[]>(() => {
     try {
       return getProfileBundle().grimoire?.spellIds ?? [];
@@ -428,6 +491,14 @@ export default function ThreeWheel_WinsOnly({
     }
   }, []);
 
+  const localGrimoireSymbols = useMemo<GrimoireSymbols | null>(() => {
+    try {
+      return getProfileBundle().grimoire?.symbols ?? null;
+    } catch {
+      return null;
+    }
+  }, []);
+
   const onboardingBootstrapRef = useRef<OnboardingState | null>(null);
   if (onboardingBootstrapRef.current === null) {
     onboardingBootstrapRef.current = getOnboardingState();
@@ -439,10 +510,6 @@ export default function ThreeWheel_WinsOnly({
     onboardingBootstrapRef.current.dismissed,
   );
 
-  const [manaPools, setManaPools] = useState<SideState<number>>({ player: 0, enemy: 0 });
-  const localMana = manaPools[localLegacySide];
-  const lastManaAwardedRoundRef = useRef<number | null>(null);
-
   const [showGrimoire, setShowGrimoire] = useState(false);
   const closeGrimoire = useCallback(() => setShowGrimoire(false), [setShowGrimoire]);
 
@@ -645,8 +712,16 @@ export default function ThreeWheel_WinsOnly({
     });
   }, []);
 
-  const casterFighter = localLegacySide === "player" ? player : enemy;
-  const opponentFighter = localLegacySide === "player" ? enemy : player;
+  // Spells and skills that reach into the hand only see each side's reserve cards.
+  const reserveFighters = useMemo<SideState<Fighter>>(
+    () => ({
+      player: { ...player, hand: reserveCards.player },
+      enemy: { ...enemy, hand: reserveCards.enemy },
+    }),
+    [enemy, player, reserveCards],
+  );
+  const casterFighter = reserveFighters[localLegacySide];
+  const opponentFighter = reserveFighters[remoteLegacySide];
 
   const localAnteValue = ante?.bets?.[localLegacySide] ?? 0;
   const remoteAnteValue = ante?.bets?.[remoteLegacySide] ?? 0;
@@ -655,26 +730,43 @@ export default function ThreeWheel_WinsOnly({
 
   const {
     pendingSpell,
+    spellPreview,
     phaseBeforeSpell,
     awaitingSpellTarget,
+    heldMana,
     handleSpellActivate,
     handlePendingSpellCancel,
     handleSpellTargetSelect,
     handleWheelTargetSelect,
+    handleSectionTargetSelect,
     handleOptionalStageSkip,
+    confirmSpellPreview,
+    cancelSpellPreview,
   } = useSpellCasting({
     caster: casterFighter,
     opponent: opponentFighter,
     phase: basePhase,
     localSide: localLegacySide,
-    localMana,
+    localMana: mana[localLegacySide],
     applySpellEffects: handleApplySpellEffects,
-    setManaPools,
     runtimeStateRef: spellRuntimeStateRef,
     closeGrimoire,
     isWheelActive,
+    spellStackOpen: spellStack.length > 0,
+    canReact: reactionWindow?.responder === localLegacySide,
+    previewSpell,
+    castHistory: spellCasts,
+    round,
+    seed,
   });
 
+  // A spell being targeted or previewed already counts against the mana on show.
+  const manaPools = useMemo<SideState<number>>(
+    () => ({ ...mana, [localLegacySide]: mana[localLegacySide] - heldMana }),
+    [heldMana, localLegacySide, mana],
+  );
+  const localMana = manaPools[localLegacySide];
+
   const [spellTargetingSide, setSpellTargetingSide] = useState<LegacySide | null>(null);
 
   useEffect(() => {
@@ -690,24 +782,15 @@ export default function ThreeWheel_WinsOnly({
     phaseForLogic === "skill" ? "roundEnd" : phaseForLogic;
   const phase: Phase = spellTargetingSide ? "spellTargeting" : basePhase;
   const castCpuSpell = useCallback(
-    (decision: CpuSpellDecision) => {
-      if (isMultiplayer) return;
+    (decision: CpuSpellDecision): boolean => {
+      if (isMultiplayer) return false;
       const cpuSide = remoteLegacySide;
-      if (cpuSide === localLegacySide) return;
+      if (cpuSide === localLegacySide) return false;
 
-      const caster = cpuSide === "player" ? player : enemy;
-      const opponent = cpuSide === "player" ? enemy : player;
+      const caster = reserveFighters[cpuSide];
+      const opponent = reserveFighters[localLegacySide];
 
-      const availableMana = manaPools[cpuSide];
-      if (availableMana < decision.cost) return;
-
-      setManaPools((current) => {
-        const currentMana = current[cpuSide];
-        if (currentMana < decision.cost) return current;
-        const next = { ...current } as SideState<number>;
-        next[cpuSide] = currentMana - decision.cost;
-        return next;
-      });
+      if (mana[cpuSide] < decision.cost) return false;
 
       let pending: PendingSpellDescriptor | null = {
         side: cpuSide,
@@ -732,6 +815,7 @@ export default function ThreeWheel_WinsOnly({
           phase: phaseForLogic,
           runtimeState: spellRuntimeStateRef.current,
           targetOverride: overrideTarget,
+          rng: createSpellRng(seed, cpuSide, decision.spell.id, spellCasts),
         });
 
         if (result.outcome === "requiresTarget") {
@@ -740,110 +824,106 @@ export default function ThreeWheel_WinsOnly({
             pending = result.pendingSpell;
             continue;
           }
-
-          setManaPools((current) => {
-            const next = { ...current } as SideState<number>;
-            next[cpuSide] = current[cpuSide] + decision.cost;
-            return next;
-          });
-          return;
+          return false;
         }
 
         if (result.outcome === "error") {
           console.error("CPU spell failed", result.error);
-          setManaPools((current) => {
-            const next = { ...current } as SideState<number>;
-            next[cpuSide] = current[cpuSide] + decision.cost;
-            return next;
-          });
-          return;
-        }
-
-        if (result.manaRefund && result.manaRefund > 0) {
-          setManaPools((current) => {
-            const next = { ...current } as SideState<number>;
-            next[cpuSide] = current[cpuSide] + result.manaRefund!;
-            return next;
-          });
-        }
-
-        if (result.payload) {
-          applySpellEffectsWithAi(result.payload, { broadcast: false });
+          return false;
         }
 
-        pending = null;
+        if (!result.payload) return false;
+        declareSpell(createSpellStackEntry(pending, result.payload));
+        return true;
       }
+      return false;
     },
     [
-      applySpellEffectsWithAi,
-      enemy,
+      declareSpell,
       isMultiplayer,
       localLegacySide,
-      manaPools,
+      mana,
       phaseForLogic,
-      player,
       remoteLegacySide,
-      setManaPools,
+      reserveFighters,
+      seed,
+      spellCasts,
       spellRuntimeStateRef,
     ],
   );
 
-  const attemptCpuSpell = useCallback(() => {
-    if (isMultiplayer || !isGrimoireMode) return;
+  /** Lets the CPU cast, or answer the spell on top of the stack; true when it did. */
+  const attemptCpuSpell = useCallback((): boolean => {
+    if (isMultiplayer || !isGrimoireMode) return false;
     const cpuSide = remoteLegacySide;
-    if (cpuSide === localLegacySide) return;
-    if (phaseForLogic === "ended") return;
+    if (cpuSide === localLegacySide) return false;
+    if (phaseForLogic === "ended") return false;
+    const reacting = reactionWindow?.responder === cpuSide;
+    if (spellStack.length > 0 && !reacting) return false;
 
     const caster = cpuSide === "player" ? player : enemy;
     const opponent = cpuSide === "player" ? enemy : player;
-    const mana = manaPools[cpuSide];
-    if (mana <= 0) return;
+    const cpuMana = mana[cpuSide];
+    if (cpuMana <= 0) return false;
 
     const learned = getLearnedSpellsForFighter(caster);
-    if (!learned || learned.length === 0) return;
+    if (!learned || learned.length === 0) return false;
 
     const spellbook: SpellId[] = learned.map((spell) => spell.id as SpellId);
-    if (spellbook.length === 0) return;
+    if (spellbook.length === 0) return false;
 
     const handSymbols = countSymbolsFromCards(caster.hand);
     const visibleSpellIds = getVisibleSpellsForHand(handSymbols, spellbook);
-    if (visibleSpellIds.length === 0) return;
+    if (visibleSpellIds.length === 0) return false;
 
-    const visibleSpells = getSpellDefinitions(visibleSpellIds);
+    // The CPU's ranks come from the symbols its deck was built from.
+    const cpuSymbols = countFighterSymbols(caster);
+    const visibleSpells = getSpellDefinitions(visibleSpellIds).map((spell) => getSpellForGrimoire(spell, cpuSymbols));
 
-    const affordableSpells: Array<{ spell: SpellDefinition; cost: number }> = [];
-    const deferredSpells: Array<{ spell: SpellDefinition; cost: number }> = [];
+    const affordableSpells: CpuSpellCandidate[] = [];
+    const deferredSpells: CpuSpellCandidate[] = [];
 
     visibleSpells.forEach((spell) => {
-      const allowedPhases = spell.allowedPhases ?? ["choose"];
-      if (!allowedPhases.includes(normalizedPhaseForSpells)) return;
+      const block = getSpellCastBlock(spell, spellCasts, cpuSide, round);
+      if (block?.kind === "spent") return;
+      // Reactions only answer the stack; everything else waits for its phase and an empty stack.
+      if (spell.reaction) {
+        if (!reacting) return;
+      } else {
+        const allowedPhases = spell.allowedPhases ?? ["choose"];
+        if (reacting || !allowedPhases.includes(normalizedPhaseForSpells)) return;
+      }
       const cost = computeSpellCost(spell, {
         caster,
         opponent,
         phase: phaseForLogic,
         runtimeState: spellRuntimeStateRef.current,
       });
-      const entry = { spell, cost };
-      if (cost <= mana) {
+      const entry: CpuSpellCandidate = { spell, cost, readyIn: block?.rounds ?? 0 };
+      if (cost <= cpuMana) {
         affordableSpells.push(entry);
       } else {
         deferredSpells.push(entry);
       }
     });
 
-    if (affordableSpells.length === 0) return;
+    if (affordableSpells.length === 0) return false;
 
     const decision = chooseCpuSpellResponse({
       casterSide: cpuSide,
-      caster,
-      opponent,
+      caster: reserveFighters[cpuSide],
+      opponent: reserveFighters[localLegacySide],
       board: assign,
       reserveSums,
       initiative,
       availableSpells: affordableSpells,
+      wheels: { sections: wheelSections, slices: wheelSlices, tokens },
+      spellStack: reacting ? spellStack : undefined,
+      mana: cpuMana,
+      comboChain: getComboChain(spellCombo, cpuSide, { round, phase: basePhase }),
     });
 
-    if (!decision) return;
+    if (!decision) return false;
 
     if (deferredSpells.length > 0) {
       const minDeferredCost = deferredSpells.reduce(
@@ -855,30 +935,51 @@ export default function ThreeWheel_WinsOnly({
         if (
           cheapThreshold > 0 &&
           decision.cost <= cheapThreshold &&
-          mana - decision.cost < minDeferredCost
+          cpuMana - decision.cost < minDeferredCost
         ) {
-          return;
+          return false;
         }
       }
     }
 
-    castCpuSpell(decision);
+    return castCpuSpell(decision);
   }, [
     assign,
+    basePhase,
     castCpuSpell,
     enemy,
     initiative,
     isGrimoireMode,
     isMultiplayer,
     localLegacySide,
-    manaPools,
+    mana,
     phaseForLogic,
     player,
+    reactionWindow,
     remoteLegacySide,
+    reserveFighters,
     reserveSums,
+    round,
+    spellCasts,
+    spellCombo,
     spellRuntimeStateRef,
+    spellStack,
+    tokens,
+    wheelSections,
+    wheelSlices,
   ]);
 
+  // The CPU answers spells put on the stack against it, or lets them resolve.
+  useEffect(() => {
+    if (isMultiplayer || reactionWindow?.responder !== remoteLegacySide) return;
+    const timeout = window.setTimeout(() => {
+      if (!attemptCpuSpell()) passReaction(remoteLegacySide);
+    }, 700);
+    return () => {
+      window.clearTimeout(timeout);
+    };
+  }, [attemptCpuSpell, isMultiplayer, passReaction, reactionWindow, remoteLegacySide]);
+
   const attemptCpuSkill = useCallback(async () => {
     if (!skillUiEnabled || isMultiplayer) return;
     if (phaseForLogic !== "skill") return;
@@ -890,8 +991,8 @@ export default function ThreeWheel_WinsOnly({
       side: cpuSide,
       board: assign,
       skillLanes: skill.lanes[cpuSide] ?? [],
-      fighter: cpuSide === "player" ? player : enemy,
-      opponent: cpuSide === "player" ? enemy : player,
+      fighter: reserveFighters[cpuSide],
+      opponent: reserveFighters[localLegacySide],
     });
 
     if (!decision) return;
@@ -899,12 +1000,11 @@ export default function ThreeWheel_WinsOnly({
     await useSkillAbilityBase(cpuSide, decision.laneIndex, decision.target);
   }, [
     assign,
-    enemy,
     isMultiplayer,
     localLegacySide,
     phaseForLogic,
-    player,
     remoteLegacySide,
+    reserveFighters,
     skill,
     skillUiEnabled,
     useSkillAbilityBase,
@@ -976,8 +1076,11 @@ export default function ThreeWheel_WinsOnly({
   }, [isGrimoireMode, phaseForLogic, round, spellLock]);
 
   const localSpellDefinitions = useMemo<SpellDefinition[]>(
-    () => getSpellDefinitions(localSpellIds),
-    [localSpellIds]
+    () =>
+      getSpellDefinitions(localSpellIds).map((spell) =>
+        localGrimoireSymbols ? getSpellForGrimoire(spell, localGrimoireSymbols) : spell,
+      ),
+    [localGrimoireSymbols, localSpellIds]
   );
 
   const handleNextClick = useCallback(() => {
@@ -995,11 +1098,37 @@ export default function ThreeWheel_WinsOnly({
     [casterFighter, opponentFighter, phaseForLogic]
   );
 
+  const localReactions = useMemo(
+    () =>
+      localSpellDefinitions
+        .filter((spell) => spell.reaction)
+        .map((spell) => {
+          const cost = getSpellCost(spell);
+          const ready = !getSpellCastBlock(spell, spellCasts, localLegacySide, round);
+          return { spell, cost, affordable: ready && cost <= localMana };
+        }),
+    [getSpellCost, localLegacySide, localMana, localSpellDefinitions, round, spellCasts],
+  );
+  const localCanReact = localReactions.some((entry) => entry.affordable);
 
-  const wheelDamage = useMemo(() => createWheelSideState(0), []);
-  const wheelMirror = useMemo(() => createWheelSideState(false), []);
-  const wheelLocks = useMemo(() => createWheelLockState(), []);
-  const pointerShifts = useMemo(() => createPointerShiftState(), []);
+  const comboChains = useMemo<SideState<Arcana[]>>(
+    () => ({
+      player: getComboChain(spellCombo, "player", { round, phase: basePhase }),
+      enemy: getComboChain(spellCombo, "enemy", { round, phase: basePhase }),
+    }),
+    [basePhase, round, spellCombo],
+  );
+
+  // Nothing to answer with: let the spell through rather than wait out the window.
+  useEffect(() => {
+    if (reactionWindow?.responder === localLegacySide && !localCanReact) {
+      passReaction(localLegacySide);
+    }
+  }, [localCanReact, localLegacySide, passReaction, reactionWindow]);
+
+
+  const wheelDamage = useMemo(() => createWheelSideState(laneCount, 0), [laneCount]);
+  const wheelMirror = useMemo(() => createWheelSideState(laneCount, false), [laneCount]);
   const reservePenalties = useMemo(() => createReservePenaltyState(), []);
   const wheelPanelLayout = useMemo(
     () => getWheelPanelLayout(wheelSize, lockedWheelSize),
@@ -1137,30 +1266,6 @@ export default function ThreeWheel_WinsOnly({
     };
   }, [showGrimoire, updateGrimoirePosition]);
 
-  useEffect(() => {
-    if (!(
-      phaseForLogic === "skill" || phaseForLogic === "roundEnd" || phaseForLogic === "ended"
-    )) {
-      return;
-    }
-    if (!reserveSums) {
-      return;
-    }
-    if (lastManaAwardedRoundRef.current === round) {
-      return;
-    }
-    lastManaAwardedRoundRef.current = round;
-    const playerGain = Math.ceil(reserveSums.player / 2);
-    const enemyGain = Math.ceil(reserveSums.enemy / 2);
-    if (playerGain === 0 && enemyGain === 0) {
-      return;
-    }
-    setManaPools((current) => ({
-      player: current.player + playerGain,
-      enemy: current.enemy + enemyGain,
-    }));
-  }, [phaseForLogic, reserveSums, round]);
-
   useEffect(() => {
     if (!isAnteMode) {
       setShowAnte(false);
@@ -1269,8 +1374,12 @@ export default function ThreeWheel_WinsOnly({
 
   const xpProgressPercent = xpDisplay ? Math.min(100, xpDisplay.percent * 100) : 0;
   const [victoryCollapsed, setVictoryCollapsed] = useState(false);
+  const [showReplay, setShowReplay] = useState(false);
   useEffect(() => {
-    if (phase !== "ended") setVictoryCollapsed(false);
+    if (phase !== "ended") {
+      setVictoryCollapsed(false);
+      setShowReplay(false);
+    }
   }, [phase]);
 
   const rootModeClassName = [
@@ -1302,6 +1411,10 @@ export default function ThreeWheel_WinsOnly({
             return activeTargetStage.scope === "any"
               ? "Select any wheel."
               : "Select the current wheel.";
+          case "section":
+            return activeTargetStage.scope === "any"
+              ? "Select a section on any wheel."
+              : "Select a section on the current wheel.";
           case "card": {
             const ownerText =
               activeTargetStage.ownership === "ally"
@@ -1414,12 +1527,11 @@ export default function ThreeWheel_WinsOnly({
         : skillTargeting.spec.kind === "reserveThenLane"
           ? skillTargeting.spec.requirePositiveReserve
           : undefined;
-    const cards = localLegacySide === "player" ? player.hand : enemy.hand;
-    const allowed = cards.filter((card) =>
+    const allowed = reserveCards[localLegacySide].filter((card) =>
       requiresPositiveReserve ? isReserveBoostTarget(card) : true,
     );
     return new Set(allowed.map((card) => card.id));
-  }, [enemy.hand, localLegacySide, player.hand, skillTargeting, skillUiEnabled]);
+  }, [localLegacySide, reserveCards, skillTargeting, skillUiEnabled]);
 
   const skillTargetableLaneIndexes = useMemo(() => {
     if (!skillUiEnabled || !skillTargeting || skillTargeting.side !== localLegacySide)
@@ -1672,6 +1784,29 @@ export default function ThreeWheel_WinsOnly({
         ) : null}
       </AnimatePresence>
 
+      {reactionWindow && spellStack.length > 0 ? (
+        <ReactionPrompt
+          top={spellStack[spellStack.length - 1]}
+          casterName={namesByLegacy[spellStack[spellStack.length - 1].side]}
+          responderName={namesByLegacy[reactionWindow.responder]}
+          responding={reactionWindow.responder === localLegacySide}
+          expiresAt={reactionWindow.expiresAt}
+          reactions={localReactions}
+          onReact={handleSpellActivate}
+          onPass={() => passReaction(localLegacySide)}
+        />
+      ) : null}
+
+      {spellPreview ? (
+        <SpellPreviewPanel
+          spell={spellPreview.descriptor.spell}
+          preview={spellPreview.preview}
+          namesByLegacy={namesByLegacy}
+          onConfirm={confirmSpellPreview}
+          onCancel={cancelSpellPreview}
+        />
+      ) : null}
+
       {isAwaitingSpellTarget && pendingSpell ? (
         <div className="pointer-events-none fixed inset-x-0 top-20 z-[90] flex justify-center px-3">
           <div className="pointer-events-auto w-full max-w-sm rounded-xl border border-sky-500/60 bg-slate-900/95 px-3 py-2 shadow-2xl">
@@ -1682,7 +1817,7 @@ export default function ThreeWheel_WinsOnly({
               <div className="flex flex-col items-end gap-1">
                 <button
                   type="button"
-                  onClick={() => handlePendingSpellCancel(true)}
+                  onClick={() => handlePendingSpellCancel()}
                   className="rounded border border-slate-600 px-2.5 py-1 text-[11px] text-slate-200 transition hover:border-slate-400 hover:text-white"
                 >
                   Cancel spell
@@ -1852,11 +1987,13 @@ export default function ThreeWheel_WinsOnly({
                     First to <span className="font-semibold">{winGoal}</span> wins takes the match.
                   </div>
                   <ul className="list-disc pl-5 space-y-1">
-                    <li>💥 Strongest — higher value wins</li>
-                    <li>🦊 Weakest — lower value wins</li>
-                    <li>🗃️ Reserve — highest reserve wins</li>
-                    <li>🎯 Closest — value closest to target wins</li>
-                    <li>⚑ Initiative — initiative (⚑) holder wins</li>
+                    {listVictoryConditions()
+                      .filter((vc) => vc.inRotation)
+                      .map((vc) => (
+                        <li key={vc.id}>
+                          {vc.icon} {vc.label} — {vc.explain}
+                        </li>
+                      ))}
                     <li><span className="font-semibold">0 Start</span> — no one wins</li>
                   </ul>
                   {isGrimoireMode && (
@@ -1984,10 +2121,13 @@ export default function ThreeWheel_WinsOnly({
                             <ul className="space-y-2">
                               {localSpellDefinitions.map((spell) => {
                                 const allowedPhases = spell.allowedPhases ?? ["choose"];
-                                const phaseAllowed = allowedPhases.includes(normalizedPhaseForSpells);
+                                const phaseAllowed = spell.reaction
+                                  ? reactionWindow?.responder === localLegacySide
+                                  : spellStack.length === 0 && allowedPhases.includes(normalizedPhaseForSpells);
                                 const effectiveCost = getSpellCost(spell);
                                 const canAfford = localMana >= effectiveCost;
-                                const disabled = !phaseAllowed || !canAfford || !!pendingSpell;
+                                const castBlock = getSpellCastBlock(spell, spellCasts, localLegacySide, round);
+                                const disabled = !phaseAllowed || !canAfford || !!castBlock || !!pendingSpell;
 
                                 return (
                                   <li key={spell.id}>
@@ -2007,15 +2147,37 @@ export default function ThreeWheel_WinsOnly({
       <div className="flex items-center gap-1 font-semibold text-[13px] text-slate-100">
         {spell.icon ? <span aria-hidden>{spell.icon}</span> : null}
         <span>{spell.name}</span>
+        {spell.rank && spell.rank > 1 ? (
+          <span className="rounded bg-amber-400/15 px-1 text-[10px] font-medium text-amber-200" title={`Rank ${spell.rank}`}>
+            R{spell.rank}
+          </span>
+        ) : null}
       </div>
-      <div className="flex items-center gap-1 text-[11px] text-sky-200">
-        <span aria-hidden className="text-[14px] leading-none">🔹</span>
-        <span>{effectiveCost}</span>
+      <div className="flex items-center gap-2 text-[11px]">
+        {castBlock ? (
+          <span className="text-amber-200" title={castBlock.kind === "spent" ? "Already used this match" : `Ready in ${castBlock.rounds} round${castBlock.rounds === 1 ? "" : "s"}`}>
+            {describeSpellCastBlock(castBlock)}
+          </span>
+        ) : null}
+        <span className="flex items-center gap-1 text-sky-200">
+          <span aria-hidden className="text-[14px] leading-none">🔹</span>
+          <span>{effectiveCost}</span>
+        </span>
       </div>
     </div>
+    {spell.ultimate || spell.cooldown ? (
+      <div className="mt-0.5 text-[10px] uppercase tracking-wide text-amber-300/80">
+        {spell.ultimate ? "Ultimate · once per match" : `Cooldown ${spell.cooldown} round${spell.cooldown === 1 ? "" : "s"}`}
+      </div>
+    ) : null}
 
     <div className="mt-1 space-y-0.5 text-[11px] leading-snug text-slate-300">
       <SpellDescription description={spell.description} />
+      {spell.ranks?.slice(1, spell.rank ?? 1).map((ranked) => (
+        <div key={ranked.rank} className="text-amber-200/90">
+          Rank {ranked.rank}: {ranked.rankDescription}
+        </div>
+      ))}
     </div>
 
   </button>
@@ -2053,10 +2215,13 @@ export default function ThreeWheel_WinsOnly({
                             <ul className="space-y-2">
                               {localSpellDefinitions.map((spell) => {
                                 const allowedPhases = spell.allowedPhases ?? ["choose"];
-                                const phaseAllowed = allowedPhases.includes(normalizedPhaseForSpells);
+                                const phaseAllowed = spell.reaction
+                                  ? reactionWindow?.responder === localLegacySide
+                                  : spellStack.length === 0 && allowedPhases.includes(normalizedPhaseForSpells);
                                 const effectiveCost = getSpellCost(spell);
                                 const canAfford = localMana >= effectiveCost;
-                                const disabled = !phaseAllowed || !canAfford || !!pendingSpell;
+                                const castBlock = getSpellCastBlock(spell, spellCasts, localLegacySide, round);
+                                const disabled = !phaseAllowed || !canAfford || !!castBlock || !!pendingSpell;
 
                                 return (
                                   <li key={spell.id}>
@@ -2076,15 +2241,37 @@ export default function ThreeWheel_WinsOnly({
       <div className="flex items-center gap-1 font-semibold text-[13px] text-slate-100">
         {spell.icon ? <span aria-hidden>{spell.icon}</span> : null}
         <span>{spell.name}</span>
+        {spell.rank && spell.rank > 1 ? (
+          <span className="rounded bg-amber-400/15 px-1 text-[10px] font-medium text-amber-200" title={`Rank ${spell.rank}`}>
+            R{spell.rank}
+          </span>
+        ) : null}
       </div>
-      <div className="flex items-center gap-1 text-[11px] text-sky-200">
-        <span aria-hidden className="text-[14px] leading-none">🔹</span>
-        <span>{effectiveCost}</span>
+      <div className="flex items-center gap-2 text-[11px]">
+        {castBlock ? (
+          <span className="text-amber-200" title={castBlock.kind === "spent" ? "Already used this match" : `Ready in ${castBlock.rounds} round${castBlock.rounds === 1 ? "" : "s"}`}>
+            {describeSpellCastBlock(castBlock)}
+          </span>
+        ) : null}
+        <span className="flex items-center gap-1 text-sky-200">
+          <span aria-hidden className="text-[14px] leading-none">🔹</span>
+          <span>{effectiveCost}</span>
+        </span>
       </div>
     </div>
+    {spell.ultimate || spell.cooldown ? (
+      <div className="mt-0.5 text-[10px] uppercase tracking-wide text-amber-300/80">
+        {spell.ultimate ? "Ultimate · once per match" : `Cooldown ${spell.cooldown} round${spell.cooldown === 1 ? "" : "s"}`}
+      </div>
+    ) : null}
 
     <div className="mt-1 space-y-0.5 text-[11px] leading-snug text-slate-300">
       <SpellDescription description={spell.description} />
+      {spell.ranks?.slice(1, spell.rank ?? 1).map((ranked) => (
+        <div key={ranked.rank} className="text-amber-200/90">
+          Rank {ranked.rank}: {ranked.rankDescription}
+        </div>
+      ))}
     </div>
 
   </button>
@@ -2110,6 +2297,8 @@ export default function ThreeWheel_WinsOnly({
       <div className="relative z-10 mb-3 sm:mb-4">
         <HUDPanels
           manaPools={manaPools}
+          manaCap={rules.manaCap}
+          comboChains={isGrimoireMode ? comboChains : undefined}
           isGrimoireMode={isGrimoireMode}
           reserveSums={reserveSums}
           players={players}
@@ -2124,6 +2313,7 @@ export default function ThreeWheel_WinsOnly({
         playerManaButtonRef={playerManaButtonRef}
         reserveSpellHighlights={reserveSpellHighlights}
         skillReserveEmojis={skillReserveEmojis}
+        statusEffects={statusEffects}
       />
       </div>
 
@@ -2137,11 +2327,12 @@ export default function ThreeWheel_WinsOnly({
           className="mx-auto flex h-full flex-col items-center justify-center gap-0 rounded-xl border border-transparent p-2 shadow"
           style={wheelPanelContainerStyle}
         >
-          {[0, 1, 2].map((i) => (
+          {laneIndexes(laneCount).map((i) => (
             <div key={i} className={i === 0 ? undefined : "-mt-3 md:-mt-4"}>
               <WheelPanel
                 index={i}
                 assign={assign}
+                splitChoices={splitChoices}
                 namesByLegacy={namesByLegacy}
                 wheelSize={wheelSize}
                 lockedWheelSize={lockedWheelSize}
@@ -2149,6 +2340,9 @@ export default function ThreeWheel_WinsOnly({
                 wheelMirror={wheelMirror[i]}
                 wheelLocked={wheelLocks[i]}
                 pointerShift={pointerShifts[i]}
+                slice0Rule={slice0Rule}
+                carryOver={carryOver[i]}
+                statusEffects={statusEffects}
                 reservePenalties={reservePenalties}
                 selectedCardId={selectedCardId}
                 setSelectedCardId={setSelectedCardId}
@@ -2164,6 +2358,7 @@ export default function ThreeWheel_WinsOnly({
                 isWheelActive={active[i]}
                 wheelRef={wheelRefs[i]}
                 wheelSection={wheelSections[i]}
+                wheelSlices={wheelSlices[i]}
                 hudColors={HUD_COLORS}
                 theme={THEME}
                 initiativeOverride={initiativeOverride}
@@ -2171,8 +2366,10 @@ export default function ThreeWheel_WinsOnly({
                 startTouchDrag={startTouchDrag}
                 wheelHudColor={wheelHUD[i]}
                 pendingSpell={pendingSpell}
+                spellPreview={spellPreview?.preview.lanes[i] ?? null}
                 onSpellTargetSelect={handleSpellTargetSelect}
                 onWheelTargetSelect={handleWheelTargetSelect}
+                onSectionTargetSelect={handleSectionTargetSelect}
                 isAwaitingSpellTarget={isAwaitingSpellTarget}
                 variant="grouped"
                 spellHighlightedCardIds={spellHighlightedCardIds}
@@ -2219,6 +2416,9 @@ export default function ThreeWheel_WinsOnly({
         skillTargeting={skillTargetingForChildren}
         skillTargetableReserveIds={skillTargetableReserveIds}
         onSkillTargetSelect={handleSkillReserveTarget}
+        reserveCardIds={reserveCards[localLegacySide].map((card) => card.id)}
+        chosenReserveIds={reserveChoices[localLegacySide]}
+        onToggleReserve={toggleReserveCard}
         numberColorMode={numberColorMode}
       />
 
@@ -2236,6 +2436,15 @@ export default function ThreeWheel_WinsOnly({
         onAdvance={handleCoachAdvance}
       />
 
+      {splitFacePrompt && assign[localLegacySide][splitFacePrompt.lane] && (
+        <SplitFaceChooser
+          card={assign[localLegacySide][splitFacePrompt.lane]!}
+          lane={splitFacePrompt.lane}
+          currentFace={splitChoices[splitFacePrompt.cardId]}
+          onChoose={(face) => chooseSplitFace(splitFacePrompt.cardId, face)}
+        />
+      )}
+
       {/* Ended overlay (banner + modal) */}
       {phase === "ended" && (
         <VictoryOverlay
@@ -2259,8 +2468,13 @@ export default function ThreeWheel_WinsOnly({
           rematchStatusText={rematchStatusText}
           onExitClick={handleExitClick}
           onExit={onExit}
+          onWatchReplay={replay ? () => setShowReplay(true) : undefined}
         />
       )}
+
+      {phase === "ended" && showReplay && replay && (
+        <ReplayViewer replay={replay} onClose={() => setShowReplay(false)} />
+      )}
     </div>
   );
 }
@@ -11,6 +11,20 @@ import {
   DEFAULT_CPU_DIFFICULTY,
   type CpuDifficulty,
 } from "./game/ai/cpuDifficulty";
+import { DEFAULT_LANE_COUNT } from "./game/lanes";
+import {
+  DEFAULT_WHEEL_SET,
+  resolveWheelTemplates,
+  type WheelSetChoice,
+  type WheelTemplate,
+} from "./game/wheel";
+import { listWheelTemplates } from "./player/wheelTemplateStore";
+import WheelEditorPage from "./WheelEditorPage";
+import { DEFAULT_SLICE0_RULE, type Slice0Rule } from "./game/slice0Rules";
+import { DEFAULT_TIE_BREAK, type TieBreakRule } from "./game/tieBreakers";
+import { CLASSIC_RULES, type RulesConfig } from "./game/rules";
+import { withRulesetTemplates } from "./game/rulesetCode";
+import type { MatchGrimoire } from "./game/grimoire";
 
 type MPStartPayload = Parameters<
   NonNullable<React.ComponentProps<typeof MultiplayerRoute>["onStart"]>
@@ -22,6 +36,7 @@ type View =
   | { key: "hub" }
   | { key: "mp" }
   | { key: "profile" }
+  | { key: "wheelEditor" }
   | { key: "modeSelect"; from: "hub" | "mp"; next: GameView }
   | GameView;
 
@@ -34,6 +49,12 @@ export default function AppShell() {
   const [cpuDifficulty, setCpuDifficulty] = useState<CpuDifficulty>(
     DEFAULT_CPU_DIFFICULTY,
   );
+  const [laneCount, setLaneCount] = useState<number>(DEFAULT_LANE_COUNT);
+  const [wheelSet, setWheelSet] = useState<WheelSetChoice>(DEFAULT_WHEEL_SET);
+  const [wheelTemplates, setWheelTemplates] = useState<WheelTemplate[] | undefined>(undefined);
+  const [slice0Rule, setSlice0Rule] = useState<Slice0Rule>(DEFAULT_SLICE0_RULE);
+  const [tieBreak, setTieBreak] = useState<TieBreakRule>(DEFAULT_TIE_BREAK);
+  const [rules, setRules] = useState<RulesConfig>(CLASSIC_RULES);
 
   if (view.key === "hub") {
     return (
@@ -43,6 +64,7 @@ export default function AppShell() {
         }
         onMultiplayer={() => setView({ key: "mp" })}
         onProfile={() => setView({ key: "profile" })}
+        onWheelEditor={() => setView({ key: "wheelEditor" })}
       />
     );
   }
@@ -54,6 +76,11 @@ export default function AppShell() {
         onStart={(payload) => {
           setGameMode(normalizeGameMode(payload.gameMode));
           setEasyMode(payload.easyMode);
+          setLaneCount(payload.laneCount);
+          setWheelTemplates(payload.wheelTemplates);
+          setSlice0Rule(payload.slice0Rule);
+          setTieBreak(payload.tieBreak);
+          setRules(payload.rules);
           setMpPayload(payload);
           setView({ key: "game", mode: "mp", mpPayload: payload });
         }}
@@ -74,6 +101,10 @@ export default function AppShell() {
     );
   }
 
+  if (view.key === "wheelEditor") {
+    return <WheelEditorPage onBack={() => setView({ key: "hub" })} />;
+  }
+
   if (view.key === "modeSelect") {
     const isMp = view.from === "mp";
     const confirmLabel = view.next.mode === "mp" ? "Launch Match" : "Start Run";
@@ -96,6 +127,15 @@ export default function AppShell() {
             : easyMode
         }
         initialCpuDifficulty={initialCpuDifficulty}
+        initialLaneCount={
+          view.next.mode === "mp"
+            ? view.next.mpPayload?.laneCount ?? mpPayload?.laneCount ?? DEFAULT_LANE_COUNT
+            : laneCount
+        }
+        initialWheelSet={wheelSet}
+        initialSlice0Rule={slice0Rule}
+        initialTieBreak={tieBreak}
+        initialRules={rules}
         showTargetWinsInput={view.next.mode === "solo"}
         showCpuDifficulty={view.next.mode === "solo"}
         backLabel={backLabel}
@@ -104,10 +144,22 @@ export default function AppShell() {
           setView({ key: view.from });
           setMpPayload(null);
         }}
-        onConfirm={(mode, winsGoal, easy, cpuDiff) => {
-          setGameMode(normalizeGameMode(mode));
-          setEasyMode(easy);
+        onConfirm={(ruleset, cpuDiff) => {
+          const winsGoal = ruleset.rules.targetWins;
+          const templates = resolveWheelTemplates(
+            ruleset.wheelSet,
+            ruleset.laneCount,
+            withRulesetTemplates(listWheelTemplates(), ruleset.templates),
+          );
+          setGameMode(ruleset.gameMode);
+          setEasyMode(ruleset.easyMode);
           setCpuDifficulty(cpuDiff);
+          setLaneCount(ruleset.laneCount);
+          setWheelSet(ruleset.wheelSet);
+          setWheelTemplates(templates);
+          setSlice0Rule(ruleset.slice0Rule);
+          setTieBreak(ruleset.tieBreak);
+          setRules(ruleset.rules);
 
           if (view.next.mode === "mp") {
             const payload = view.next.mpPayload ?? mpPayload;
@@ -118,8 +170,13 @@ export default function AppShell() {
             const nextPayload = {
               ...payload,
               targetWins: winsGoal,
-              gameMode: normalizeGameMode(mode),
-              easyMode: easy,
+              gameMode: ruleset.gameMode,
+              easyMode: ruleset.easyMode,
+              laneCount: ruleset.laneCount,
+              wheelTemplates: templates,
+              slice0Rule: ruleset.slice0Rule,
+              tieBreak: ruleset.tieBreak,
+              rules: ruleset.rules,
             };
             setMpPayload(nextPayload);
             setView({ key: "game", mode: "mp", mpPayload: nextPayload });
@@ -144,6 +201,12 @@ export default function AppShell() {
     hostId?: string;
     targetWins?: number;
     easyMode?: boolean;
+    laneCount?: number;
+    wheelTemplates?: WheelTemplate[];
+    slice0Rule?: Slice0Rule;
+    tieBreak?: TieBreakRule;
+    rules?: RulesConfig;
+    grimoires?: Record<Side, MatchGrimoire>;
     cpuDifficulty?: CpuDifficulty;
   } = {};
 
@@ -158,6 +221,12 @@ export default function AppShell() {
       hostId: mp.hostId,
       targetWins: mp.targetWins,
       easyMode: mp.easyMode,
+      laneCount: mp.laneCount,
+      wheelTemplates: mp.wheelTemplates,
+      slice0Rule: mp.slice0Rule,
+      tieBreak: mp.tieBreak,
+      rules: mp.rules,
+      grimoires: mp.grimoires,
     };
   } else {
     seed = Math.floor(Math.random() * 2 ** 31);
@@ -167,7 +236,7 @@ export default function AppShell() {
     };
     localSide = "left";
     localPlayerId = "local";
-    extraProps = { targetWins: soloTargetWins, easyMode, cpuDifficulty };
+    extraProps = { targetWins: soloTargetWins, easyMode, laneCount, wheelTemplates, slice0Rule, tieBreak, rules, cpuDifficulty };
   }
 
   const exitToMenu = () => {
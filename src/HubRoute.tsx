@@ -6,9 +6,10 @@ type Props = {
   onStart: () => void;
   onMultiplayer: () => void;
   onProfile: () => void;
+  onWheelEditor: () => void;
 };
 
-export default function HubRoute({ onStart, onMultiplayer, onProfile }: Props) {
+export default function HubRoute({ onStart, onMultiplayer, onProfile, onWheelEditor }: Props) {
   const { profile } = getProfileBundle();
   const displayName = profile?.displayName ?? "Adventurer";
   const level = profile?.level ?? 1;
@@ -22,6 +23,7 @@ export default function HubRoute({ onStart, onMultiplayer, onProfile }: Props) {
       onNew={onStart}
       onContinue={onStart}
       onMultiplayer={onMultiplayer}
+      onWheelEditor={onWheelEditor}
       onQuit={() => console.log("Quit clicked")}
       profileName={displayName}
       profileLevel={level}
@@ -15,30 +15,74 @@ import {
   type GameModeOption,
 } from "./gameModes";
 import EasyModeSwitch from "./components/EasyModeSwitch";
+import { DEFAULT_LANE_COUNT, LANE_COUNT_OPTIONS, clampLaneCount, handSizeForLanes } from "./game/lanes";
+import { DEFAULT_WHEEL_SET, type WheelSetChoice, type WheelTemplate } from "./game/wheel";
+import { listWheelTemplates } from "./player/wheelTemplateStore";
+import WheelSetPicker from "./components/WheelSetPicker";
+import {
+  DEFAULT_SLICE0_RULE,
+  SLICE0_RULES,
+  listSlice0Rules,
+  normalizeSlice0Rule,
+  type Slice0Rule,
+} from "./game/slice0Rules";
+import {
+  DEFAULT_TIE_BREAK,
+  TIE_BREAKS,
+  listTieBreaks,
+  normalizeTieBreak,
+  type TieBreakRule,
+} from "./game/tieBreakers";
+import {
+  CLASSIC_RULES,
+  RULES_PRESETS,
+  findRulesPreset,
+  listRulesPresets,
+  rulesForPreset,
+  type RulesConfig,
+  type RulesPresetId,
+} from "./game/rules";
+import {
+  customTemplatesFor,
+  encodeRulesetCode,
+  withRulesetTemplates,
+  type Ruleset,
+} from "./game/rulesetCode";
+import AdvancedRulesPanel from "./components/AdvancedRulesPanel";
+import RulesetCodeField from "./components/RulesetCodeField";
 
 type ModeSelectProps = {
   initialMode?: GameMode;
   initialTargetWins?: number;
   initialEasyMode?: boolean;
   initialCpuDifficulty?: CpuDifficulty;
+  initialLaneCount?: number;
+  initialWheelSet?: WheelSetChoice;
+  initialSlice0Rule?: Slice0Rule;
+  initialTieBreak?: TieBreakRule;
+  initialRules?: RulesConfig;
   showTargetWinsInput?: boolean;
   showCpuDifficulty?: boolean;
-  onConfirm: (
-    mode: GameMode,
-    targetWins: number,
-    easyMode: boolean,
-    cpuDifficulty: CpuDifficulty,
-  ) => void;
+  onConfirm: (ruleset: Ruleset, cpuDifficulty: CpuDifficulty) => void;
   onBack: () => void;
   backLabel?: string;
   confirmLabel?: string;
 };
 
+/** Selects and text fields in the settings row and the advanced rules panel. */
+const FIELD_CLASS =
+  "rounded-full border border-slate-700 bg-slate-900/60 px-3 py-1.5 text-sm text-slate-100 focus:border-emerald-400 focus:outline-none focus:ring-2 focus:ring-emerald-400/40";
+
 export default function ModeSelect({
   initialMode = DEFAULT_GAME_MODE,
   initialTargetWins = TARGET_WINS,
   initialEasyMode = false,
   initialCpuDifficulty = DEFAULT_CPU_DIFFICULTY,
+  initialLaneCount = DEFAULT_LANE_COUNT,
+  initialWheelSet = DEFAULT_WHEEL_SET,
+  initialSlice0Rule = DEFAULT_SLICE0_RULE,
+  initialTieBreak = DEFAULT_TIE_BREAK,
+  initialRules = CLASSIC_RULES,
   showTargetWinsInput = false,
   showCpuDifficulty = false,
   onConfirm,
@@ -51,6 +95,33 @@ export default function ModeSelect({
   const [targetWinsInput, setTargetWinsInput] = useState<string>(String(clampTargetWins(initialTargetWins)));
   const [easyMode, setEasyMode] = useState<boolean>(Boolean(initialEasyMode));
   const [cpuDifficulty, setCpuDifficulty] = useState<CpuDifficulty>(initialCpuDifficulty);
+  const [laneCount, setLaneCount] = useState<number>(() => clampLaneCount(initialLaneCount));
+  const [wheelSet, setWheelSet] = useState<WheelSetChoice>(initialWheelSet);
+  const [slice0Rule, setSlice0Rule] = useState<Slice0Rule>(initialSlice0Rule);
+  const [tieBreak, setTieBreak] = useState<TieBreakRule>(initialTieBreak);
+  const [rules, setRules] = useState<RulesConfig>(initialRules);
+  // Custom wheels that arrived in a pasted code rather than from this browser's library.
+  const [codeTemplates, setCodeTemplates] = useState<WheelTemplate[]>([]);
+  const wheelTemplates = useMemo(
+    () => withRulesetTemplates(listWheelTemplates(), codeTemplates),
+    [codeTemplates],
+  );
+  const rulesPreset = findRulesPreset(rules);
+
+  const ruleset = useMemo<Ruleset>(
+    () => ({
+      gameMode: normalizeGameMode(selectedModes),
+      easyMode,
+      laneCount,
+      wheelSet,
+      templates: customTemplatesFor(wheelSet, laneCount, wheelTemplates),
+      slice0Rule,
+      tieBreak,
+      rules: { ...rules, targetWins },
+    }),
+    [selectedModes, easyMode, laneCount, wheelSet, wheelTemplates, slice0Rule, tieBreak, rules, targetWins],
+  );
+  const rulesetCode = useMemo(() => encodeRulesetCode(ruleset), [ruleset]);
 
   const detailEntries = useMemo(
     () =>
@@ -79,6 +150,46 @@ export default function ModeSelect({
     setCpuDifficulty(initialCpuDifficulty);
   }, [initialCpuDifficulty]);
 
+  useEffect(() => {
+    setLaneCount(clampLaneCount(initialLaneCount));
+  }, [initialLaneCount]);
+
+  useEffect(() => {
+    setWheelSet(initialWheelSet);
+  }, [initialWheelSet]);
+
+  useEffect(() => {
+    setSlice0Rule(initialSlice0Rule);
+  }, [initialSlice0Rule]);
+
+  useEffect(() => {
+    setTieBreak(initialTieBreak);
+  }, [initialTieBreak]);
+
+  useEffect(() => {
+    setRules(initialRules);
+  }, [initialRules]);
+
+  const handleRulesPresetChange = (id: RulesPresetId) => {
+    const next = rulesForPreset(id);
+    setRules(next);
+    setTargetWins(next.targetWins);
+    setTargetWinsInput(String(next.targetWins));
+  };
+
+  const applyRuleset = (next: Ruleset) => {
+    setSelectedModes(next.gameMode);
+    setEasyMode(next.easyMode);
+    setLaneCount(next.laneCount);
+    setCodeTemplates(next.templates);
+    setWheelSet(next.wheelSet);
+    setSlice0Rule(next.slice0Rule);
+    setTieBreak(next.tieBreak);
+    setRules(next.rules);
+    setTargetWins(next.rules.targetWins);
+    setTargetWinsInput(String(next.rules.targetWins));
+  };
+
   const handleWinsChange = (value: string) => {
     if (!/^\d*$/.test(value)) return;
     setTargetWinsInput(value);
@@ -195,12 +306,87 @@ export default function ModeSelect({
           })}
         </div>
 
-        <div className="mt-8 flex items-start gap-3 sm:justify-end">
+        <WheelSetPicker
+          value={wheelSet}
+          onChange={setWheelSet}
+          laneCount={laneCount}
+          templates={wheelTemplates}
+          sideLabels={showCpuDifficulty ? { player: "Your archetype", enemy: "CPU archetype" } : undefined}
+          className="mt-8 text-slate-300 sm:items-end"
+          selectClassName={FIELD_CLASS}
+        />
+
+        <div className="mt-4 flex items-start gap-3 sm:justify-end">
+          <label className="order-1 flex min-w-[7.5rem] flex-col text-xs font-semibold text-slate-300 sm:order-none sm:min-w-0 sm:text-sm">
+            <span>Rules</span>
+            <select
+              className={`mt-1.5 ${FIELD_CLASS}`}
+              value={rulesPreset ?? "custom"}
+              onChange={(event) => handleRulesPresetChange(event.target.value as RulesPresetId)}
+              title={rulesPreset ? RULES_PRESETS[rulesPreset].description : "Edited under Advanced rules."}
+            >
+              {!rulesPreset && (
+                <option value="custom" disabled>
+                  Custom
+                </option>
+              )}
+              {listRulesPresets().map((preset) => (
+                <option key={preset.id} value={preset.id}>
+                  {preset.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="order-1 flex min-w-[6rem] flex-col text-xs font-semibold text-slate-300 sm:order-none sm:min-w-0 sm:text-sm">
+            <span>Wheels</span>
+            <select
+              className={`mt-1.5 ${FIELD_CLASS}`}
+              value={laneCount}
+              onChange={(event) => setLaneCount(clampLaneCount(Number(event.target.value)))}
+              title={`Hand size ${handSizeForLanes(laneCount, rules.reserveSize)}`}
+            >
+              {LANE_COUNT_OPTIONS.map((count) => (
+                <option key={count} value={count}>
+                  {count} {count === 1 ? "wheel" : "wheels"}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="order-1 flex min-w-[7.5rem] flex-col text-xs font-semibold text-slate-300 sm:order-none sm:min-w-0 sm:text-sm">
+            <span>Slice 0</span>
+            <select
+              className={`mt-1.5 ${FIELD_CLASS}`}
+              value={slice0Rule}
+              onChange={(event) => setSlice0Rule(normalizeSlice0Rule(event.target.value))}
+              title={SLICE0_RULES[slice0Rule].description}
+            >
+              {listSlice0Rules().map((rule) => (
+                <option key={rule.id} value={rule.id}>
+                  {rule.icon} {rule.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="order-1 flex min-w-[7.5rem] flex-col text-xs font-semibold text-slate-300 sm:order-none sm:min-w-0 sm:text-sm">
+            <span>Ties</span>
+            <select
+              className={`mt-1.5 ${FIELD_CLASS}`}
+              value={tieBreak}
+              onChange={(event) => setTieBreak(normalizeTieBreak(event.target.value))}
+              title={TIE_BREAKS[tieBreak].description}
+            >
+              {listTieBreaks().map((rule) => (
+                <option key={rule.id} value={rule.id}>
+                  {rule.label}
+                </option>
+              ))}
+            </select>
+          </label>
           {showCpuDifficulty && (
             <label className="order-1 flex min-w-[7.5rem] flex-col text-xs font-semibold text-slate-300 sm:order-none sm:min-w-0 sm:text-sm">
               <span>CPU Difficulty</span>
               <select
-                className="mt-1.5 rounded-full border border-slate-700 bg-slate-900/60 px-3 py-1.5 text-sm text-slate-100 focus:border-emerald-400 focus:outline-none focus:ring-2 focus:ring-emerald-400/40"
+                className={`mt-1.5 ${FIELD_CLASS}`}
                 value={cpuDifficulty}
                 onChange={(event) => setCpuDifficulty(event.target.value as CpuDifficulty)}
               >
@@ -222,19 +408,26 @@ export default function ModeSelect({
           )}
           <button
             type="button"
-            onClick={() =>
-              onConfirm(
-                normalizeGameMode(selectedModes),
-                targetWins,
-                easyMode,
-                cpuDifficulty,
-              )
-            }
+            onClick={() => onConfirm(ruleset, cpuDifficulty)}
             className="order-3 ml-auto inline-flex items-center justify-center rounded-full bg-emerald-400 px-6 py-2 text-sm font-semibold text-slate-950 transition hover:bg-emerald-300 sm:ml-0 sm:order-none"
           >
             {confirmLabel}
           </button>
         </div>
+
+        <AdvancedRulesPanel
+          rules={rules}
+          onChange={setRules}
+          className="mt-6 text-slate-300"
+          inputClassName={FIELD_CLASS}
+        >
+          <RulesetCodeField
+            code={rulesetCode}
+            onApply={applyRuleset}
+            inputClassName={FIELD_CLASS}
+            buttonClassName="rounded-full border border-slate-700 px-3 py-1.5 text-sm font-semibold text-emerald-300 hover:border-emerald-400 disabled:opacity-50"
+          />
+        </AdvancedRulesPanel>
       </div>
     </div>
   );
@@ -14,6 +14,47 @@ import {
 } from "./gameModes";
 import LoadingScreen from "./components/LoadingScreen";
 import EasyModeSwitch from "./components/EasyModeSwitch";
+import { DEFAULT_LANE_COUNT, LANE_COUNT_OPTIONS, clampLaneCount } from "./game/lanes";
+import {
+  DEFAULT_WHEEL_SET,
+  normalizeWheelTemplates,
+  resolveWheelTemplates,
+  type WheelSetChoice,
+  type WheelTemplate,
+} from "./game/wheel";
+import { listWheelTemplates } from "./player/wheelTemplateStore";
+import WheelSetPicker from "./components/WheelSetPicker";
+import {
+  DEFAULT_SLICE0_RULE,
+  listSlice0Rules,
+  normalizeSlice0Rule,
+  type Slice0Rule,
+} from "./game/slice0Rules";
+import {
+  DEFAULT_TIE_BREAK,
+  listTieBreaks,
+  normalizeTieBreak,
+  type TieBreakRule,
+} from "./game/tieBreakers";
+import {
+  CLASSIC_RULES,
+  RULES_PRESETS,
+  findRulesPreset,
+  listRulesPresets,
+  normalizeRulesConfig,
+  rulesForPreset,
+  type RulesConfig,
+  type RulesPresetId,
+} from "./game/rules";
+import {
+  customTemplatesFor,
+  encodeRulesetCode,
+  withRulesetTemplates,
+  type Ruleset,
+} from "./game/rulesetCode";
+import RulesetCodeField from "./components/RulesetCodeField";
+import { normalizeMatchGrimoire, type MatchGrimoire } from "./game/grimoire";
+import { getProfileBundle } from "./player/profileStore";
 import { uidShort } from "./utils/uid";
 
 // ----- Start payload now includes targetWins (wins goal) -----
@@ -26,6 +67,12 @@ type StartMessagePayload = {
   targetWins: number;        // 👈 merged feature: game wins goal
   gameMode: GameMode;        // 👈 lobby-selected game mode
   easyMode: boolean;         // 👈 lobby-selected easy mode toggle
+  laneCount: number;         // 👈 lobby-selected number of wheels
+  wheelTemplates?: WheelTemplate[]; // host-resolved template per wheel
+  slice0Rule: Slice0Rule;    // host-selected slice-0 rule
+  tieBreak: TieBreakRule;    // host-selected tie-break for even wheels
+  rules: RulesConfig;        // host's full rules so both clients play the same numbers
+  grimoires?: Record<Side, MatchGrimoire>; // each player's spells, to check the other's casts against
 };
 
 type StartPayload = StartMessagePayload & {
@@ -68,6 +115,27 @@ export default function MultiplayerRoute({
   // Game mode (host controls)
   const [gameMode, setGameMode] = useState<GameMode>(() => [...DEFAULT_GAME_MODE]);
   const [easyMode, setEasyMode] = useState<boolean>(false);
+  const [laneCount, setLaneCount] = useState<number>(DEFAULT_LANE_COUNT);
+  const [wheelSet, setWheelSet] = useState<WheelSetChoice>(DEFAULT_WHEEL_SET);
+  const [slice0Rule, setSlice0Rule] = useState<Slice0Rule>(DEFAULT_SLICE0_RULE);
+  const [tieBreak, setTieBreak] = useState<TieBreakRule>(DEFAULT_TIE_BREAK);
+  const [rules, setRules] = useState<RulesConfig>(CLASSIC_RULES);
+  // Custom wheels that arrived in a pasted ruleset code.
+  const [codeTemplates, setCodeTemplates] = useState<WheelTemplate[]>([]);
+  const wheelTemplateLibrary = useMemo(
+    () => withRulesetTemplates(listWheelTemplates(), codeTemplates),
+    [codeTemplates]
+  );
+  const rulesPreset = findRulesPreset(rules);
+  // Our grimoire, shared through presence so the host can hand both to the match.
+  const grimoire = useMemo<MatchGrimoire>(() => {
+    try {
+      const { spellIds, symbols } = getProfileBundle().grimoire;
+      return { spellIds, symbols };
+    } catch {
+      return normalizeMatchGrimoire(null);
+    }
+  }, []);
 
   const showLoadingScreen = mode === "creating" || mode === "joining";
 
@@ -83,6 +151,7 @@ export default function MultiplayerRoute({
       targetWins?: number;
       gameMode?: GameMode;
       easyMode?: boolean;
+      laneCount?: number;
     }[]
   >([]);
   const clientId = useMemo(() => uidShort(), []);
@@ -94,6 +163,8 @@ export default function MultiplayerRoute({
     targetWins?: number;
     gameMode?: GameMode;
     easyMode?: boolean;
+    laneCount?: number;
+    grimoire?: MatchGrimoire;
   };
   const memberMapRef = useRef<Map<string, MemberEntry>>(new Map());
 
@@ -105,12 +176,13 @@ export default function MultiplayerRoute({
     });
 
     setMembers(
-      ordered.map(({ clientId, name, targetWins, gameMode, easyMode }) => ({
+      ordered.map(({ clientId, name, targetWins, gameMode, easyMode, laneCount }) => ({
         clientId,
         name,
         targetWins,
         gameMode: gameMode ? [...gameMode] : undefined,
         easyMode,
+        laneCount,
       }))
     );
 
@@ -126,6 +198,7 @@ export default function MultiplayerRoute({
       setGameMode(normalizeGameMode(hostModes));
       if (host.clientId !== clientId) {
         setEasyMode(Boolean(host.easyMode));
+        setLaneCount(clampLaneCount(host.laneCount));
       }
     }
   }, [clientId]);
@@ -142,6 +215,7 @@ export default function MultiplayerRoute({
         const rawTargetWins = data?.targetWins;
         const rawGameMode = data?.gameMode;
         const rawEasyMode = data?.easyMode;
+        const rawLaneCount = data?.laneCount;
         const prev = prevMap.get(msg.clientId);
         const serverTs = typeof msg.timestamp === "number" ? msg.timestamp : undefined;
         const ts =
@@ -164,6 +238,8 @@ export default function MultiplayerRoute({
               : prev?.targetWins,
           gameMode: normalizeGameMode(nextMode),
           easyMode: rawEasyMode === true ? true : prev?.easyMode,
+          laneCount: typeof rawLaneCount === "number" ? clampLaneCount(rawLaneCount) : prev?.laneCount,
+          grimoire: data?.grimoire !== undefined ? normalizeMatchGrimoire(data.grimoire) : prev?.grimoire,
         });
       }
     }
@@ -215,6 +291,9 @@ export default function MultiplayerRoute({
       const coercedMode = coerceGameMode(rawGameMode);
       const memberGameMode = normalizeGameMode(coercedMode ?? existing?.gameMode ?? DEFAULT_GAME_MODE);
       const memberEasyMode = rawEasyMode === true ? true : existing?.easyMode;
+      const rawLaneCount = data?.laneCount;
+      const memberLaneCount =
+        typeof rawLaneCount === "number" ? clampLaneCount(rawLaneCount) : existing?.laneCount;
 
       if (action === "leave" || action === "absent") {
         map.delete(msg.clientId);
@@ -226,6 +305,8 @@ export default function MultiplayerRoute({
           targetWins: memberTargetWins,
           gameMode: memberGameMode,
           easyMode: memberEasyMode,
+          laneCount: memberLaneCount,
+          grimoire: data?.grimoire !== undefined ? normalizeMatchGrimoire(data.grimoire) : existing?.grimoire,
         });
       }
 
@@ -336,7 +417,7 @@ export default function MultiplayerRoute({
 
       // 3) Enter presence with the current name, targetWins, and gameMode
       const initialGameMode = normalizeGameMode(gameMode);
-      await chan.presence.enter({ name, targetWins, gameMode: initialGameMode, easyMode });
+      await chan.presence.enter({ name, targetWins, gameMode: initialGameMode, easyMode, laneCount, grimoire });
 
       // Seed self immediately so the UI shows the host right away
       {
@@ -347,6 +428,8 @@ export default function MultiplayerRoute({
           targetWins,
           gameMode: initialGameMode,
           easyMode,
+          laneCount,
+          grimoire,
         };
         const map = new Map<string, MemberEntry>([[clientId, self]]);
         memberMapRef.current = map;
@@ -396,6 +479,15 @@ export default function MultiplayerRoute({
 
         onStart({
           ...payload,
+          laneCount: clampLaneCount(payload.laneCount),
+          wheelTemplates: normalizeWheelTemplates(payload.wheelTemplates),
+          slice0Rule: normalizeSlice0Rule(payload.slice0Rule),
+          tieBreak: normalizeTieBreak(payload.tieBreak),
+          rules: normalizeRulesConfig(payload.rules),
+          grimoires: {
+            left: normalizeMatchGrimoire(payload.grimoires?.left),
+            right: normalizeMatchGrimoire(payload.grimoires?.right),
+          },
           localSide,
           channelName: chanName,
           channel: chan,
@@ -452,7 +544,14 @@ export default function MultiplayerRoute({
       if (mode === "in-room" && channelRef.current) {
         try {
           const normalized = normalizeGameMode(gameMode);
-          await channelRef.current.presence.update({ name, targetWins, gameMode: normalized, easyMode });
+          await channelRef.current.presence.update({
+            name,
+            targetWins,
+            gameMode: normalized,
+            easyMode,
+            laneCount,
+            grimoire,
+          });
 
           const current = memberMapRef.current.get(clientId);
           const map = new Map(memberMapRef.current);
@@ -463,13 +562,15 @@ export default function MultiplayerRoute({
             ts: current?.ts ?? Date.now(),
             gameMode: normalized,
             easyMode,
+            laneCount,
+            grimoire,
           });
           memberMapRef.current = map;
           commitMembers(map);
         } catch { /* no-op */ }
       }
     })();
-  }, [clientId, commitMembers, mode, name, targetWins, gameMode, easyMode]);
+  }, [clientId, commitMembers, mode, name, targetWins, gameMode, easyMode, laneCount, grimoire]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -552,6 +653,12 @@ export default function MultiplayerRoute({
     setTargetWinsInput(TARGET_WINS.toString());
     setGameMode([...DEFAULT_GAME_MODE]);
     setEasyMode(false);
+    setLaneCount(DEFAULT_LANE_COUNT);
+    setWheelSet(DEFAULT_WHEEL_SET);
+    setSlice0Rule(DEFAULT_SLICE0_RULE);
+    setTieBreak(DEFAULT_TIE_BREAK);
+    setRules(CLASSIC_RULES);
+    setCodeTemplates([]);
   }
 
   async function onStartGame() {
@@ -575,6 +682,15 @@ export default function MultiplayerRoute({
       targetWins: winsGoal,        // 👈 pass wins goal into the game
       gameMode: normalizeGameMode(gameMode), // 👈 pass lobby-selected mode
       easyMode,
+      laneCount,
+      wheelTemplates: resolveWheelTemplates(wheelSet, laneCount, wheelTemplateLibrary),
+      slice0Rule,
+      tieBreak,
+      rules: { ...rules, targetWins: winsGoal },
+      grimoires: {
+        left: normalizeMatchGrimoire(memberMapRef.current.get(players.left.id)?.grimoire),
+        right: normalizeMatchGrimoire(memberMapRef.current.get(players.right.id)?.grimoire),
+      },
     };
 
     await channelRef.current?.publish("start", payload);
@@ -624,6 +740,57 @@ export default function MultiplayerRoute({
     [isHost]
   );
 
+  const handleRulesPresetChange = useCallback(
+    (value: string) => {
+      if (!isHost) return;
+      if (!(value in RULES_PRESETS)) return;
+      const next = rulesForPreset(value as RulesPresetId);
+      setRules(next);
+      setTargetWins(next.targetWins);
+      setTargetWinsInput(next.targetWins.toString());
+    },
+    [isHost]
+  );
+
+  const rulesetCode = useMemo(() => {
+    const ruleset: Ruleset = {
+      gameMode: normalizeGameMode(gameMode),
+      easyMode,
+      laneCount,
+      wheelSet,
+      templates: customTemplatesFor(wheelSet, laneCount, wheelTemplateLibrary),
+      slice0Rule,
+      tieBreak,
+      rules: { ...rules, targetWins },
+    };
+    return encodeRulesetCode(ruleset);
+  }, [gameMode, easyMode, laneCount, wheelSet, wheelTemplateLibrary, slice0Rule, tieBreak, rules, targetWins]);
+
+  const handleApplyRuleset = useCallback(
+    (ruleset: Ruleset) => {
+      if (!isHost) return;
+      setGameMode(ruleset.gameMode);
+      setEasyMode(ruleset.easyMode);
+      setLaneCount(ruleset.laneCount);
+      setCodeTemplates(ruleset.templates);
+      setWheelSet(ruleset.wheelSet);
+      setSlice0Rule(ruleset.slice0Rule);
+      setTieBreak(ruleset.tieBreak);
+      setRules(ruleset.rules);
+      setTargetWins(ruleset.rules.targetWins);
+      setTargetWinsInput(ruleset.rules.targetWins.toString());
+    },
+    [isHost]
+  );
+
+  const handleLaneCountChange = useCallback(
+    (value: string) => {
+      if (!isHost) return;
+      setLaneCount(clampLaneCount(Number(value)));
+    },
+    [isHost]
+  );
+
   return (
     <div className="min-h-screen grid place-items-center bg-slate-950 text-slate-100 p-4">
       {showLoadingScreen && (
@@ -719,6 +886,19 @@ export default function MultiplayerRoute({
                       onChange={(e) => handleTargetWinsChange(e.target.value)}
                       onBlur={handleTargetWinsBlur}
                     />
+                    <select
+                      aria-label="Wheels"
+                      disabled={!isHost}
+                      className="rounded-lg bg-black/40 px-3 py-2 ring-1 ring-white/10 disabled:opacity-60"
+                      value={laneCount}
+                      onChange={(e) => handleLaneCountChange(e.target.value)}
+                    >
+                      {LANE_COUNT_OPTIONS.map((count) => (
+                        <option key={count} value={count}>
+                          {count} {count === 1 ? "wheel" : "wheels"}
+                        </option>
+                      ))}
+                    </select>
                   </div>
                 </div>
                 <div className="flex-1">
@@ -752,6 +932,80 @@ export default function MultiplayerRoute({
                   </div>
                 </div>
               </div>
+              {isHost && (
+                <WheelSetPicker
+                  value={wheelSet}
+                  onChange={setWheelSet}
+                  laneCount={laneCount}
+                  templates={wheelTemplateLibrary}
+                  sideLabels={{ player: "Host archetype", enemy: "Guest archetype" }}
+                  className="mt-3 text-white/80"
+                  selectClassName="rounded-lg bg-black/40 px-3 py-2 text-sm ring-1 ring-white/10"
+                />
+              )}
+              {isHost && (
+                <label className="mt-3 flex flex-col gap-1 text-xs font-semibold text-white/80">
+                  <span>Slice 0</span>
+                  <select
+                    className="rounded-lg bg-black/40 px-3 py-2 text-sm ring-1 ring-white/10"
+                    value={slice0Rule}
+                    onChange={(e) => setSlice0Rule(normalizeSlice0Rule(e.target.value))}
+                  >
+                    {listSlice0Rules().map((rule) => (
+                      <option key={rule.id} value={rule.id}>
+                        {rule.icon} {rule.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              {isHost && (
+                <label className="mt-3 flex flex-col gap-1 text-xs font-semibold text-white/80">
+                  <span>Rules</span>
+                  <select
+                    className="rounded-lg bg-black/40 px-3 py-2 text-sm ring-1 ring-white/10"
+                    value={rulesPreset ?? "custom"}
+                    title={rulesPreset ? RULES_PRESETS[rulesPreset].description : "Set by a ruleset code."}
+                    onChange={(e) => handleRulesPresetChange(e.target.value)}
+                  >
+                    {!rulesPreset && (
+                      <option value="custom" disabled>
+                        Custom
+                      </option>
+                    )}
+                    {listRulesPresets().map((preset) => (
+                      <option key={preset.id} value={preset.id}>
+                        {preset.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              {isHost && (
+                <label className="mt-3 flex flex-col gap-1 text-xs font-semibold text-white/80">
+                  <span>Ties</span>
+                  <select
+                    className="rounded-lg bg-black/40 px-3 py-2 text-sm ring-1 ring-white/10"
+                    value={tieBreak}
+                    onChange={(e) => setTieBreak(normalizeTieBreak(e.target.value))}
+                  >
+                    {listTieBreaks().map((rule) => (
+                      <option key={rule.id} value={rule.id}>
+                        {rule.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              {isHost && (
+                <RulesetCodeField
+                  code={rulesetCode}
+                  onApply={handleApplyRuleset}
+                  className="mt-3 font-semibold text-white/80"
+                  inputClassName="rounded-lg bg-black/40 px-3 py-2 text-sm font-normal ring-1 ring-white/10"
+                  buttonClassName="rounded-lg bg-white/10 px-3 py-2 text-sm hover:bg-white/20 disabled:opacity-50"
+                />
+              )}
               <div className="mt-2 text-xs opacity-70">
                 First player to reach {targetWins} round wins takes the match.
               </div>
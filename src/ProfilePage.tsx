@@ -17,12 +17,22 @@ import {
   setTutorialEnabled,
   setGrimoireSymbols,
 } from "./player/profileStore";
+import { deleteReplay, listReplays, saveReplay } from "./player/replayStore";
+import { parseReplay, type MatchReplay } from "./game/replay";
+import ReplayViewer, { downloadReplay } from "./features/threeWheel/components/ReplayViewer";
 import LoadingScreen from "./components/LoadingScreen";
 import { SpellDescription } from "./components/SpellDescription";
 import { ARCANA_EMOJI } from "./game/arcana";
-import { GRIMOIRE_SYMBOL_ORDER, MAX_GRIMOIRE_SYMBOLS, symbolsTotal, GRIMOIRE_SPELL_REQUIREMENTS } from "./game/grimoire";
+import {
+  GRIMOIRE_SYMBOL_ORDER,
+  MAX_GRIMOIRE_SYMBOLS,
+  symbolsTotal,
+  GRIMOIRE_SPELL_REQUIREMENTS,
+  symbolsForSpellRank,
+  type GrimoireSymbols,
+} from "./game/grimoire";
 import type { Arcana } from "./game/types";
-import { getSpellDefinitions, listSpellIds, type SpellDefinition } from "./game/spells";
+import { getSpellDefinitions, getSpellForGrimoire, listSpellIds, type SpellDefinition } from "./game/spells";
 
 export default function ProfilePage() {
   // Initialize immediately so we can render without waiting for an effect
@@ -34,6 +44,10 @@ export default function ProfilePage() {
     bundle?.profile.displayName ?? "Local Player"
   );
   const nameInputRef = useRef<HTMLInputElement | null>(null);
+  const [replays, setReplays] = useState<MatchReplay[]>(() => listReplays());
+  const [viewingReplay, setViewingReplay] = useState<MatchReplay | null>(null);
+  const [replayImportError, setReplayImportError] = useState<string | null>(null);
+  const replayFileInputRef = useRef<HTMLInputElement | null>(null);
   const isTutorialDisabled = useCallback(
     (state: OnboardingState) =>
       state.stage >= 3 && state.dismissed.includes("firstRunCoach"),
@@ -110,6 +124,25 @@ export default function ProfilePage() {
     [isTutorialDisabled],
   );
 
+  const handleReplayImport = useCallback((event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    file
+      .text()
+      .then((text) => {
+        const imported = parseReplay(text);
+        if (!imported) {
+          setReplayImportError("That file is not a replay this version can play.");
+          return;
+        }
+        setReplayImportError(null);
+        setReplays(saveReplay(imported));
+        setViewingReplay(imported);
+      })
+      .catch(() => setReplayImportError("Could not read that file."));
+  }, []);
+
   if (!bundle) {
     return (
       <LoadingScreen>
@@ -262,7 +295,7 @@ export default function ProfilePage() {
             <div>
               <div className="text-sm font-medium text-white">Grimoire mode</div>
               <div className="text-xs text-white/60">
-                Adjust the symbols in your deck to learn spells. Your grimoire refreshes at the start of each round based on your hand.
+                Adjust the symbols in your deck to learn spells; symbols past a spell's requirement raise its rank. Your grimoire refreshes at the start of each round based on your hand.
               </div>
             </div>
             <div className="text-xs font-semibold text-emerald-200/80">
@@ -327,13 +360,92 @@ export default function ProfilePage() {
               </div>
             ) : (
               <ul className="mt-2 space-y-2">
-                {grimoireSpells.map(renderSpellListItem)}
+                {grimoireSpells.map((spell) => renderSpellListItem(spell, grimoireSymbols))}
               </ul>
             )}
           </div>
         </div>
+
+        <div className="mt-4 rounded-lg bg-white/5 p-3 ring-1 ring-white/10">
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+            <div>
+              <div className="text-sm font-medium text-white">Match replays</div>
+              <div className="text-xs text-white/60">
+                Your most recent matches are saved on this device. Import a replay file to watch someone else&apos;s match.
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={() => replayFileInputRef.current?.click()}
+              className="rounded border border-white/20 px-3 py-1 text-xs font-semibold text-white/80 transition hover:bg-white/10"
+            >
+              Import replay
+            </button>
+            <input
+              ref={replayFileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleReplayImport}
+            />
+          </div>
+          {replayImportError && (
+            <div className="mt-2 text-xs text-rose-300">{replayImportError}</div>
+          )}
+          {replays.length === 0 ? (
+            <div className="mt-2 rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-xs text-white/60">
+              No replays yet. Finish a match to record one.
+            </div>
+          ) : (
+            <ul className="mt-2 space-y-2">
+              {replays.map((replay) => {
+                const score = replay.finalWins ?? { player: 0, enemy: 0 };
+                return (
+                  <li
+                    key={replay.id}
+                    className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-xs"
+                  >
+                    <div>
+                      <div className="font-semibold text-white">
+                        {replay.players.left.name} {score.player}–{score.enemy} {replay.players.right.name}
+                      </div>
+                      <div className="text-white/50">{new Date(replay.recordedAt).toLocaleString()}</div>
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={() => setViewingReplay(replay)}
+                        className="rounded bg-emerald-500 px-2 py-1 font-semibold text-slate-900"
+                      >
+                        Watch
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => downloadReplay(replay)}
+                        className="rounded border border-white/20 px-2 py-1 text-white/80 hover:bg-white/10"
+                      >
+                        Download
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setReplays(deleteReplay(replay.id))}
+                        className="rounded border border-rose-400/40 px-2 py-1 text-rose-200 hover:bg-rose-500/10"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
       </section>
 
+      {viewingReplay ? (
+        <ReplayViewer replay={viewingReplay} onClose={() => setViewingReplay(null)} />
+      ) : null}
+
       {showSpellbook ? (
         <div
           role="dialog"
@@ -354,7 +466,7 @@ export default function ProfilePage() {
                   Spellbook compendium
                 </h3>
                 <p className="text-xs text-white/60">
-                  Browse every spell available in Grimoire mode, including their symbol requirements and effects.
+                  Browse every spell available in Grimoire mode, including their symbol requirements, effects and ranks.
                 </p>
               </div>
               <button
@@ -367,7 +479,7 @@ export default function ProfilePage() {
             </div>
             <div className="flex-1 overflow-y-auto px-4 py-4 sm:px-6 sm:py-5">
               <ul className="space-y-3">
-                {allSpells.map(renderSpellListItem)}
+                {allSpells.map((spell) => renderSpellListItem(spell, grimoireSymbols))}
               </ul>
             </div>
           </div>
@@ -377,8 +489,12 @@ export default function ProfilePage() {
   );
 }
 
-function renderSpellListItem(spell: SpellDefinition) {
+function renderSpellListItem(spell: SpellDefinition, symbols: GrimoireSymbols) {
   const requirementEntries = getRequirementEntriesForSpell(spell.id);
+  const requirement = GRIMOIRE_SPELL_REQUIREMENTS[spell.id as keyof typeof GRIMOIRE_SPELL_REQUIREMENTS];
+  const learned = symbolsForSpellRank(symbols, requirement, 1) === 0;
+  const ranked = learned ? getSpellForGrimoire(spell, symbols) : spell;
+  const rank = ranked.rank ?? 1;
   const summary = spell.targetSummary
     ? spell.targetSummary.replace(/^\s*Targets?:\s*/i, "")
     : null;
@@ -389,8 +505,13 @@ function renderSpellListItem(spell: SpellDefinition) {
           {spell.icon ? <span aria-hidden>{spell.icon}</span> : null}
           <span>{spell.name}</span>
           <span className="rounded-full border border-amber-300/50 bg-amber-400/10 px-2 py-0.5 text-xs font-medium text-amber-100">
-            {spell.cost} Mana
+            {ranked.cost} Mana
           </span>
+          {learned && spell.ranks ? (
+            <span className="rounded-full border border-emerald-300/50 bg-emerald-400/10 px-2 py-0.5 text-xs font-medium text-emerald-100">
+              Rank {rank}
+            </span>
+          ) : null}
         </div>
         <div className="flex flex-wrap items-center gap-1 text-xs text-amber-200/90">
           {requirementEntries.length === 0 ? (
@@ -414,6 +535,19 @@ function renderSpellListItem(spell: SpellDefinition) {
         className="mt-2 text-xs leading-relaxed text-white/70"
         description={spell.description}
       />
+      {spell.ranks ? (
+        <ul className="mt-2 space-y-0.5 text-xs">
+          {spell.ranks.slice(1).map((entry) => {
+            const needed = symbolsForSpellRank(symbols, requirement, entry.rank ?? 1);
+            return (
+              <li key={entry.rank} className={needed === 0 ? "text-emerald-200" : "text-white/50"}>
+                <span className="font-semibold">Rank {entry.rank}</span>
+                {needed > 0 ? ` (${needed} more symbol${needed === 1 ? "" : "s"})` : null}: {entry.rankDescription}
+              </li>
+            );
+          })}
+        </ul>
+      ) : null}
     </li>
   );
 }
@@ -0,0 +1,263 @@
+import React, { useMemo, useState } from "react";
+
+import CanvasWheel from "./components/CanvasWheel";
+import type { VC } from "./game/types";
+import { createSeededRng } from "./game/math";
+import { ARCHETYPE_DEFINITIONS, ARCHETYPE_IDS, type ArchetypeId } from "./game/archetypes";
+import { getVictoryCondition, listVictoryConditions } from "./game/victoryConditions";
+import {
+  WHEEL_SLICE_OPTIONS,
+  genWheelSections,
+  isBuiltinWheelTemplate,
+  normalizeWheelTemplate,
+  type WheelTemplate,
+} from "./game/wheel";
+import { deleteWheelTemplate, listWheelTemplates, saveWheelTemplate } from "./player/wheelTemplateStore";
+import { uidShort } from "./utils/uid";
+
+const PREVIEW_SIZE = 260;
+
+const inputClass =
+  "rounded-lg bg-black/40 px-3 py-2 text-sm ring-1 ring-white/10 focus:outline-none focus:ring-emerald-400/60 disabled:opacity-60";
+
+const parseLengths = (text: string) =>
+  text
+    .split(/[\s,]+/)
+    .map((part) => Number.parseInt(part, 10))
+    .filter((len) => Number.isFinite(len) && len > 0);
+
+const copyTemplate = (template: WheelTemplate, name: string): WheelTemplate => ({
+  ...template,
+  id: uidShort({ prefix: "wheel" }),
+  name,
+  lengths: [...template.lengths],
+  conditions: template.conditions ? [...template.conditions] : undefined,
+  targetRanges: template.targetRanges ? { ...template.targetRanges } : undefined,
+});
+
+export default function WheelEditorPage({ onBack }: { onBack: () => void }) {
+  const [templates, setTemplates] = useState<WheelTemplate[]>(() => listWheelTemplates());
+  const [draft, setDraft] = useState<WheelTemplate>(() => templates[0]);
+  const [lengthsInput, setLengthsInput] = useState(() => draft.lengths.join(", "));
+  const [previewSeed, setPreviewSeed] = useState(1);
+
+  const readOnly = isBuiltinWheelTemplate(draft.id);
+  const conditionDefs = useMemo(() => listVictoryConditions(), []);
+  const closest = getVictoryCondition("ClosestToTarget");
+  const closestRange =
+    draft.targetRanges?.ClosestToTarget ?? closest?.targetRange?.(draft.slices) ?? { min: 0, max: draft.slices - 1 };
+
+  const preview = useMemo(
+    () => genWheelSections(draft, createSeededRng(previewSeed)),
+    [draft, previewSeed],
+  );
+
+  const select = (template: WheelTemplate) => {
+    setDraft(template);
+    setLengthsInput(template.lengths.join(", "));
+  };
+
+  const update = (patch: Partial<WheelTemplate>) => setDraft((prev) => ({ ...prev, ...patch }));
+
+  const toggleCondition = (id: VC) => {
+    const current = draft.conditions ?? [];
+    const next = current.includes(id) ? current.filter((entry) => entry !== id) : [...current, id];
+    update({ conditions: next.length > 0 ? next : undefined });
+  };
+
+  const setClosestRange = (key: "min" | "max", value: string) => {
+    const parsed = Number.parseInt(value, 10);
+    if (!Number.isFinite(parsed)) return;
+    update({ targetRanges: { ...draft.targetRanges, ClosestToTarget: { ...closestRange, [key]: parsed } } });
+  };
+
+  const handleSave = () => {
+    const normalized = normalizeWheelTemplate(draft);
+    if (!normalized || readOnly) return;
+    saveWheelTemplate(normalized);
+    setTemplates(listWheelTemplates());
+    select(normalized);
+  };
+
+  const handleDelete = () => {
+    if (readOnly) return;
+    deleteWheelTemplate(draft.id);
+    const next = listWheelTemplates();
+    setTemplates(next);
+    select(next[0]);
+  };
+
+  return (
+    <div className="min-h-dvh bg-slate-950 text-slate-100">
+      <div className="mx-auto flex w-full max-w-5xl flex-col gap-6 px-4 py-6 sm:px-8">
+        <button
+          type="button"
+          onClick={onBack}
+          className="self-start text-sm font-semibold text-emerald-300 hover:text-emerald-200"
+        >
+          ← Back to Main Menu
+        </button>
+        <h1 className="text-3xl font-bold">Wheel Editor</h1>
+
+        <div className="grid gap-6 md:grid-cols-[12rem_1fr_auto]">
+          <div className="flex flex-col gap-2">
+            {templates.map((template) => (
+              <button
+                key={template.id}
+                type="button"
+                onClick={() => select(template)}
+                className={[
+                  "rounded-lg px-3 py-2 text-left text-sm ring-1",
+                  template.id === draft.id ? "bg-emerald-500/20 ring-emerald-400" : "bg-slate-900/60 ring-white/10",
+                ].join(" ")}
+              >
+                <div className="font-semibold">{template.name}</div>
+                <div className="text-xs text-slate-400">
+                  {template.slices} slices{isBuiltinWheelTemplate(template.id) ? " · built-in" : ""}
+                </div>
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={() => select(copyTemplate(draft, `${draft.name} copy`))}
+              className="rounded-lg bg-slate-800 px-3 py-2 text-sm font-semibold hover:bg-slate-700"
+            >
+              Duplicate
+            </button>
+          </div>
+
+          <fieldset disabled={readOnly} className="grid gap-3">
+            {readOnly && (
+              <p className="text-xs text-amber-200">Built-in templates are read-only. Duplicate one to edit it.</p>
+            )}
+            <label className="grid gap-1 text-sm">
+              <span className="text-white/80">Name</span>
+              <input className={inputClass} value={draft.name} onChange={(e) => update({ name: e.target.value })} />
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="grid gap-1 text-sm">
+                <span className="text-white/80">Slices</span>
+                <select
+                  className={inputClass}
+                  value={draft.slices}
+                  onChange={(e) => update({ slices: Number(e.target.value) })}
+                >
+                  {WHEEL_SLICE_OPTIONS.map((count) => (
+                    <option key={count} value={count}>
+                      {count}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="grid gap-1 text-sm">
+                <span className="text-white/80">Archetype</span>
+                <select
+                  className={inputClass}
+                  value={draft.archetype ?? ""}
+                  onChange={(e) => update({ archetype: (e.target.value || undefined) as ArchetypeId | undefined })}
+                >
+                  <option value="">None</option>
+                  {ARCHETYPE_IDS.map((id) => (
+                    <option key={id} value={id}>
+                      {ARCHETYPE_DEFINITIONS[id].name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <label className="grid gap-1 text-sm">
+              <span className="text-white/80">Section lengths</span>
+              <input
+                className={inputClass}
+                value={lengthsInput}
+                onChange={(e) => {
+                  setLengthsInput(e.target.value);
+                  const lengths = parseLengths(e.target.value);
+                  if (lengths.length > 0) update({ lengths });
+                }}
+              />
+              <span className="text-xs text-slate-400">Rescaled to cover {draft.slices - 1} slices.</span>
+            </label>
+            <div className="grid gap-1 text-sm">
+              <span className="text-white/80">Conditions (none ticked deals the full rotation)</span>
+              <div className="flex flex-wrap gap-2">
+                {conditionDefs.map((def) => (
+                  <label key={def.id} className="flex items-center gap-1 rounded-lg bg-black/40 px-2 py-1 text-xs ring-1 ring-white/10">
+                    <input
+                      type="checkbox"
+                      checked={draft.conditions?.includes(def.id) ?? false}
+                      onChange={() => toggleCondition(def.id)}
+                    />
+                    {def.icon} {def.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="grid gap-1 text-sm">
+                <span className="text-white/80">Closest target from</span>
+                <input
+                  type="number"
+                  className={inputClass}
+                  value={closestRange.min}
+                  onChange={(e) => setClosestRange("min", e.target.value)}
+                />
+              </label>
+              <label className="grid gap-1 text-sm">
+                <span className="text-white/80">to</span>
+                <input
+                  type="number"
+                  className={inputClass}
+                  value={closestRange.max}
+                  onChange={(e) => setClosestRange("max", e.target.value)}
+                />
+              </label>
+            </div>
+            <label className="grid gap-1 text-sm">
+              <span className="text-white/80">Slice 0</span>
+              <select
+                className={inputClass}
+                value={draft.slice0 ?? ""}
+                onChange={(e) => update({ slice0: (e.target.value || null) as VC | null })}
+              >
+                <option value="">No win</option>
+                {conditionDefs.map((def) => (
+                  <option key={def.id} value={def.id}>
+                    {def.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={handleSave}
+                className="rounded-full bg-emerald-400 px-5 py-2 text-sm font-semibold text-slate-950 hover:bg-emerald-300"
+              >
+                Save
+              </button>
+              <button
+                type="button"
+                onClick={handleDelete}
+                className="rounded-full bg-rose-500/80 px-5 py-2 text-sm font-semibold hover:bg-rose-500"
+              >
+                Delete
+              </button>
+            </div>
+          </fieldset>
+
+          <div className="flex flex-col items-center gap-3">
+            <CanvasWheel sections={preview} size={PREVIEW_SIZE} slices={draft.slices} />
+            <button
+              type="button"
+              onClick={() => setPreviewSeed((seed) => seed + 1)}
+              className="rounded-full bg-slate-800 px-4 py-1.5 text-sm font-semibold hover:bg-slate-700"
+            >
+              Reroll preview
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
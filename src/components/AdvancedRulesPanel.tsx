@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from "react";
+
+import {
+  MANA_OVERFLOW_RULES,
+  normalizeRulesConfig,
+  type AnteRules,
+  type ManaOverflowRule,
+  type RulesConfig,
+} from "../game/rules";
+import { SKILL_ABILITY_LABELS, type AbilityKind } from "../game/skills";
+
+type AdvancedRulesPanelProps = {
+  rules: RulesConfig;
+  onChange: (rules: RulesConfig) => void;
+  /** Rendered under the number fields, e.g. the share code. */
+  children?: React.ReactNode;
+  className?: string;
+  inputClassName?: string;
+};
+
+type RuleNumberProps = {
+  label: string;
+  value: number;
+  step?: number;
+  title?: string;
+  onCommit: (value: number) => void;
+  inputClassName: string;
+};
+
+// Typing is free-form; the value is clamped by normalizeRulesConfig once the field loses focus.
+function RuleNumber({ label, value, step = 1, title, onCommit, inputClassName }: RuleNumberProps) {
+  const [text, setText] = useState(String(value));
+
+  useEffect(() => {
+    setText(String(value));
+  }, [value]);
+
+  return (
+    <label className="flex flex-col gap-1" title={title}>
+      <span>{label}</span>
+      <input
+        type="number"
+        inputMode="decimal"
+        step={step}
+        value={text}
+        className={inputClassName}
+        onChange={(event) => setText(event.target.value)}
+        onBlur={() => {
+          const parsed = Number(text);
+          if (text.trim() !== "" && Number.isFinite(parsed)) onCommit(parsed);
+          setText(String(value));
+        }}
+      />
+    </label>
+  );
+}
+
+const MANA_OVERFLOW_LABELS: Record<ManaOverflowRule, string> = {
+  discard: "Lost past the cap",
+  decay: "Half kept past the cap",
+};
+
+const ANTE_FIELDS: { key: keyof AnteRules; label: string; step: number; title: string }[] = [
+  { key: "baseOdds", label: "Opening odds", step: 0.1, title: "Payout offered before the first round." },
+  { key: "initiativeEdge", label: "Initiative edge", step: 0.01, title: "Win chance the initiative holder is given." },
+  { key: "minChance", label: "Min chance", step: 0.01, title: "Lowest win chance odds are priced at." },
+  { key: "maxChance", label: "Max chance", step: 0.01, title: "Highest win chance odds are priced at." },
+  { key: "minPayout", label: "Min payout", step: 0.1, title: "Smallest payout a bet can offer." },
+];
+
+export default function AdvancedRulesPanel({
+  rules,
+  onChange,
+  children,
+  className = "",
+  inputClassName = "",
+}: AdvancedRulesPanelProps) {
+  const commit = (patch: Partial<RulesConfig>) => onChange(normalizeRulesConfig({ ...rules, ...patch }));
+  const field = (props: Omit<RuleNumberProps, "inputClassName">) => (
+    <RuleNumber key={props.label} {...props} inputClassName={inputClassName} />
+  );
+
+  return (
+    <details className={["rounded-2xl border border-slate-700 bg-slate-900/60 p-4 text-xs", className].join(" ")}>
+      <summary className="cursor-pointer text-sm font-semibold">Advanced rules</summary>
+      <div className="mt-3 grid grid-cols-2 gap-3 sm:grid-cols-3">
+        {field({
+          label: "Reserve cards",
+          value: rules.reserveSize,
+          title: "Cards kept back each round; the hand holds one card per wheel plus these.",
+          onCommit: (reserveSize) => commit({ reserveSize }),
+        })}
+        {field({
+          label: "Deck size",
+          value: rules.deckSize,
+          title: "Cards in a grimoire deck.",
+          onCommit: (deckSize) => commit({ deckSize }),
+        })}
+        {field({
+          label: "Reserve per mana",
+          value: rules.manaDivisor,
+          title: "Mana gained at round end is the reserve divided by this, rounded up.",
+          onCommit: (manaDivisor) => commit({ manaDivisor }),
+        })}
+        {field({
+          label: "Mana cap",
+          value: rules.manaCap,
+          title: "Most mana a side can bank between rounds; 0 for no cap.",
+          onCommit: (manaCap) => commit({ manaCap }),
+        })}
+        <label className="flex flex-col gap-1" title="What happens to mana gained past the cap.">
+          <span>Mana overflow</span>
+          <select
+            value={rules.manaOverflow}
+            disabled={rules.manaCap === 0}
+            className={inputClassName}
+            onChange={(event) => commit({ manaOverflow: event.target.value as ManaOverflowRule })}
+          >
+            {MANA_OVERFLOW_RULES.map((rule) => (
+              <option key={rule} value={rule}>
+                {MANA_OVERFLOW_LABELS[rule]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="mt-4 font-semibold">Ante odds</div>
+      <div className="mt-2 grid grid-cols-2 gap-3 sm:grid-cols-3">
+        {ANTE_FIELDS.map(({ key, label, step, title }) =>
+          field({
+            label,
+            step,
+            title,
+            value: rules.ante[key],
+            onCommit: (value) => commit({ ante: { ...rules.ante, [key]: value } }),
+          }),
+        )}
+      </div>
+      <div className="mt-4 font-semibold">Skill uses</div>
+      <div className="mt-2 grid grid-cols-2 gap-3 sm:grid-cols-3">
+        {(Object.keys(rules.skillUses) as AbilityKind[]).map((kind) =>
+          field({
+            label: SKILL_ABILITY_LABELS[kind],
+            value: rules.skillUses[kind],
+            onCommit: (value) => commit({ skillUses: { ...rules.skillUses, [kind]: value } }),
+          }),
+        )}
+      </div>
+      {children && <div className="mt-4">{children}</div>}
+    </details>
+  );
+}
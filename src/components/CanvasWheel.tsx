@@ -2,23 +2,48 @@
 import React, { forwardRef, memo, useEffect, useImperativeHandle, useRef } from "react";
 import { SLICES, Section } from "../game/types";
 import { inSection, polar } from "../game/math";
-import { VC_META } from "../game/wheel";
+import { getVictoryCondition } from "../game/victoryConditions";
+import { findSlice0Section } from "../game/wheel";
+import { SLICE0_RULES, type Slice0Rule } from "../game/slice0Rules";
 
 export type WheelHandle = { setVisualToken: (slice: number) => void };
-type CanvasWheelProps = { sections: Section[]; size: number; onTapAssign?: () => void; };
+type CanvasWheelProps = {
+  sections: Section[];
+  size: number;
+  slices?: number;
+  /** Slices the pointer reads away from the token; a marker shows where when non-zero. */
+  pointerShift?: number;
+  /** Match rule for an empty slice 0; its icon is drawn there unless it's "no win". */
+  slice0Rule?: Slice0Rule;
+  onTapAssign?: () => void;
+  /** Called with the slice under a click, for picking a section. */
+  onSliceClick?: (slice: number) => void;
+};
+
+/** How long changed slices take to fade into their new colors. */
+const REDRAW_MS = 450;
 
 const CanvasWheel = memo(forwardRef<WheelHandle, CanvasWheelProps>(
-  ({ sections, size, onTapAssign }, ref) => {
+  ({ sections, size, slices = SLICES, pointerShift = 0, slice0Rule = "noWin", onTapAssign, onSliceClick }, ref) => {
     const canvasRef = useRef<HTMLCanvasElement | null>(null);
     const tokenElRef = useRef<HTMLDivElement | null>(null);
+    const pointerElRef = useRef<HTMLDivElement | null>(null);
     const tokenSliceRef = useRef<number>(0);
+    const drawnRef = useRef<{ sections: Section[]; slices: number } | null>(null);
+    const redrawFrameRef = useRef<number | null>(null);
 
     // Small safety margin and alignment offsets
     const CLIP_PAD = 3;
     const WHEEL_OFFSET_X = -8; // tweak to move left/right
     const WHEEL_OFFSET_Y = -1; // tweak to move up/down
 
-    const drawBase = () => {
+    const sliceColor = (secs: Section[], i: number) =>
+      i === 0
+        ? findSlice0Section(secs)?.color ?? "#6b7280"
+        : secs.find((s) => inSection(i, s))?.color ?? "#334155";
+
+    // `from` is the wheel being faded out; slices whose color changed blend over `t` (0 → 1).
+    const drawBase = (from: Section[] | null = null, t = 1) => {
       const canvas = canvasRef.current; if (!canvas) return;
       const dpr = Math.max(1, window.devicePixelRatio || 1);
       const cssW = Math.round(size), cssH = Math.round(size);
@@ -39,13 +64,12 @@ const CanvasWheel = memo(forwardRef<WheelHandle, CanvasWheelProps>(
       const centerY = cssH / 2 + WHEEL_OFFSET_Y;
       const wheelR = cssW / 2 - (16 + CLIP_PAD);
 
-      const angPer = 360 / SLICES;
-      const sliceFill = (i: number) =>
-        sections.find((s) => inSection(i, s))?.color ?? "#334155";
+      const angPer = 360 / slices;
+      const slice0 = findSlice0Section(sections);
 
       ctx.clearRect(0, 0, cssW, cssH);
 
-      for (let i = 0; i < SLICES; i++) {
+      for (let i = 0; i < slices; i++) {
         const startAng = (i * angPer - 90) * (Math.PI / 180);
         const endAng   = ((i + 1) * angPer - 90) * (Math.PI / 180);
 
@@ -54,9 +78,19 @@ const CanvasWheel = memo(forwardRef<WheelHandle, CanvasWheelProps>(
         ctx.moveTo(centerX, centerY);
         ctx.arc(centerX, centerY, wheelR, startAng, endAng, false);
         ctx.closePath();
-        ctx.fillStyle = i === 0 ? "#6b7280" : sliceFill(i);
-        (ctx as any).globalAlpha = 0.9; ctx.fill(); (ctx as any).globalAlpha = 1;
+        ctx.fillStyle = sliceColor(sections, i);
+        (ctx as any).globalAlpha = 0.9; ctx.fill();
+        const oldColor = from && t < 1 ? sliceColor(from, i) : null;
+        const changed = oldColor !== null && oldColor !== sliceColor(sections, i);
+        if (changed) {
+          ctx.fillStyle = oldColor;
+          (ctx as any).globalAlpha = 0.9 * (1 - t); ctx.fill();
+        }
+        (ctx as any).globalAlpha = 1;
         ctx.strokeStyle = "#0f172a"; ctx.lineWidth = 1; ctx.stroke();
+        if (changed) {
+          ctx.strokeStyle = `rgba(251,191,36,${(1 - t).toFixed(3)})`; ctx.lineWidth = 2; ctx.stroke();
+        }
 
         // numbers
         const midAng = (i + 0.5) * angPer;
@@ -67,14 +101,17 @@ const CanvasWheel = memo(forwardRef<WheelHandle, CanvasWheelProps>(
         ctx.fillText(String(i), numPos.x, numPos.y);
 
         // icons
-        if (i !== 0) {
-          const sec = sections.find((s) => inSection(i, s));
-          if (sec) {
-            const iconPos = polar(centerX, centerY, wheelR * 0.86, midAng);
-            ctx.font = "12px system-ui, Apple Color Emoji, Segoe UI Emoji";
-            ctx.fillStyle = "#ffffff";
-            ctx.fillText(VC_META[sec.id].icon, iconPos.x, iconPos.y);
-          }
+        const sec = i === 0 ? slice0 : sections.find((s) => inSection(i, s));
+        const icon = sec
+          ? getVictoryCondition(sec.id)?.icon ?? ""
+          : i === 0 && slice0Rule !== "noWin"
+            ? SLICE0_RULES[slice0Rule].icon
+            : "";
+        if (icon) {
+          const iconPos = polar(centerX, centerY, wheelR * 0.86, midAng);
+          ctx.font = "12px system-ui, Apple Color Emoji, Segoe UI Emoji";
+          ctx.fillStyle = "#ffffff";
+          ctx.fillText(icon, iconPos.x, iconPos.y);
         }
       }
 
@@ -82,33 +119,73 @@ const CanvasWheel = memo(forwardRef<WheelHandle, CanvasWheelProps>(
       placeToken(tokenSliceRef.current);
     };
 
-    // Move token imperatively (keeps React out of the loop)
-    const placeToken = (slice: number) => {
-      const el = tokenElRef.current; if (!el) return;
+    const placeMarker = (el: HTMLDivElement | null, slice: number, radius: number, half: number) => {
+      if (!el) return;
       const wheelR = size / 2 - (16 + CLIP_PAD);
-      const angPer = 360 / SLICES;
-      const tokenAng = (slice + 0.5) * angPer;
+      const angPer = 360 / slices;
+      const ang = (slice + 0.5) * angPer;
 
       // same center offsets as the drawing code
       const cx = size / 2 + WHEEL_OFFSET_X;
       const cy = size / 2 + WHEEL_OFFSET_Y;
 
-      const pos = polar(cx, cy, wheelR * 0.94, tokenAng);
-      const x = Math.round(pos.x - 7), y = Math.round(pos.y - 7);
+      const pos = polar(cx, cy, wheelR * radius, ang);
+      const x = Math.round(pos.x - half), y = Math.round(pos.y - half);
       el.style.transform = `translate(${x}px, ${y}px)`;
     };
 
-    // redraw base when size/sections change
-    useEffect(() => { drawBase(); /* eslint-disable-line react-hooks/exhaustive-deps */ }, [size, sections]);
+    // Move token imperatively (keeps React out of the loop); the pointer marker follows it
+    const placeToken = (slice: number) => {
+      placeMarker(tokenElRef.current, slice, 0.94, 7);
+      const read = (((slice + pointerShift) % slices) + slices) % slices;
+      placeMarker(pointerElRef.current, read, 0.76, 5);
+    };
+
+    // redraw base when size/sections change; a rewrite of the same wheel fades in
+    useEffect(() => {
+      const previous = drawnRef.current;
+      drawnRef.current = { sections, slices };
+      if (redrawFrameRef.current !== null) cancelAnimationFrame(redrawFrameRef.current);
+      redrawFrameRef.current = null;
+      if (!previous || previous.slices !== slices || previous.sections === sections) {
+        drawBase();
+        return;
+      }
+      const started = performance.now();
+      const step = (now: number) => {
+        const t = Math.min(1, (now - started) / REDRAW_MS);
+        drawBase(previous.sections, t);
+        redrawFrameRef.current = t < 1 ? requestAnimationFrame(step) : null;
+      };
+      redrawFrameRef.current = requestAnimationFrame(step);
+    }, [size, sections, slices, slice0Rule]); // eslint-disable-line react-hooks/exhaustive-deps
+    useEffect(() => () => {
+      if (redrawFrameRef.current !== null) cancelAnimationFrame(redrawFrameRef.current);
+    }, []);
+    useEffect(() => { placeToken(tokenSliceRef.current); /* eslint-disable-line react-hooks/exhaustive-deps */ }, [pointerShift]);
 
     // expose imperative API
     useImperativeHandle(ref, () => ({
       setVisualToken: (s: number) => { tokenSliceRef.current = s; placeToken(s); }
-    }), [size]);
+    }), [size, slices, pointerShift]);
+
+    const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+      if (onSliceClick) {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const scale = rect.width > 0 ? size / rect.width : 1;
+        const dx = (e.clientX - rect.left) * scale - (size / 2 + WHEEL_OFFSET_X);
+        const dy = (e.clientY - rect.top) * scale - (size / 2 + WHEEL_OFFSET_Y);
+        if (Math.hypot(dx, dy) <= size / 2 - (16 + CLIP_PAD)) {
+          const deg = ((Math.atan2(dy, dx) * 180) / Math.PI + 90 + 360) % 360;
+          onSliceClick(Math.floor(deg / (360 / slices)) % slices);
+        }
+      }
+      onTapAssign?.();
+    };
 
     return (
       <div
-        onClick={onTapAssign}
+        onClick={handleClick}
         className="relative overflow-hidden rounded-full"
         style={{
           width: size,
@@ -135,6 +212,20 @@ const CanvasWheel = memo(forwardRef<WheelHandle, CanvasWheelProps>(
             willChange: 'transform'
           }}
         />
+        {pointerShift !== 0 && (
+          <div
+            ref={pointerElRef}
+            aria-hidden
+            style={{
+              position: 'absolute',
+              width: 10, height: 10, left: 0, top: 0,
+              background: '#fbbf24',
+              border: '2px solid #0f172a',
+              rotate: '45deg',
+              willChange: 'transform'
+            }}
+          />
+        )}
       </div>
     );
   }
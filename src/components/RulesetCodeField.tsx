@@ -0,0 +1,94 @@
+import React, { useRef, useState } from "react";
+
+import { decodeRulesetCode, type Ruleset } from "../game/rulesetCode";
+
+type RulesetCodeFieldProps = {
+  /** Share code for the settings on screen. */
+  code: string;
+  onApply: (ruleset: Ruleset) => void;
+  disabled?: boolean;
+  className?: string;
+  inputClassName?: string;
+  buttonClassName?: string;
+};
+
+export default function RulesetCodeField({
+  code,
+  onApply,
+  disabled = false,
+  className = "",
+  inputClassName = "",
+  buttonClassName = "",
+}: RulesetCodeFieldProps) {
+  const [pasted, setPasted] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const codeInputRef = useRef<HTMLInputElement>(null);
+
+  // There's no clipboard API off a secure context (a LAN lobby over HTTP, say);
+  // select the code instead so it can be copied by hand.
+  const copy = () => {
+    const selectCode = () => codeInputRef.current?.select();
+    if (!navigator.clipboard) {
+      selectCode();
+      return;
+    }
+    navigator.clipboard.writeText(code).catch(selectCode);
+  };
+
+  const apply = () => {
+    const ruleset = decodeRulesetCode(pasted);
+    if (!ruleset) {
+      setError("That isn't a ruleset code.");
+      return;
+    }
+    setError(null);
+    setPasted("");
+    onApply(ruleset);
+  };
+
+  return (
+    <div className={["flex flex-col gap-2 text-xs", className].join(" ")}>
+      <label className="flex flex-col gap-1">
+        <span>Ruleset code</span>
+        <div className="flex gap-2">
+          <input
+            ref={codeInputRef}
+            readOnly
+            value={code}
+            onFocus={(event) => event.target.select()}
+            className={["min-w-0 flex-1 font-mono", inputClassName].join(" ")}
+          />
+          <button
+            type="button"
+            className={buttonClassName}
+            onClick={copy}
+          >
+            Copy
+          </button>
+        </div>
+      </label>
+      <label className="flex flex-col gap-1">
+        <span>Paste a code</span>
+        <div className="flex gap-2">
+          <input
+            value={pasted}
+            disabled={disabled}
+            placeholder="RW1-…"
+            onChange={(event) => {
+              setPasted(event.target.value);
+              setError(null);
+            }}
+            onKeyDown={(event) => {
+              if (event.key === "Enter") apply();
+            }}
+            className={["min-w-0 flex-1 font-mono", inputClassName].join(" ")}
+          />
+          <button type="button" disabled={disabled || pasted.trim() === ""} className={buttonClassName} onClick={apply}>
+            Apply
+          </button>
+        </div>
+      </label>
+      {error && <div className="text-rose-300">{error}</div>}
+    </div>
+  );
+}
@@ -1,9 +1,12 @@
 // src/components/StSCard.tsx
 import React, { memo, useMemo } from "react";
-import type { Arcana, Card } from "../game/types";
+import type { Arcana, Card, SplitFace } from "../game/types";
 import { getArcanaIcon, getCardArcana } from "../game/arcana";
 import { getSkillCardValue } from "../game/skills";
 import { fmtNum, isSplit } from "../game/values";
+import { CARD_TAG_INFO, getRuleTags } from "../game/cardTags";
+import type { StatusEffect } from "../game/statusEffects";
+import StatusBadges from "./StatusBadges";
 
 const ARCANA_COLOR_CLASS: Record<Arcana, string> = {
   fire: "text-orange-300",
@@ -58,6 +61,10 @@ type StSCardProps = {
   ariaPressed?: React.AriaAttributes["aria-pressed"];
   onClick?: React.MouseEventHandler<HTMLButtonElement>;
   numberColorMode?: "arcana" | "skill";
+  /** Face chosen for a split card in play; the other face is dimmed. */
+  splitFace?: SplitFace;
+  /** Status effects on the card (or the lane it sits in), shown as badges. */
+  statusEffects?: readonly StatusEffect[];
 } & Omit<
   React.ButtonHTMLAttributes<HTMLButtonElement>,
   "onClick" | "children" | "className" | "disabled" | "aria-label" | "aria-pressed"
@@ -76,6 +83,8 @@ export default memo(function StSCard({
   ariaPressed,
   onClick,
   numberColorMode = "arcana",
+  splitFace,
+  statusEffects,
   style,
   ...buttonProps
 }: StSCardProps) {
@@ -85,6 +94,7 @@ export default memo(function StSCard({
     () => ARCANA_COLOR_CLASS[arcana] ?? "text-slate-200",
     [arcana],
   );
+  const ruleTags = useMemo(() => getRuleTags(card), [card]);
   const numberColorClass = useMemo(() => {
     if (numberColorMode === "skill") {
       return getSkillNumberColorClass(card);
@@ -125,10 +135,30 @@ export default memo(function StSCard({
       ) : null}
       <div className="absolute inset-0 rounded-xl border bg-gradient-to-br from-slate-600 to-slate-800 border-slate-400"></div>
       <div className="absolute inset-px rounded-[10px] bg-slate-900/85 backdrop-blur-[1px] border border-slate-700/70" />
+      {ruleTags.length > 0 ? (
+        <div className="absolute left-1 top-1 flex gap-0.5" style={{ zIndex: 2 }}>
+          {ruleTags.map((tag) => (
+            <span
+              key={tag}
+              title={`${CARD_TAG_INFO[tag].label}: ${CARD_TAG_INFO[tag].description}`}
+              className="rounded bg-slate-700/90 px-1 text-[10px] leading-4 text-amber-200"
+            >
+              {CARD_TAG_INFO[tag].icon}
+            </span>
+          ))}
+        </div>
+      ) : null}
+      {statusEffects?.length ? (
+        <StatusBadges effects={statusEffects} className="absolute bottom-1 left-1 z-[2]" />
+      ) : null}
       <div className="absolute inset-0 flex flex-col items-center justify-center">
         {isSplit(card) ? (
           <div className={`mt-1 text-xl font-extrabold leading-none text-center ${numberColorClass}`}>
-            <div>{fmtNum(card.leftValue!)}<span className="opacity-60">|</span>{fmtNum(card.rightValue!)}</div>
+            <div>
+              <span className={splitFace === "right" ? "opacity-40" : ""}>{fmtNum(card.leftValue)}</span>
+              <span className="opacity-60">|</span>
+              <span className={splitFace === "left" ? "opacity-40" : ""}>{fmtNum(card.rightValue)}</span>
+            </div>
           </div>
         ) : (
           <div className={`mt+10 text-3xl font-extrabold ${numberColorClass}`}>
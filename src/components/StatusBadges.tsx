@@ -0,0 +1,31 @@
+// src/components/StatusBadges.tsx
+// Row of status-effect icons for a card, a card slot or a wheel.
+import React from "react";
+import { STATUS_EFFECTS, describeStatusEffect, type StatusEffect } from "../game/statusEffects";
+
+type StatusBadgesProps = {
+  effects: readonly StatusEffect[];
+  className?: string;
+};
+
+export default function StatusBadges({ effects, className = "" }: StatusBadgesProps) {
+  if (effects.length === 0) return null;
+  return (
+    <div className={`pointer-events-none flex gap-0.5 ${className}`.trim()}>
+      {effects.map((effect, i) => {
+        const title = describeStatusEffect(effect);
+        return (
+          <span
+            key={`${effect.kind}-${i}`}
+            title={title}
+            aria-label={title}
+            className="pointer-events-auto rounded bg-slate-900/85 px-1 text-[10px] leading-4 text-sky-100"
+          >
+            {STATUS_EFFECTS[effect.kind].icon}
+            {effect.stacks > 1 ? effect.stacks : null}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import React from "react";
+
+import { ARCHETYPE_DEFINITIONS, ARCHETYPE_IDS, DEFAULT_ARCHETYPE, type ArchetypeId } from "../game/archetypes";
+import { rotationTemplateAt, type WheelSetChoice, type WheelTemplate } from "../game/wheel";
+import { laneIndexes } from "../game/lanes";
+
+type WheelSetPickerProps = {
+  value: WheelSetChoice;
+  onChange: (value: WheelSetChoice) => void;
+  laneCount: number;
+  templates: WheelTemplate[];
+  /** Labels for the two sides when wheels follow archetypes. */
+  sideLabels?: { player: string; enemy: string };
+  disabled?: boolean;
+  className?: string;
+  selectClassName?: string;
+};
+
+const KIND_LABELS: Record<WheelSetChoice["kind"], string> = {
+  rotation: "Classic rotation",
+  archetypes: "Match archetypes",
+  templates: "Pick per wheel",
+};
+
+export default function WheelSetPicker({
+  value,
+  onChange,
+  laneCount,
+  templates,
+  sideLabels = { player: "Your archetype", enemy: "Opponent's archetype" },
+  disabled = false,
+  className = "",
+  selectClassName = "",
+}: WheelSetPickerProps) {
+  const changeKind = (kind: WheelSetChoice["kind"]) => {
+    if (kind === value.kind) return;
+    if (kind === "archetypes") {
+      onChange({ kind, player: DEFAULT_ARCHETYPE, enemy: DEFAULT_ARCHETYPE });
+    } else if (kind === "templates") {
+      onChange({ kind, templateIds: laneIndexes(laneCount).map((lane) => rotationTemplateAt(lane).id) });
+    } else {
+      onChange({ kind });
+    }
+  };
+
+  const archetypeSelect = (side: "player" | "enemy", selected: ArchetypeId) => (
+    <label key={side} className="flex flex-col gap-1 text-xs">
+      <span>{sideLabels[side]}</span>
+      <select
+        className={selectClassName}
+        disabled={disabled}
+        value={selected}
+        onChange={(event) =>
+          value.kind === "archetypes" &&
+          onChange({ ...value, [side]: event.target.value as ArchetypeId })
+        }
+      >
+        {ARCHETYPE_IDS.map((id) => (
+          <option key={id} value={id}>
+            {ARCHETYPE_DEFINITIONS[id].name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className={["flex flex-col gap-2", className].join(" ")}>
+      <label className="flex flex-col gap-1 text-xs font-semibold">
+        <span>Wheel set</span>
+        <select
+          className={selectClassName}
+          disabled={disabled}
+          value={value.kind}
+          onChange={(event) => changeKind(event.target.value as WheelSetChoice["kind"])}
+        >
+          {(Object.keys(KIND_LABELS) as WheelSetChoice["kind"][]).map((kind) => (
+            <option key={kind} value={kind}>
+              {KIND_LABELS[kind]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {value.kind === "archetypes" && (
+        <div className="flex flex-wrap gap-2">
+          {archetypeSelect("player", value.player)}
+          {archetypeSelect("enemy", value.enemy)}
+        </div>
+      )}
+
+      {value.kind === "templates" && (
+        <div className="flex flex-wrap gap-2">
+          {laneIndexes(laneCount).map((lane) => {
+            const ids = value.templateIds;
+            const selected = ids[lane] ?? ids[lane % Math.max(1, ids.length)] ?? rotationTemplateAt(lane).id;
+            return (
+              <label key={lane} className="flex flex-col gap-1 text-xs">
+                <span>Wheel {lane + 1}</span>
+                <select
+                  className={selectClassName}
+                  disabled={disabled}
+                  value={selected}
+                  onChange={(event) => {
+                    const next = laneIndexes(laneCount).map(
+                      (i) => ids[i] ?? ids[i % Math.max(1, ids.length)] ?? rotationTemplateAt(i).id,
+                    );
+                    next[lane] = event.target.value;
+                    onChange({ kind: "templates", templateIds: next });
+                  }}
+                >
+                  {templates.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.name} · {template.slices}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -225,7 +225,7 @@ const ArchetypeModal: React.FC<ArchetypeModalProps> = ({
 
   return (
     <div className="fixed inset-0 z-[120] flex items-start justify-center bg-slate-950/80 backdrop-blur-sm px-3 py-4 sm:items-center sm:px-4 sm:py-6">
-      <div className="w-full max-w-4xl space-y-5 overflow-y-auto rounded-2xl border border-slate-700 bg-slate-900/95 p-4 shadow-2xl max-h-[calc(100vh-2rem)] sm:max-h-[calc(100vh-3rem)] sm:space-y-6 sm:p-6">
+      <div className="w-full max-w-4xl lg:max-w-6xl space-y-5 overflow-y-auto rounded-2xl border border-slate-700 bg-slate-900/95 p-4 shadow-2xl max-h-[calc(100vh-2rem)] sm:max-h-[calc(100vh-3rem)] sm:space-y-6 sm:p-6">
         <div className="space-y-2 text-left sm:text-center">
           <h2 className="text-2xl font-semibold text-amber-200">Choose Your Archetype</h2>
           <p className="text-sm text-slate-200/80">
@@ -272,7 +272,7 @@ const ArchetypeModal: React.FC<ArchetypeModalProps> = ({
         </div>
 
         {/* Desktop: grid */}
-        <div className="hidden gap-4 sm:grid sm:grid-cols-3">
+        <div className="hidden gap-4 sm:grid sm:grid-cols-2 lg:grid-cols-4">
           {ARCHETYPE_IDS.map((id) => (
             <div
               key={id}
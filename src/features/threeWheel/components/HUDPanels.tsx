@@ -1,6 +1,10 @@
 import React from "react";
-import type { Phase, Players } from "../../../game/types";
+import type { Arcana, Phase, Players } from "../../../game/types";
 import type { LegacySide } from "./WheelPanel";
+import StatusBadges from "../../../components/StatusBadges";
+import { statusEffectsOn, type StatusEffect } from "../../../game/statusEffects";
+import { ARCANA_EMOJI } from "../../../game/arcana";
+import { getComboProgress } from "../../../game/spellCombos";
 
 interface Theme {
   panelBg: string;
@@ -13,6 +17,10 @@ interface Theme {
 
 interface HUDPanelsProps {
   manaPools: { player: number; enemy: number };
+  /** Most mana a side banks; 0 for no cap. */
+  manaCap?: number;
+  /** Arcana each side has chained this phase; shown as a combo meter by the mana. */
+  comboChains?: Record<LegacySide, readonly Arcana[]>;
   isGrimoireMode: boolean;
   reserveSums: { player: number; enemy: number } | null;
   players: Players;
@@ -27,10 +35,14 @@ interface HUDPanelsProps {
   playerManaButtonRef?: React.Ref<HTMLButtonElement>;
   reserveSpellHighlights: Record<LegacySide, boolean>;
   skillReserveEmojis: Record<LegacySide, string | null>;
+  /** Status effects in play; each panel shows the ones on its fighter and reserve. */
+  statusEffects?: readonly StatusEffect[];
 }
 
 const HUDPanels: React.FC<HUDPanelsProps> = ({
   manaPools,
+  manaCap = 0,
+  comboChains,
   isGrimoireMode,
   reserveSums,
   players,
@@ -45,6 +57,7 @@ const HUDPanels: React.FC<HUDPanelsProps> = ({
   playerManaButtonRef,
   reserveSpellHighlights,
   skillReserveEmojis,
+  statusEffects = [],
 }) => {
   const rsP = reserveSums ? reserveSums.player : null;
   const rsE = reserveSums ? reserveSums.enemy : null;
@@ -68,6 +81,7 @@ const HUDPanels: React.FC<HUDPanelsProps> = ({
     const reserveSkillEmoji = skillReserveEmojis?.[side] ?? null;
 
     const manaCount = isPlayer ? manaPools.player : manaPools.enemy;
+    const manaLabel = manaCap > 0 ? `${manaCount} of ${manaCap}` : `${manaCount}`;
 
     const manaPillBaseClassName = `flex items-center gap-1 rounded-full border px-2 py-0.5 text-[11px] font-semibold transition-opacity flex-shrink-0 ${
       isGrimoireMode ? "opacity-100 visible" : "opacity-0 invisible"
@@ -87,11 +101,44 @@ const HUDPanels: React.FC<HUDPanelsProps> = ({
           🔮
         </span>
         <span className="tabular-nums text-sm leading-none">{manaCount}</span>
+        {manaCap > 0 ? <span className="tabular-nums text-[10px] leading-none opacity-60">/{manaCap}</span> : null}
       </>
     );
 
     const manaRef = isPlayer ? playerManaButtonRef : undefined;
 
+    const comboChain = comboChains?.[side] ?? [];
+    const comboProgress = getComboProgress(comboChain);
+
+    const renderComboMeter = () => {
+      if (!isGrimoireMode || comboChain.length === 0) return null;
+      const title = comboProgress.length
+        ? comboProgress
+            .map(({ combo, next }) => `${combo.name}: cast ${ARCANA_EMOJI[next]} next. ${combo.description}`)
+            .join("\n")
+        : "No combo starts this way.";
+      return (
+        <div
+          className="flex items-center gap-0.5 rounded-full border px-2 py-0.5 text-[11px] font-semibold flex-shrink-0"
+          style={{ background: "#1b1209ee", borderColor: theme.slotBorder, color: theme.textWarm }}
+          title={title}
+          aria-label={`Combo: ${comboChain.join(", ")}. ${title}`}
+        >
+          <span className="text-[10px] uppercase tracking-wide opacity-70">Combo</span>
+          {comboChain.map((arcana, i) => (
+            <span key={i} aria-hidden className="leading-none">
+              {ARCANA_EMOJI[arcana]}
+            </span>
+          ))}
+          {comboProgress.length ? (
+            <span aria-hidden className="leading-none opacity-60">
+              →{comboProgress.map(({ next }) => ARCANA_EMOJI[next]).join("/")}
+            </span>
+          ) : null}
+        </div>
+      );
+    };
+
     const renderManaPill = () => {
       if (!isGrimoireMode) {
         return (
@@ -114,9 +161,9 @@ const HUDPanels: React.FC<HUDPanelsProps> = ({
               isGrimoireOpen ? "ring-2 ring-sky-400/70" : ""
             }`}
             style={manaPillStyle}
-            title={`Mana: ${manaCount}`}
+            title={`Mana: ${manaLabel}`}
             aria-pressed={isGrimoireOpen}
-            aria-label={`Mana: ${manaCount}. ${isGrimoireOpen ? "Hide" : "Show"} grimoire.`}
+            aria-label={`Mana: ${manaLabel}. ${isGrimoireOpen ? "Hide" : "Show"} grimoire.`}
             ref={manaRef}
           >
             {manaPillContent}
@@ -129,7 +176,7 @@ const HUDPanels: React.FC<HUDPanelsProps> = ({
           className={manaPillBaseClassName}
           style={manaPillStyle}
           aria-hidden={!isGrimoireMode}
-          title={`Mana: ${manaCount}`}
+          title={`Mana: ${manaLabel}`}
         >
           {manaPillContent}
         </div>
@@ -212,8 +259,15 @@ const HUDPanels: React.FC<HUDPanelsProps> = ({
             </span>
           )}
         </div>
-        <div className="mt-1 self-start">
+        <div className="mt-1 flex items-center gap-1 self-start">
           {renderManaPill()}
+          {renderComboMeter()}
+          <StatusBadges
+            effects={[
+              ...statusEffectsOn(statusEffects, { type: "fighter", side }),
+              ...statusEffectsOn(statusEffects, { type: "reserve", side }),
+            ]}
+          />
         </div>
       </div>
     );
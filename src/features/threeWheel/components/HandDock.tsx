@@ -69,6 +69,11 @@ interface HandDockProps {
   skillTargetableReserveIds?: Set<string> | null;
   onSkillTargetSelect?: (selection: { cardId: string }) => void;
   onSkillAbilityCancel?: () => void;
+  /** Cards that currently make up the local reserve. */
+  reserveCardIds?: readonly string[];
+  /** Reserve cards the local player picked themselves, as opposed to hand-order fill. */
+  chosenReserveIds?: readonly string[];
+  onToggleReserve?: (cardId: string) => void;
   numberColorMode?: "arcana" | "skill";
 }
 
@@ -101,6 +106,9 @@ const HandDock = forwardRef<HTMLDivElement, HandDockProps>(
     skillTargetableReserveIds,
     onSkillTargetSelect,
     onSkillAbilityCancel,
+    reserveCardIds = [],
+    chosenReserveIds = [],
+    onToggleReserve,
     numberColorMode = "arcana",
   }, forwardedRef) => {
     const dockRef = useRef<HTMLDivElement | null>(null);
@@ -350,6 +358,10 @@ const HandDock = forwardRef<HTMLDivElement, HandDockProps>(
     const stageLocation = activeStage?.type === "card" ? activeStage.location ?? "board" : null;
 
     const spellHighlightSet = useMemo(() => new Set(spellHighlightedCardIds), [spellHighlightedCardIds]);
+    const reserveSet = useMemo(() => new Set(reserveCardIds), [reserveCardIds]);
+    const chosenReserveSet = useMemo(() => new Set(chosenReserveIds), [chosenReserveIds]);
+    const canToggleReserve =
+      Boolean(onToggleReserve) && phase === "choose" && !awaitingManualTarget && !skillTargetingReserve;
 
     const spellsEnabledAttr = isGrimoireMode ? "true" : "false";
 
@@ -398,7 +410,10 @@ const HandDock = forwardRef<HTMLDivElement, HandDockProps>(
             {localFighter.hand.map((card, idx) => {
               const isSelected = selectedCardId === card.id;
               const isSpellAffected = spellHighlightSet.has(card.id);
-              const cardSelectableForSpell = awaitingCardTarget && (stageLocation === "any" || stageLocation === "hand");
+              const inReserve = reserveSet.has(card.id);
+              const cardSelectableForSpell =
+                awaitingCardTarget &&
+                (stageLocation === "any" || (stageLocation === "hand" && inReserve));
               const cardSelectableForSkill =
                 skillTargetingReserve && skillTargetableReserveSet?.has(card.id);
               const cardSelectable = cardSelectableForSpell || cardSelectableForSkill;
@@ -463,7 +478,7 @@ const HandDock = forwardRef<HTMLDivElement, HandDockProps>(
                     }}
                     whileHover={{ y: -Math.max(8, liftPx - 10), opacity: 1, scale: 1.04 }}
                     transition={{ type: "spring", stiffness: 320, damping: 22 }}
-                    className={`drop-shadow-xl ${isSelected ? "ring-2 ring-amber-300" : ""}`}
+                    className={`relative drop-shadow-xl ${isSelected ? "ring-2 ring-amber-300" : ""}`}
                     onPointerEnter={() => handleSkillHoverStart(card.id)}
                     onPointerLeave={() => handleSkillHoverEnd(card.id)}
                     onFocusCapture={() => handleSkillHoverStart(card.id)}
@@ -541,6 +556,28 @@ const HandDock = forwardRef<HTMLDivElement, HandDockProps>(
                       aria-pressed={isSelected}
                       aria-label={`Select ${card.name}`}
                     />
+                    {canToggleReserve ? (
+                      <button
+                        type="button"
+                        onClick={() => onToggleReserve?.(card.id)}
+                        className={[
+                          "absolute -top-2 left-1/2 -translate-x-1/2 rounded-full px-1.5 text-[9px] font-semibold uppercase tracking-wide",
+                          chosenReserveSet.has(card.id)
+                            ? "bg-sky-400 text-slate-950"
+                            : inReserve
+                              ? "bg-slate-900/90 text-sky-200 ring-1 ring-sky-400/70"
+                              : "bg-slate-900/80 text-slate-400 ring-1 ring-white/15",
+                        ].join(" ")}
+                        aria-pressed={chosenReserveSet.has(card.id)}
+                        aria-label={`${chosenReserveSet.has(card.id) ? "Release" : "Keep"} ${card.name} as reserve`}
+                      >
+                        Reserve
+                      </button>
+                    ) : inReserve ? (
+                      <span className="pointer-events-none absolute -top-2 left-1/2 -translate-x-1/2 rounded-full bg-slate-900/90 px-1.5 text-[9px] font-semibold uppercase tracking-wide text-sky-200 ring-1 ring-sky-400/70">
+                        Reserve
+                      </span>
+                    ) : null}
                   </motion.div>
                 </div>
               );
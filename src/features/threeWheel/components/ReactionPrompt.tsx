@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from "react";
+import type { SpellDefinition, SpellStackEntry } from "../../../game/spellEngine";
+
+interface ReactionPromptProps {
+  /** The spell waiting on an answer. */
+  top: SpellStackEntry;
+  casterName: string;
+  responderName: string;
+  /** Whether the local side is the one answering. */
+  responding: boolean;
+  /** When the window closes on its own; null when it waits for a choice. */
+  expiresAt: number | null;
+  reactions: Array<{ spell: SpellDefinition; cost: number; affordable: boolean }>;
+  onReact: (spell: SpellDefinition) => void;
+  onPass: () => void;
+}
+
+const secondsLeft = (expiresAt: number | null) =>
+  expiresAt === null ? null : Math.max(0, Math.ceil((expiresAt - Date.now()) / 1000));
+
+const ReactionPrompt: React.FC<ReactionPromptProps> = ({
+  top,
+  casterName,
+  responderName,
+  responding,
+  expiresAt,
+  reactions,
+  onReact,
+  onPass,
+}) => {
+  const [remaining, setRemaining] = useState(() => secondsLeft(expiresAt));
+
+  useEffect(() => {
+    setRemaining(secondsLeft(expiresAt));
+    if (expiresAt === null) return;
+    const interval = window.setInterval(() => setRemaining(secondsLeft(expiresAt)), 250);
+    return () => window.clearInterval(interval);
+  }, [expiresAt]);
+
+  const spellLabel = `${top.icon ? `${top.icon} ` : ""}${top.spellName}`;
+
+  return (
+    <div className="pointer-events-none fixed inset-x-0 top-20 z-[91] flex justify-center px-3">
+      <div
+        role="status"
+        className="pointer-events-auto w-full max-w-sm rounded-xl border border-violet-400/60 bg-slate-900/95 px-3 py-2 shadow-2xl"
+      >
+        <div className="flex items-center justify-between gap-3">
+          <div className="text-[13px] font-semibold text-slate-100">
+            {casterName} casts {spellLabel}
+          </div>
+          {remaining !== null ? (
+            <div className="text-[11px] tabular-nums text-violet-200">{remaining}s</div>
+          ) : null}
+        </div>
+        {responding ? (
+          <>
+            <div className="mt-1 text-[11px] leading-snug text-slate-300">Answer it, or let it resolve.</div>
+            <div className="mt-2 flex flex-wrap gap-1.5">
+              {reactions.map(({ spell, cost, affordable }) => (
+                <button
+                  key={spell.id}
+                  type="button"
+                  onClick={() => onReact(spell)}
+                  disabled={!affordable}
+                  title={spell.description}
+                  className="rounded border border-violet-400/60 px-2.5 py-1 text-[11px] text-violet-100 transition hover:bg-violet-400/10 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {spell.icon ? <span aria-hidden>{spell.icon} </span> : null}
+                  {spell.name} · 🔹{cost}
+                </button>
+              ))}
+              <button
+                type="button"
+                onClick={onPass}
+                className="rounded border border-slate-600 px-2.5 py-1 text-[11px] text-slate-200 transition hover:border-slate-400 hover:text-white"
+              >
+                Let it resolve
+              </button>
+            </div>
+          </>
+        ) : (
+          <div className="mt-1 text-[11px] leading-snug text-slate-300">Waiting for {responderName} to answer…</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReactionPrompt;
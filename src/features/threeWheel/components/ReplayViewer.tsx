@@ -0,0 +1,237 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import CanvasWheel, { type WheelHandle } from "../../../components/CanvasWheel";
+import StSCard from "../../../components/StSCard";
+import { SLICES, type Card, type LegacySide } from "../../../game/types";
+import { easeInOutCubic } from "../../../game/math";
+import {
+  describeReplayAction,
+  getReplayRounds,
+  serializeReplay,
+  type MatchReplay,
+} from "../../../game/replay";
+
+interface ReplayViewerProps {
+  replay: MatchReplay;
+  onClose: () => void;
+}
+
+const WHEEL_SIZE = 150;
+
+export function downloadReplay(replay: MatchReplay) {
+  if (typeof window === "undefined") return;
+  const blob = new Blob([serializeReplay(replay)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${replay.id}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ replay, onClose }) => {
+  const rounds = useMemo(() => getReplayRounds(replay).filter((round) => round.result), [replay]);
+  const [index, setIndex] = useState(0);
+  const [spinKey, setSpinKey] = useState(0);
+  // Enough refs for the largest lane count a replay can have.
+  const wheelRefs = [
+    useRef<WheelHandle | null>(null),
+    useRef<WheelHandle | null>(null),
+    useRef<WheelHandle | null>(null),
+    useRef<WheelHandle | null>(null),
+    useRef<WheelHandle | null>(null),
+  ];
+
+  const names: Record<LegacySide, string> = {
+    player: replay.players.left.name || "Player",
+    enemy: replay.players.right.name || "Enemy",
+  };
+
+  const current = rounds[index] ?? null;
+  const result = current?.result ?? null;
+
+  useEffect(() => {
+    if (!result) return;
+    let cancelled = false;
+
+    const spin = async () => {
+      result.startTokens.forEach((token, wheel) => wheelRefs[wheel].current?.setVisualToken(token));
+      for (let w = 0; w < result.startTokens.length; w++) {
+        const outcome = result.outcomes.find((entry) => entry.wheel === w);
+        const start = result.startTokens[w];
+        const steps = outcome?.steps ?? 0;
+        const slices = outcome?.slices ?? SLICES;
+        if (steps <= 0) continue;
+        const total = Math.max(220, Math.min(1000, 110 + 70 * steps));
+        const t0 = performance.now();
+        await new Promise<void>((resolve) => {
+          const frame = (now: number) => {
+            if (cancelled) return resolve();
+            const tt = Math.max(0, Math.min(1, (now - t0) / total));
+            const progressed = Math.floor(easeInOutCubic(tt) * steps);
+            wheelRefs[w].current?.setVisualToken((start + progressed) % slices);
+            if (tt < 1) requestAnimationFrame(frame);
+            else resolve();
+          };
+          requestAnimationFrame(frame);
+        });
+        if (cancelled) return;
+        wheelRefs[w].current?.setVisualToken(result.finalTokens[w]);
+        await new Promise((r) => setTimeout(r, 90));
+      }
+    };
+
+    void spin();
+    return () => {
+      cancelled = true;
+    };
+    // wheelRefs are stable refs; re-spin whenever the round or the spin key changes.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [result, spinKey]);
+
+  const goTo = useCallback(
+    (next: number) => {
+      setIndex(Math.max(0, Math.min(rounds.length - 1, next)));
+    },
+    [rounds.length],
+  );
+
+  const renderCard = (card: Card | null) =>
+    card ? (
+      <StSCard card={card} size="sm" disabled splitFace={result?.splitChoices?.[card.id]} />
+    ) : (
+      <div className="flex h-[72px] w-[52px] items-center justify-center rounded-md border border-dashed border-white/20 text-[10px] text-white/40">
+        Empty
+      </div>
+    );
+
+  const finalScore = replay.finalWins ?? result?.wins ?? { player: 0, enemy: 0 };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="replay-viewer-title"
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-slate-950/80 p-4 backdrop-blur"
+      onClick={onClose}
+    >
+      <div
+        onClick={(event) => event.stopPropagation()}
+        className="relative flex max-h-[92vh] w-full max-w-3xl flex-col overflow-hidden rounded-2xl border border-white/20 bg-slate-900/95 shadow-2xl"
+      >
+        <div className="flex items-center justify-between gap-3 border-b border-white/10 bg-slate-900/80 px-4 py-3 sm:px-6">
+          <div>
+            <h3 id="replay-viewer-title" className="text-lg font-semibold text-white">
+              {names.player} vs {names.enemy}
+            </h3>
+            <p className="text-xs text-white/60">
+              Final score {finalScore.player}-{finalScore.enemy}
+              {replay.gameMode.length > 0 ? ` · ${replay.gameMode.join(" + ")}` : " · classic"} · seed {replay.seed}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => downloadReplay(replay)}
+              className="rounded-full border border-white/20 bg-white/5 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-white/70 transition hover:bg-white/10 hover:text-white"
+            >
+              Download
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="rounded-full border border-white/20 bg-white/5 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-white/70 transition hover:bg-white/10 hover:text-white focus:outline-none focus:ring-2 focus:ring-emerald-300/60"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+
+        {!current || !result ? (
+          <div className="px-6 py-10 text-center text-sm text-white/70">This replay has no resolved rounds.</div>
+        ) : (
+          <div className="flex-1 overflow-y-auto px-4 py-4 sm:px-6 sm:py-5">
+            <div className="mb-4 flex items-center justify-between gap-2">
+              <button
+                type="button"
+                disabled={index === 0}
+                onClick={() => goTo(index - 1)}
+                className="rounded bg-slate-700 px-3 py-1 text-sm font-semibold text-white disabled:opacity-40"
+              >
+                ◀ Prev
+              </button>
+              <div className="text-center text-sm text-white">
+                <div className="font-semibold">
+                  Round {current.round} <span className="text-white/50">({index + 1}/{rounds.length})</span>
+                </div>
+                <div className="text-xs text-white/60">
+                  {names.player} {result.wins.player} – {result.wins.enemy} {names.enemy}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => setSpinKey((k) => k + 1)}
+                  className="rounded border border-white/20 px-3 py-1 text-sm text-white/80 hover:bg-white/10"
+                >
+                  Spin again
+                </button>
+                <button
+                  type="button"
+                  disabled={index >= rounds.length - 1}
+                  onClick={() => goTo(index + 1)}
+                  className="rounded bg-slate-700 px-3 py-1 text-sm font-semibold text-white disabled:opacity-40"
+                >
+                  Next ▶
+                </button>
+              </div>
+            </div>
+
+            <div className="grid gap-3 sm:grid-cols-3">
+              {result.wheelSections.map((sections, wheel) => {
+                const outcome = result.outcomes.find((entry) => entry.wheel === wheel);
+                const winner = outcome?.winner ?? null;
+                return (
+                  <div key={wheel} className="flex flex-col items-center gap-2 rounded-lg bg-white/5 p-2 ring-1 ring-white/10">
+                    <CanvasWheel
+                      ref={wheelRefs[wheel]}
+                      sections={sections}
+                      slices={result.wheelSlices?.[wheel]}
+                      size={WHEEL_SIZE}
+                    />
+                    <div className="flex items-start gap-2">
+                      <div className="flex flex-col items-center gap-1 text-[10px] text-white/60">
+                        {renderCard(result.assign.player[wheel] ?? null)}
+                        <span className={winner === "player" ? "font-semibold text-emerald-300" : ""}>{names.player}</span>
+                      </div>
+                      <div className="flex flex-col items-center gap-1 text-[10px] text-white/60">
+                        {renderCard(result.assign.enemy[wheel] ?? null)}
+                        <span className={winner === "enemy" ? "font-semibold text-emerald-300" : ""}>{names.enemy}</span>
+                      </div>
+                    </div>
+                    <div className="text-center text-[11px] leading-tight text-white/70">
+                      {outcome ? outcome.detail : "No contest"}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="mt-3 text-xs text-white/60">
+              Reserves: {names.player} {result.reserves.player} · {names.enemy} {result.reserves.enemy}
+            </div>
+
+            {current.actions.length > 0 && (
+              <ol className="mt-3 space-y-1 rounded-lg bg-white/5 p-3 text-xs text-white/80 ring-1 ring-white/10">
+                {current.actions.map((event, i) => (
+                  <li key={i}>{describeReplayAction(event, names)}</li>
+                ))}
+              </ol>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
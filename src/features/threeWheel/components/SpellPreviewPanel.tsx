@@ -0,0 +1,77 @@
+import React from "react";
+import type { LegacySide, SpellDefinition } from "../../../game/spellEngine";
+import type { SpellPreview } from "../../../game/spellPreview";
+
+interface SpellPreviewPanelProps {
+  spell: SpellDefinition;
+  preview: SpellPreview;
+  namesByLegacy: Record<LegacySide, string>;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const SIDES: LegacySide[] = ["player", "enemy"];
+
+const SpellPreviewPanel: React.FC<SpellPreviewPanelProps> = ({
+  spell,
+  preview,
+  namesByLegacy,
+  onConfirm,
+  onCancel,
+}) => {
+  const winnerName = (side: LegacySide | null) => (side ? namesByLegacy[side] : "a tie");
+
+  const changes: string[] = [];
+  preview.lanes.forEach(({ wheel, winner, flips }) => {
+    if (flips) changes.push(`Wheel ${wheel + 1}: ${winnerName(winner.before)} → ${winnerName(winner.after)}`);
+  });
+  SIDES.forEach((side) => {
+    const { before, after } = preview.reserves[side];
+    if (before !== after) changes.push(`${namesByLegacy[side]}'s reserve: ${before} → ${after}`);
+  });
+  if (preview.initiative.before !== preview.initiative.after) {
+    changes.push(`Initiative passes to ${namesByLegacy[preview.initiative.after]}`);
+  }
+
+  return (
+    <div className="pointer-events-none fixed inset-x-0 top-20 z-[90] flex justify-center px-3">
+      <div className="pointer-events-auto w-full max-w-sm rounded-xl border border-emerald-400/60 bg-slate-900/95 px-3 py-2 shadow-2xl">
+        <div className="flex items-center justify-between gap-3">
+          <div className="text-[13px] font-semibold text-slate-100">
+            Cast {spell.icon ? `${spell.icon} ` : ""}
+            {spell.name}?
+          </div>
+          <div className="flex gap-1.5">
+            <button
+              type="button"
+              onClick={onConfirm}
+              className="rounded border border-emerald-400/60 px-2.5 py-1 text-[11px] text-emerald-100 transition hover:bg-emerald-400/10"
+            >
+              Cast
+            </button>
+            <button
+              type="button"
+              onClick={onCancel}
+              className="rounded border border-slate-600 px-2.5 py-1 text-[11px] text-slate-200 transition hover:border-slate-400 hover:text-white"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+        {changes.length > 0 ? (
+          <ul className="mt-1 space-y-0.5 text-[11px] leading-snug text-slate-300">
+            {changes.map((change) => (
+              <li key={change}>{change}</li>
+            ))}
+          </ul>
+        ) : (
+          <div className="mt-1 text-[11px] leading-snug text-slate-400">
+            No lane, reserve or initiative changes this round.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SpellPreviewPanel;
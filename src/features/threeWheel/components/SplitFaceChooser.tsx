@@ -0,0 +1,59 @@
+import React from "react";
+import type { Card, SplitFace } from "../../../game/types";
+import { fmtNum, isSplit } from "../../../game/values";
+
+interface SplitFaceChooserProps {
+  card: Card;
+  lane: number;
+  currentFace: SplitFace | undefined;
+  onChoose: (face: SplitFace) => void;
+}
+
+const FACES: SplitFace[] = ["left", "right"];
+
+const SplitFaceChooser: React.FC<SplitFaceChooserProps> = ({ card, lane, currentFace, onChoose }) => {
+  if (!isSplit(card)) return null;
+  const valueFor = (face: SplitFace) => (face === "right" ? card.rightValue : card.leftValue);
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="split-face-title"
+      className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 p-4 backdrop-blur"
+      onClick={() => onChoose(currentFace ?? "left")}
+    >
+      <div
+        onClick={(event) => event.stopPropagation()}
+        className="w-full max-w-xs rounded-2xl border border-white/20 bg-slate-900/95 p-5 text-center shadow-2xl"
+      >
+        <h3 id="split-face-title" className="text-base font-semibold text-white">
+          Choose a face
+        </h3>
+        <p className="mt-1 text-xs text-white/60">
+          Wheel {lane + 1} will use this value for steps and every comparison.
+        </p>
+        <div className="mt-4 flex justify-center gap-3">
+          {FACES.map((face) => {
+            const chosen = (currentFace ?? "left") === face;
+            return (
+              <button
+                key={face}
+                type="button"
+                onClick={() => onChoose(face)}
+                className={`flex h-20 w-16 flex-col items-center justify-center rounded-xl border text-2xl font-extrabold text-white transition hover:bg-white/10 ${
+                  chosen ? "border-amber-300 bg-amber-300/10" : "border-white/20 bg-white/5"
+                }`}
+              >
+                {fmtNum(valueFor(face))}
+                <span className="mt-1 text-[10px] font-semibold uppercase tracking-wide text-white/60">{face}</span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SplitFaceChooser;
@@ -22,6 +22,7 @@ interface VictoryOverlayProps {
   rematchStatusText: string | null;
   onExitClick: () => void;
   onExit?: () => void;
+  onWatchReplay?: () => void;
 }
 
 const VictoryOverlay: React.FC<VictoryOverlayProps> = ({
@@ -45,6 +46,7 @@ const VictoryOverlay: React.FC<VictoryOverlayProps> = ({
   rematchStatusText,
   onExitClick,
   onExit,
+  onWatchReplay,
 }) => {
   return (
     <>
@@ -155,6 +157,14 @@ const VictoryOverlay: React.FC<VictoryOverlayProps> = ({
                   {rematchStatusText}
                 </span>
               )}
+              {onWatchReplay && (
+                <button
+                  onClick={onWatchReplay}
+                  className="w-full rounded border border-sky-500/60 px-4 py-2 text-sm font-semibold text-sky-100 hover:bg-sky-900/40"
+                >
+                  Watch Replay
+                </button>
+              )}
               {onExit && (
                 <button
                   onClick={onExitClick}
@@ -1,8 +1,13 @@
 import React, { useMemo } from "react";
 import CanvasWheel, { WheelHandle } from "../../../components/CanvasWheel";
 import StSCard from "../../../components/StSCard";
-import type { Card, Fighter, Phase, Section } from "../../../game/types";
+import StatusBadges from "../../../components/StatusBadges";
+import type { Card, Fighter, Phase, Section, SplitChoiceMap } from "../../../game/types";
 import type { AbilityKind } from "../../../game/skills";
+import type { Slice0Rule } from "../../../game/slice0Rules";
+import { statusEffectsOn, type StatusEffect } from "../../../game/statusEffects";
+import { sectionIndexAt } from "../../../game/wheel";
+import type { SpellLanePreview } from "../../../game/spellPreview";
 import {
   type SpellDefinition,
   type SpellTargetInstance,
@@ -37,6 +42,7 @@ interface Theme {
 export interface WheelPanelProps {
   index: number;
   assign: { player: (Card | null)[]; enemy: (Card | null)[] };
+  splitChoices?: SplitChoiceMap;
   namesByLegacy: Record<LegacySide, string>;
   wheelSize: number;
   lockedWheelSize: number | null;
@@ -44,6 +50,11 @@ export interface WheelPanelProps {
   wheelMirror: SideState<boolean>;
   wheelLocked: boolean;
   pointerShift: number;
+  slice0Rule?: Slice0Rule;
+  /** Wins waiting on this wheel from carried-over ties and slice-0 landings. */
+  carryOver?: number;
+  /** Every status effect in play; the panel picks out the ones on its wheel, lanes and cards. */
+  statusEffects?: readonly StatusEffect[];
   reservePenalties: SideState<number>;
   selectedCardId: string | null;
   setSelectedCardId: (value: string | null) => void;
@@ -59,6 +70,7 @@ export interface WheelPanelProps {
   isWheelActive: boolean;
   wheelRef: React.RefObject<WheelHandle | null>;
   wheelSection: Section[];
+  wheelSlices?: number;
   hudColors: Record<LegacySide, string>;
   theme: Theme;
   initiativeOverride: LegacySide | null;
@@ -71,6 +83,8 @@ export interface WheelPanelProps {
     targets: SpellTargetInstance[];
     currentStage: number;
   } | null;
+  /** This lane as a held spell would leave it; shown until the spell is cast or dropped. */
+  spellPreview?: SpellLanePreview | null;
   spellHighlightedCardIds: readonly string[];
   onSpellTargetSelect?: (selection: {
     side: LegacySide;
@@ -79,6 +93,7 @@ export interface WheelPanelProps {
     location: SpellTargetLocation;
   }) => void;
   onWheelTargetSelect?: (wheelIndex: number) => void;
+  onSectionTargetSelect?: (wheelIndex: number, sectionIndex: number, section: Section) => void;
   isAwaitingSpellTarget: boolean;
   variant?: "standalone" | "grouped";
   skillPhaseActive?: boolean;
@@ -114,6 +129,7 @@ export function getWheelPanelLayout(wheelSize: number, lockedWheelSize: number |
 const WheelPanel: React.FC<WheelPanelProps> = ({
   index,
   assign,
+  splitChoices,
   namesByLegacy,
   wheelSize,
   lockedWheelSize,
@@ -121,6 +137,9 @@ const WheelPanel: React.FC<WheelPanelProps> = ({
   wheelMirror,
   wheelLocked,
   pointerShift,
+  slice0Rule,
+  carryOver = 0,
+  statusEffects = [],
   reservePenalties,
   selectedCardId,
   setSelectedCardId,
@@ -136,6 +155,7 @@ const WheelPanel: React.FC<WheelPanelProps> = ({
   isWheelActive,
   wheelRef,
   wheelSection,
+  wheelSlices,
   hudColors,
   theme,
   initiativeOverride,
@@ -143,8 +163,10 @@ const WheelPanel: React.FC<WheelPanelProps> = ({
   startTouchDrag,
   wheelHudColor,
   pendingSpell,
+  spellPreview = null,
   onSpellTargetSelect,
   onWheelTargetSelect,
+  onSectionTargetSelect,
   isAwaitingSpellTarget,
   variant = "standalone",
   spellHighlightedCardIds,
@@ -182,6 +204,8 @@ const WheelPanel: React.FC<WheelPanelProps> = ({
 
   const awaitingWheelTarget = awaitingManualTarget && activeStage?.type === "wheel";
 
+  const awaitingSectionTarget = awaitingManualTarget && activeStage?.type === "section";
+
   const awaitingSpellTarget = awaitingManualTarget;
 
   const pendingOwnership: SpellTargetOwnership | null = awaitingCardTarget && activeStage?.type === "card"
@@ -199,6 +223,14 @@ const WheelPanel: React.FC<WheelPanelProps> = ({
 
   const isLeftSelected = !!leftSlot.card && selectedCardId === leftSlot.card.id;
   const isRightSelected = !!rightSlot.card && selectedCardId === rightSlot.card.id;
+  const wheelStatus = statusEffectsOn(statusEffects, { type: "wheel", wheel: index });
+  const slotStatus = (slot: SlotView) => [
+    ...statusEffectsOn(statusEffects, { type: "lane", side: slot.side, lane: index }),
+    ...(slot.card ? statusEffectsOn(statusEffects, { type: "card", side: slot.side, cardId: slot.card.id }) : []),
+  ];
+  const leftStatus = slotStatus(leftSlot);
+  const rightStatus = slotStatus(rightSlot);
+
   const leftSkillEmoji = skillEffectEmojis?.player?.get(index) ?? null;
   const rightSkillEmoji = skillEffectEmojis?.enemy?.get(index) ?? null;
 
@@ -281,6 +313,37 @@ const WheelPanel: React.FC<WheelPanelProps> = ({
     (wheelScope === "any" || (wheelScope === "current" && isWheelActive)) &&
     wheelHasRequiredArcana();
 
+  const sectionScope = activeStage?.type === "section" ? activeStage.scope : null;
+  const sectionTargetable =
+    awaitingSectionTarget &&
+    pendingSpell?.side === localLegacySide &&
+    (sectionScope === "any" || (sectionScope === "current" && isWheelActive));
+  const sectionConditions = activeStage?.type === "section" ? activeStage.conditions : undefined;
+  const selectSectionAtSlice = (slice: number) => {
+    const sectionIndex = sectionIndexAt(wheelSection, slice);
+    const section = wheelSection[sectionIndex];
+    if (!section || (sectionConditions && !sectionConditions.includes(section.id))) return;
+    onSectionTargetSelect?.(index, sectionIndex, section);
+  };
+
+  const renderValuePreview = (side: LegacySide) => {
+    const change = spellPreview?.values[side];
+    if (!change || change.before === change.after || change.after === null) return null;
+    const rising = (change.before ?? 0) < change.after;
+    return (
+      <span
+        aria-label={`${namesByLegacy[side]}'s card would become ${change.after}`}
+        className={`pointer-events-none absolute -top-2 left-1/2 z-10 -translate-x-1/2 whitespace-nowrap rounded-full bg-slate-900/90 px-1.5 text-[10px] font-semibold tabular-nums ${
+          rising ? "text-emerald-300" : "text-rose-300"
+        }`}
+      >
+        {change.before ?? "–"} → {change.after}
+      </span>
+    );
+  };
+
+  const previewWinner = spellPreview?.flips ? spellPreview.winner.after : undefined;
+
   const targetedSkillLane =
     skillTargeting && skillTargeting.side === localLegacySide && skillTargeting.laneIndex === index;
 
@@ -288,6 +351,7 @@ const WheelPanel: React.FC<WheelPanelProps> = ({
     slot: SlotView,
     isSlotSelected: boolean,
     slotTargetable: boolean,
+    slotStatusEffects: StatusEffect[],
   ) => {
     if (!slot.card) return null;
     const card = slot.card;
@@ -389,6 +453,8 @@ const WheelPanel: React.FC<WheelPanelProps> = ({
           card={card}
           size="sm"
           numberColorMode={numberColorMode}
+          splitFace={splitChoices?.[card.id]}
+          statusEffects={slotStatusEffects}
           disabled={!cardInteractable}
           selected={isSlotSelected || isSkillAbilityLane}
           spellAffected={isSpellAffected}
@@ -559,12 +625,16 @@ const WheelPanel: React.FC<WheelPanelProps> = ({
         aria-label={`Wheel ${index + 1} left slot`}
       >
         {shouldShowLeftCard ? (
-          renderSlotCard(leftSlot, isLeftSelected, leftSlotTargetable)
+          renderSlotCard(leftSlot, isLeftSelected, leftSlotTargetable, leftStatus)
         ) : (
-          <div className="text-[11px] opacity-80 text-center">
-            {leftSlot.side === localLegacySide ? "Your card" : leftSlot.name}
-          </div>
+          <>
+            <div className="text-[11px] opacity-80 text-center">
+              {leftSlot.side === localLegacySide ? "Your card" : leftSlot.name}
+            </div>
+            <StatusBadges effects={leftStatus} className="absolute bottom-1 left-1" />
+          </>
         )}
+        {renderValuePreview(leftSlot.side)}
         {leftSkillEmoji ? (
           <span
             aria-hidden
@@ -580,7 +650,7 @@ const WheelPanel: React.FC<WheelPanelProps> = ({
         data-drop="wheel"
         data-idx={index}
         className="relative flex-none flex items-center justify-center rounded-full overflow-hidden"
-        style={{ width: ws, height: ws, cursor: wheelTargetable ? "pointer" : undefined }}
+        style={{ width: ws, height: ws, cursor: wheelTargetable || sectionTargetable ? "pointer" : undefined }}
         onDragOver={onZoneDragOver}
         onDragEnter={onZoneDragOver}
         onDragLeave={onZoneLeave}
@@ -598,7 +668,42 @@ const WheelPanel: React.FC<WheelPanelProps> = ({
         }}
         aria-label={`Wheel ${index + 1}`}
       >
-        <CanvasWheel ref={wheelRef as React.RefObject<WheelHandle>} sections={wheelSection} size={ws} />
+        <CanvasWheel
+          ref={wheelRef as React.RefObject<WheelHandle>}
+          sections={wheelSection}
+          slices={wheelSlices}
+          pointerShift={pointerShift}
+          slice0Rule={slice0Rule}
+          size={ws}
+          onSliceClick={sectionTargetable ? selectSectionAtSlice : undefined}
+        />
+        {carryOver > 0 && (
+          <span
+            aria-label={`${carryOver} carried win${carryOver === 1 ? "" : "s"}`}
+            title="Carry-over: the next winner of this wheel also takes these wins"
+            className="pointer-events-none absolute left-1 top-1 rounded-full bg-slate-900/80 px-1 text-sm"
+          >
+            ⏩{carryOver}
+          </span>
+        )}
+        {lockState && (
+          <span
+            aria-label="Wheel locked"
+            title="Locked: this wheel's token doesn't move this round"
+            className="pointer-events-none absolute right-1 top-1 rounded-full bg-slate-900/80 px-1 text-sm"
+          >
+            🔒
+          </span>
+        )}
+        <StatusBadges effects={wheelStatus} className="absolute bottom-1 left-1/2 -translate-x-1/2" />
+        {previewWinner !== undefined && (
+          <span
+            className="pointer-events-none absolute top-1 left-1/2 -translate-x-1/2 whitespace-nowrap rounded-full bg-slate-900/85 px-1.5 text-[10px] font-semibold"
+            style={{ color: previewWinner ? hudColors[previewWinner] : "#e2e8f0" }}
+          >
+            {previewWinner ? `→ ${namesByLegacy[previewWinner]}` : "→ Tie"}
+          </span>
+        )}
         <div
           aria-hidden
           className="pointer-events-none absolute inset-0 rounded-full"
@@ -606,7 +711,9 @@ const WheelPanel: React.FC<WheelPanelProps> = ({
             boxShadow:
               dragOverWheel === index
                 ? "0 0 0 2px rgba(251,191,36,0.7) inset"
-                : wheelTargetable
+                : previewWinner !== undefined
+                ? "0 0 0 2px rgba(52,211,153,0.6) inset"
+                : wheelTargetable || sectionTargetable
                 ? "0 0 0 2px rgba(56,189,248,0.55) inset"
                 : "none",
           }}
@@ -664,12 +771,16 @@ const WheelPanel: React.FC<WheelPanelProps> = ({
         }}
       >
         {shouldShowRightCard ? (
-          renderSlotCard(rightSlot, isRightSelected, rightSlotTargetable)
+          renderSlotCard(rightSlot, isRightSelected, rightSlotTargetable, rightStatus)
         ) : (
-          <div className="text-[11px] opacity-60 text-center">
-            {rightSlot.side === localLegacySide ? "Your card" : rightSlot.name}
-          </div>
+          <>
+            <div className="text-[11px] opacity-60 text-center">
+              {rightSlot.side === localLegacySide ? "Your card" : rightSlot.name}
+            </div>
+            <StatusBadges effects={rightStatus} className="absolute bottom-1 left-1" />
+          </>
         )}
+        {renderValuePreview(rightSlot.side)}
         {rightSkillEmoji ? (
           <span
             aria-hidden
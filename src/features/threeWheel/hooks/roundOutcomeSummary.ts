@@ -1,4 +1,6 @@
 import type { LegacySide, Section } from "../../../game/types";
+import type { Slice0Rule } from "../../../game/slice0Rules";
+import type { TieBreakRule } from "../../../game/tieBreakers";
 
 type WheelOutcome = {
   steps: number;
@@ -8,6 +10,18 @@ type WheelOutcome = {
   tie: boolean;
   wheel: number;
   detail: string;
+  /** Slices on the wheel this outcome was spun on. */
+  slices?: number;
+  /** Set when the wheel was locked and its token stayed put. */
+  locked?: boolean;
+  /** Pointer offset the landing slice was read with. */
+  pointerShift?: number;
+  /** Slice-0 rule that decided this wheel, when it landed on an empty slice 0. */
+  slice0?: Slice0Rule;
+  /** Wins the winner takes from this wheel; defaults to 1. */
+  wins?: number;
+  /** Tie-break that settled an even condition, or carried it over. */
+  tieBreak?: TieBreakRule;
 };
 
 export type RoundAnalysis = {
@@ -28,6 +42,8 @@ export type AnteSnapshot = {
 export type RoundOutcomeSummaryInput = {
   analysis: RoundAnalysis;
   wins: { player: number; enemy: number };
+  /** Wins already waiting on each lane from earlier carry-over landings. */
+  carryOver?: readonly number[];
   initiative: LegacySide;
   round: number;
   namesByLegacy: Record<LegacySide, string>;
@@ -40,10 +56,12 @@ export type RoundOutcomeSummaryInput = {
 };
 
 export type RoundOutcomeSummary = {
-  hudColors: [string | null, string | null, string | null];
+  hudColors: (string | null)[];
   wins: { player: number; enemy: number };
   nextInitiative: LegacySide;
   roundWinner: LegacySide | null;
+  /** Wins waiting on each lane for the next round. */
+  carryOver: number[];
   logs: string[];
   shouldResetAnte: boolean;
   matchEnded: boolean;
@@ -52,6 +70,7 @@ export type RoundOutcomeSummary = {
 export function summarizeRoundOutcome({
   analysis,
   wins,
+  carryOver: carriedIn = [],
   initiative,
   round,
   namesByLegacy,
@@ -66,19 +85,33 @@ export function summarizeRoundOutcome({
 
   let pWins = wins.player;
   let eWins = wins.enemy;
-  const hudColors: [string | null, string | null, string | null] = [null, null, null];
+  const hudColors: (string | null)[] = outcomes.map(() => null);
   const roundWinsCount: Record<LegacySide, number> = { player: 0, enemy: 0 };
   const logs: string[] = [];
+  const carryOver = outcomes.map((o) => carriedIn[o.wheel] ?? 0);
+  let reversals = 0;
 
   outcomes.forEach((o) => {
+    const carried = carryOver[o.wheel];
     if (o.tie) {
       logs.push(`Wheel ${o.wheel + 1} tie: ${o.detail} — no win.`);
+      if (o.slice0 === "carryOver" || o.tieBreak === "carryOver") {
+        carryOver[o.wheel] = carried + 1;
+        logs.push(`Wheel ${o.wheel + 1} carries ${carried + 1} win${carried + 1 === 1 ? "" : "s"} into next round.`);
+      } else if (o.slice0 === "reversal") {
+        reversals += 1;
+      }
     } else if (o.winner) {
       hudColors[o.wheel] = HUD_COLORS[o.winner];
       roundWinsCount[o.winner] += 1;
-      if (o.winner === "player") pWins++;
-      else eWins++;
+      const gained = (o.wins ?? 1) + carried;
+      if (o.winner === "player") pWins += gained;
+      else eWins += gained;
+      carryOver[o.wheel] = 0;
       logs.push(`Wheel ${o.wheel + 1} win -> ${o.winner} (${o.detail}).`);
+      if (gained > 1) {
+        logs.push(`${namesByLegacy[o.winner]} takes ${gained} wins from wheel ${o.wheel + 1}.`);
+      }
     }
   });
 
@@ -149,6 +182,10 @@ export function summarizeRoundOutcome({
       `${namesByLegacy.enemy} wins the round ${roundScore} and takes initiative next round.`,
     );
   }
+  if (reversals % 2 === 1) {
+    nextInitiative = nextInitiative === "player" ? "enemy" : "player";
+    logs.push(`Slice 0 reversal — initiative flips to ${namesByLegacy[nextInitiative]}.`);
+  }
 
   const matchEnded = pWins >= winGoal || eWins >= winGoal;
   if (matchEnded) {
@@ -165,6 +202,7 @@ export function summarizeRoundOutcome({
     wins: { player: pWins, enemy: eWins },
     nextInitiative,
     roundWinner,
+    carryOver,
     logs,
     shouldResetAnte,
     matchEnded,
@@ -1,6 +1,8 @@
 import type { AbilityKind } from "../../../game/skills.js";
 import { determineSkillAbility } from "../../../game/skills.js";
 import type { Card, LegacySide } from "../../../game/types.js";
+import { DEFAULT_LANE_COUNT, laneIndexes } from "../../../game/lanes.js";
+import { CLASSIC_RULES } from "../../../game/rules.js";
 
 export type SkillLane = {
   ability: AbilityKind | null;
@@ -32,21 +34,16 @@ export const createEmptySkillLane = (): SkillLane => ({
   usesRemaining: 0,
 });
 
-const INITIAL_SKILL_USES: Record<AbilityKind, number> = {
-  swapReserve: 1,
-  rerollReserve: 2,
-  boostCard: 1,
-  reserveBoost: 1,
-};
+type SkillUses = Partial<Record<AbilityKind, number>>;
 
-const getInitialSkillUses = (ability: AbilityKind | null): number => {
+const getInitialSkillUses = (ability: AbilityKind | null, uses: SkillUses): number => {
   if (!ability) return 0;
-  return INITIAL_SKILL_USES[ability] ?? 1;
+  return uses[ability] ?? 1;
 };
 
-export const createSkillLanes = (): Record<LegacySide, SkillLane[]> => ({
-  player: [createEmptySkillLane(), createEmptySkillLane(), createEmptySkillLane()],
-  enemy: [createEmptySkillLane(), createEmptySkillLane(), createEmptySkillLane()],
+export const createSkillLanes = (laneCount: number = DEFAULT_LANE_COUNT): Record<LegacySide, SkillLane[]> => ({
+  player: laneIndexes(laneCount).map(createEmptySkillLane),
+  enemy: laneIndexes(laneCount).map(createEmptySkillLane),
 });
 
 const EMPTY_LANE_TEMPLATE = createEmptySkillLane();
@@ -57,10 +54,10 @@ const lanesEqual = (a: SkillLane, b: SkillLane): boolean =>
   a.exhausted === b.exhausted &&
   a.usesRemaining === b.usesRemaining;
 
-export const createSkillState = (isSkillMode: boolean): SkillState => ({
+export const createSkillState = (isSkillMode: boolean, laneCount: number = DEFAULT_LANE_COUNT): SkillState => ({
   enabled: isSkillMode,
   completed: !isSkillMode,
-  lanes: createSkillLanes(),
+  lanes: createSkillLanes(laneCount),
   cardStatus: {},
 });
 
@@ -68,26 +65,32 @@ export const reconcileSkillStateWithAssignments = (
   prev: SkillState,
   assign: { player: (Card | null)[]; enemy: (Card | null)[] },
   isSkillMode: boolean,
+  skillUses: SkillUses = CLASSIC_RULES.skillUses,
 ): SkillState => {
   if (!isSkillMode) {
     if (!prev.enabled && prev.completed && Object.keys(prev.cardStatus).length === 0) {
       const lanes = prev.lanes;
+      const sized = lanes.player.length === assign.player.length && lanes.enemy.length === assign.enemy.length;
       const playerPristine = lanes.player.every((lane) => lanesEqual(lane, EMPTY_LANE_TEMPLATE));
       const enemyPristine = lanes.enemy.every((lane) => lanesEqual(lane, EMPTY_LANE_TEMPLATE));
-      if (playerPristine && enemyPristine) {
+      if (sized && playerPristine && enemyPristine) {
         return prev;
       }
     }
-    return createSkillState(false);
+    return createSkillState(false, assign.player.length);
   }
 
-  let changed = prev.enabled !== isSkillMode;
+  let changed =
+    prev.enabled !== isSkillMode ||
+    prev.lanes.player.length !== assign.player.length ||
+    prev.lanes.enemy.length !== assign.enemy.length;
   let cardStatusChanged = false;
   let nextCardStatus = prev.cardStatus;
 
+  // Lanes follow the assignment's lane count.
   const nextLanes: Record<LegacySide, SkillLane[]> = {
-    player: [...prev.lanes.player],
-    enemy: [...prev.lanes.enemy],
+    player: prev.lanes.player.slice(0, assign.player.length),
+    enemy: prev.lanes.enemy.slice(0, assign.enemy.length),
   };
 
   const ensureCardStatusClone = () => {
@@ -121,7 +124,7 @@ export const reconcileSkillStateWithAssignments = (
       status = {
         ability,
         exhausted: ability ? false : true,
-        usesRemaining: getInitialSkillUses(ability),
+        usesRemaining: getInitialSkillUses(ability, skillUses),
       };
       nextCardStatus[statusKey] = status;
     }
@@ -139,7 +142,7 @@ export const reconcileSkillStateWithAssignments = (
   const sides: LegacySide[] = ["player", "enemy"];
   for (const side of sides) {
     const source = side === "player" ? assign.player : assign.enemy;
-    for (let i = 0; i < nextLanes[side].length; i++) {
+    for (let i = 0; i < source.length; i++) {
       applyCard(side, i, source[i] ?? null);
     }
   }
@@ -4,64 +4,92 @@ import {
   useMemo,
   useRef,
   useState,
-  startTransition,
 } from "react";
 import type { PointerEvent as ReactPointerEvent, TouchEvent as ReactTouchEvent } from "react";
 import { Realtime } from "ably";
 
 import {
   SLICES,
-  TARGET_WINS,
   type Side as TwoSide,
   type Card,
   type Section,
   type Fighter,
   type SplitChoiceMap,
+  type SplitFace,
   type Players,
   type CorePhase,
   LEGACY_FROM_SIDE,
+  SIDE_FROM_LEGACY,
 } from "../../../game/types.js";
 import { DEFAULT_GAME_MODE, normalizeGameMode, type GameMode } from "../../../gameModes.js";
-import { easeInOutCubic, inSection, createSeededRng } from "../../../game/math.js";
-import { genWheelSections } from "../../../game/wheel.js";
-import { getSkillCardValue, type AbilityKind } from "../../../game/skills.js";
+import { easeInOutCubic, createSeededRng, deriveSeed } from "../../../game/math.js";
+import type { AbilityKind } from "../../../game/skills.js";
 import {
   makeFighter,
-  refillTo,
-  drawOne,
   recordMatchResult,
   type MatchResultSummary,
   type LevelProgress,
 } from "../../../player/profileStore.js";
-import { fmtNum, isNormal } from "../../../game/values.js";
+import { isNormal, isSplit } from "../../../game/values.js";
+import {
+  clampLaneCount,
+  fillLanes,
+  handSizeForLanes,
+  laneIndexes,
+} from "../../../game/lanes.js";
+import { normalizeWheelSectionEdits, type WheelTemplate } from "../../../game/wheel.js";
+import { DEFAULT_SLICE0_RULE, type Slice0Rule } from "../../../game/slice0Rules.js";
+import { DEFAULT_TIE_BREAK, type TieBreakRule } from "../../../game/tieBreakers.js";
+import { CLASSIC_RULES, type RulesConfig } from "../../../game/rules.js";
+import {
+  cardWheelValue,
+  clampAnteBet,
+  createMatchState,
+  getMatchWinner,
+  matchReducer,
+  otherSide,
+  pickReserveCards,
+  reserveReport,
+  type MatchAction,
+  type MatchConfig,
+  type MatchEvent,
+  type MatchState,
+  type MatchStepResult,
+} from "../../../game/matchEngine.js";
 import type { WheelHandle } from "../../../components/CanvasWheel.js";
 import {
-  applySpellEffects as runSpellEffects,
+  createReplay,
+  finalizeReplay,
+  recordReplayEvent,
+  type MatchReplay,
+  type ReplayAction,
+} from "../../../game/replay.js";
+import { saveReplay } from "../../../player/replayStore.js";
+import {
+  chillStacksByLane,
+  normalizeStatusEffects,
+  type StatusEffect,
+} from "../../../game/statusEffects.js";
+import {
+  normalizeSpellStackEntry,
+  REACTION_WINDOW_MS,
   type AssignmentState,
   type LaneChillStacks,
   type LegacySide,
   type SpellEffectPayload,
+  type SpellStackEntry,
 } from "../../../game/spellEngine.js";
-import {
-  summarizeRoundOutcome,
-  type RoundAnalysis,
-  type RoundOutcomeSummary,
-  type WheelOutcome,
-} from "./roundOutcomeSummary.js";
-import { determinePostResolvePhase } from "../utils/skillPhase.js";
-import {
-  applySkillAbilityEffect,
-  type SkillAbilityTarget,
-} from "../utils/skillAbilityExecution.js";
-import {
-  createSkillState,
-  getSkillCardStatusKey,
-  reconcileSkillStateWithAssignments,
-  type SkillLane,
-  type SkillState,
-} from "./skillState.js";
+import { previewSpellEffects, type SpellPreview } from "../../../game/spellPreview.js";
+import type { SpellCastHistory } from "../../../game/spellLimits.js";
+import type { MatchGrimoire } from "../../../game/grimoire.js";
+import type { SpellComboState } from "../../../game/spellCombos.js";
+import type { SpellRuntimeState } from "../../../game/spells.js";
+import type { RoundAnalysis, RoundOutcomeSummary } from "./roundOutcomeSummary.js";
+import type { SkillAbilityTarget } from "../utils/skillAbilityExecution.js";
+import type { SkillState } from "./skillState.js";
 import {
   chooseBestMove,
+  chooseReserveCards,
   type GameState as AIDecisionState,
   type AIMove,
 } from "../../../game/ai/DecisionEngine.js";
@@ -78,12 +106,27 @@ export type MPIntent =
   | { type: "assign"; lane: number; side: LegacySide }
   | { type: "clear"; lane: number; side: LegacySide }
   | { type: "revealIntent"; side: LegacySide }
-  | { type: "shareAssignments"; side: LegacySide; assignments: (Card | null)[] }
+  | {
+      type: "shareAssignments";
+      side: LegacySide;
+      assignments: (Card | null)[];
+      splitChoices?: SplitChoiceMap;
+    }
   | { type: "nextRound"; side: LegacySide }
   | { type: "rematch"; side: LegacySide }
-  | { type: "reserve"; side: LegacySide; reserve: number; round: number }
+  | { type: "reserve"; side: LegacySide; reserve: number; round: number; cardIds?: string[] }
   | { type: "ante"; side: LegacySide; bet: number; round: number }
-  | { type: "spellEffects"; payload: SpellEffectPayload };
+  | { type: "spellEffects"; payload: SpellEffectPayload }
+  | { type: "spellDeclare"; entry: SpellStackEntry }
+  | { type: "spellPass"; side: LegacySide; topId: string }
+  | { type: "spellRefuse"; entryId: string; reason: string };
+
+/**
+ * Who may answer the spell on top of the stack, and until when (multiplayer only). The
+ * deadline is only enforced on the responder's client, which passes when it runs out;
+ * the other client waits for that pass or a reaction, so both settle the same stack.
+ */
+export type ReactionWindow = { responder: LegacySide; expiresAt: number | null };
 
 export type ThreeWheelGameProps = {
   localSide: TwoSide;
@@ -95,7 +138,21 @@ export type ThreeWheelGameProps = {
   targetWins?: number;
   gameMode?: GameMode;
   easyMode?: boolean;
+  /** Wheels in play (1–5); defaults to 3. */
+  laneCount?: number;
+  /** Template per lane; lanes without one follow the default rotation. */
+  wheelTemplates?: WheelTemplate[];
+  /** What landing on an empty slice 0 does; defaults to no win. */
+  slice0Rule?: Slice0Rule;
+  /** How a wheel whose condition comes out even is decided; defaults to no winner. */
+  tieBreak?: TieBreakRule;
+  /** Hand, reserve, ante and skill numbers; defaults to the Classic preset. */
+  rules?: RulesConfig;
+  /** Each player's grimoire as the lobby shared it; the peer's spells and ranks are checked against it. */
+  grimoires?: Record<TwoSide, MatchGrimoire>;
   cpuDifficulty?: CpuDifficulty;
+  /** Runtime state the caster's spells resolve against; combo chains are kept in it. */
+  spellRuntimeState?: React.MutableRefObject<SpellRuntimeState>;
   onExit?: () => void;
 };
 
@@ -144,64 +201,58 @@ type SpellHighlightState = {
   reserve: SideState<boolean>;
 };
 
+/** A payload from a peer with its status effects and section edits checked. */
+const normalizePeerSpellPayload = (payload: SpellEffectPayload): SpellEffectPayload => {
+  const { statusEffects: incomingStatus, wheelSectionEdits: incomingEdits } = payload;
+  return {
+    ...payload,
+    ...(incomingStatus ? { statusEffects: normalizeStatusEffects(incomingStatus) } : {}),
+    ...(incomingEdits ? { wheelSectionEdits: normalizeWheelSectionEdits(incomingEdits) } : {}),
+  };
+};
+
 const createEmptySpellHighlights = (): SpellHighlightState => ({
   cards: [],
   reserve: { player: false, enemy: false },
 });
 
-
-const resetCardNumberToBase = (card: Card): Card => {
-  const base = card.baseNumber;
-  if (typeof base === "number" && card.number !== base) {
-    return { ...card, number: base };
-  }
-  return card;
+/** Why the engine turned an action down, or null when it went through. */
+const rejectionOf = (result: MatchStepResult): string | null => {
+  const [first] = result.events;
+  return first?.type === "rejected" ? first.reason : null;
 };
 
-const resetCardCollectionToBase = (cards: Card[]): Card[] => {
-  let changed = false;
-  const next = cards.map((card) => {
-    const reset = resetCardNumberToBase(card);
-    if (reset !== card) changed = true;
-    return reset;
+/** Cards and reserves a spell touched, so the board can flash them. */
+function spellHighlightTargets(payload: SpellEffectPayload, assign: AssignmentState<Card>) {
+  const cards: Array<string | undefined> = [];
+  payload.cardAdjustments?.forEach((adj) => cards.push(adj?.cardId));
+  payload.statusEffects?.forEach(({ target }) => {
+    if (target.type === "card") cards.push(target.cardId);
+    if (target.type === "lane") cards.push(assign[target.side][target.lane]?.id);
   });
-  return changed ? next : cards;
-};
-
-const resetFighterCardsToBase = (fighter: Fighter): Fighter => {
-  const nextDeck = resetCardCollectionToBase(fighter.deck);
-  const nextHand = resetCardCollectionToBase(fighter.hand);
-  const nextDiscard = resetCardCollectionToBase(fighter.discard);
-  const nextExhaust = resetCardCollectionToBase(fighter.exhaust);
-
-  if (
-    nextDeck === fighter.deck &&
-    nextHand === fighter.hand &&
-    nextDiscard === fighter.discard &&
-    nextExhaust === fighter.exhaust
-  ) {
-    return fighter;
-  }
-
+  payload.handAdjustments?.forEach((entry) => cards.push(entry?.cardId));
+  payload.handDiscards?.forEach((entry) => cards.push(entry?.cardId));
+  payload.initiativeChallenges?.forEach((entry) => cards.push(entry?.cardId));
+  payload.mirrorCopyEffects?.forEach((entry) => cards.push(entry?.targetCardId));
   return {
-    ...fighter,
-    deck: nextDeck,
-    hand: nextHand,
-    discard: nextDiscard,
-    exhaust: nextExhaust,
+    cardIds: cards.filter((id): id is string => typeof id === "string" && id.length > 0),
+    reserveSides: (payload.reserveDrains ?? []).map((entry) => entry?.side),
   };
-};
+}
 
-const resetPlayedCardsToBase = (cards: Card[]): Card[] => {
-  let changed = false;
-  const next = cards.map((card) => {
-    const reset = resetCardNumberToBase(card);
-    if (reset !== card) changed = true;
-    return reset;
-  });
-  return changed ? next : cards;
+/** How the events of one dispatch are shown. */
+type MatchEventOptions = {
+  /** Puts the skill line on the skill banner (the CPU's skills only). */
+  skillMeta?: GameLogEntryMeta;
 };
 
+/**
+ * A revealed round while its wheels spin. The engine has already resolved it; until the
+ * spin ends the board keeps showing the game as it stood before the reveal.
+ */
+type RevealAnimation = { phase: "showEnemy" | "anim"; before: MatchState };
+
+export type SplitFacePrompt = { cardId: string; lane: number };
 
 export type ThreeWheelGameState = {
   player: Fighter;
@@ -222,22 +273,51 @@ export type ThreeWheelGameState = {
   handClearance: number;
   wheelSize: number;
   wheelSections: Section[][];
-  tokens: [number, number, number];
-  wheelCardTotals: SideState<[number, number, number]>;
-  active: [boolean, boolean, boolean];
-  wheelHUD: [string | null, string | null, string | null];
+  wheelSlices: number[];
+  tokens: number[];
+  /** Wheels whose token stays put this round. */
+  wheelLocks: boolean[];
+  /** Per-wheel offset between the token and the slice the pointer reads. */
+  pointerShifts: number[];
+  /** The numbers this match is played by. */
+  rules: RulesConfig;
+  /** What landing on an empty slice 0 does this match. */
+  slice0Rule: Slice0Rule;
+  /** Wins waiting on each lane from carried-over ties and slice-0 landings. */
+  carryOver: number[];
+  wheelCardTotals: SideState<number[]>;
+  active: boolean[];
+  wheelHUD: (string | null)[];
   assign: { player: (Card | null)[]; enemy: (Card | null)[] };
+  splitChoices: SplitChoiceMap;
+  splitFacePrompt: SplitFacePrompt | null;
   laneChillStacks: LaneChillStacks;
+  /** Lasting spell effects still in play. */
+  statusEffects: StatusEffect[];
   dragCardId: string | null;
   dragOverWheel: number | null;
   selectedCardId: string | null;
   reserveSums: null | { player: number; enemy: number };
+  /** Card ids each side has designated for its reserve this round. */
+  reserveChoices: SideState<string[]>;
+  /** The cards each side's reserve is made of: its choices first, then hand order. */
+  reserveCards: SideState<Card[]>;
   isPtrDragging: boolean;
   ptrDragCard: Card | null;
   ptrDragType: "pointer" | "touch" | null;
   log: GameLogEntry[];
   spellHighlights: SpellHighlightState;
+  /** Mana each side has banked; a spell is paid for when it is declared. */
+  mana: SideState<number>;
+  /** Cast spells waiting to resolve, bottom first. */
+  spellStack: SpellStackEntry[];
+  reactionWindow: ReactionWindow | null;
+  /** Spells each side has cast this match, for cooldowns and ultimates. */
+  spellCasts: SpellCastHistory;
+  /** Arcana of the spells each side has resolved this phase, toward a combo. */
+  spellCombo: SpellComboState;
   skill: SkillState;
+  replay: MatchReplay | null;
 };
 
 export type ThreeWheelGameDerived = {
@@ -248,6 +328,7 @@ export type ThreeWheelGameDerived = {
   HUD_COLORS: { player: string; enemy: string };
   winGoal: number;
   isMultiplayer: boolean;
+  laneCount: number;
   matchWinner: LegacySide | null;
   localWinsCount: number;
   remoteWinsCount: number;
@@ -279,11 +360,16 @@ export type ThreeWheelGameActions = {
   startPointerDrag: (card: Card, event: ReactPointerEvent) => void;
   startTouchDrag: (card: Card, event: ReactTouchEvent<HTMLButtonElement>) => void;
   assignToWheelLocal: (index: number, card: Card) => void;
+  chooseSplitFace: (cardId: string, face: SplitFace) => void;
+  toggleReserveCard: (cardId: string) => void;
   handleRevealClick: () => void;
   handleNextClick: () => void;
   handleRematchClick: () => void;
   handleExitClick: () => void;
-  applySpellEffects: (payload: SpellEffectPayload, options?: { broadcast?: boolean }) => void;
+  declareSpell: (entry: SpellStackEntry) => void;
+  passReaction: (side: LegacySide) => void;
+  /** What `payload` would change about the round, without applying it. */
+  previewSpell: (payload: SpellEffectPayload) => SpellPreview;
   setAnteBet: (bet: number) => void;
   useSkillAbility: (
     side: LegacySide,
@@ -310,7 +396,14 @@ export function useThreeWheelGame({
   targetWins,
   gameMode,
   easyMode,
+  laneCount: laneCountSetting,
+  wheelTemplates,
+  slice0Rule = DEFAULT_SLICE0_RULE,
+  tieBreak = DEFAULT_TIE_BREAK,
+  rules = CLASSIC_RULES,
+  grimoires,
   cpuDifficulty = DEFAULT_CPU_DIFFICULTY,
+  spellRuntimeState,
   onExit,
 }: ThreeWheelGameProps): ThreeWheelGameReturn {
   const mountedRef = useRef(true);
@@ -336,7 +429,7 @@ export function useThreeWheelGame({
   }, []);
 
   const localLegacySide: LegacySide = LEGACY_FROM_SIDE[localSide];
-  const remoteLegacySide: LegacySide = localLegacySide === "player" ? "enemy" : "player";
+  const remoteLegacySide: LegacySide = otherSide(localLegacySide);
 
   const HUD_COLORS = {
     player: players.left.color ?? "#84cc16",
@@ -355,10 +448,14 @@ export function useThreeWheelGame({
   const winGoal =
     typeof targetWins === "number" && Number.isFinite(targetWins)
       ? Math.max(1, Math.min(25, Math.round(targetWins)))
-      : TARGET_WINS;
+      : rules.targetWins;
 
   const currentGameMode = normalizeGameMode(gameMode ?? DEFAULT_GAME_MODE);
+  const gameModeKey = currentGameMode.join("+");
   const easyModeEnabled = easyMode === true;
+  const laneCount = clampLaneCount(laneCountSetting);
+  const { reserveSize } = rules;
+  const handSize = handSizeForLanes(laneCount, reserveSize);
   const isAnteMode = currentGameMode.includes("ante");
   const isSkillMode = currentGameMode.includes("skill");
 
@@ -375,70 +472,148 @@ export function useThreeWheelGame({
   const ablyRef = useRef<AblyRealtime | null>(null);
   const chanRef = useRef<AblyChannel | null>(null);
 
-  const [player, setPlayer] = useState<Fighter>(() => makeFighter(playerName));
-  const playerRef = useRef(player);
-  useEffect(() => {
-    playerRef.current = player;
-  }, [player]);
-  const [enemy, setEnemy] = useState<Fighter>(() => makeFighter(enemyName));
-  const enemyRef = useRef(enemy);
-  useEffect(() => {
-    enemyRef.current = enemy;
-  }, [enemy]);
+  // Every random draw outside the engine comes from a stream derived from `seed`. Streams
+  // are recreated from a label rather than advanced, so React may safely re-run updaters.
+  const seededStream = useCallback(
+    (label: string) => createSeededRng(deriveSeed(seed, label)),
+    [seed],
+  );
 
-  useEffect(() => {
-    setPlayer((prev) => (prev.name === playerName ? prev : { ...prev, name: playerName }));
-  }, [playerName]);
+  const matchConfig = useMemo<MatchConfig>(
+    () => ({
+      seed,
+      names: { player: playerName, enemy: enemyName },
+      hudColors: { player: HUD_COLORS.player, enemy: HUD_COLORS.enemy },
+      winGoal,
+      gameMode: normalizeGameMode(gameMode ?? DEFAULT_GAME_MODE),
+      easyMode: easyModeEnabled,
+      laneCount,
+      wheelTemplates,
+      slice0Rule,
+      tieBreak,
+      rules,
+      grimoires: grimoires
+        ? { player: grimoires[SIDE_FROM_LEGACY.player], enemy: grimoires[SIDE_FROM_LEGACY.enemy] }
+        : undefined,
+      localLegacySide,
+      peerSide: isMultiplayer ? remoteLegacySide : undefined,
+      startingInitiative: hostId ? hostLegacySide : localLegacySide,
+    }),
+    // gameModeKey stands in for gameMode, which callers may rebuild every render.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [
+      seed,
+      playerName,
+      enemyName,
+      HUD_COLORS.player,
+      HUD_COLORS.enemy,
+      winGoal,
+      gameModeKey,
+      easyModeEnabled,
+      laneCount,
+      wheelTemplates,
+      slice0Rule,
+      tieBreak,
+      rules,
+      grimoires,
+      localLegacySide,
+      isMultiplayer,
+      remoteLegacySide,
+      hostId,
+      hostLegacySide,
+    ],
+  );
 
-  useEffect(() => {
-    setEnemy((prev) => (prev.name === enemyName ? prev : { ...prev, name: enemyName }));
-  }, [enemyName]);
-  const [initiative, setInitiativeState] = useState<LegacySide>(() =>
-    hostId ? hostLegacySide : localLegacySide
+  const createFighters = useCallback(
+    (): SideState<Fighter> => ({
+      player: makeFighter(playerName, seededStream("deck:player"), handSize, rules.deckSize),
+      enemy: makeFighter(enemyName, seededStream("deck:enemy"), handSize, rules.deckSize),
+    }),
+    [enemyName, handSize, playerName, rules.deckSize, seededStream],
   );
-  const initiativeRef = useRef<LegacySide>(initiative);
-  const setInitiative = useCallback(
-    (side: LegacySide) => {
-      initiativeRef.current = side;
-      setInitiativeState(side);
+
+  // The match itself lives in the engine; the hook keeps the latest state and shows it.
+  const [match, setMatch] = useState<MatchState>(() => createMatchState(matchConfig, createFighters()));
+  const matchRef = useRef(match);
+  const ownRuntimeStateRef = useRef<SpellRuntimeState>({});
+  const runtimeStateRef = spellRuntimeState ?? ownRuntimeStateRef;
+
+  const commitMatch = useCallback(
+    (next: MatchState) => {
+      matchRef.current = next;
+      runtimeStateRef.current.combo = next.spellCombo;
+      setMatch(next);
     },
-    [setInitiativeState]
+    [runtimeStateRef],
   );
-  const [wins, setWins] = useState<{ player: number; enemy: number }>({ player: 0, enemy: 0 });
-  const pendingWinsRef = useRef<{ player: number; enemy: number } | null>(null);
-  const pendingInitiativeRef = useRef<LegacySide | null>(null);
-
-  const commitPendingWins = useCallback(() => {
-    if (!pendingWinsRef.current) return;
-    setWins(pendingWinsRef.current);
-    pendingWinsRef.current = null;
-  }, [setWins]);
-  const [round, setRound] = useState(1);
-  const [anteState, setAnteState] = useState<AnteState>(() => ({
-    round: 0,
-    bets: { player: 0, enemy: 0 },
-    odds: { player: 1.2, enemy: 1.2 },
-  }));
-  const [skillState, setSkillState] = useState<SkillState>(() => createSkillState(isSkillMode));
-  const skillStateRef = useRef(skillState);
+
+  // Names and settings can change under a running match; its rules pick them up from here.
   useEffect(() => {
-    skillStateRef.current = skillState;
-  }, [skillState]);
-  const lastPlayerSkillUseTimeRef = useRef<number | null>(null);
+    const current = matchRef.current;
+    if (current.config === matchConfig) return;
+    commitMatch({
+      ...current,
+      config: matchConfig,
+      player: current.player.name === playerName ? current.player : { ...current.player, name: playerName },
+      enemy: current.enemy.name === enemyName ? current.enemy : { ...current.enemy, name: enemyName },
+    });
+  }, [commitMatch, enemyName, matchConfig, playerName]);
 
-  const [assign, setAssign] = useState<{ player: (Card | null)[]; enemy: (Card | null)[] }>({
-    player: [null, null, null],
-    enemy: [null, null, null],
-  });
-  const assignRef = useRef(assign);
+  const [revealing, setRevealingState] = useState<RevealAnimation | null>(null);
+  const revealingRef = useRef(revealing);
+  const setRevealing = useCallback((next: RevealAnimation | null) => {
+    revealingRef.current = next;
+    setRevealingState(next);
+  }, []);
+
+  // Spells cast while the wheels spin still show at once; everything else waits for the spin.
+  const view: MatchState = revealing
+    ? {
+        ...revealing.before,
+        phase: revealing.phase,
+        spellStack: match.spellStack,
+        spellCasts: match.spellCasts,
+        spellCombo: match.spellCombo,
+      }
+    : match;
+  const { player, enemy, initiative, wins, round, phase, assign, splitChoices, reserveChoices } = view;
+
+  const phaseRef = useRef(phase);
   useEffect(() => {
-    assignRef.current = assign;
-  }, [assign]);
+    phaseRef.current = phase;
+  }, [phase]);
 
-  const [hiddenLaneOccupancy, setHiddenLaneOccupancy] = useState<AssignmentState<boolean>>({
-    player: [false, false, false],
-    enemy: [false, false, false],
-  });
+  const [splitFacePrompt, setSplitFacePrompt] = useState<SplitFacePrompt | null>(null);
+
+  const reserveCards = useMemo<SideState<Card[]>>(
+    () => ({
+      player: pickReserveCards(player.hand, assign.player, reserveChoices.player, reserveSize),
+      enemy: pickReserveCards(enemy.hand, assign.enemy, reserveChoices.enemy, reserveSize),
+    }),
+    [assign, enemy.hand, player.hand, reserveChoices, reserveSize],
+  );
+
+  const wheelCardTotals = useMemo<SideState<number[]>>(
+    () => ({
+      player: assign.player.map((card) => cardWheelValue(card, splitChoices)),
+      enemy: assign.enemy.map((card) => cardWheelValue(card, splitChoices)),
+    }),
+    [assign, splitChoices],
+  );
+
+  const laneChillStacks = useMemo<LaneChillStacks>(
+    () => chillStacksByLane(view.statusEffects, laneCount),
+    [laneCount, view.statusEffects],
+  );
+
+  const [hiddenLaneOccupancy, setHiddenLaneOccupancy] = useState<AssignmentState<boolean>>(() => ({
+    player: fillLanes(laneCount, false),
+    enemy: fillLanes(laneCount, false),
+  }));
+  const hiddenLaneOccupancyRef = useRef(hiddenLaneOccupancy);
+  useEffect(() => {
+    hiddenLaneOccupancyRef.current = hiddenLaneOccupancy;
+  }, [hiddenLaneOccupancy]);
 
   const assignmentsSharedRef = useRef<SideState<boolean>>({ player: false, enemy: false });
   const assignmentsReceivedRef = useRef<SideState<boolean>>({ player: false, enemy: false });
@@ -455,28 +630,8 @@ export function useThreeWheelGame({
     });
   }, [localLegacySide]);
 
-  useEffect(() => {
-    setSkillState((prev) => {
-      if (prev.enabled === isSkillMode) {
-        return prev;
-      }
-      if (!isSkillMode) {
-        return createSkillState(false);
-      }
-      return { ...prev, enabled: true };
-    });
-  }, [isSkillMode]);
-
-  useEffect(() => {
-    setSkillState((prev) => reconcileSkillStateWithAssignments(prev, assign, isSkillMode));
-  }, [assign, isSkillMode]);
   const [freezeLayout, setFreezeLayout] = useState(false);
   const [lockedWheelSize, setLockedWheelSize] = useState<number | null>(null);
-  const [phase, setPhase] = useState<CorePhase>("choose");
-  const phaseRef = useRef(phase);
-  useEffect(() => {
-    phaseRef.current = phase;
-  }, [phase]);
   const [resolveVotes, setResolveVotes] = useState<{ player: boolean; enemy: boolean }>({
     player: false,
     enemy: false,
@@ -493,61 +648,34 @@ export function useThreeWheelGame({
     player: false,
     enemy: false,
   });
+  const lastPlayerSkillUseTimeRef = useRef<number | null>(null);
 
-  const anteStateRef = useRef(anteState);
-  useEffect(() => {
-    anteStateRef.current = anteState;
-  }, [anteState]);
-
-  const roundRef = useRef(round);
-  useEffect(() => {
-    roundRef.current = round;
-  }, [round]);
-
-  const clampAnteValue = useCallback(
-    (side: LegacySide, value: number) => {
-      if (!Number.isFinite(value)) return 0;
-      const floored = Math.floor(value);
-      const max = Math.max(0, wins[side]);
-      if (floored <= 0) return 0;
-      return Math.min(floored, max);
-    },
-    [wins]
-  );
-
-  useEffect(() => {
-    if (!isAnteMode) {
-      setAnteState((prev) => {
-        if (prev.round === round && prev.bets.player === 0 && prev.bets.enemy === 0) {
-          return prev;
-        }
-        return {
-          round,
-          bets: { player: 0, enemy: 0 },
-          odds: { player: 1.1, enemy: 1.1 },
-        };
-      });
-      return;
-    }
-
-    if (phase !== "choose") return;
-
-    setAnteState((prev) => {
-      if (prev.round === round) return prev;
-      return {
-        round,
-        bets: { player: 0, enemy: 0 },
-        odds: calculateAnteOdds({ wins, winGoal, initiative }),
-      };
+  const createMatchReplay = () =>
+    createReplay({
+      seed,
+      players,
+      localSide,
+      gameMode: currentGameMode,
+      targetWins: winGoal,
+      easyMode: easyModeEnabled,
+      laneCount,
     });
-  }, [initiative, isAnteMode, phase, round, winGoal, wins]);
+  const replayRef = useRef<MatchReplay | null>(null);
+  if (!replayRef.current) replayRef.current = createMatchReplay();
+  const [matchReplay, setMatchReplay] = useState<MatchReplay | null>(null);
+
+  const recordReplay = useCallback((action: ReplayAction) => {
+    if (!replayRef.current) return;
+    replayRef.current = recordReplayEvent(replayRef.current, matchRef.current.round, action);
+  }, []);
 
   const markResolveVote = useCallback((side: LegacySide) => {
+    recordReplay({ type: "revealVote", side });
     setResolveVotes((prev) => {
       if (prev[side]) return prev;
       return { ...prev, [side]: true };
     });
-  }, []);
+  }, [recordReplay]);
 
   const clearResolveVotes = useCallback(
     (side?: LegacySide) => {
@@ -581,11 +709,12 @@ export function useThreeWheelGame({
   );
 
   const markAdvanceVote = useCallback((side: LegacySide) => {
+    recordReplay({ type: "nextVote", side });
     setAdvanceVotes((prev) => {
       if (prev[side]) return prev;
       return { ...prev, [side]: true };
     });
-  }, []);
+  }, [recordReplay]);
 
   const clearAdvanceVotes = useCallback(() => {
     setAdvanceVotes((prev) => {
@@ -595,11 +724,12 @@ export function useThreeWheelGame({
   }, []);
 
   const markRematchVote = useCallback((side: LegacySide) => {
+    recordReplay({ type: "rematchVote", side });
     setRematchVotes((prev) => {
       if (prev[side]) return prev;
       return { ...prev, [side]: true };
     });
-  }, []);
+  }, [recordReplay]);
 
   const clearRematchVotes = useCallback(() => {
     setRematchVotes((prev) => {
@@ -613,19 +743,14 @@ export function useThreeWheelGame({
   const [levelUpFlash, setLevelUpFlash] = useState(false);
   const hasRecordedResultRef = useRef(false);
 
-  const matchWinner: LegacySide | null =
-    wins.player >= winGoal ? "player" : wins.enemy >= winGoal ? "enemy" : null;
-  const localWinsCount = localLegacySide === "player" ? wins.player : wins.enemy;
-  const remoteWinsCount = localLegacySide === "player" ? wins.enemy : wins.player;
+  const matchWinner: LegacySide | null = getMatchWinner({ wins, config: matchConfig });
+  const localWinsCount = wins[localLegacySide];
+  const remoteWinsCount = wins[remoteLegacySide];
   const localWon = matchWinner ? matchWinner === localLegacySide : false;
   const winnerName = matchWinner ? namesByLegacy[matchWinner] : null;
   const localName = namesByLegacy[localLegacySide];
   const remoteName = namesByLegacy[remoteLegacySide];
 
-  useEffect(() => {
-    setInitiative(hostId ? hostLegacySide : localLegacySide);
-  }, [hostId, hostLegacySide, localLegacySide]);
-
   useEffect(() => {
     if (phase === "ended") {
       if (!hasRecordedResultRef.current) {
@@ -633,6 +758,13 @@ export function useThreeWheelGame({
         hasRecordedResultRef.current = true;
         setMatchSummary(summary);
 
+        if (replayRef.current) {
+          const finished = finalizeReplay(replayRef.current, matchWinner, wins);
+          replayRef.current = finished;
+          saveReplay(finished);
+          setMatchReplay(finished);
+        }
+
         if (summary.didWin) {
           setXpDisplay(summary.before);
           setLevelUpFlash(false);
@@ -666,7 +798,7 @@ export function useThreeWheelGame({
         setLevelUpFlash(false);
       }
     }
-  }, [phase, localWon, wins.player, wins.enemy, setSafeTimeout]);
+  }, [phase, localWon, matchWinner, wins, setSafeTimeout]);
 
   const [handClearance, setHandClearance] = useState<number>(0);
 
@@ -675,12 +807,14 @@ export function useThreeWheelGame({
     const MAX_WHEEL = 200;
     const isMobile = viewW <= 480;
     const chromeAllowance = viewW >= 1024 ? 200 : 140;
-    const raw = Math.floor((viewH - chromeAllowance - dockAllowance) / 3);
+    const raw = Math.floor((viewH - chromeAllowance - dockAllowance) / laneCount);
     const MOBILE_MAX = 188;
     const DESKTOP_MAX = 220;
     const maxAllowed = isMobile ? MOBILE_MAX : DESKTOP_MAX;
-    return Math.max(MIN_WHEEL, Math.min(maxAllowed, raw, MAX_WHEEL));
-  }, []);
+    // Extra lanes shrink the floor so four or five wheels still fit on screen.
+    const minWheel = laneCount > 3 ? Math.round((MIN_WHEEL * 3) / laneCount) : MIN_WHEEL;
+    return Math.max(minWheel, Math.min(maxAllowed, raw, MAX_WHEEL));
+  }, [laneCount]);
 
   const [isPtrDragging, setIsPtrDragging] = useState(false);
   const [ptrDragCard, setPtrDragCard] = useState<Card | null>(null);
@@ -750,99 +884,7 @@ export function useThreeWheelGame({
     }
   }, [calcWheelSize, handClearance, freezeLayout, lockedWheelSize]);
 
-  const wheelRngRef = useRef<() => number>(() => Math.random());
-  const [wheelSections, setWheelSections] = useState<Section[][]>(() => {
-    const seeded = createSeededRng(seed);
-    wheelRngRef.current = seeded;
-    return [
-      genWheelSections("bandit", seeded, { easyMode: easyModeEnabled }),
-      genWheelSections("sorcerer", seeded, { easyMode: easyModeEnabled }),
-      genWheelSections("beast", seeded, { easyMode: easyModeEnabled }),
-    ];
-  });
-
-  const generateWheelSet = useCallback((): Section[][] => {
-    const rng = wheelRngRef.current ?? Math.random;
-    return [
-      genWheelSections("bandit", rng, { easyMode: easyModeEnabled }),
-      genWheelSections("sorcerer", rng, { easyMode: easyModeEnabled }),
-      genWheelSections("beast", rng, { easyMode: easyModeEnabled }),
-    ];
-  }, [easyModeEnabled]);
-
-  useEffect(() => {
-    wheelRngRef.current = createSeededRng(seed);
-    setWheelSections(generateWheelSet());
-  }, [seed, generateWheelSet]);
-
-  useEffect(() => {
-    setWheelSections(generateWheelSet());
-  }, [easyModeEnabled, generateWheelSet]);
-
-  const [tokens, setTokens] = useState<[number, number, number]>([0, 0, 0]);
-  const tokensRef = useRef(tokens);
-  const roundStartTokensRef = useRef<[number, number, number] | null>([0, 0, 0]);
-  const [wheelCardTotals, setWheelCardTotals] = useState<SideState<[number, number, number]>>({
-    player: [0, 0, 0],
-    enemy: [0, 0, 0],
-  });
-  const wheelCardTotalsRef = useRef(wheelCardTotals);
-  const [active] = useState<[boolean, boolean, boolean]>([true, true, true]);
-  const [wheelHUD, setWheelHUD] = useState<[string | null, string | null, string | null]>([null, null, null]);
-  const [laneChillStacks, setLaneChillStacks] = useState<LaneChillStacks>({
-    player: [0, 0, 0],
-    enemy: [0, 0, 0],
-  });
-  const laneChillRef = useRef(laneChillStacks);
-  const roundAnalysisRef = useRef<RoundAnalysis | null>(null);
-  useEffect(() => {
-    laneChillRef.current = laneChillStacks;
-  }, [laneChillStacks]);
-  useEffect(() => {
-    tokensRef.current = tokens;
-  }, [tokens]);
-  useEffect(() => {
-    wheelCardTotalsRef.current = wheelCardTotals;
-  }, [wheelCardTotals]);
-
-  const reserveReportsRef = useRef<
-    Record<LegacySide, { reserve: number; round: number } | null>
-  >({
-    player: null,
-    enemy: null,
-  });
-
-  const reservePenaltiesRef = useRef<Record<LegacySide, number>>({
-    player: 0,
-    enemy: 0,
-  });
-
-  const applyReservePenalty = useCallback((side: LegacySide, amount: number) => {
-    if (typeof amount !== "number" || !Number.isFinite(amount) || amount <= 0) return;
-    const currentPenalty = reservePenaltiesRef.current[side] ?? 0;
-    const updatedPenalty = Math.max(0, currentPenalty + amount);
-    reservePenaltiesRef.current[side] = updatedPenalty;
-
-    const report = reserveReportsRef.current[side];
-    if (report) {
-      const reduced = Math.max(0, report.reserve - amount);
-      if (reduced !== report.reserve) {
-        reserveReportsRef.current[side] = { reserve: reduced, round: report.round };
-      }
-    }
-  }, []);
-
-  const storeReserveReport = useCallback(
-    (side: LegacySide, reserve: number, roundValue: number) => {
-      const prev = reserveReportsRef.current[side];
-      if (!prev || prev.reserve !== reserve || prev.round !== roundValue) {
-        reserveReportsRef.current[side] = { reserve, round: roundValue };
-        return true;
-      }
-      return false;
-    },
-    []
-  );
+  const [active] = useState<boolean[]>(() => fillLanes(laneCount, true));
 
   const handleMPIntentRef = useRef<(intent: MPIntent, senderId?: string) => void>(() => {});
 
@@ -868,7 +910,6 @@ export function useThreeWheelGame({
     }
   }, []);
   const [selectedCardId, setSelectedCardId] = useState<string | null>(null);
-  const [reserveSums, setReserveSums] = useState<null | { player: number; enemy: number }>(null);
 
   const START_LOG = `A ${enemyName} eyes your purse...`;
   const [log, setLog] = useState<GameLogEntry[]>(() => [createLogEntry(START_LOG)]);
@@ -933,50 +974,6 @@ export function useThreeWheelGame({
     [scheduleSpellHighlightClear],
   );
 
-  const getFighterSnapshot = useCallback(
-    (side: LegacySide): Fighter => (side === "player" ? playerRef.current : enemyRef.current),
-    [],
-  );
-
-  const updateFighter = useCallback(
-    (side: LegacySide, mutator: (prev: Fighter) => Fighter) => {
-      if (side === "player") {
-        setPlayer((prev) => {
-          const next = mutator(prev);
-          playerRef.current = next;
-          return next;
-        });
-      } else {
-        setEnemy((prev) => {
-          const next = mutator(prev);
-          enemyRef.current = next;
-          return next;
-        });
-      }
-    },
-    [setEnemy, setPlayer],
-  );
-
-  const updateReservePreview = useCallback(() => {
-    const playerFighter = playerRef.current;
-    const enemyFighter = enemyRef.current;
-
-    const computeFromFighter = (side: LegacySide, fighter: Fighter) => {
-      const used = side === "player" ? assignRef.current.player : assignRef.current.enemy;
-      const usedIds = new Set((used.filter(Boolean) as Card[]).map((card) => card.id));
-      const remaining = fighter.hand.filter((card) => !usedIds.has(card.id));
-      const base = remaining
-        .slice(0, 2)
-        .reduce((acc, card) => acc + (isNormal(card) ? card.number ?? 0 : 0), 0);
-      const penalty = reservePenaltiesRef.current[side] ?? 0;
-      return Math.max(0, base - penalty);
-    };
-
-    const playerReserve = computeFromFighter("player", playerFighter);
-    const enemyReserve = computeFromFighter("enemy", enemyFighter);
-    setReserveSums({ player: playerReserve, enemy: enemyReserve });
-  }, [setReserveSums]);
-
   useEffect(() => {
     return () => {
       if (spellHighlightTimeoutRef.current) {
@@ -987,187 +984,134 @@ export function useThreeWheelGame({
   }, []);
 
   const canReveal = useMemo(() => {
-    const lane = localLegacySide === "player" ? assign.player : assign.enemy;
+    const lane = assign[localLegacySide];
     return lane.every((c, i) => !active[i] || !!c);
   }, [assign, active, localLegacySide]);
 
-  const wheelRefs = [
+  // One ref per possible lane keeps the hook count stable; only the match's lanes are exposed.
+  const wheelRefPool = [
+    useRef<WheelHandle | null>(null),
+    useRef<WheelHandle | null>(null),
     useRef<WheelHandle | null>(null),
     useRef<WheelHandle | null>(null),
     useRef<WheelHandle | null>(null),
   ];
+  const wheelRefs = wheelRefPool.slice(0, laneCount);
 
-  const recalcWheelForLane = useCallback(
-    (assignments: AssignmentState<Card>, index: number) => {
-      if (index < 0 || index >= assignments.player.length) {
-        return { value: 0, changed: false };
-      }
-
-      const playerCard = assignments.player[index] as Card | null;
-      const enemyCard = assignments.enemy[index] as Card | null;
-      const playerValueRaw = cardWheelValue(playerCard);
-      const enemyValueRaw = cardWheelValue(enemyCard);
-      const playerSteps = modSlice(playerValueRaw);
-      const enemySteps = modSlice(enemyValueRaw);
-      const total = modSlice(playerSteps + enemySteps);
-      wheelRefs[index]?.current?.setVisualToken?.(total);
-
-      const totalsSnapshot = wheelCardTotalsRef.current;
-      const nextPlayerTotals = [...totalsSnapshot.player] as [number, number, number];
-      const nextEnemyTotals = [...totalsSnapshot.enemy] as [number, number, number];
-      let totalsChanged = false;
-      if (nextPlayerTotals[index] !== playerValueRaw) {
-        nextPlayerTotals[index] = playerValueRaw;
-        totalsChanged = true;
-      }
-      if (nextEnemyTotals[index] !== enemyValueRaw) {
-        nextEnemyTotals[index] = enemyValueRaw;
-        totalsChanged = true;
-      }
-      if (totalsChanged) {
-        const updatedTotals: SideState<[number, number, number]> = {
-          player: nextPlayerTotals,
-          enemy: nextEnemyTotals,
-        };
-        wheelCardTotalsRef.current = updatedTotals;
-        setWheelCardTotals(updatedTotals);
-      }
+  // Wheels show the tokens the board shows; the reveal spin drives them itself meanwhile.
+  useEffect(() => {
+    view.tokens.forEach((value, index) => {
+      wheelRefs[index]?.current?.setVisualToken?.(value);
+    });
+    // wheelRefs holds the same refs every render.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [view.tokens]);
+
+  const recordRoundResult = useCallback(
+    (state: MatchState, analysis: RoundAnalysis, summary: RoundOutcomeSummary) => {
+      recordReplay({
+        type: "roundResult",
+        result: {
+          wheelSections: state.wheelSections,
+          wheelSlices: state.wheelSlices,
+          startTokens: state.roundStartTokens,
+          finalTokens: state.tokens,
+          assign: state.assign,
+          splitChoices: { ...state.splitChoices },
+          outcomes: analysis.outcomes,
+          reserves: { player: analysis.pReserve, enemy: analysis.eReserve },
+          wins: summary.wins,
+          initiative: summary.nextInitiative,
+        },
+      });
+    },
+    [recordReplay],
+  );
 
-      const prevTokens = tokensRef.current ?? [0, 0, 0];
-      const previous = prevTokens[index] ?? 0;
-      if (total === previous) {
-        return { value: total, changed: false };
+  /** Shows what the engine reported: log lines, spell flashes and the round's replay record. */
+  const handleMatchEvents = useCallback(
+    (events: MatchEvent[], state: MatchState, options?: MatchEventOptions) => {
+      const lastSkillLog = events.map((event) => event.type === "log" && event.kind === "skill").lastIndexOf(true);
+      let resolved: Extract<MatchEvent, { type: "roundResolved" }> | null = null;
+      for (const [index, event] of events.entries()) {
+        switch (event.type) {
+          case "log":
+            if (event.kind !== "skill") {
+              appendLog(event.message, { type: event.kind });
+            } else if (index === lastSkillLog && options?.skillMeta) {
+              appendLog(event.message, { type: "skill", meta: options.skillMeta });
+            } else {
+              appendLog(event.message);
+            }
+            break;
+          case "roundResolved":
+            resolved = event;
+            clearAdvanceVotes();
+            break;
+          case "spellEffectsApplied": {
+            recordReplay({ type: "spellEffects", payload: event.payload });
+            const { cardIds, reserveSides } = spellHighlightTargets(event.payload, state.assign);
+            flashSpellHighlights(cardIds, reserveSides);
+            break;
+          }
+          case "matchEnded":
+            clearRematchVotes();
+            break;
+          default:
+            break;
+        }
       }
+      // A round re-resolved several times in one step is recorded once, as it ended up.
+      if (resolved) recordRoundResult(state, resolved.analysis, resolved.summary);
+    },
+    [appendLog, clearAdvanceVotes, clearRematchVotes, flashSpellHighlights, recordReplay, recordRoundResult],
+  );
 
-      const nextTokens = [...prevTokens] as [number, number, number];
-      nextTokens[index] = total;
-      tokensRef.current = nextTokens;
-      setTokens(nextTokens);
-      return { value: total, changed: true };
+  const dispatchMatch = useCallback(
+    (action: MatchAction, options?: MatchEventOptions): MatchStepResult => {
+      const result = matchReducer(matchRef.current, action);
+      if (result.state !== matchRef.current) commitMatch(result.state);
+      handleMatchEvents(result.events, result.state, options);
+      return result;
     },
-    [setTokens, setWheelCardTotals, wheelRefs],
+    [commitMatch, handleMatchEvents],
   );
 
   const assignToWheelFor = useCallback(
-    (side: LegacySide, laneIndex: number, card: Card) => {
-      if (phaseRef.current !== "choose") return false;
+    (side: LegacySide, laneIndex: number, card: Card, face?: SplitFace) => {
+      if (matchRef.current.phase !== "choose" || revealingRef.current) return false;
       if (!active[laneIndex]) return false;
 
-      const lane = side === "player" ? assignRef.current.player : assignRef.current.enemy;
-      const prevAtLane = lane[laneIndex];
-      const fromIdx = lane.findIndex((c) => c?.id === card.id);
-      const chillStacks = side === "player" ? laneChillRef.current.player : laneChillRef.current.enemy;
-
-      if (chillStacks[laneIndex] > 0 && prevAtLane && prevAtLane.id !== card.id) {
-        return false;
-      }
-      if (fromIdx !== -1 && chillStacks[fromIdx] > 0 && fromIdx !== laneIndex) {
-        return false;
-      }
-      if (chillStacks[laneIndex] > 0 && !prevAtLane) {
-        return false;
-      }
-
-      if (prevAtLane && prevAtLane.id === card.id && fromIdx === laneIndex) {
+      if (matchRef.current.assign[side][laneIndex]?.id === card.id) {
         if (side === localLegacySide) {
           setSelectedCardId(null);
         }
         return false;
       }
 
-      const isPlayer = side === "player";
-
-      startTransition(() => {
-        setAssign((prev) => {
-          const laneArr = isPlayer ? prev.player : prev.enemy;
-          const nextLane = [...laneArr];
-          const existingIdx = nextLane.findIndex((c) => c?.id === card.id);
-          if (existingIdx !== -1) {
-            const stacks = chillStacks[existingIdx] ?? 0;
-            if (stacks > 0) return prev;
-            nextLane[existingIdx] = null;
-          }
-          nextLane[laneIndex] = card;
-          const nextAssign = isPlayer ? { ...prev, player: nextLane } : { ...prev, enemy: nextLane };
-          assignRef.current = nextAssign;
-          return nextAssign;
-        });
-
-        if (isPlayer) {
-          setPlayer((p) => {
-            let hand = p.hand.filter((c) => c.id !== card.id);
-            if (prevAtLane && prevAtLane.id !== card.id && !hand.some((c) => c.id === prevAtLane.id)) {
-              hand = [...hand, prevAtLane];
-            }
-            return { ...p, hand };
-          });
-        } else {
-          setEnemy((e) => {
-            let hand = e.hand.filter((c) => c.id !== card.id);
-            if (prevAtLane && prevAtLane.id !== card.id && !hand.some((c) => c.id === prevAtLane.id)) {
-              hand = [...hand, prevAtLane];
-            }
-            return { ...e, hand };
-          });
-        }
-      });
+      const result = dispatchMatch({ type: "assign", side, lane: laneIndex, cardId: card.id, face });
+      if (rejectionOf(result)) return false;
 
       clearResolveVotes(side);
-
-      return true;
-    },
-    [active, clearResolveVotes, laneChillRef, localLegacySide]
-  );
-
-  const clearAssignFor = useCallback(
-    (side: LegacySide, laneIndex: number) => {
-      if (phaseRef.current !== "choose") return false;
-      const lane = side === "player" ? assignRef.current.player : assignRef.current.enemy;
-      const prev = lane[laneIndex];
-      if (!prev) return false;
-      const chillStacks = side === "player" ? laneChillRef.current.player : laneChillRef.current.enemy;
-      if (chillStacks[laneIndex] > 0) {
-        return false;
-      }
-
-      startTransition(() => {
-        setAssign((prevAssign) => {
-          const laneArr = side === "player" ? prevAssign.player : prevAssign.enemy;
-          const nextLane = [...laneArr];
-          nextLane[laneIndex] = null;
-          const nextAssign =
-            side === "player" ? { ...prevAssign, player: nextLane } : { ...prevAssign, enemy: nextLane };
-          assignRef.current = nextAssign;
-          return nextAssign;
-        });
-
-        if (side === "player") {
-          setPlayer((p) => {
-            if (p.hand.some((c) => c.id === prev.id)) return p;
-            return { ...p, hand: [...p.hand, prev] };
-          });
-        } else {
-          setEnemy((e) => {
-            if (e.hand.some((c) => c.id === prev.id)) return e;
-            return { ...e, hand: [...e.hand, prev] };
-          });
-        }
-
-        if (side === localLegacySide) {
-          setSelectedCardId((sel) => (sel === prev.id ? null : sel));
-        }
+      recordReplay({
+        type: "assign",
+        side,
+        lane: laneIndex,
+        card,
+        face: isSplit(card) ? result.state.splitChoices[card.id] : undefined,
       });
 
-      clearResolveVotes(side);
-
       return true;
     },
-    [clearResolveVotes, laneChillRef, localLegacySide]
+    [active, clearResolveVotes, dispatchMatch, localLegacySide, recordReplay]
   );
 
   const assignToWheelLocal = useCallback(
     (i: number, card: Card) => {
       const changed = assignToWheelFor(localLegacySide, i, card);
+      if (changed && isSplit(card)) {
+        setSplitFacePrompt({ cardId: card.id, lane: i });
+      }
       if (changed && isMultiplayer) {
         sendIntent({ type: "assign", lane: i, side: localLegacySide });
       }
@@ -1175,515 +1119,360 @@ export function useThreeWheelGame({
     [assignToWheelFor, isMultiplayer, localLegacySide, sendIntent]
   );
 
- function autoPickEnemy(): (Card | null)[] {
-    const aiHand = enemy.hand.filter(isNormal);
-    const picks: (Card | null)[] = [...assignRef.current.enemy];
-
-    if (aiHand.length === 0) {
-      return picks;
-    }
-
-    const assignedEnemyIds = new Set(
-      assignRef.current.enemy
-        .filter((card): card is Card => !!card)
-        .map((card) => card.id),
-    );
-    const usableHand = aiHand.filter((card) => !assignedEnemyIds.has(card.id));
-
-    const aiState: AIDecisionState = {
-      wheels: [0, 1, 2].map((lane) => ({
-        aiCard: assignRef.current.enemy[lane] ?? null,
-        playerCard: assignRef.current.player[lane] ?? null,
-      })),
-      aiHand: [...usableHand],
-      playerHand: player.hand.filter(isNormal),
-      tokens: [...(tokensRef.current ?? tokens)],
-      wheelSections,
-      initiative: initiativeRef.current,
-      reservePenalties: reservePenaltiesRef.current,
-    };
-
-    const availableWheels = [0, 1, 2];
-    let stateForMove: AIDecisionState = aiState;
-
-    while (availableWheels.length > 0) {
-      const move: AIMove | null = chooseBestMove(
-        stateForMove,
-        availableWheels,
-        trialsPerDecision,
-      );
-      if (!move) break;
-
-      picks[move.wheelIndex] = move.card;
+  const chooseSplitFace = useCallback(
+    (cardId: string, face: SplitFace) => {
+      setSplitFacePrompt(null);
+      if (matchRef.current.splitChoices[cardId] === face) return;
+      if (rejectionOf(dispatchMatch({ type: "chooseFace", side: localLegacySide, cardId, face }))) return;
+      clearResolveVotes(localLegacySide);
+      recordReplay({ type: "splitFace", side: localLegacySide, cardId, face });
+    },
+    [clearResolveVotes, dispatchMatch, localLegacySide, recordReplay],
+  );
 
-      if (typeof console !== "undefined") {
-        const moveLog = `AI Move: Card ${cardWheelValue(move.card)} on Wheel ${
-          move.wheelIndex + 1
-        }, Win Prob: ${move.prob.toFixed(2)}`;
-        if (typeof console.debug === "function") console.debug(moveLog);
-        else console.log(moveLog);
+  /** The cards the CPU puts down this round, with the faces it picked for split cards. */
+  const autoPickEnemy = useCallback(
+    (state: MatchState): { picks: (Card | null)[]; faces: SplitChoiceMap } => {
+      const picks: (Card | null)[] = [...state.assign.enemy];
+      let faces: SplitChoiceMap = { ...state.splitChoices };
+      const aiHand = state.enemy.hand.filter((card) => isNormal(card) || isSplit(card));
+      if (aiHand.length === 0) {
+        return { picks, faces };
       }
 
-      const nextWheels = stateForMove.wheels.map((wheel, idx) =>
-        idx === move.wheelIndex ? { ...wheel, aiCard: move.card } : wheel,
-      );
-      const nextAiHand = stateForMove.aiHand.filter(
-        (card) => card.id !== move.card.id,
-      );
-
-      stateForMove = {
-        ...stateForMove,
-        wheels: nextWheels,
-        aiHand: nextAiHand,
+      const aiState: AIDecisionState = {
+        wheels: laneIndexes(laneCount).map((lane) => ({
+          aiCard: state.assign.enemy[lane] ?? null,
+          playerCard: state.assign.player[lane] ?? null,
+        })),
+        aiHand: [...aiHand],
+        playerHand: state.player.hand.filter(isNormal),
+        tokens: [...state.tokens],
+        wheelSections: state.wheelSections,
+        wheelSlices: state.wheelSlices,
+        wheelLocks: state.wheelLocks,
+        pointerShifts: state.pointerShifts,
+        slice0Rule,
+        tieBreak,
+        carryOver: state.carryOver,
+        reserveSize,
+        initiative: state.initiative,
+        reservePenalties: state.reservePenalties,
+        reserveChoices: { player: state.reserveChoices.player },
+        splitChoices: faces,
       };
 
-      const idx = availableWheels.indexOf(move.wheelIndex);
-      if (idx >= 0) availableWheels.splice(idx, 1);
-      if (stateForMove.aiHand.length === 0) break;
-    }
+      const availableWheels = laneIndexes(laneCount);
+      let stateForMove: AIDecisionState = aiState;
+      const cpuRng = seededStream(`cpu:${state.round}`);
 
-    if (picks.some((card) => card === null) && stateForMove.aiHand.length) {
-      const leftovers = [...stateForMove.aiHand];
-      for (let i = 0; i < picks.length; i++) {
-        if (!picks[i] && leftovers.length) {
-          picks[i] = leftovers.shift() ?? null;
+      while (availableWheels.length > 0) {
+        const move: AIMove | null = chooseBestMove(
+          stateForMove,
+          availableWheels,
+          trialsPerDecision,
+          cpuRng,
+        );
+        if (!move) break;
+
+        picks[move.wheelIndex] = move.card;
+        if (move.face) {
+          faces = { ...faces, [move.card.id]: move.face };
         }
-      }
-    }
 
-    return picks;
-  }
-
-  function computeReserveSum(who: LegacySide, used: (Card | null)[]) {
-    const handCards = who === "player" ? player.hand : enemy.hand;
-    const usedIds = new Set((used.filter(Boolean) as Card[]).map((c) => c.id));
-    const left = handCards.filter((c) => !usedIds.has(c.id));
-    const base = left.slice(0, 2).reduce((a, c) => a + (isNormal(c) ? c.number : 0), 0);
-    const penalty = reservePenaltiesRef.current[who] ?? 0;
-    return Math.max(0, base - penalty);
-  }
-
-  const modSlice = (value: number) => ((value % SLICES) + SLICES) % SLICES;
-
-  const cardWheelValue = (card: Card | null) => {
-    if (!card) return 0;
-    if (typeof card.number === "number" && Number.isFinite(card.number)) return card.number;
-    if (typeof card.leftValue === "number" && Number.isFinite(card.leftValue)) return card.leftValue;
-    if (typeof card.rightValue === "number" && Number.isFinite(card.rightValue)) return card.rightValue;
-    return 0;
-  };
+        if (typeof console !== "undefined") {
+          const moveLog = `AI Move: Card ${cardWheelValue(move.card, faces)} on Wheel ${
+            move.wheelIndex + 1
+          }, Win Prob: ${move.prob.toFixed(2)}`;
+          if (typeof console.debug === "function") console.debug(moveLog);
+          else console.log(moveLog);
+        }
 
-  function analyzeRound(played: { p: Card | null; e: Card | null }[]): RoundAnalysis {
-    const localPlayed =
-      localLegacySide === "player" ? played.map((pe) => pe.p) : played.map((pe) => pe.e);
-    const remotePlayed =
-      localLegacySide === "player" ? played.map((pe) => pe.e) : played.map((pe) => pe.p);
-
-    const localReport = reserveReportsRef.current[localLegacySide];
-    const localReserve =
-      localReport && localReport.round === round
-        ? localReport.reserve
-        : computeReserveSum(localLegacySide, localPlayed);
-    let remoteReserve: number;
-    let usedRemoteReport = false;
-
-    if (isMultiplayer) {
-      const report = reserveReportsRef.current[remoteLegacySide];
-      if (report && report.round === round) {
-        remoteReserve = report.reserve;
-        usedRemoteReport = true;
-      } else {
-        remoteReserve = computeReserveSum(remoteLegacySide, remotePlayed);
+        stateForMove = {
+          ...stateForMove,
+          wheels: stateForMove.wheels.map((wheel, idx) =>
+            idx === move.wheelIndex ? { ...wheel, aiCard: move.card } : wheel,
+          ),
+          aiHand: stateForMove.aiHand.filter((card) => card.id !== move.card.id),
+          splitChoices: faces,
+        };
+
+        const idx = availableWheels.indexOf(move.wheelIndex);
+        if (idx >= 0) availableWheels.splice(idx, 1);
+        if (stateForMove.aiHand.length === 0) break;
       }
-    } else {
-      remoteReserve = computeReserveSum(remoteLegacySide, remotePlayed);
-    }
 
-    const pReserve = localLegacySide === "player" ? localReserve : remoteReserve;
-    const eReserve = localLegacySide === "enemy" ? localReserve : remoteReserve;
-
-    const outcomes: WheelOutcome[] = [];
-    const currentInitiative = initiativeRef.current;
-    const tokensSnapshot =
-      roundStartTokensRef.current ?? tokensRef.current ?? tokens;
-
-    for (let w = 0; w < 3; w++) {
-      const secList = wheelSections[w];
-      const baseP = cardWheelValue(played[w].p ?? null);
-      const baseE = cardWheelValue(played[w].e ?? null);
-      const steps = modSlice(modSlice(baseP) + modSlice(baseE));
-      const startToken = tokensSnapshot[w] ?? 0;
-      const targetSlice = (startToken + steps) % SLICES;
-      const section =
-        secList.find((s) => targetSlice !== 0 && inSection(targetSlice, s)) ||
-        ({ id: "Strongest", color: "transparent", start: 0, end: 0 } as Section);
-
-      const pVal = baseP;
-      const eVal = baseE;
-      let winner: LegacySide | null = null;
-      let tie = false;
-      let detail = "";
-      if (targetSlice === 0) {
-        tie = true;
-        detail = "Slice 0: no win";
-      } else {
-        switch (section.id) {
-          case "Strongest":
-            if (pVal === eVal) tie = true;
-            else winner = pVal > eVal ? "player" : "enemy";
-            detail = `Strongest ${pVal} vs ${eVal}`;
-            break;
-          case "Weakest":
-            if (pVal === eVal) tie = true;
-            else winner = pVal < eVal ? "player" : "enemy";
-            detail = `Weakest ${pVal} vs ${eVal}`;
-            break;
-          case "ReserveSum":
-            if (pReserve === eReserve) tie = true;
-            else winner = pReserve > eReserve ? "player" : "enemy";
-            detail = `Reserve ${pReserve} vs ${eReserve}`;
-            break;
-          case "ClosestToTarget": {
-            const t = targetSlice === 0 ? section.target ?? 0 : targetSlice;
-            const pd = Math.abs(pVal - t);
-            const ed = Math.abs(eVal - t);
-            if (pd === ed) tie = true;
-            else winner = pd < ed ? "player" : "enemy";
-            detail = `Closest to ${t}: ${pVal} vs ${eVal}`;
-            break;
+      if (picks.some((card) => card === null) && stateForMove.aiHand.length) {
+        const leftovers = [...stateForMove.aiHand];
+        for (let i = 0; i < picks.length; i++) {
+          if (!picks[i] && leftovers.length) {
+            picks[i] = leftovers.shift() ?? null;
           }
-          case "Initiative":
-            winner = currentInitiative;
-            detail = `Initiative -> ${currentInitiative}`;
-            break;
-          default:
-            tie = true;
-            detail = `Slice 0: no section`;
-            break;
         }
       }
-      outcomes.push({ steps, targetSlice, section, winner, tie, wheel: w, detail });
-    }
 
-    return { outcomes, localReserve, remoteReserve, pReserve, eReserve, usedRemoteReport };
-  }
+      return { picks, faces };
+    },
+    [laneCount, reserveSize, seededStream, slice0Rule, tieBreak, trialsPerDecision],
+  );
 
-  const broadcastLocalReserve = useCallback(() => {
-    const lane = localLegacySide === "player" ? assignRef.current.player : assignRef.current.enemy;
-    const reserve = computeReserveSum(localLegacySide, lane);
-    const updated = storeReserveReport(localLegacySide, reserve, round);
-    if (isMultiplayer && updated) {
-      sendIntent({ type: "reserve", side: localLegacySide, reserve, round });
-    }
-  }, [isMultiplayer, localLegacySide, round, sendIntent, storeReserveReport]);
+  /** The CPU plays its cards and picks its reserve, just before the round is revealed. */
+  const playCpuTurn = useCallback(() => {
+    const { picks, faces } = autoPickEnemy(matchRef.current);
+    picks.forEach((card, lane) => {
+      if (!card || matchRef.current.assign.enemy[lane]?.id === card.id) return;
+      const face = isSplit(card) ? faces[card.id] : undefined;
+      // The engine keeps the CPU out of its own chilled lanes.
+      if (rejectionOf(dispatchMatch({ type: "assign", side: "enemy", lane, cardId: card.id, face }))) return;
+      recordReplay({ type: "assign", side: "enemy", lane, card, face });
+    });
+    const state = matchRef.current;
+    const enemyReserve = chooseReserveCards(
+      state.enemy.hand,
+      state.assign.enemy,
+      state.wheelSections,
+      state.wheelSlices,
+      reserveSize,
+    );
+    if (rejectionOf(dispatchMatch({ type: "chooseReserve", side: "enemy", cardIds: enemyReserve }))) return;
+    recordReplay({ type: "reserve", side: "enemy", cardIds: enemyReserve });
+  }, [autoPickEnemy, dispatchMatch, recordReplay, reserveSize]);
 
+  // Peers can't see the local hand, so they hear the local reserve whenever it changes.
+  const localReserve = reserveReport(match, localLegacySide);
+  const localReserveChoice = match.reserveChoices[localLegacySide];
   useEffect(() => {
-    broadcastLocalReserve();
-  }, [broadcastLocalReserve, assign, player, enemy, localLegacySide, round, isMultiplayer]);
-
-  const refreshRoundSummaryAfterSkill = useCallback(
-    (
-      assignments: AssignmentState<Card>,
-      options?: { updateInitiative?: boolean },
-    ): RoundOutcomeSummary => {
-      const played = [0, 1, 2].map((i) => ({
-        p: assignments.player[i] as Card | null,
-        e: assignments.enemy[i] as Card | null,
-      }));
-
-      const latestAnalysis = analyzeRound(played);
-      roundAnalysisRef.current = latestAnalysis;
-
-      const summary = summarizeRoundOutcome({
-        analysis: latestAnalysis,
-        wins,
-        initiative: initiativeRef.current,
-        round,
-        namesByLegacy,
-        HUD_COLORS,
-        isAnteMode,
-        anteState: anteStateRef.current,
-        winGoal,
-        localLegacySide,
-        remoteLegacySide,
-      });
-
-      setWheelHUD(summary.hudColors);
-      pendingWinsRef.current = summary.wins;
-
-      const shouldUpdateInitiative = options?.updateInitiative ?? isSkillMode;
-      if (shouldUpdateInitiative) {
-        pendingInitiativeRef.current = summary.nextInitiative;
-      }
-
-      return summary;
+    if (!isMultiplayer) return;
+    sendIntent({
+      type: "reserve",
+      side: localLegacySide,
+      reserve: localReserve,
+      round: matchRef.current.round,
+      cardIds: localReserveChoice,
+    });
+  }, [isMultiplayer, localLegacySide, localReserve, localReserveChoice, round, sendIntent]);
+
+  const toggleReserveCard = useCallback(
+    (cardId: string) => {
+      const state = matchRef.current;
+      if (state.phase !== "choose" || revealingRef.current) return;
+      const current = state.reserveChoices[localLegacySide];
+      const next = current.includes(cardId)
+        ? current.filter((id) => id !== cardId)
+        : [...current, cardId].slice(-reserveSize);
+      if (rejectionOf(dispatchMatch({ type: "chooseReserve", side: localLegacySide, cardIds: next }))) return;
+      recordReplay({ type: "reserve", side: localLegacySide, cardIds: next });
     },
-      [
-        HUD_COLORS,
-        isAnteMode,
-        isSkillMode,
-        localLegacySide,
-        namesByLegacy,
-        remoteLegacySide,
-        round,
-        setWheelHUD,
-        winGoal,
-        wins,
-      ],
+    [dispatchMatch, localLegacySide, recordReplay, reserveSize],
   );
 
-  const runRecalculationPhase = useCallback(
-    (originPhase?: CorePhase | null) => {
-      const previousPhase = originPhase ?? phaseRef.current;
+  const stackTop = match.spellStack[match.spellStack.length - 1] ?? null;
 
-      if (previousPhase !== "recalc") {
-        phaseRef.current = "recalc";
-        setPhase("recalc");
-      }
-
-      const assignments = assignRef.current;
-      const shouldUpdateCardTotals = previousPhase === "skill" || previousPhase === "choose";
+  // Whoever didn't cast the spell on top may answer it; only peers race a clock.
+  const reactionWindow = useMemo<ReactionWindow | null>(
+    () =>
+      stackTop
+        ? {
+            responder: otherSide(stackTop.side),
+            expiresAt: isMultiplayer ? Date.now() + REACTION_WINDOW_MS : null,
+          }
+        : null,
+    [isMultiplayer, stackTop],
+  );
 
-      if (shouldUpdateCardTotals) {
-        for (let laneIndex = 0; laneIndex < assignments.player.length; laneIndex++) {
-          recalcWheelForLane(assignments, laneIndex);
-        }
+  /**
+   * Puts a cast spell on the stack, where it waits for the other side to answer. Peers
+   * hear about local casts; CPU casts stay local.
+   */
+  const declareSpell = useCallback(
+    (entry: SpellStackEntry) => {
+      const reason = rejectionOf(dispatchMatch({ type: "declareSpell", entry }));
+      if (reason) {
+        appendLog(`${entry.spellName} didn't go through: ${reason}.`, { type: "spell" });
+        return;
       }
-
-      updateReservePreview();
-
-      const shouldUpdateInitiative =
-        previousPhase === "skill" || previousPhase === "roundEnd" || previousPhase === "anim";
-      refreshRoundSummaryAfterSkill(assignments, {
-        updateInitiative: shouldUpdateInitiative,
-      });
-
-      if (previousPhase !== "recalc") {
-        setSafeTimeout(() => {
-          phaseRef.current = previousPhase;
-          setPhase(previousPhase);
-        }, 0);
+      if (isMultiplayer && entry.side === localLegacySide) {
+        sendIntent({ type: "spellDeclare", entry });
       }
     },
-    [
-      recalcWheelForLane,
-      refreshRoundSummaryAfterSkill,
-      setSafeTimeout,
-      updateReservePreview,
-    ],
+    [appendLog, dispatchMatch, isMultiplayer, localLegacySide, sendIntent],
   );
 
-  const applySpellEffects = useCallback(
-    (payload: SpellEffectPayload, options?: { broadcast?: boolean }) => {
-      let latestAssignments: AssignmentState<Card> = assignRef.current;
-      let snapshotTokens: [number, number, number] =
-        roundStartTokensRef.current ?? (tokensRef.current ?? tokens);
-      let assignmentsChanged = false;
-      let tokensAdjusted = false;
-
-      const affectedCardIds = new Set<string>();
-      const affectedReserveSides = new Set<LegacySide>();
-
-      const noteCardId = (value?: string | null) => {
-        if (typeof value === "string" && value.length > 0) {
-          affectedCardIds.add(value);
-        }
-      };
+  /**
+   * Checks a spell the peer declared against the board as this client sees it and puts
+   * it on the stack with its effects re-derived here. A spell that doesn't hold up is
+   * refused, so the caster takes it back.
+   */
+  const declarePeerSpell = useCallback(
+    (entry: SpellStackEntry) => {
+      const side = entry.side;
+      const hiddenLanes = assignmentsReceivedRef.current[side] ? undefined : hiddenLaneOccupancyRef.current;
+      const reason = rejectionOf(
+        dispatchMatch({
+          type: "declareSpell",
+          entry: { ...entry, payload: normalizePeerSpellPayload(entry.payload) },
+          hiddenLanes,
+        }),
+      );
+      if (!reason) return;
+      appendLog(`Ignored ${namesByLegacy[side]}'s ${entry.spellName}: ${reason}.`, { type: "spell" });
+      // The caster is waiting on our answer to it; tell them it never went on our stack.
+      sendIntent({ type: "spellRefuse", entryId: entry.id, reason });
+    },
+    [appendLog, dispatchMatch, namesByLegacy, sendIntent],
+  );
 
-      const noteReserveSide = (side?: LegacySide | null) => {
-        if (side === "player" || side === "enemy") {
-          affectedReserveSides.add(side);
-        }
-      };
+  /** Takes a local spell the peer refused back off the stack, with its mana. */
+  const withdrawRefusedSpell = useCallback(
+    (entryId: string, reason: string) => {
+      const stack = matchRef.current.spellStack;
+      const top = stack[stack.length - 1];
+      if (!top || top.id !== entryId || top.side !== localLegacySide) return;
+      if (rejectionOf(dispatchMatch({ type: "withdrawSpell", entryId }))) return;
+      appendLog(`${top.spellName} didn't go through: ${reason}.`, { type: "spell" });
+    },
+    [appendLog, dispatchMatch, localLegacySide],
+  );
 
-      payload.cardAdjustments?.forEach((adj) => noteCardId(adj?.cardId));
-      payload.chilledCards?.forEach((entry) => noteCardId(entry?.cardId));
-      payload.handAdjustments?.forEach((entry) => noteCardId(entry?.cardId));
-      payload.handDiscards?.forEach((entry) => noteCardId(entry?.cardId));
-      payload.initiativeChallenges?.forEach((entry) => noteCardId(entry?.cardId));
-      payload.mirrorCopyEffects?.forEach((entry) => noteCardId(entry?.targetCardId));
-      payload.reserveDrains?.forEach((entry) => noteReserveSide(entry?.side));
+  /** `side` lets the spell on top resolve. In multiplayer only the local responder may pass. */
+  const passReaction = useCallback(
+    (side: LegacySide) => {
+      const stack = matchRef.current.spellStack;
+      const top = stack[stack.length - 1];
+      if (!top || top.side === side) return;
+      if (isMultiplayer) {
+        if (side !== localLegacySide) return;
+        sendIntent({ type: "spellPass", side, topId: top.id });
+      }
+      dispatchMatch({ type: "passReaction", side });
+    },
+    [dispatchMatch, isMultiplayer, localLegacySide, sendIntent],
+  );
 
-      runSpellEffects(
-        payload,
+  const previewSpell = useCallback(
+    (payload: SpellEffectPayload) => {
+      const state = matchRef.current;
+      return previewSpellEffects(
         {
-          assignSnapshot: assignRef.current,
-          updateAssignments: (updater) => {
-            setAssign((prev) => {
-              const next = updater(prev);
-              if (next !== prev) assignmentsChanged = true;
-              assignRef.current = next;
-              latestAssignments = next;
-              return next;
-            });
-          },
-          updateReserveSums: setReserveSums,
-          updateTokens: (updater) => {
-            setTokens((prev) => {
-              const next = updater(prev);
-              if (next !== prev) tokensAdjusted = true;
-              tokensRef.current = next;
-              roundStartTokensRef.current = next;
-              snapshotTokens = next;
-              return next;
-            });
-          },
-          updateLaneChillStacks: setLaneChillStacks,
-          setInitiative,
-          appendLog,
-          initiative: initiativeRef.current,
-          isMultiplayer,
-          broadcastEffects: (outgoing) => {
-            sendIntent({ type: "spellEffects", payload: outgoing });
-          },
-          updateTokenVisual: (index, value) => {
-            wheelRefs[index]?.current?.setVisualToken?.(value);
-          },
-          applyReservePenalty,
-          startingTokens: roundStartTokensRef.current ?? (tokensRef.current ?? tokens),
-          updateRoundStartTokens: (nextTokens) => {
-            roundStartTokensRef.current = nextTokens;
-            snapshotTokens = nextTokens;
-            tokensAdjusted = true;
-          },
-          updateFighter: (side, updater) => {
-            if (side === "player") {
-              setPlayer((prev) => {
-                const next = updater(prev);
-                playerRef.current = next;
-                return next;
-              });
-            } else {
-              setEnemy((prev) => {
-                const next = updater(prev);
-                enemyRef.current = next;
-                return next;
-              });
-            }
-          },
+          assign: state.assign,
+          fighters: { player: state.player, enemy: state.enemy },
+          reservePenalties: state.reservePenalties,
+          reserveChoices: state.reserveChoices,
+          reserveSize,
+          splitChoices: state.splitChoices,
+          tokens: state.roundStartTokens,
+          wheelSections: state.wheelSections,
+          wheelSlices: state.wheelSlices,
+          wheelLocks: state.wheelLocks,
+          pointerShifts: state.pointerShifts,
+          initiative: state.initiative,
+          statusEffects: state.statusEffects,
+          localLegacySide,
+          slice0Rule,
+          tieBreak,
         },
-        options,
+        payload,
       );
+    },
+    [localLegacySide, reserveSize, slice0Rule, tieBreak],
+  );
 
-      if (assignmentsChanged && !tokensAdjusted) {
-        for (let i = 0; i < 3; i++) {
-          recalcWheelForLane(latestAssignments, i);
-        }
-      }
-
-      if (affectedCardIds.size > 0 || affectedReserveSides.size > 0) {
-        flashSpellHighlights(affectedCardIds, affectedReserveSides);
-      }
-
-      if (
-        phaseRef.current === "anim" ||
-        phaseRef.current === "skill" ||
-        phaseRef.current === "roundEnd"
-      ) {
-        resolveRound(undefined, {
-          skipAnimation: true,
-          snapshot: { assign: latestAssignments, tokens: snapshotTokens },
+  // Only the responder's clock runs the window; the other client settles on their pass.
+  useEffect(() => {
+    if (!reactionWindow || reactionWindow.expiresAt === null) return;
+    const { responder, expiresAt } = reactionWindow;
+    if (responder !== localLegacySide) return;
+    const timer = setTimeout(() => passReaction(responder), Math.max(0, expiresAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [localLegacySide, passReaction, reactionWindow]);
+
+  /** Spins each wheel from `startTokens` by the steps its outcome took. */
+  const animateSpins = useCallback(
+    async (startTokens: readonly number[], analysis: RoundAnalysis) => {
+      for (let w = 0; w < laneCount; w++) {
+        const outcome = analysis.outcomes.find((entry) => entry.wheel === w);
+        if (!outcome) continue;
+        const start = startTokens[w] ?? 0;
+        const steps = outcome.steps;
+        const slices = outcome.slices ?? SLICES;
+        if (steps <= 0) continue;
+        const total = Math.max(220, Math.min(1000, 110 + 70 * steps));
+        const t0 = performance.now();
+        await new Promise<void>((resolve) => {
+          const frame = (now: number) => {
+            if (!mountedRef.current) return resolve();
+            const tt = Math.max(0, Math.min(1, (now - t0) / total));
+            const progressed = Math.floor(easeInOutCubic(tt) * steps);
+            wheelRefs[w].current?.setVisualToken((start + progressed) % slices);
+            if (tt < 1) requestAnimationFrame(frame);
+            else {
+              wheelRefs[w].current?.setVisualToken((start + steps) % slices);
+              resolve();
+            }
+          };
+          requestAnimationFrame(frame);
         });
+        await new Promise((r) => setTimeout(r, 90));
       }
-
-      runRecalculationPhase(phaseRef.current);
     },
-    [
-      appendLog,
-      isMultiplayer,
-      sendIntent,
-      setAssign,
-      setReserveSums,
-      setTokens,
-      setLaneChillStacks,
-      setInitiative,
-      applyReservePenalty,
-      resolveRound,
-      wheelRefs,
-      tokens,
-      flashSpellHighlights,
-      runRecalculationPhase,
-      recalcWheelForLane,
-    ],
+    // wheelRefs holds the same refs every render.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [laneCount],
   );
 
-  function settleFighterAfterRound(f: Fighter, played: Card[]): Fighter {
-    const playedIds = new Set(played.map((c) => c.id));
-    const leftovers = f.hand.filter((c) => !playedIds.has(c.id));
-    const next: Fighter = {
-      name: f.name,
-      deck: [...f.deck],
-      hand: [],
-      discard: [...f.discard, ...played, ...leftovers],
-      exhaust: [...f.exhaust],
-    };
-
-    const refilled = refillTo(next, 5);
-
-    return ensureFiveHand(refilled, 5);
-  }
-
-  function ensureFiveHand<T extends Fighter>(f: T, TARGET = 5): T {
-    if (f.hand.length >= TARGET) return f;
-
-    const padded = [...f.hand];
-    while (padded.length < TARGET) {
-      padded.push({
-        id:
-          typeof crypto !== "undefined" && "randomUUID" in crypto
-            ? crypto.randomUUID()
-            : `pad-${Date.now()}-${Math.random().toString(36).slice(2)}`,
-        name: "Reserve",
-        number: 0,
-        baseNumber: 0,
-        kind: "normal",
-      } as unknown as Card);
-    }
-    return { ...f, hand: padded } as T;
-  }
-
+  /**
+   * Reveals the round. The engine resolves it at once; the board shows the enemy's cards,
+   * spins the wheels, and only then shows the outcome and its log lines.
+   */
   const revealRoundCore = useCallback(
     (opts?: { force?: boolean }) => {
       if (!opts?.force && !canReveal) return false;
 
-      if (isMultiplayer) {
-        broadcastLocalReserve();
+      if (!isMultiplayer) {
+        playCpuTurn();
       }
 
+      const before = matchRef.current;
+      const result = matchReducer(before, { type: "reveal" });
+      if (rejectionOf(result)) return false;
+
+      recordReplay({ type: "reveal" });
+      commitMatch(result.state);
       setLockedWheelSize((s) => s ?? wheelSize);
       setFreezeLayout(true);
-
-      let enemyPicks: (Card | null)[];
-
-      if (isMultiplayer) {
-        enemyPicks = [...assignRef.current.enemy];
-      } else {
-        enemyPicks = autoPickEnemy();
-        if (enemyPicks.some(Boolean)) {
-          const pickIds = new Set((enemyPicks.filter(Boolean) as Card[]).map((c) => c.id));
-          setEnemy((prev) => ({
-            ...prev,
-            hand: prev.hand.filter((card) => !pickIds.has(card.id)),
-          }));
-        }
-        setAssign((a) => ({ ...a, enemy: enemyPicks }));
-      }
-
-      setPhase("showEnemy");
+      setSplitFacePrompt(null);
+      setRevealing({ phase: "showEnemy", before });
       setSafeTimeout(() => {
-        if (!mountedRef.current) return;
-        setPhase("anim");
-        resolveRound(enemyPicks);
+        setRevealing({ phase: "anim", before });
+        const analysis = result.state.analysis;
+        const spin = analysis ? animateSpins(before.tokens, analysis) : Promise.resolve();
+        void spin.then(() => {
+          if (!mountedRef.current) return;
+          setRevealing(null);
+          handleMatchEvents(result.events, result.state);
+        });
       }, 600);
 
       return true;
     },
-    [broadcastLocalReserve, canReveal, isMultiplayer, wheelSize]
+    [
+      animateSpins,
+      canReveal,
+      commitMatch,
+      handleMatchEvents,
+      isMultiplayer,
+      playCpuTurn,
+      recordReplay,
+      setRevealing,
+      setSafeTimeout,
+      wheelSize,
+    ]
   );
 
   const tryRevealRound = useCallback(
     (opts?: { force?: boolean }) => {
-      if (!opts?.force && phaseRef.current !== "choose") {
+      if (revealingRef.current) return false;
+      if (!opts?.force && matchRef.current.phase !== "choose") {
         return false;
       }
       return revealRoundCore(opts);
@@ -1691,10 +1480,6 @@ export function useThreeWheelGame({
     [revealRoundCore],
   );
 
-  const onReveal = useCallback(() => {
-    tryRevealRound();
-  }, [tryRevealRound]);
-
   const attemptAutoReveal = useCallback(() => {
     if (!isMultiplayer) return;
     if (phase !== "choose") return;
@@ -1721,9 +1506,20 @@ export function useThreeWheelGame({
     if (assignmentsSharedRef.current[localLegacySide]) return;
 
     assignmentsSharedRef.current[localLegacySide] = true;
-    const lane = assignRef.current[localLegacySide];
+    const { assign: current, splitChoices: faces } = matchRef.current;
+    const lane = current[localLegacySide];
     const payload = lane.map((card) => (card ? { ...card } : null)) as (Card | null)[];
-    sendIntent({ type: "shareAssignments", side: localLegacySide, assignments: payload });
+    const sharedChoices: SplitChoiceMap = {};
+    lane.forEach((card) => {
+      const face = card ? faces[card.id] : undefined;
+      if (card && face) sharedChoices[card.id] = face;
+    });
+    sendIntent({
+      type: "shareAssignments",
+      side: localLegacySide,
+      assignments: payload,
+      splitChoices: sharedChoices,
+    });
 
     setTimeout(() => {
       attemptAutoReveal();
@@ -1734,280 +1530,66 @@ export function useThreeWheelGame({
     attemptAutoReveal();
   }, [attemptAutoReveal, resolveVotes]);
 
-  function resolveRound(
-    enemyPicks?: (Card | null)[],
-    options?: {
-      skipAnimation?: boolean;
-      snapshot?: { assign: AssignmentState<Card>; tokens: [number, number, number] };
-    },
-  ) {
-    const currentAssign = options?.snapshot?.assign ?? assignRef.current;
-    const startingTokens =
-      options?.snapshot?.tokens ??
-      roundStartTokensRef.current ??
-      (tokensRef.current ?? tokens);
-    roundStartTokensRef.current = startingTokens;
-    const played = [0, 1, 2].map((i) => ({
-      p: currentAssign.player[i] as Card | null,
-      e: (enemyPicks?.[i] ?? currentAssign.enemy[i]) as Card | null,
-    }));
-
-    const analysis = analyzeRound(played);
-    roundAnalysisRef.current = analysis;
-
-    storeReserveReport(localLegacySide, analysis.localReserve, round);
-    if (!isMultiplayer || !analysis.usedRemoteReport) {
-      storeReserveReport(remoteLegacySide, analysis.remoteReserve, round);
-    }
-
-    const applyRoundOutcome = (
-      finalAnalysis: RoundAnalysis,
-      finalTokens: [number, number, number],
-    ) => {
-      tokensRef.current = finalTokens;
-      setTokens(finalTokens);
-      finalTokens.forEach((value, index) => {
-        wheelRefs[index]?.current?.setVisualToken?.(value);
-      });
-
-      const summary = summarizeRoundOutcome({
-        analysis: finalAnalysis,
-        wins,
-        initiative: initiativeRef.current,
-        round,
-        namesByLegacy,
-        HUD_COLORS,
-        isAnteMode,
-        anteState: anteStateRef.current,
-        winGoal,
-        localLegacySide,
-        remoteLegacySide,
-      });
+  const nextRound = useCallback(() => {
+    if (revealingRef.current) return false;
+    if (matchRef.current.phase === "skill") dispatchMatch({ type: "finishSkills" });
+    if (matchRef.current.phase !== "roundEnd") return false;
 
-      pendingInitiativeRef.current = summary.nextInitiative;
-      summary.logs.forEach((entry) => {
-        appendLog(entry);
-      });
+    recordReplay({ type: "nextRound" });
+    dispatchMatch({ type: "nextRound" });
 
-      setWheelHUD(summary.hudColors);
-      pendingWinsRef.current = summary.wins;
-      if (summary.matchEnded) {
-        commitPendingWins();
-      }
-      setReserveSums({ player: finalAnalysis.pReserve, enemy: finalAnalysis.eReserve });
-
-      if (summary.shouldResetAnte) {
-        setAnteState((prev) => {
-          if (prev.round !== round) return prev;
-          if (prev.bets.player === 0 && prev.bets.enemy === 0) return prev;
-          return { ...prev, bets: { player: 0, enemy: 0 } };
-        });
-      }
-
-      clearAdvanceVotes();
-
-      if (summary.matchEnded) {
-        clearRematchVotes();
-        setPhase("ended");
+    clearResolveVotes();
+    clearAdvanceVotes();
+    setFreezeLayout(false);
+    setLockedWheelSize(null);
+    setSplitFacePrompt(null);
+    setHiddenLaneOccupancy({ player: fillLanes(laneCount, false), enemy: fillLanes(laneCount, false) });
+    setSelectedCardId(null);
+    setDragCardId(null);
+    setDragOverWheel(null);
+
+    return true;
+  }, [clearAdvanceVotes, clearResolveVotes, dispatchMatch, laneCount, recordReplay, setDragOverWheel]);
+
+  /** Puts `cards` in the peer's lanes as they shared them at the end of choosing. */
+  const receiveAssignments = useCallback(
+    (side: LegacySide, cards: (Card | null)[], faces: SplitChoiceMap | undefined) => {
+      const result = dispatchMatch({ type: "receiveAssignments", side, cards, splitChoices: faces });
+      const reason = rejectionOf(result);
+      if (reason) {
+        console.warn(`Ignored ${namesByLegacy[side]}'s cards: ${reason}`);
         return;
       }
-
-      const nextPhase = determinePostResolvePhase({
-        isSkillMode,
-        skillCompleted: skillStateRef.current.completed,
-      });
-      setPhase(nextPhase);
-    };
-
-    if (options?.skipAnimation) {
-      const finalAnalysis = roundAnalysisRef.current ?? analysis;
-      const finalTokens = [...startingTokens] as [number, number, number];
-      finalAnalysis.outcomes.forEach((outcome) => {
-        if (outcome.steps > 0) {
-          finalTokens[outcome.wheel] = (finalTokens[outcome.wheel] + outcome.steps) % SLICES;
-        }
-      });
-      applyRoundOutcome(finalAnalysis, finalTokens);
-      return;
-    }
-
-    const animateSpins = async () => {
-      let finalTokens = [...(tokensRef.current ?? tokens)] as [number, number, number];
-
-      for (let w = 0; w < 3; w++) {
-        const latestAnalysis = roundAnalysisRef.current ?? analysis;
-        const outcome = latestAnalysis.outcomes.find((entry) => entry.wheel === w);
-        if (!outcome) continue;
-        const start = finalTokens[w];
-        const steps = outcome.steps;
-        if (steps <= 0) continue;
-        const total = Math.max(220, Math.min(1000, 110 + 70 * steps));
-        const t0 = performance.now();
-        await new Promise<void>((resolve) => {
-          const frame = (now: number) => {
-            if (!mountedRef.current) return resolve();
-            const tt = Math.max(0, Math.min(1, (now - t0) / total));
-            const progressed = Math.floor(easeInOutCubic(tt) * steps);
-            wheelRefs[w].current?.setVisualToken((start + progressed) % SLICES);
-            if (tt < 1) requestAnimationFrame(frame);
-            else {
-              wheelRefs[w].current?.setVisualToken((start + steps) % SLICES);
-              resolve();
-            }
-          };
-          requestAnimationFrame(frame);
+      result.state.assign[side].forEach((card, lane) => {
+        if (!card) return;
+        recordReplay({
+          type: "assign",
+          side,
+          lane,
+          card,
+          face: isSplit(card) ? result.state.splitChoices[card.id] : undefined,
         });
-        finalTokens[w] = (start + steps) % SLICES;
-        await new Promise((r) => setTimeout(r, 90));
-      }
-
-      if (!mountedRef.current) return;
-
-      const finalAnalysis = roundAnalysisRef.current ?? analysis;
-      applyRoundOutcome(finalAnalysis, finalTokens);
-    };
-
-    void animateSpins();
-  }
-
-
-  const nextRoundCore = useCallback(
-    (opts?: { force?: boolean }) => {
-      const allow = opts?.force || phase === "roundEnd" || phase === "skill";
-      if (!allow) return false;
-
-      commitPendingWins();
-      const pendingInitiative = pendingInitiativeRef.current;
-      pendingInitiativeRef.current = null;
-      if (pendingInitiative) {
-        setInitiative(pendingInitiative);
-      }
-
-      clearResolveVotes();
-      clearAdvanceVotes();
-
-      const currentAssign = assignRef.current;
-      const playerPlayed = currentAssign.player.filter((c): c is Card => !!c);
-      const enemyPlayed = currentAssign.enemy.filter((c): c is Card => !!c);
-
-      wheelRefs.forEach((ref) => ref.current?.setVisualToken(0));
-
-      setFreezeLayout(false);
-      setLockedWheelSize(null);
-
-      setPlayer((p) => {
-        const basePlayer = isSkillMode ? resetFighterCardsToBase(p) : p;
-        const playedForSettlement = isSkillMode
-          ? resetPlayedCardsToBase(playerPlayed)
-          : playerPlayed;
-        return settleFighterAfterRound(basePlayer, playedForSettlement);
       });
-      setEnemy((e) => {
-        const baseEnemy = isSkillMode ? resetFighterCardsToBase(e) : e;
-        const playedForSettlement = isSkillMode
-          ? resetPlayedCardsToBase(enemyPlayed)
-          : enemyPlayed;
-        return settleFighterAfterRound(baseEnemy, playedForSettlement);
-      });
-
-      setWheelSections(generateWheelSet());
-      setAssign({ player: [null, null, null], enemy: [null, null, null] });
-      setHiddenLaneOccupancy({ player: [false, false, false], enemy: [false, false, false] });
-      setLaneChillStacks({ player: [0, 0, 0], enemy: [0, 0, 0] });
-
-      setSelectedCardId(null);
-      setDragCardId(null);
-      setDragOverWheel(null);
-      setTokens([0, 0, 0]);
-      setWheelCardTotals({ player: [0, 0, 0], enemy: [0, 0, 0] });
-      roundStartTokensRef.current = [0, 0, 0];
-      setReserveSums(null);
-      setWheelHUD([null, null, null]);
-      reservePenaltiesRef.current = { player: 0, enemy: 0 };
-      reserveReportsRef.current = { player: null, enemy: null };
-
-      const resetSkill: SkillState = createSkillState(isSkillMode);
-      skillStateRef.current = resetSkill;
-      setSkillState(resetSkill);
-
-      setPhase("choose");
-      setRound((r) => r + 1);
-
-      return true;
     },
-    [
-      clearResolveVotes,
-      clearAdvanceVotes,
-      commitPendingWins,
-      generateWheelSet,
-      phase,
-      setDragOverWheel,
-      isSkillMode,
-      setInitiative,
-    ]
+    [dispatchMatch, namesByLegacy, recordReplay],
   );
 
-  const nextRound = useCallback(() => nextRoundCore({ force: true }), [nextRoundCore]);
-
   const handleMPIntent = useCallback(
     (msg: MPIntent, senderId?: string) => {
       switch (msg.type) {
-        case "assign": {
-          if (senderId && senderId === localPlayerId) break;
-          setHiddenLaneOccupancy((prev) => {
-            const lane = [...prev[msg.side]];
-            if (lane[msg.lane]) return prev;
-            lane[msg.lane] = true;
-            return msg.side === "player" ? { ...prev, player: lane } : { ...prev, enemy: lane };
-          });
-          setAssign((prev) => {
-            const laneArr = msg.side === "player" ? prev.player : prev.enemy;
-            if (laneArr[msg.lane] === null) return prev;
-            const nextLane = [...laneArr];
-            nextLane[msg.lane] = null;
-            const nextAssign =
-              msg.side === "player"
-                ? { ...prev, player: nextLane }
-                : { ...prev, enemy: nextLane };
-            assignRef.current = nextAssign;
-            return nextAssign;
-          });
-          if (msg.side !== localLegacySide) {
-            assignmentsReceivedRef.current[msg.side] = false;
-            setReceivedAssignments((prev) => {
-              if (!prev[msg.side]) return prev;
-              return { ...prev, [msg.side]: false };
-            });
-          }
-          clearResolveVotes(msg.side);
-          break;
-        }
+        case "assign":
         case "clear": {
           if (senderId && senderId === localPlayerId) break;
+          const occupied = msg.type === "assign";
           setHiddenLaneOccupancy((prev) => {
             const lane = [...prev[msg.side]];
-            if (!lane[msg.lane]) return prev;
-            lane[msg.lane] = false;
+            if (lane[msg.lane] === occupied) return prev;
+            lane[msg.lane] = occupied;
             return msg.side === "player" ? { ...prev, player: lane } : { ...prev, enemy: lane };
           });
-          setAssign((prev) => {
-            const laneArr = msg.side === "player" ? prev.player : prev.enemy;
-            if (laneArr[msg.lane] === null) return prev;
-            const nextLane = [...laneArr];
-            nextLane[msg.lane] = null;
-            const nextAssign =
-              msg.side === "player"
-                ? { ...prev, player: nextLane }
-                : { ...prev, enemy: nextLane };
-            assignRef.current = nextAssign;
-            return nextAssign;
-          });
-          if (msg.side !== localLegacySide) {
-            assignmentsReceivedRef.current[msg.side] = false;
-            setReceivedAssignments((prev) => {
-              if (!prev[msg.side]) return prev;
-              return { ...prev, [msg.side]: false };
-            });
+          // Whatever they shared for this lane before no longer stands.
+          if (matchRef.current.assign[msg.side][msg.lane]) {
+            dispatchMatch({ type: "clear", side: msg.side, lane: msg.lane });
           }
           clearResolveVotes(msg.side);
           break;
@@ -2045,14 +1627,11 @@ export function useThreeWheelGame({
             if (!changed) return prev;
             return msg.side === "player" ? { ...prev, player: lane } : { ...prev, enemy: lane };
           });
-          setAssign((prev) => {
-            const nextAssign =
-              msg.side === "player"
-                ? { ...prev, player: received }
-                : { ...prev, enemy: received };
-            assignRef.current = nextAssign;
-            return nextAssign;
-          });
+          receiveAssignments(
+            msg.side,
+            received,
+            msg.splitChoices && typeof msg.splitChoices === "object" ? msg.splitChoices : undefined,
+          );
           assignmentsSharedRef.current[msg.side] = true;
           setTimeout(() => {
             attemptAutoReveal();
@@ -2067,19 +1646,10 @@ export function useThreeWheelGame({
         case "ante": {
           if (!isAnteMode) break;
           if (typeof msg.round !== "number") break;
-          if (roundRef.current !== msg.round) break;
-          const clamped = clampAnteValue(msg.side, msg.bet);
-          setAnteState((prev) => {
-            if (prev.round !== msg.round) {
-              return {
-                round: msg.round,
-                bets: { ...prev.bets, [msg.side]: clamped },
-                odds: calculateAnteOdds({ wins, winGoal, initiative }),
-              };
-            }
-            if (prev.bets[msg.side] === clamped) return prev;
-            return { ...prev, bets: { ...prev.bets, [msg.side]: clamped } };
-          });
+          if (matchRef.current.round !== msg.round) break;
+          const result = dispatchMatch({ type: "setAnte", side: msg.side, bet: msg.bet });
+          if (rejectionOf(result)) break;
+          recordReplay({ type: "ante", side: msg.side, bet: result.state.ante.bets[msg.side] });
           break;
         }
         case "rematch": {
@@ -2089,14 +1659,44 @@ export function useThreeWheelGame({
         }
         case "reserve": {
           if (senderId && senderId === localPlayerId) break;
-          if (typeof msg.reserve === "number" && typeof msg.round === "number") {
-            storeReserveReport(msg.side, msg.reserve, msg.round);
-          }
+          if (typeof msg.reserve !== "number" || typeof msg.round !== "number") break;
+          const result = dispatchMatch({ type: "reportReserve", side: msg.side, reserve: msg.reserve, round: msg.round });
+          if (rejectionOf(result) || !Array.isArray(msg.cardIds)) break;
+          // Their picks are cards in their own hand, so they are only recorded here.
+          const cardIds = msg.cardIds.filter((id): id is string => typeof id === "string").slice(0, reserveSize);
+          recordReplay({ type: "reserve", side: msg.side, cardIds });
           break;
         }
         case "spellEffects": {
           if (senderId && senderId === localPlayerId) break;
-          applySpellEffects(msg.payload, { broadcast: false });
+          // Effects only ever arrive by way of a declared spell, which each client resolves itself.
+          console.warn("Ignored spell effects sent without a declared spell", msg.payload);
+          break;
+        }
+        case "spellDeclare": {
+          if (senderId && senderId === localPlayerId) break;
+          const entry = normalizeSpellStackEntry(msg.entry);
+          if (!entry || entry.side !== remoteLegacySide) break;
+          // A reaction that arrives after the stack resolved has nothing left to answer.
+          if (entry.reaction && matchRef.current.spellStack.length === 0) {
+            sendIntent({ type: "spellRefuse", entryId: entry.id, reason: "there was nothing left to answer" });
+            break;
+          }
+          declarePeerSpell(entry);
+          break;
+        }
+        case "spellPass": {
+          if (senderId && senderId === localPlayerId) break;
+          if (msg.side !== remoteLegacySide) break;
+          const stack = matchRef.current.spellStack;
+          if (stack[stack.length - 1]?.id !== msg.topId) break;
+          dispatchMatch({ type: "passReaction", side: msg.side });
+          break;
+        }
+        case "spellRefuse": {
+          if (senderId && senderId === localPlayerId) break;
+          if (typeof msg.entryId !== "string") break;
+          withdrawRefusedSpell(msg.entryId, typeof msg.reason === "string" ? msg.reason : "refused");
           break;
         }
         default:
@@ -2105,19 +1705,20 @@ export function useThreeWheelGame({
     },
     [
       localPlayerId,
-      localLegacySide,
       markAdvanceVote,
       markRematchVote,
       markResolveVote,
       attemptAutoReveal,
-      applySpellEffects,
-      storeReserveReport,
+      declarePeerSpell,
+      dispatchMatch,
+      receiveAssignments,
+      remoteLegacySide,
+      sendIntent,
+      withdrawRefusedSpell,
       clearResolveVotes,
-      clampAnteValue,
-      wins,
-      winGoal,
-      initiative,
       isAnteMode,
+      recordReplay,
+      reserveSize,
     ]
   );
 
@@ -2210,18 +1811,6 @@ export function useThreeWheelGame({
     tryRevealRound,
   ]);
 
-  const completeSkillPhase = useCallback(() => {
-    let updated = false;
-    setSkillState((prev) => {
-      if (prev.completed) return prev;
-      updated = true;
-      const next = { ...prev, completed: true };
-      skillStateRef.current = next;
-      return next;
-    });
-    return updated;
-  }, [setSkillState]);
-
   const buildSkillEffectMeta = useCallback(
     (
       ability: AbilityKind,
@@ -2237,6 +1826,8 @@ export function useThreeWheelGame({
         case "rerollReserve":
           return { side, ability, affectedReserve: true };
         case "boostCard":
+        case "shiftPointer":
+        case "lockWheel":
           if (target && target.type === "lane") {
             return { side, ability, affectedLanes: [target.laneIndex] };
           }
@@ -2276,13 +1867,8 @@ export function useThreeWheelGame({
         lastPlayerSkillUseTimeRef.current = null;
       }
 
-      const assignments = assignRef.current;
-      const laneCards = assignments[side];
-      const skillCard = laneCards?.[laneIndex] ?? null;
-      const storedSkillValue = skillCard ? getSkillCardValue(skillCard) : 0;
       const actorName = namesByLegacy[side];
-
-      const laneState = skillStateRef.current.lanes[side]?.[laneIndex];
+      const laneState = matchRef.current.skill.lanes[side]?.[laneIndex];
       if (!laneState || !laneState.ability) {
         return {
           success: false,
@@ -2302,109 +1888,32 @@ export function useThreeWheelGame({
       }
 
       const ability = laneState.ability;
-      const sideAssignments: AssignmentState<Card> = {
-        player: [...assignments.player],
-        enemy: [...assignments.enemy],
-      };
-
-      const result = applySkillAbilityEffect({
-        ability,
-        actorName,
-        side,
-        laneIndex,
-        target,
-        skillCard,
-        storedSkillValue,
-        sideAssignments,
-        concludeAssignUpdate: (nextAssign) => {
-          assignRef.current = nextAssign;
-          setAssign(() => nextAssign);
-        },
-        recalcWheelForLane,
-        getFighterSnapshot,
-        updateFighter,
-        drawOne,
-        updateReservePreview,
-        appendLog,
-      });
-
-      if (!result.success) {
-        if (result.failureReason) {
-          appendLog(`${actorName}'s ${ability} failed: ${result.failureReason}`);
-        }
+      const cpuSkillMeta = isCpuActor ? buildSkillEffectMeta(ability, side, target) : null;
+      const result = dispatchMatch(
+        { type: "useSkill", side, laneIndex, target },
+        { skillMeta: cpuSkillMeta ? { skillEffect: cpuSkillMeta } : undefined },
+      );
+      const failureReason = rejectionOf(result);
+      if (failureReason) {
+        appendLog(`${actorName}'s ${ability} failed: ${failureReason}`);
         return {
           success: false,
-          failureReason: result.failureReason,
+          failureReason,
           exhausted: laneState.exhausted,
           usesRemaining: laneState.usesRemaining,
         };
       }
 
-      const nextUsesRemaining = Math.max(0, laneState.usesRemaining - 1);
-      const willExhaust = nextUsesRemaining <= 0;
-
-      setSkillState((prev) => {
-        const lanes = prev.lanes[side];
-        const lane = lanes?.[laneIndex];
-        if (!lane || lane.exhausted || lane.ability !== ability) {
-          return prev;
-        }
-        const cardId = lane.cardId;
-        let nextCardStatus = prev.cardStatus;
-        if (cardId) {
-          const statusKey = getSkillCardStatusKey(side, cardId);
-          const existingStatus = prev.cardStatus[statusKey];
-          if (
-            !existingStatus ||
-            existingStatus.ability !== ability ||
-            existingStatus.exhausted !== willExhaust ||
-            existingStatus.usesRemaining !== nextUsesRemaining
-          ) {
-            nextCardStatus =
-              nextCardStatus === prev.cardStatus ? { ...prev.cardStatus } : nextCardStatus;
-            nextCardStatus[statusKey] = {
-              ability,
-              exhausted: willExhaust,
-              usesRemaining: nextUsesRemaining,
-            };
-          }
-        }
-        const updatedLane: SkillLane = {
-          ...lane,
-          exhausted: willExhaust,
-          usesRemaining: nextUsesRemaining,
-        };
-        const updatedLanesForSide = [...lanes];
-        updatedLanesForSide[laneIndex] = updatedLane;
-        const next: SkillState = {
-          ...prev,
-          lanes: { ...prev.lanes, [side]: updatedLanesForSide },
-          cardStatus: nextCardStatus,
-        };
-        skillStateRef.current = next;
-        return next;
-      });
-
-      const cpuSkillMeta = isCpuActor ? buildSkillEffectMeta(ability, side, target) : null;
-
-      if (isCpuActor) {
-        appendLog(`${actorName} used ${ability}.`, {
-          type: "skill",
-          meta: cpuSkillMeta ? { skillEffect: cpuSkillMeta } : undefined,
-        });
-      }
-
+      const used = result.state.skill.lanes[side][laneIndex] ?? laneState;
       if (ability === "rerollReserve") {
         appendLog(
-          willExhaust
+          used.exhausted
             ? `${actorName} finished their Reroll Reserve.`
             : `${actorName} can discard another reserve or cancel to finish the skill.`,
         );
-      } else if (!isCpuActor) {
-        appendLog(`${actorName} used ${ability}.`);
       }
 
-      runRecalculationPhase(phaseRef.current);
+      recordReplay({ type: "skill", side, laneIndex, ability, target });
 
       if (!isMultiplayer && isSkillMode && side === localLegacySide) {
         lastPlayerSkillUseTimeRef.current = Date.now();
@@ -2412,38 +1921,27 @@ export function useThreeWheelGame({
 
       return {
         success: true,
-        exhausted: willExhaust,
-        usesRemaining: nextUsesRemaining,
+        exhausted: used.exhausted,
+        usesRemaining: used.usesRemaining,
       };
     },
     [
       appendLog,
-      assignRef,
-      applySkillAbilityEffect,
       buildSkillEffectMeta,
-      getFighterSnapshot,
-      getSkillCardValue,
+      dispatchMatch,
       namesByLegacy,
       localLegacySide,
       isMultiplayer,
       isSkillMode,
       remoteLegacySide,
       setSafeTimeout,
-      recalcWheelForLane,
-      setAssign,
-      setSkillState,
-      drawOne,
-      updateFighter,
-      updateReservePreview,
-      runRecalculationPhase,
+      recordReplay,
     ],
   );
 
   const handleNextClick = useCallback(() => {
     if (!(phase === "roundEnd" || phase === "skill")) return;
 
-    completeSkillPhase();
-
     if (!isMultiplayer) {
       nextRound();
       return;
@@ -2451,11 +1949,12 @@ export function useThreeWheelGame({
 
     if (advanceVotes[localLegacySide]) return;
 
+    if (matchRef.current.phase === "skill") dispatchMatch({ type: "finishSkills" });
     markAdvanceVote(localLegacySide);
     sendIntent({ type: "nextRound", side: localLegacySide });
   }, [
     advanceVotes,
-    completeSkillPhase,
+    dispatchMatch,
     isMultiplayer,
     localLegacySide,
     markAdvanceVote,
@@ -2468,87 +1967,38 @@ export function useThreeWheelGame({
     if (!isMultiplayer) return;
     if (!(phase === "roundEnd" || phase === "skill")) return;
     if (!advanceVotes.player || !advanceVotes.enemy) return;
-    completeSkillPhase();
     nextRound();
-  }, [advanceVotes, completeSkillPhase, isMultiplayer, nextRound, phase]);
+  }, [advanceVotes, isMultiplayer, nextRound, phase]);
 
   const resetMatch = useCallback(() => {
+    if (rejectionOf(dispatchMatch({ type: "rematch", fighters: createFighters() }))) return;
+
     clearResolveVotes();
     clearAdvanceVotes();
     clearRematchVotes();
 
-    reserveReportsRef.current = { player: null, enemy: null };
-    reservePenaltiesRef.current = { player: 0, enemy: 0 };
-
-    wheelRefs.forEach((ref) => ref.current?.setVisualToken(0));
-
     setFreezeLayout(false);
     setLockedWheelSize(null);
-
-    setPlayer(() => makeFighter(playerName));
-    setEnemy(() => makeFighter(enemyName));
-
-    pendingInitiativeRef.current = null;
-    setInitiative(hostId ? hostLegacySide : localLegacySide);
-
-    setWins({ player: 0, enemy: 0 });
-    pendingWinsRef.current = null;
-    setRound(1);
-    setAnteState({ round: 0, bets: { player: 0, enemy: 0 }, odds: { player: 1.2, enemy: 1.2 } });
-    setPhase("choose");
-
-    const emptyAssign: { player: (Card | null)[]; enemy: (Card | null)[] } = {
-      player: [null, null, null],
-      enemy: [null, null, null],
-    };
-    assignRef.current = emptyAssign;
-    setAssign(emptyAssign);
-    setHiddenLaneOccupancy({ player: [false, false, false], enemy: [false, false, false] });
-    setLaneChillStacks({ player: [0, 0, 0], enemy: [0, 0, 0] });
+    setSplitFacePrompt(null);
+    setHiddenLaneOccupancy({ player: fillLanes(laneCount, false), enemy: fillLanes(laneCount, false) });
 
     setSelectedCardId(null);
     setDragCardId(null);
     dragOverRef.current = null;
     _setDragOverWheel(null);
 
-    setTokens([0, 0, 0]);
-    setWheelCardTotals({ player: [0, 0, 0], enemy: [0, 0, 0] });
-    setReserveSums(null);
-    setWheelHUD([null, null, null]);
-
     setLog([createLogEntry(START_LOG)]);
 
-    wheelRngRef.current = createSeededRng(seed);
-    setWheelSections(generateWheelSet());
+    replayRef.current = createMatchReplay();
+    setMatchReplay(null);
   }, [
+    START_LOG,
     clearAdvanceVotes,
     clearRematchVotes,
     clearResolveVotes,
-    generateWheelSet,
-    hostId,
-    enemyName,
-    hostLegacySide,
-    localLegacySide,
-    playerName,
-    seed,
-    setAssign,
-    setDragCardId,
-    setEnemy,
-    setFreezeLayout,
-    setInitiative,
-    setLockedWheelSize,
-    setLog,
-    setPhase,
-    setPlayer,
-    setReserveSums,
-    setRound,
-    setSelectedCardId,
-    setTokens,
-    setWheelHUD,
-    setWheelSections,
-    setWins,
-    _setDragOverWheel,
-    wheelRefs,
+    createFighters,
+    dispatchMatch,
+    laneCount,
   ]);
 
   useEffect(() => {
@@ -2575,22 +2025,19 @@ export function useThreeWheelGame({
   const setAnteBet = useCallback(
     (bet: number) => {
       if (!isAnteMode) return;
-      if (phase !== "choose") return;
-
-      const clamped = clampAnteValue(localLegacySide, bet);
-      const prevBet = anteStateRef.current.bets[localLegacySide];
-      if (prevBet === clamped) return;
+      const state = matchRef.current;
+      if (state.phase !== "choose" || revealingRef.current) return;
 
-      setAnteState((prev) => {
-        if (prev.round !== round) return prev;
-        return { ...prev, bets: { ...prev.bets, [localLegacySide]: clamped } };
-      });
+      const clamped = clampAnteBet(bet, state.wins[localLegacySide]);
+      if (state.ante.bets[localLegacySide] === clamped) return;
+      if (rejectionOf(dispatchMatch({ type: "setAnte", side: localLegacySide, bet: clamped }))) return;
+      recordReplay({ type: "ante", side: localLegacySide, bet: clamped });
 
       if (isMultiplayer) {
-        sendIntent({ type: "ante", side: localLegacySide, bet: clamped, round });
+        sendIntent({ type: "ante", side: localLegacySide, bet: clamped, round: state.round });
       }
     },
-    [clampAnteValue, isAnteMode, isMultiplayer, localLegacySide, phase, round, sendIntent]
+    [dispatchMatch, isAnteMode, isMultiplayer, localLegacySide, recordReplay, sendIntent]
   );
 
   const handleExitClick = useCallback(() => {
@@ -2719,6 +2166,7 @@ export function useThreeWheelGame({
     [active, addTouchDragCss, assignToWheelLocal, getDropTargetAt, setDragOverWheel]
   );
 
+
   const shouldMaskRemoteAssignments =
     isMultiplayer && phase === "choose" && !receivedAssignments[remoteLegacySide];
 
@@ -2740,13 +2188,14 @@ export function useThreeWheelGame({
     return { ...assign, enemy: maskedLane };
   }, [assign, hiddenLaneOccupancy, remoteLegacySide, shouldMaskRemoteAssignments]);
 
+
   const state: ThreeWheelGameState = {
     player,
     enemy,
     initiative,
     wins,
     round,
-    ante: anteState,
+    ante: view.ante,
     freezeLayout,
     lockedWheelSize,
     phase,
@@ -2758,23 +2207,40 @@ export function useThreeWheelGame({
     levelUpFlash,
     handClearance,
     wheelSize,
-    wheelSections,
-    tokens,
+    wheelSections: view.wheelSections,
+    wheelSlices: view.wheelSlices,
+    tokens: view.tokens,
+    wheelLocks: view.wheelLocks,
+    pointerShifts: view.pointerShifts,
+    rules,
+    slice0Rule,
+    carryOver: view.carryOver,
     wheelCardTotals,
     active,
-    wheelHUD,
+    wheelHUD: view.wheelHUD,
     assign: assignForDisplay,
+    splitChoices,
+    splitFacePrompt,
     laneChillStacks,
+    statusEffects: view.statusEffects,
     dragCardId,
     dragOverWheel,
     selectedCardId,
-    reserveSums,
+    reserveSums: view.reserveSums,
+    reserveChoices,
+    reserveCards,
     isPtrDragging,
     ptrDragCard,
     ptrDragType,
     log,
     spellHighlights,
-    skill: skillState,
+    mana: match.mana,
+    spellStack: view.spellStack,
+    reactionWindow,
+    spellCasts: view.spellCasts,
+    spellCombo: view.spellCombo,
+    skill: view.skill,
+    replay: matchReplay,
   };
 
   const derived: ThreeWheelGameDerived = {
@@ -2785,6 +2251,7 @@ export function useThreeWheelGame({
     HUD_COLORS: { player: HUD_COLORS.player, enemy: HUD_COLORS.enemy },
     winGoal,
     isMultiplayer,
+    laneCount,
     matchWinner,
     localWinsCount,
     remoteWinsCount,
@@ -2809,41 +2276,18 @@ export function useThreeWheelGame({
     startPointerDrag,
     startTouchDrag,
     assignToWheelLocal,
+    chooseSplitFace,
+    toggleReserveCard,
     handleRevealClick,
     handleNextClick,
     handleRematchClick,
     handleExitClick,
-    applySpellEffects,
+    declareSpell,
+    passReaction,
+    previewSpell,
     setAnteBet,
     useSkillAbility,
   };
 
   return { state, derived, refs, actions };
 }
-
-function calculateAnteOdds({
-  wins,
-  winGoal,
-  initiative,
-}: {
-  wins: { player: number; enemy: number };
-  winGoal: number;
-  initiative: LegacySide;
-}): Record<LegacySide, number> {
-  const result: Record<LegacySide, number> = { player: 1.2, enemy: 1.2 };
-  (Object.keys(result) as LegacySide[]).forEach((side) => {
-    const other: LegacySide = side === "player" ? "enemy" : "player";
-    const winsLeftSelf = Math.max(0, winGoal - wins[side]);
-    const winsLeftOpp = Math.max(0, winGoal - wins[other]);
-    const totalLeft = winsLeftSelf + winsLeftOpp;
-    let probability = totalLeft === 0 ? 0.5 : winsLeftOpp / totalLeft;
-
-    if (initiative === side) probability += 0.05;
-    else probability -= 0.05;
-
-    probability = Math.max(0.15, Math.min(0.85, probability));
-    const payout = Math.max(1.1, Math.round((1 / probability) * 100) / 100);
-    result[side] = payout;
-  });
-  return result;
-}
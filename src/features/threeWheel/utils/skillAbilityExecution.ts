@@ -33,6 +33,11 @@ export type SkillAbilityEffectOptions = {
   drawOne: (fighter: Fighter) => Fighter;
   updateReservePreview: () => void;
   appendLog: (message: string) => void;
+  /** Cards currently making up the actor's reserve; reserve targets must be one of them. */
+  reserveCardIds?: readonly string[];
+  /** Wheel modifiers for the round; the wheel skills fail without them. */
+  updateWheelLocks?: (updater: (prev: boolean[]) => boolean[]) => void;
+  updatePointerShifts?: (updater: (prev: number[]) => number[]) => void;
 };
 
 export type SkillAbilityEffectResult = {
@@ -64,10 +69,22 @@ export const applySkillAbilityEffect = (
     drawOne,
     updateReservePreview,
     appendLog,
+    reserveCardIds,
+    updateWheelLocks,
+    updatePointerShifts,
   } = options;
 
   const laneSourceArr = side === "player" ? sideAssignments.player : sideAssignments.enemy;
 
+  if (
+    reserveCardIds &&
+    target &&
+    target.type !== "lane" &&
+    !reserveCardIds.includes(target.cardId)
+  ) {
+    return { success: false, failureReason: "That card is not in your reserve." };
+  }
+
   switch (ability) {
     case "swapReserve": {
       if (!skillCard) {
@@ -238,6 +255,44 @@ export const applySkillAbilityEffect = (
       appendLog(`${actorName} exhausted a reserve card with no value to boost.`);
       return { success: true };
     }
+    case "shiftPointer": {
+      if (!target || target.type !== "lane") {
+        return { success: false, failureReason: "Select a lane whose pointer to shift." };
+      }
+      const targetLane = target.laneIndex;
+      if (!isValidLaneIndex(targetLane, laneSourceArr) || !updatePointerShifts) {
+        return { success: false, failureReason: "Choose a valid wheel to shift." };
+      }
+      updatePointerShifts((prev) => {
+        const next = [...prev];
+        next[targetLane] = (next[targetLane] ?? 0) + 1;
+        return next;
+      });
+      appendLog(`${actorName} shifted wheel ${targetLane + 1}'s pointer ahead by 1.`);
+      return { success: true, changedLanes: [targetLane] };
+    }
+    case "lockWheel": {
+      if (!target || target.type !== "lane") {
+        return { success: false, failureReason: "Select a lane whose wheel to lock." };
+      }
+      const targetLane = target.laneIndex;
+      if (!isValidLaneIndex(targetLane, laneSourceArr) || !updateWheelLocks) {
+        return { success: false, failureReason: "Choose a valid wheel to lock." };
+      }
+      let alreadyLocked = false;
+      updateWheelLocks((prev) => {
+        alreadyLocked = prev[targetLane] === true;
+        if (alreadyLocked) return prev;
+        const next = [...prev];
+        next[targetLane] = true;
+        return next;
+      });
+      if (alreadyLocked) {
+        return { success: false, failureReason: "That wheel is already locked." };
+      }
+      appendLog(`${actorName} locked wheel ${targetLane + 1}.`);
+      return { success: true, changedLanes: [targetLane] };
+    }
     default:
       return { success: false, failureReason: "Unknown skill ability." };
   }
@@ -1,3 +1,12 @@
+import {
+  STATUS_EFFECTS,
+  createStatusEffect,
+  isStatusEffectKind,
+  type StatusEffect,
+  type StatusTarget,
+} from "../../../game/statusEffects.js";
+import type { WheelSectionEdit } from "../../../game/wheel.js";
+
 export type LegacySide = "player" | "enemy";
 
 export type CardStatAdjustment = {
@@ -8,15 +17,9 @@ export type CardStatAdjustment = {
   rightValueDelta?: number;
 };
 
-export type ChilledCardUpdate = {
-  owner: LegacySide;
-  cardId: string;
-  stacks: number;
-};
-
 export type LaneChillStacks = {
-  player: [number, number, number];
-  enemy: [number, number, number];
+  player: number[];
+  enemy: number[];
 };
 
 type CardLike = {
@@ -36,6 +39,9 @@ export type SpellEffectPayload = {
   caster: LegacySide;
   mirrorCopyEffects?: Array<{ targetCardId: string; mode?: string }>;
   wheelTokenAdjustments?: Array<{ wheelIndex: number; amount: number }>;
+  wheelLocks?: Array<{ wheelIndex: number }>;
+  pointerShifts?: Array<{ wheelIndex: number; amount: number }>;
+  wheelSectionEdits?: WheelSectionEdit[];
   reserveDrains?: Array<{ side: LegacySide; amount: number }>;
   drawCards?: Array<{ side: LegacySide; count: number }>;
   cardAdjustments?: CardStatAdjustment[];
@@ -49,28 +55,28 @@ export type SpellEffectPayload = {
     mode: "higher" | "lower";
     winOnTie?: boolean;
   }>;
-  chilledCards?: ChilledCardUpdate[];
-  delayedEffects?: string[];
+  /** Lasting effects the spell leaves behind, with their targets already resolved. */
+  statusEffects?: StatusEffect[];
   initiative?: LegacySide | null;
   logMessages?: string[];
 };
 
 export type RuntimeSpellEffectSummary = Pick<
   SpellEffectPayload,
-  "cardAdjustments" | "chilledCards" | "delayedEffects" | "drawCards" | "initiative"
+  "cardAdjustments" | "statusEffects" | "drawCards"
 >;
 
 type TargetLike = {
   type?: string;
   cardId?: string;
   owner?: string;
+  lane?: unknown;
+  wheelId?: unknown;
 };
 
 type RuntimeStateLike = {
   cardAdjustments?: unknown;
-  chilledCards?: Record<string, unknown> | null;
-  delayedEffects?: unknown;
-  timeMomentum?: unknown;
+  statusEffects?: unknown;
   drawCards?: unknown;
   [key: string]: unknown;
 };
@@ -147,49 +153,45 @@ export function applyCardStatAdjustments<CardT extends CardLike>(
   return { player: nextPlayer, enemy: nextEnemy } as AssignmentState<CardT>;
 }
 
-export function applyChilledCardUpdates<CardT extends CardLike>(
-  stacksState: LaneChillStacks,
-  assignState: AssignmentState<CardT>,
-  updates: ChilledCardUpdate[],
-): LaneChillStacks | null {
-  if (!Array.isArray(updates) || updates.length === 0) return null;
-
-  let nextPlayer = stacksState.player;
-  let nextEnemy = stacksState.enemy;
-  let changed = false;
-
-  for (const update of updates) {
-    if (!update || typeof update.cardId !== "string") continue;
-    if (typeof update.stacks !== "number" || !Number.isFinite(update.stacks) || update.stacks === 0) continue;
-
-    const owner = update.owner;
-    const lanes = owner === "player" ? assignState.player : assignState.enemy;
-    const laneIndex = lanes.findIndex((card) => card?.id === update.cardId);
-    if (laneIndex === -1) continue;
-
-    if (owner === "player") {
-      const base = nextPlayer === stacksState.player ? [...stacksState.player] : nextPlayer;
-      const current = base[laneIndex] ?? 0;
-      const updated = Math.max(0, current + update.stacks);
-      if (updated !== current) {
-        base[laneIndex] = updated;
-        nextPlayer = base as [number, number, number];
-        changed = true;
+/** Pins a spell's status entry to an actual card, lane, wheel or side from the caster's view. */
+function toStatusEffect(entry: unknown, caster: LegacySide): StatusEffect | null {
+  if (!entry || typeof entry !== "object") return null;
+  const { kind, stacks, rounds, note } = entry as { kind?: unknown; stacks?: unknown; rounds?: unknown; note?: unknown };
+  if (!isStatusEffectKind(kind)) return null;
+  const picked = ((entry as { target?: unknown }).target ?? null) as TargetLike | null;
+  const pickedSide = picked?.owner === "enemy" ? opponentOf(caster) : caster;
+  const side = (entry as { side?: unknown }).side === "opponent" ? opponentOf(caster) : caster;
+
+  let target: StatusTarget | null = null;
+  switch (STATUS_EFFECTS[kind].target) {
+    case "card":
+      if (picked?.type === "card" && typeof picked.cardId === "string") {
+        target = { type: "card", side: pickedSide, cardId: picked.cardId };
       }
-    } else {
-      const base = nextEnemy === stacksState.enemy ? [...stacksState.enemy] : nextEnemy;
-      const current = base[laneIndex] ?? 0;
-      const updated = Math.max(0, current + update.stacks);
-      if (updated !== current) {
-        base[laneIndex] = updated;
-        nextEnemy = base as [number, number, number];
-        changed = true;
+      break;
+    case "lane":
+      if (picked?.type === "card" && Number.isInteger(picked.lane)) {
+        target = { type: "lane", side: pickedSide, lane: picked.lane as number };
       }
+      break;
+    case "wheel": {
+      const wheel = picked?.type === "wheel" ? Number.parseInt(String(picked.wheelId), 10) : NaN;
+      if (Number.isInteger(wheel)) target = { type: "wheel", wheel };
+      break;
     }
+    default:
+      target = { type: STATUS_EFFECTS[kind].target as "fighter" | "reserve", side };
   }
-
-  if (!changed) return null;
-  return { player: nextPlayer, enemy: nextEnemy };
+  if (!target) return null;
+
+  return createStatusEffect(kind, caster, target, {
+    stacks: typeof stacks === "number" && Number.isFinite(stacks) ? stacks : 1,
+    duration:
+      typeof rounds === "number" && Number.isInteger(rounds) && rounds >= 0
+        ? { unit: "rounds", remaining: rounds }
+        : undefined,
+    note: typeof note === "string" ? note : undefined,
+  });
 }
 
 export function collectRuntimeSpellEffects(
@@ -238,28 +240,15 @@ export function collectRuntimeSpellEffects(
     }
   }
 
-  const chilled = runtimeState.chilledCards;
-  if (chilled && typeof chilled === "object") {
-    const owner = opponentOf(caster);
-    const updates: ChilledCardUpdate[] = [];
-    for (const [cardId, rawStacks] of Object.entries(chilled as Record<string, unknown>)) {
-      if (typeof cardId !== "string") continue;
-      const stacks = typeof rawStacks === "number" ? rawStacks : Number(rawStacks);
-      if (!Number.isFinite(stacks) || stacks === 0) continue;
-      updates.push({ owner, cardId, stacks });
+  const statusSource = runtimeState.statusEffects;
+  if (Array.isArray(statusSource)) {
+    const effects: StatusEffect[] = [];
+    for (const entry of statusSource) {
+      const effect = toStatusEffect(entry, caster);
+      if (effect) effects.push(effect);
     }
-    if (updates.length > 0) {
-      summary.chilledCards = updates;
-    }
-  }
-
-  const delayedSource = runtimeState.delayedEffects;
-  if (Array.isArray(delayedSource)) {
-    const delayed = delayedSource
-      .filter((entry): entry is string => typeof entry === "string" && entry.trim().length > 0)
-      .map((entry) => entry.trim());
-    if (delayed.length > 0) {
-      summary.delayedEffects = delayed;
+    if (effects.length > 0) {
+      summary.statusEffects = effects;
     }
   }
 
@@ -275,10 +264,62 @@ export function collectRuntimeSpellEffects(
     summary.drawCards = [{ side: caster, count: normalized }];
   }
 
-  const momentum = runtimeState.timeMomentum;
-  if (typeof momentum === "number" && momentum > 0) {
-    summary.initiative = caster;
+  return summary;
+}
+
+const halve = (value: number) => Math.trunc(value / 2);
+
+const opposite = (side: LegacySide): LegacySide => (side === "player" ? "enemy" : "player");
+
+/** A copy of `payload` with every number halved toward zero; entries left at 0 are dropped. */
+export function dampenSpellEffectPayload(payload: SpellEffectPayload): SpellEffectPayload {
+  const next: SpellEffectPayload = { ...payload };
+  const halveAmounts = <T extends { amount: number }>(entries: T[] | undefined) =>
+    entries?.map((entry) => ({ ...entry, amount: halve(entry.amount) })).filter((entry) => entry.amount !== 0);
+
+  next.wheelTokenAdjustments = halveAmounts(payload.wheelTokenAdjustments);
+  next.pointerShifts = halveAmounts(payload.pointerShifts);
+  next.reserveDrains = halveAmounts(payload.reserveDrains);
+  next.drawCards = payload.drawCards
+    ?.map((entry) => ({ ...entry, count: halve(entry.count) }))
+    .filter((entry) => entry.count > 0);
+  next.wheelSectionEdits = payload.wheelSectionEdits
+    ?.map((edit) => (edit.kind === "resize" ? { ...edit, amount: halve(edit.amount) } : edit))
+    .filter((edit) => edit.kind !== "resize" || edit.amount !== 0);
+  next.cardAdjustments = payload.cardAdjustments
+    ?.map((adj) => {
+      const halved: CardStatAdjustment = { owner: adj.owner, cardId: adj.cardId };
+      if (adj.numberDelta) halved.numberDelta = halve(adj.numberDelta);
+      if (adj.leftValueDelta) halved.leftValueDelta = halve(adj.leftValueDelta);
+      if (adj.rightValueDelta) halved.rightValueDelta = halve(adj.rightValueDelta);
+      return halved;
+    })
+    .filter((adj) => Boolean(adj.numberDelta || adj.leftValueDelta || adj.rightValueDelta));
+  next.handAdjustments = payload.handAdjustments
+    ?.map((adj) => ({ ...adj, numberDelta: adj.numberDelta ? halve(adj.numberDelta) : undefined }))
+    .filter((adj) => Boolean(adj.numberDelta));
+  next.statusEffects = payload.statusEffects
+    ?.map((effect) => ({ ...effect, stacks: halve(effect.stacks) }))
+    .filter((effect) => effect.stacks > 0);
+
+  for (const key of Object.keys(next) as (keyof SpellEffectPayload)[]) {
+    const value = next[key];
+    if (value === undefined || (Array.isArray(value) && value.length === 0)) delete next[key];
   }
+  return next;
+}
 
-  return summary;
+/** A copy of `payload` whose reserve drains, draws and initiative land on the other side. */
+export function redirectSpellEffectPayload(payload: SpellEffectPayload): SpellEffectPayload {
+  const next: SpellEffectPayload = { ...payload };
+  if (payload.reserveDrains) {
+    next.reserveDrains = payload.reserveDrains.map((entry) => ({ ...entry, side: opposite(entry.side) }));
+  }
+  if (payload.drawCards) {
+    next.drawCards = payload.drawCards.map((entry) => ({ ...entry, side: opposite(entry.side) }));
+  }
+  if (payload.initiative) {
+    next.initiative = opposite(payload.initiative);
+  }
+  return next;
 }
@@ -1,11 +1,17 @@
-import { inSection } from "../math";
-import { isNormal } from "../values";
+import { effectiveValue, isNormal, isSplit } from "../values.js";
+import { computeReserveSum, resolveWheelOutcome } from "../matchEngine.js";
+import { RESERVE_CARD_COUNT } from "../lanes.js";
+import { inSection } from "../math.js";
+import { sliceCountAt } from "../wheel.js";
+import type { Slice0Rule } from "../slice0Rules.js";
+import type { TieBreakRule } from "../tieBreakers.js";
 import {
-  SLICES,
   type Card,
   type LegacySide,
   type Section,
-} from "../types";
+  type SplitChoiceMap,
+  type SplitFace,
+} from "../types.js";
 
 export interface WheelState {
   aiCard: Card | null;
@@ -18,16 +24,37 @@ export interface GameState {
   playerHand: Card[];
   tokens: number[];
   wheelSections: Section[][];
+  /** Slice count per wheel; wheels without an entry have 16. */
+  wheelSlices?: number[];
+  /** Wheels locked this round; their tokens don't move. */
+  wheelLocks?: readonly boolean[];
+  /** Per-wheel pointer offsets applied when reading the landing slice. */
+  pointerShifts?: readonly number[];
+  /** What an empty slice 0 does; defaults to no win. */
+  slice0Rule?: Slice0Rule;
+  /** How an even condition is decided; defaults to no winner. */
+  tieBreak?: TieBreakRule;
+  /** Wins waiting on each lane from carry-over landings; they go to the lane's next winner. */
+  carryOver?: readonly number[];
+  /** Cards in each reserve; defaults to the classic two. */
+  reserveSize?: number;
   initiative: LegacySide;
   reservePenalties?: Partial<Record<LegacySide, number>>;
+  /** Cards each side has set aside as its reserve; the AI picks its own when omitted. */
+  reserveChoices?: Partial<Record<LegacySide, string[]>>;
+  /** Faces already chosen for split cards on the wheels. Unchosen splits are valued at their average. */
+  splitChoices?: SplitChoiceMap;
 }
 
 export interface AIMove {
   card: Card;
   wheelIndex: number;
   prob: number;
+  face?: SplitFace;
 }
 
+const SPLIT_FACES: SplitFace[] = ["left", "right"];
+
 interface SimulationSnapshot extends GameState {
   wheels: WheelState[];
   aiHand: Card[];
@@ -39,6 +66,7 @@ export function simulateGameRound(
   aiCard: Card,
   wheelIndex: number,
   trials = 200,
+  rng: () => number = Math.random,
 ): number {
   if (!state.aiHand.some((c) => c.id === aiCard.id)) {
     return 0;
@@ -59,7 +87,7 @@ export function simulateGameRound(
       ...wheels[wheelIndex],
       aiCard,
       playerCard:
-        wheels[wheelIndex]?.playerCard ?? takeRandomCard(playerHand) ?? null,
+        wheels[wheelIndex]?.playerCard ?? takeRandomCard(playerHand, rng) ?? null,
     };
 
     if (wheels[wheelIndex].playerCard) {
@@ -73,13 +101,13 @@ export function simulateGameRound(
       if (wheel.aiCard) {
         removeCardById(aiHand, wheel.aiCard.id);
       } else {
-        wheel.aiCard = takeRandomCard(aiHand);
+        wheel.aiCard = takeRandomCard(aiHand, rng);
       }
 
       if (wheel.playerCard) {
         removeCardById(playerHand, wheel.playerCard.id);
       } else {
-        wheel.playerCard = takeRandomCard(playerHand);
+        wheel.playerCard = takeRandomCard(playerHand, rng);
       }
     }
 
@@ -100,6 +128,7 @@ export function chooseBestMove(
   state: GameState,
   candidateWheels?: number[],
   trials = 200,
+  rng: () => number = Math.random,
 ): AIMove | null {
   const wheelsToCheck =
     candidateWheels ?? state.wheels.map((_, index) => index);
@@ -110,7 +139,21 @@ export function chooseBestMove(
     if (wheel?.aiCard) continue;
 
     for (const card of state.aiHand) {
-      const prob = simulateGameRound(state, card, wheelIndex, trials);
+      if (isSplit(card)) {
+        for (const face of SPLIT_FACES) {
+          const withFace: GameState = {
+            ...state,
+            splitChoices: { ...state.splitChoices, [card.id]: face },
+          };
+          const prob = simulateGameRound(withFace, card, wheelIndex, trials, rng);
+          if (!best || prob > best.prob) {
+            best = { card, wheelIndex, prob, face };
+          }
+        }
+        continue;
+      }
+
+      const prob = simulateGameRound(state, card, wheelIndex, trials, rng);
       if (!best || prob > best.prob) {
         best = { card, wheelIndex, prob };
       }
@@ -131,97 +174,101 @@ function evaluateRound(state: SimulationSnapshot): boolean {
     state.aiHand,
     aiPlayed,
     state.reservePenalties?.enemy ?? 0,
+    state.splitChoices,
+    state.reserveChoices?.enemy ??
+      chooseReserveCards(state.aiHand, aiPlayed, state.wheelSections, state.wheelSlices, state.reserveSize),
+    state.reserveSize,
   );
   const playerReserve = computeReserveSum(
     state.playerHand,
     playerPlayed,
     state.reservePenalties?.player ?? 0,
+    state.splitChoices,
+    state.reserveChoices?.player ?? highestReserveCards(state.playerHand, playerPlayed, state.reserveSize),
+    state.reserveSize,
   );
 
+  const lanes = { player: playerPlayed, enemy: aiPlayed };
+  let reversals = 0;
+
   for (let i = 0; i < state.wheels.length; i++) {
-    const aiCard = state.wheels[i].aiCard;
-    const playerCard = state.wheels[i].playerCard;
-    const sectionList = state.wheelSections[i] ?? [];
-    const baseP = cardWheelValue(playerCard);
-    const baseE = cardWheelValue(aiCard);
-    const steps = modSlice(modSlice(baseP) + modSlice(baseE));
-    const startToken = state.tokens[i] ?? 0;
-    const targetSlice = (startToken + steps) % SLICES;
-    const section =
-      sectionList.find(
-        (s) => targetSlice !== 0 && inSection(targetSlice, s),
-      ) ?? ({
-        id: "Strongest",
-        color: "transparent",
-        start: 0,
-        end: 0,
-      } satisfies Section);
-
-    let winner: LegacySide | null = null;
-    let tie = false;
-
-    if (targetSlice === 0) {
-      tie = true;
-    } else {
-      switch (section.id) {
-        case "Strongest":
-          if (baseP === baseE) tie = true;
-          else winner = baseP > baseE ? "player" : "enemy";
-          break;
-        case "Weakest":
-          if (baseP === baseE) tie = true;
-          else winner = baseP < baseE ? "player" : "enemy";
-          break;
-        case "ReserveSum":
-          if (playerReserve === aiReserve) tie = true;
-          else winner = playerReserve > aiReserve ? "player" : "enemy";
-          break;
-        case "ClosestToTarget": {
-          const target = targetSlice === 0 ? section.target ?? 0 : targetSlice;
-          const pd = Math.abs(baseP - target);
-          const ed = Math.abs(baseE - target);
-          if (pd === ed) tie = true;
-          else winner = pd < ed ? "player" : "enemy";
-          break;
-        }
-        case "Initiative":
-          winner = state.initiative;
-          break;
-        default:
-          tie = true;
-          break;
-      }
-    }
+    const outcome = resolveWheelOutcome({
+      wheel: i,
+      sections: state.wheelSections[i] ?? [],
+      startToken: state.tokens[i] ?? 0,
+      playerValue: cardWheelValue(state.wheels[i].playerCard, state.splitChoices),
+      enemyValue: cardWheelValue(state.wheels[i].aiCard, state.splitChoices),
+      playerCard: state.wheels[i].playerCard,
+      enemyCard: state.wheels[i].aiCard,
+      lanes,
+      reserves: { player: playerReserve, enemy: aiReserve },
+      initiative: state.initiative,
+      slices: sliceCountAt(state.wheelSlices, i),
+      locked: state.wheelLocks?.[i] === true,
+      pointerShift: state.pointerShifts?.[i] ?? 0,
+      slice0Rule: state.slice0Rule,
+      tieBreak: state.tieBreak,
+    });
 
-    if (winner === "enemy") aiScore++;
-    else if (winner === "player") playerScore++;
-    else if (!tie && !winner) {
-      playerScore++;
-      aiScore++;
-    }
+    const gained = (outcome.wins ?? 1) + (state.carryOver?.[i] ?? 0);
+    if (outcome.winner === "enemy") aiScore += gained;
+    else if (outcome.winner === "player") playerScore += gained;
+    else if (outcome.slice0 === "reversal") reversals++;
   }
 
+  // A tied round swaps initiative, so an odd number of reversals hands it back to its holder.
+  if (aiScore === playerScore && reversals % 2 === 1) return state.initiative === "enemy";
   return aiScore > playerScore;
 }
 
-function computeReserveSum(
+const reserveValue = (card: Card) => (isNormal(card) ? card.number ?? 0 : 0);
+
+function rankReserveCards(
   hand: Card[],
   used: (Card | null)[],
-  penalty: number,
-) {
+  highFirst: boolean,
+  reserveSize: number = RESERVE_CARD_COUNT,
+): string[] {
   const usedIds = new Set(used.filter(Boolean).map((card) => card!.id));
-  const remaining = hand.filter((card) => !usedIds.has(card.id));
-  const values = remaining
-    .filter(isNormal)
-    .map((card) => card.number ?? 0)
-    .sort((a, b) => b - a);
-  const base = values.slice(0, 2).reduce((sum, value) => sum + value, 0);
-  return Math.max(0, base - penalty);
+  return hand
+    .filter((card) => !usedIds.has(card.id))
+    .sort((a, b) => (highFirst ? reserveValue(b) - reserveValue(a) : reserveValue(a) - reserveValue(b)))
+    .slice(0, reserveSize)
+    .map((card) => card.id);
 }
 
-function takeRandomCard(hand: Card[]): Card | null {
+const highestReserveCards = (hand: Card[], used: (Card | null)[], reserveSize?: number) =>
+  rankReserveCards(hand, used, true, reserveSize);
+
+/**
+ * Picks the AI's reserve from the cards it kept back: the highest when the wheels
+ * cover more Reserve than Lowest Reserve slices, otherwise the lowest.
+ */
+export function chooseReserveCards(
+  hand: Card[],
+  used: (Card | null)[],
+  wheelSections: Section[][],
+  wheelSlices?: number[],
+  reserveSize?: number,
+): string[] {
+  let lean = 0;
+  wheelSections.forEach((sections, wheel) => {
+    const slices = sliceCountAt(wheelSlices, wheel);
+    sections.forEach((section) => {
+      if (section.id !== "ReserveSum" && section.id !== "LowestReserve") return;
+      let covered = 0;
+      for (let slice = 1; slice < slices; slice++) {
+        if (inSection(slice, section)) covered++;
+      }
+      lean += section.id === "ReserveSum" ? covered : -covered;
+    });
+  });
+  return rankReserveCards(hand, used, lean >= 0, reserveSize);
+}
+
+function takeRandomCard(hand: Card[], rng: () => number): Card | null {
   if (hand.length === 0) return null;
-  const index = Math.floor(Math.random() * hand.length);
+  const index = Math.floor(rng() * hand.length);
   const [card] = hand.splice(index, 1);
   return card ?? null;
 }
@@ -231,8 +278,11 @@ function removeCardById(hand: Card[], id: string) {
   if (index >= 0) hand.splice(index, 1);
 }
 
-function cardWheelValue(card: Card | null) {
+function cardWheelValue(card: Card | null, splitChoices: SplitChoiceMap = {}) {
   if (!card) return 0;
+  if (isSplit(card) && splitChoices[card.id]) {
+    return effectiveValue(card, splitChoices);
+  }
   if (typeof card.number === "number" && Number.isFinite(card.number)) {
     return card.number;
   }
@@ -253,7 +303,3 @@ function cardWheelValue(card: Card | null) {
   }
   return 0;
 }
-
-function modSlice(value: number) {
-  return ((value % SLICES) + SLICES) % SLICES;
-}
@@ -1,13 +1,35 @@
-import type { Card, Fighter, LegacySide } from "../../game/types";
-import type {
-  SpellDefinition,
-  SpellTargetInstance,
-} from "../spells";
-import type { AssignmentState } from "../spellEngine";
+import type { Arcana, Card, Fighter, LegacySide, Section } from "../../game/types";
+import {
+  getSpellTargetStages,
+  type SpellDefinition,
+  type SpellReaction,
+  type SpellTargetInstance,
+} from "../spells.js";
+import {
+  resolvePendingSpell,
+  type AssignmentState,
+  type SpellEffectPayload,
+  type SpellStackEntry,
+} from "../spellEngine.js";
+import {
+  dampenSpellEffectPayload,
+  redirectSpellEffectPayload,
+} from "../../features/threeWheel/utils/spellEffectTransforms.js";
+import { getVictoryCondition } from "../victoryConditions.js";
+import { sectionIndexAt, sectionLength } from "../wheel.js";
+import {
+  comboBonusPayload,
+  findComboFinish,
+  getComboProgress,
+  getSpellArcana,
+  type SpellCombo,
+} from "../spellCombos.js";
 
 export type CpuSpellCandidate = {
   spell: SpellDefinition;
   cost: number;
+  /** Rounds until the spell is off cooldown; it is only weighed for later when above 0. */
+  readyIn?: number;
 };
 
 export type CpuSpellDecision = CpuSpellCandidate & {
@@ -16,7 +38,14 @@ export type CpuSpellDecision = CpuSpellCandidate & {
 
 type ReserveSums = { player: number; enemy: number } | null;
 
-type CpuSpellContext = {
+/** Where each wheel's token sits and what its sections are, for spells that rewrite them. */
+export type CpuWheelState = {
+  sections: Section[][];
+  slices: readonly number[];
+  tokens: readonly number[];
+};
+
+export type CpuSpellContext = {
   casterSide: LegacySide;
   caster: Fighter;
   opponent: Fighter;
@@ -24,6 +53,13 @@ type CpuSpellContext = {
   reserveSums: ReserveSums;
   initiative: LegacySide;
   availableSpells: CpuSpellCandidate[];
+  wheels?: CpuWheelState;
+  /** Spells waiting to resolve; when set, only reactions to its top entry are weighed. */
+  spellStack?: SpellStackEntry[];
+  /** Mana the caster holds; lets it save up for a spell coming off cooldown. */
+  mana?: number;
+  /** Arcana of the spells the caster has resolved this phase, toward a combo. */
+  comboChain?: readonly Arcana[];
 };
 
 const opponentOf = (side: LegacySide): LegacySide =>
@@ -271,17 +307,93 @@ type SpellEvaluation = {
   targets: SpellTargetInstance[];
 };
 
-const evaluateFireball = (context: CpuSpellContext): SpellEvaluation | null => {
+/** Pads skipped optional stages so a later stage's pick lands at its own index. */
+const placeTargets = (targets: Array<SpellTargetInstance | null>): SpellTargetInstance[] => {
+  const last = targets.reduce((end, target, i) => (target ? i + 1 : end), 0);
+  return targets
+    .slice(0, last)
+    .map((target, stageIndex) => (target ? cloneTarget(target) : { type: "none", stageIndex }));
+};
+
+const probeCardId = (stageIndex: number) => `cpu-probe-${stageIndex}`;
+
+/**
+ * Resolves `spell` with a stand-in card of value 0 at each of `stages`, skipping the
+ * rest, so the evaluators score what the spell does at its rank as spellData says
+ * rather than a copy of its numbers.
+ */
+const probeSpell = (context: CpuSpellContext, spell: SpellDefinition, stages: number[]): SpellEffectPayload | null => {
+  const targets = getSpellTargetStages(spell.target).map((stage, stageIndex): SpellTargetInstance => {
+    if (!stages.includes(stageIndex) || stage.type !== "card") return { type: "none", stageIndex };
+    return {
+      type: "card",
+      cardId: probeCardId(stageIndex),
+      owner: stage.ownership === "enemy" ? "enemy" : "ally",
+      cardName: "",
+      location: "board",
+      lane: stageIndex,
+      stageIndex,
+      cardValue: 0,
+    };
+  });
+  const result = resolvePendingSpell({
+    descriptor: { side: context.casterSide, spell, targets, currentStage: targets.length, spentMana: spell.cost },
+    caster: context.caster,
+    opponent: context.opponent,
+    phase: "roundEnd",
+    runtimeState: {},
+  });
+  return result.outcome === "success" ? result.payload : null;
+};
+
+/** How far a probe moved the stand-in card at `stageIndex`. */
+const probedCardDelta = (payload: SpellEffectPayload | null, stageIndex: number): number =>
+  payload?.cardAdjustments?.find((entry) => entry.cardId === probeCardId(stageIndex))?.numberDelta ?? 0;
+
+/** Chill freezes the lane, and each stand-in card sits in the lane matching its stage. */
+const probedChillStacks = (payload: SpellEffectPayload | null, stageIndex: number): number =>
+  payload?.statusEffects?.find(
+    (effect) => effect.kind === "chill" && effect.target.type === "lane" && effect.target.lane === stageIndex,
+  )?.stacks ?? 0;
+
+/** A stage past the support card that picks another enemy card, which some ranks add; -1 when there is none. */
+const findExtraEnemyStage = (spell: SpellDefinition): number =>
+  getSpellTargetStages(spell.target).findIndex(
+    (stage, index) => index > 1 && stage.type === "card" && stage.ownership === "enemy",
+  );
+
+/** The best other enemy card to knock down by `amount`, for ranks that add a second target. */
+const findSecondEnemyTarget = (
+  context: CpuSpellContext,
+  excludeLane: number,
+  amount: number,
+): { target: SpellTargetInstance; score: number } | null => {
+  let best: { target: SpellTargetInstance; score: number } | null = null;
+  getBoardTargetsForSide(context, opponentOf(context.casterSide)).forEach(({ target, value, lane }) => {
+    if (lane === excludeLane || value <= 0) return;
+    const snapshot = getLaneSnapshot(context, lane);
+    const remaining = Math.max(0, snapshot.enemyValue - amount);
+    const score = computeThreatRelief(snapshot.allyValue, snapshot.enemyValue, remaining) * 0.5 + 0.2;
+    if (!best || score > best.score) best = { target, score };
+  });
+  return best;
+};
+
+const evaluateFireball = (context: CpuSpellContext, spell: SpellDefinition): SpellEvaluation | null => {
   const foeSide = opponentOf(context.casterSide);
   const enemyTargets = getBoardTargetsForSide(context, foeSide);
   if (enemyTargets.length === 0) return null;
 
+  const splashStage = findExtraEnemyStage(spell);
+  const probe = probeSpell(context, spell, [0, splashStage]);
+  const baseDamage = -probedCardDelta(probe, 0);
+  const splashDamage = splashStage >= 0 ? -probedCardDelta(probe, splashStage) : 0;
+
   const bonusCandidate = findBestAllyArcanaTarget(context, "fire", "any");
   let best: SpellEvaluation | null = null;
 
   enemyTargets.forEach(({ target, value, lane }) => {
     if (value <= 0) return;
-    const baseDamage = 2;
     const bonus = bonusCandidate?.value ?? 0;
     const damage = baseDamage + bonus;
     const snapshot = getLaneSnapshot(context, lane);
@@ -300,10 +412,13 @@ const evaluateFireball = (context: CpuSpellContext): SpellEvaluation | null => {
     if (snapshot.allyValue < snapshot.enemyValue) {
       score += Math.abs(snapshot.allyValue - snapshot.enemyValue) * 0.3;
     }
-    const targets: SpellTargetInstance[] = [cloneTarget(target)];
-    if (bonusCandidate && bonusCandidate.value > 0) {
-      targets.push(cloneTarget(bonusCandidate.target));
-    }
+    const splash = splashDamage > 0 ? findSecondEnemyTarget(context, lane, splashDamage) : null;
+    score += splash?.score ?? 0;
+    const targets = placeTargets([
+      target,
+      bonusCandidate && bonusCandidate.value > 0 ? bonusCandidate.target : null,
+      splash?.target ?? null,
+    ]);
     if (!best || score > best.score) {
       best = { score, targets };
     }
@@ -312,11 +427,17 @@ const evaluateFireball = (context: CpuSpellContext): SpellEvaluation | null => {
   return best;
 };
 
-const evaluateIceShard = (context: CpuSpellContext): SpellEvaluation | null => {
+const evaluateIceShard = (context: CpuSpellContext, spell: SpellDefinition): SpellEvaluation | null => {
   const foeSide = opponentOf(context.casterSide);
   const enemyTargets = getBoardTargetsForSide(context, foeSide);
   if (enemyTargets.length === 0) return null;
 
+  const secondStage = findExtraEnemyStage(spell);
+  const probe = probeSpell(context, spell, [0, secondStage]);
+  // Each stack past the first keeps the lane frozen for another round.
+  const extraStacks = Math.max(0, probedChillStacks(probe, 0) - 1);
+  const freezesSecond = secondStage >= 0 && probedChillStacks(probe, secondStage) > 0;
+
   const bladeSupport = findBestAllyArcanaTarget(context, "blade", "any");
   let best: SpellEvaluation | null = null;
 
@@ -343,10 +464,10 @@ const evaluateIceShard = (context: CpuSpellContext): SpellEvaluation | null => {
         : Math.max(1, snapshot.enemyValue * 0.2);
       score += initiativePressure + bladeValue * 0.35;
     }
-    const targets: SpellTargetInstance[] = [cloneTarget(target)];
-    if (bladeSupport) {
-      targets.push(cloneTarget(bladeSupport.target));
-    }
+    score += threatRelief * 0.3 * extraStacks;
+    const second = freezesSecond ? findSecondEnemyTarget(context, lane, Number.POSITIVE_INFINITY) : null;
+    score += second?.score ?? 0;
+    const targets = placeTargets([target, bladeSupport?.target ?? null, second?.target ?? null]);
     if (!best || score > best.score) {
       best = { score, targets };
     }
@@ -355,18 +476,20 @@ const evaluateIceShard = (context: CpuSpellContext): SpellEvaluation | null => {
   return best;
 };
 
-const evaluateHex = (context: CpuSpellContext): SpellEvaluation | null => {
+const evaluateHex = (context: CpuSpellContext, spell: SpellDefinition): SpellEvaluation | null => {
   const foeSide = opponentOf(context.casterSide);
   const enemyTargets = getBoardTargetsForSide(context, foeSide);
   if (enemyTargets.length === 0) return null;
 
   const reserve = Math.max(0, context.reserveSums?.[foeSide] ?? 0);
   const serpentSupport = findBestAllyArcanaTarget(context, "serpent", "any");
+  const baseDrain =
+    probeSpell(context, spell, [0])?.reserveDrains?.reduce((sum, entry) => sum + entry.amount, 0) ?? 0;
   let best: SpellEvaluation | null = null;
 
   enemyTargets.forEach(({ target, value }) => {
     const bonus = serpentSupport?.value ?? 0;
-    const drain = 2 + bonus;
+    const drain = baseDrain + bonus;
     const cappedDrain = Math.min(drain, reserve);
     if (cappedDrain <= 0) return;
     const { self, foe } = getReserveTotals(context);
@@ -391,13 +514,14 @@ const evaluateHex = (context: CpuSpellContext): SpellEvaluation | null => {
   return best;
 };
 
-const evaluateKindle = (context: CpuSpellContext): SpellEvaluation | null => {
+const evaluateKindle = (context: CpuSpellContext, spell: SpellDefinition): SpellEvaluation | null => {
   const selfSide = context.casterSide;
   const foeSide = opponentOf(selfSide);
   const boardTargets = getBoardTargetsForSide(context, selfSide);
   const handTargets = getHandTargetsForSide(context, selfSide);
   if (boardTargets.length === 0 && handTargets.length === 0) return null;
 
+  const baseGain = probedCardDelta(probeSpell(context, spell, [0]), 0);
   let best: SpellEvaluation | null = null;
 
   const evaluateTarget = (
@@ -407,7 +531,7 @@ const evaluateKindle = (context: CpuSpellContext): SpellEvaluation | null => {
     const exclude = new Set<string>([candidate.card.id]);
     const fireSupport = findBestAllyArcanaTarget(context, "fire", "any", exclude);
     const bonus = fireSupport?.value ?? 0;
-    const gain = 2 + bonus;
+    const gain = baseGain + bonus;
     let score = gain * 0.5 + (bonus > 0 ? bonus * 0.3 : 0);
     if (location === "board") {
       const laneSnapshot = getLaneSnapshot(
@@ -726,9 +850,224 @@ const evaluatePhantom = (context: CpuSpellContext): SpellEvaluation | null => {
   return best;
 };
 
+type LaneForecast = {
+  lane: number;
+  sectionIndex: number;
+  section: Section;
+  winner: LegacySide | null;
+};
+
+const makeSectionTarget = (lane: number, sectionIndex: number, section: Section): SpellTargetInstance => ({
+  type: "section",
+  wheelId: String(lane),
+  sectionIndex,
+  condition: section.id,
+});
+
+/**
+ * Where each lane's token should land if nothing else changes, and who that section
+ * favours. Tag step shifts and pointer spells are ignored, so it's only a guess.
+ */
+const forecastLanes = (context: CpuSpellContext): LaneForecast[] => {
+  const wheels = context.wheels;
+  if (!wheels) return [];
+  const selfSide = context.casterSide;
+  const forecasts: LaneForecast[] = [];
+  wheels.sections.forEach((sections, lane) => {
+    const slices = wheels.slices[lane] ?? 0;
+    if (slices <= 0 || sections.length === 0) return;
+    const snapshot = getLaneSnapshot(context, lane);
+    if (!snapshot.allyCard && !snapshot.enemyCard) return;
+    const playerValue = selfSide === "player" ? snapshot.allyValue : snapshot.enemyValue;
+    const enemyValue = selfSide === "player" ? snapshot.enemyValue : snapshot.allyValue;
+    const steps = (((playerValue + enemyValue) % slices) + slices) % slices;
+    const targetSlice = ((wheels.tokens[lane] ?? 0) + steps) % slices;
+    const sectionIndex = sectionIndexAt(sections, targetSlice);
+    const section = sections[sectionIndex];
+    if (!section) return;
+    const result = getVictoryCondition(section.id)?.resolve({
+      playerValue,
+      enemyValue,
+      reserves: { player: context.reserveSums?.player ?? 0, enemy: context.reserveSums?.enemy ?? 0 },
+      initiative: context.initiative,
+      section,
+      targetSlice,
+      lanes: context.board,
+    });
+    forecasts.push({ lane, sectionIndex, section, winner: result?.winner ?? null });
+  });
+  return forecasts;
+};
+
+/** Lanes the caster is on course to lose or tie, whose sections are worth rewriting. */
+const getLostForecasts = (context: CpuSpellContext): LaneForecast[] =>
+  forecastLanes(context).filter((forecast) => forecast.winner !== context.casterSide);
+
+const evaluateTransmute = (context: CpuSpellContext): SpellEvaluation | null => {
+  const serpentSupport = findBestAllyArcanaTarget(context, "serpent", "any");
+  const slices = context.wheels?.slices ?? [];
+  let best: SpellEvaluation | null = null;
+
+  getLostForecasts(context).forEach(({ lane, sectionIndex, section, winner }) => {
+    if (sectionLength(section, slices[lane] ?? 0) === 0) return;
+    const snapshot = getLaneSnapshot(context, lane);
+    // A random condition is a coin flip, so an outright loss is worth more to gamble on than a tie.
+    let score = (winner ? 2 : 1) + snapshot.threatScore * 0.2;
+    const targets: SpellTargetInstance[] = [makeSectionTarget(lane, sectionIndex, section)];
+    if (serpentSupport && serpentSupport.value > 0) {
+      score += 0.5;
+      targets.push(cloneTarget(serpentSupport.target));
+    }
+    if (!best || score > best.score) {
+      best = { score, targets };
+    }
+  });
+
+  return best;
+};
+
+const evaluateLoadedDie = (context: CpuSpellContext): SpellEvaluation | null => {
+  const eyeSupport = findBestAllyArcanaTarget(context, "eye", "any");
+  let best: SpellEvaluation | null = null;
+
+  getLostForecasts(context).forEach(({ lane, sectionIndex, section }) => {
+    if (section.id !== "ClosestToTarget" && section.id !== "ExactSum") return;
+    const snapshot = getLaneSnapshot(context, lane);
+    let score = 2.5 + Math.abs(snapshot.allyValue - snapshot.enemyValue) * 0.2;
+    const targets: SpellTargetInstance[] = [makeSectionTarget(lane, sectionIndex, section)];
+    if (eyeSupport && eyeSupport.value > 0) {
+      score += eyeSupport.value * 0.2;
+      targets.push(cloneTarget(eyeSupport.target));
+    }
+    if (!best || score > best.score) {
+      best = { score, targets };
+    }
+  });
+
+  return best;
+};
+
+const evaluateUnravel = (context: CpuSpellContext): SpellEvaluation | null => {
+  const slices = context.wheels?.slices ?? [];
+  // Narrowing the section a lost lane lands on may push the token out of it.
+  const lost = getLostForecasts(context).find(
+    ({ lane, section }) => sectionLength(section, slices[lane] ?? 0) > 1,
+  );
+  if (!lost) return null;
+
+  const serpentSupport = findBestAllyArcanaTarget(context, "serpent", "any");
+  const { self, foe } = getReserveTotals(context);
+  const drain = Math.min(foe, 1 + (serpentSupport?.value ?? 0));
+  let score = 1.5 + drain * 0.5 + computeReserveRelief(self, foe, Math.max(0, foe - drain));
+  const targets: SpellTargetInstance[] = [makeSectionTarget(lost.lane, lost.sectionIndex, lost.section)];
+  if (serpentSupport && serpentSupport.value > 0) {
+    score += serpentSupport.value * 0.3;
+    targets.push(cloneTarget(serpentSupport.target));
+  }
+  return { score, targets };
+};
+
+const evaluatePalmCard = (context: CpuSpellContext): SpellEvaluation | null => {
+  const handTargets = getHandTargetsForSide(context, context.casterSide);
+  if (handTargets.length === 0) return null;
+
+  const { self, foe } = getReserveTotals(context);
+  const reserveGain = Math.max(
+    0,
+    computeReservePressure(self, foe) - computeReservePressure(self + 2, foe),
+  );
+  let best: SpellEvaluation | null = null;
+
+  handTargets.forEach((candidate) => {
+    const exclude = new Set<string>([candidate.card.id]);
+    const fireSupport = findBestAllyArcanaTarget(context, "fire", "any", exclude);
+    let score = 1 + reserveGain + Math.max(0, candidate.value) * 0.1;
+    const targets: SpellTargetInstance[] = [cloneTarget(candidate.target)];
+    if (fireSupport) {
+      score += 1.2;
+      targets.push(cloneTarget(fireSupport.target));
+    }
+    if (!best || score > best.score) {
+      best = { score, targets };
+    }
+  });
+
+  return best;
+};
+
+/** Rough worth of a spell's effects to the side that cast it. */
+const estimatePayloadValue = (payload: SpellEffectPayload): number => {
+  const self = payload.caster;
+  const sign = (side: LegacySide) => (side === self ? 1 : -1);
+  let value = 0;
+  payload.cardAdjustments?.forEach((adj) => {
+    const delta = adj.numberDelta ?? ((adj.leftValueDelta ?? 0) + (adj.rightValueDelta ?? 0)) / 2;
+    value += sign(adj.owner) * delta;
+  });
+  payload.handAdjustments?.forEach((adj) => {
+    value += sign(adj.side) * (adj.numberDelta ?? 0) * 0.5;
+  });
+  payload.reserveDrains?.forEach((drain) => {
+    value -= sign(drain.side) * drain.amount;
+  });
+  payload.drawCards?.forEach((draw) => {
+    value += sign(draw.side) * draw.count * 1.5;
+  });
+  if (payload.initiative) value += sign(payload.initiative) * 3;
+  payload.statusEffects?.forEach((effect) => {
+    value += effect.stacks * 2;
+  });
+  // Wheel and lane tricks are hard to price without replaying the round.
+  const tricks =
+    (payload.wheelTokenAdjustments?.length ?? 0) +
+    (payload.pointerShifts?.length ?? 0) +
+    (payload.wheelLocks?.length ?? 0) +
+    (payload.wheelSectionEdits?.length ?? 0) +
+    (payload.positionSwaps?.length ?? 0) +
+    (payload.mirrorCopyEffects?.length ?? 0) +
+    (payload.initiativeChallenges?.length ?? 0) +
+    (payload.handDiscards?.length ?? 0);
+  return value + tricks * 1.5;
+};
+
+const REACTION_TRANSFORMS: Record<SpellReaction, (payload: SpellEffectPayload) => SpellEffectPayload | null> = {
+  counter: () => null,
+  reduce: dampenSpellEffectPayload,
+  redirect: redirectSpellEffectPayload,
+};
+
+/** What `reaction` takes away from a payload's caster. */
+const reactionSwing = (payload: SpellEffectPayload, reaction: SpellReaction): number => {
+  const after = REACTION_TRANSFORMS[reaction](payload);
+  return estimatePayloadValue(payload) - (after ? estimatePayloadValue(after) : 0);
+};
+
+/**
+ * Worth of answering the top of the stack with `reaction`. Against a plain spell that
+ * is the value it stops; against a reaction aimed at the caster's own spell, only a
+ * counter helps, and it saves whatever that reaction would have cost.
+ */
+const evaluateReaction = (context: CpuSpellContext, reaction: SpellReaction): SpellEvaluation | null => {
+  const stack = context.spellStack ?? [];
+  const top = stack[stack.length - 1];
+  if (!top || top.side === context.casterSide) return null;
+
+  let score: number;
+  if (top.reaction) {
+    const below = stack[stack.length - 2];
+    if (reaction !== "counter" || !below || below.side !== context.casterSide) return null;
+    score = reactionSwing(below.payload, top.reaction);
+  } else {
+    score = reactionSwing(top.payload, reaction);
+  }
+  // Small spells aren't worth the mana.
+  if (score <= 1.5) return null;
+  return { score, targets: [] };
+};
+
 const EVALUATORS: Record<
   string,
-  (context: CpuSpellContext) => SpellEvaluation | null
+  (context: CpuSpellContext, spell: SpellDefinition) => SpellEvaluation | null
 > = {
   fireball: evaluateFireball,
   iceShard: evaluateIceShard,
@@ -741,19 +1080,77 @@ const EVALUATORS: Record<
   timeTwist: evaluateTimeTwist,
   offering: evaluateOffering,
   phantom: evaluatePhantom,
+  transmute: evaluateTransmute,
+  loadedDie: evaluateLoadedDie,
+  unravel: evaluateUnravel,
+  palmCard: evaluatePalmCard,
+};
+
+/** Score given up per round a spell would sit on cooldown after this cast. */
+const COOLDOWN_ROUND_COST = 0.4;
+/** An ultimate goes once a match, so it waits for a moment at least this good. */
+const ULTIMATE_MIN_SCORE = 4;
+/** Share of a combo's bonus credited to a spell that starts one it can finish this phase. */
+const COMBO_SETUP_SHARE = 0.4;
+
+/**
+ * What casting `candidate` is worth toward a combo: the whole bonus when it finishes
+ * one, part of it when it starts one that another castable spell can finish.
+ */
+const comboValue = (context: CpuSpellContext, candidate: CpuSpellCandidate): number => {
+  const arcana = getSpellArcana(candidate.spell.id);
+  if (!arcana) return 0;
+  const chain = context.comboChain ?? [];
+  const bonusValue = (combo: SpellCombo) =>
+    estimatePayloadValue(comboBonusPayload(combo, context.casterSide, context.caster.name));
+  const finished = findComboFinish(chain, arcana);
+  if (finished) return bonusValue(finished);
+
+  const manaLeft = (context.mana ?? Number.POSITIVE_INFINITY) - candidate.cost;
+  const followUps = context.availableSpells.filter(
+    (other) => other !== candidate && (other.readyIn ?? 0) === 0 && other.cost <= manaLeft,
+  );
+  let best = 0;
+  getComboProgress([...chain, arcana]).forEach(({ combo, next }) => {
+    if (followUps.some((other) => getSpellArcana(other.spell.id) === next)) {
+      best = Math.max(best, bonusValue(combo) * COMBO_SETUP_SHARE);
+    }
+  });
+  return best;
 };
 
 export function chooseCpuSpellResponse(
   context: CpuSpellContext,
 ): CpuSpellDecision | null {
   let bestDecision: { score: number; decision: CpuSpellDecision } | null = null;
+  const comingBack: Array<{ score: number; cost: number }> = [];
+
+  const reacting = (context.spellStack?.length ?? 0) > 0;
 
   for (const candidate of context.availableSpells) {
-    const evaluator = EVALUATORS[candidate.spell.id];
-    if (!evaluator) continue;
-    const result = evaluator(context);
+    const readyIn = candidate.readyIn ?? 0;
+    if (readyIn > 1 || (readyIn === 1 && reacting)) continue;
+    const { reaction } = candidate.spell;
+    let result: SpellEvaluation | null;
+    if (reacting || reaction) {
+      if (!reacting || !reaction) continue;
+      result = evaluateReaction(context, reaction);
+    } else {
+      const evaluator = EVALUATORS[candidate.spell.id];
+      if (!evaluator) continue;
+      result = evaluator(context, candidate.spell);
+    }
     if (!result) continue;
-    const score = result.score - candidate.cost * 0.25;
+    if (candidate.spell.ultimate && result.score < ULTIMATE_MIN_SCORE) continue;
+    const score =
+      result.score +
+      comboValue(context, candidate) -
+      candidate.cost * 0.25 -
+      (candidate.spell.cooldown ?? 0) * COOLDOWN_ROUND_COST;
+    if (readyIn > 0) {
+      comingBack.push({ score, cost: candidate.cost });
+      continue;
+    }
     if (!bestDecision || score > bestDecision.score) {
       bestDecision = {
         score,
@@ -766,5 +1163,12 @@ export function chooseCpuSpellResponse(
     }
   }
 
-  return bestDecision?.decision ?? null;
+  // Hold off when a better spell is back next round and this cast would leave too little for it.
+  const best = bestDecision;
+  const mana = context.mana;
+  if (best && mana !== undefined && comingBack.some(({ score, cost }) => score > best.score && mana - best.decision.cost < cost)) {
+    return null;
+  }
+
+  return best?.decision ?? null;
 }
@@ -44,6 +44,11 @@ export function getCardArcana(card: Card): Arcana {
   return deriveArcanaForCard(card);
 }
 
+/** Rank used when arcana decide a tie: fire outranks blade, then eye, moon and serpent. */
+export function getArcanaPriority(arcana: Arcana): number {
+  return ARCANA_ORDER.length - ARCANA_ORDER.indexOf(arcana);
+}
+
 export function getArcanaIcon(arcana: Arcana): string {
   return ARCANA_EMOJI[arcana];
 }
@@ -1,6 +1,6 @@
 import type { SpellId } from "./spells";
 
-export type ArchetypeId = "bandit" | "sorcerer" | "beast";
+export type ArchetypeId = "bandit" | "sorcerer" | "beast" | "fatespinner";
 
 export type ArchetypeDefinition = {
   id: ArchetypeId;
@@ -15,21 +15,28 @@ const definitions: Record<ArchetypeId, ArchetypeDefinition> = {
     name: "Shade Bandit",
     description:
       "A cunning rogue who manipulates momentum with tricks and stolen reserves.",
-    spellIds: ["hex", "mirrorImage", "iceShard", "suddenStrike", "crosscut", "leech"],
+    spellIds: ["hex", "mirrorImage", "iceShard", "suddenStrike", "crosscut", "leech", "misdirect", "deflect"],
   },
   sorcerer: {
     id: "sorcerer",
     name: "Chronomancer",
     description:
       "A master of temporal magic who bends slices and values to their will.",
-    spellIds: ["fireball", "arcaneShift", "timeTwist", "kindle", "offering", "phantom"],
+    spellIds: ["fireball", "arcaneShift", "timeTwist", "kindle", "offering", "phantom", "anchor", "reshape", "counterspell"],
   },
   beast: {
     id: "beast",
     name: "Wildshifter",
     description:
       "A primal force that overwhelms foes with ferocity and relentless pressure.",
-    spellIds: ["fireball", "hex", "iceShard", "kindle", "leech", "phantom"],
+    spellIds: ["fireball", "hex", "iceShard", "kindle", "leech", "phantom", "dampen"],
+  },
+  fatespinner: {
+    id: "fatespinner",
+    name: "Fatespinner",
+    description:
+      "A weaver of odds who rewrites the wheels themselves and palms cards in reserve.",
+    spellIds: ["transmute", "loadedDie", "unravel", "palmCard", "reshape", "misdirect", "counterspell"],
   },
 };
 
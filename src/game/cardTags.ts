@@ -0,0 +1,63 @@
+// src/game/cardTags.ts
+// Round effects for card tags. A tag only does something while its card sits on a wheel.
+import type { Card, SplitChoiceMap, TagId } from "./types.js";
+import { effectiveValue } from "./values.js";
+
+export type RuleTagId = Exclude<TagId, "grimoireFiller">;
+
+export const RULE_TAGS: readonly RuleTagId[] = ["oddshift", "parityflip", "echoreserve"];
+
+export const CARD_TAG_INFO: Record<RuleTagId, { label: string; icon: string; description: string }> = {
+  oddshift: {
+    label: "Oddshift",
+    icon: "↻",
+    description: "If this card's value is odd, its wheel moves one extra step.",
+  },
+  parityflip: {
+    label: "Parity Flip",
+    icon: "⇅",
+    description: "Strongest and Weakest swap on this card's wheel.",
+  },
+  echoreserve: {
+    label: "Echo Reserve",
+    icon: "◎",
+    description: "While in play, this card's value also counts toward your reserve.",
+  },
+};
+
+export const isRuleTag = (tag: string): tag is RuleTagId => (RULE_TAGS as readonly string[]).includes(tag);
+
+export const hasTag = (card: Card | null | undefined, tag: TagId): boolean => !!card?.tags?.includes(tag);
+
+export const getRuleTags = (card: Card | null | undefined): RuleTagId[] =>
+  (card?.tags ?? []).filter(isRuleTag);
+
+/** Extra wheel steps from oddshift cards on a lane. Values are the ones the wheel actually uses. */
+export function laneStepShift(
+  playerCard: Card | null | undefined,
+  enemyCard: Card | null | undefined,
+  playerValue: number,
+  enemyValue: number,
+): number {
+  let shift = 0;
+  if (hasTag(playerCard, "oddshift") && Math.abs(playerValue) % 2 === 1) shift += 1;
+  if (hasTag(enemyCard, "oddshift") && Math.abs(enemyValue) % 2 === 1) shift += 1;
+  return shift;
+}
+
+/** True when an odd number of parityflip cards share the lane, so two flips cancel out. */
+export function laneFlipsComparison(
+  playerCard: Card | null | undefined,
+  enemyCard: Card | null | undefined,
+): boolean {
+  const flips = Number(hasTag(playerCard, "parityflip")) + Number(hasTag(enemyCard, "parityflip"));
+  return flips % 2 === 1;
+}
+
+/** Reserve bonus from echoreserve cards currently in play. */
+export function echoReserveBonus(played: (Card | null)[], splitChoices: SplitChoiceMap = {}): number {
+  return played.reduce(
+    (sum, card) => (card && hasTag(card, "echoreserve") ? sum + effectiveValue(card, splitChoices) : sum),
+    0,
+  );
+}
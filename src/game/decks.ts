@@ -0,0 +1,36 @@
+// src/game/decks.ts
+import { shuffle } from "./math.js";
+import type { Fighter } from "./types.js";
+
+export function drawOne(f: Fighter, rng: () => number = Math.random): Fighter {
+  const next = {
+    ...f,
+    deck: [...f.deck],
+    hand: [...f.hand],
+    discard: [...f.discard],
+    exhaust: [...f.exhaust],
+  };
+  if (next.deck.length === 0 && next.discard.length > 0) {
+    next.deck = shuffle(next.discard, rng);
+    next.discard = [];
+  }
+  if (next.deck.length) next.hand.push(next.deck.shift()!);
+  return next;
+}
+
+export function refillTo(f: Fighter, target: number, rng: () => number = Math.random): Fighter {
+  let cur = { ...f };
+  while (cur.hand.length < target) {
+    const before = cur.hand.length;
+    cur = drawOne(cur, rng);
+    if (cur.hand.length === before) break;
+  }
+  return cur;
+}
+
+export function freshFive(f: Fighter, rng: () => number = Math.random): Fighter {
+  const pool = shuffle([...f.deck, ...f.hand, ...f.discard], rng);
+  const hand = pool.slice(0, 5);
+  const deck = pool.slice(5);
+  return { name: f.name, hand, deck, discard: [], exhaust: [...f.exhaust] };
+}
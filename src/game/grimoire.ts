@@ -1,5 +1,5 @@
 import { getCardArcana } from "./arcana.js";
-import type { Card, Arcana } from "./types.js";
+import type { Card, Arcana, Fighter } from "./types.js";
 import type { SpellId } from "./spells.js";
 
 export const GRIMOIRE_SYMBOL_ORDER: Arcana[] = [
@@ -14,6 +14,11 @@ export type GrimoireSymbols = Record<Arcana, number>;
 
 export const MAX_GRIMOIRE_SYMBOLS = 10;
 
+/** Highest rank a spell can reach. */
+export const MAX_SPELL_RANK = 3;
+/** Symbols past a spell's requirement, in its own arcana, that each rank above the first costs. */
+export const SPELL_RANK_STEP = 2;
+
 export const DEFAULT_GRIMOIRE_SYMBOLS: GrimoireSymbols = {
   fire: 2,
   blade: 2,
@@ -37,6 +42,16 @@ export const GRIMOIRE_SPELL_REQUIREMENTS: Record<SpellId, GrimoireRequirement> =
   timeTwist: { moon: 2, eye: 2, serpent: 1 },
   offering: { fire: 2, serpent: 3 },
   phantom: { moon: 2, blade: 1, eye: 2 },
+  anchor: { moon: 2, blade: 2 },
+  misdirect: { serpent: 2, eye: 2 },
+  reshape: { eye: 3, moon: 1 },
+  transmute: { eye: 2, serpent: 2 },
+  loadedDie: { eye: 2, moon: 1 },
+  unravel: { serpent: 3, moon: 1 },
+  palmCard: { blade: 2, fire: 1 },
+  counterspell: { eye: 2, moon: 2 },
+  dampen: { moon: 2, serpent: 1 },
+  deflect: { blade: 2, serpent: 1 },
 };
 
 const SPELL_PRIORITY: SpellId[] = [
@@ -52,6 +67,16 @@ const SPELL_PRIORITY: SpellId[] = [
   "timeTwist",
   "offering",
   "phantom",
+  "anchor",
+  "misdirect",
+  "reshape",
+  "transmute",
+  "loadedDie",
+  "unravel",
+  "palmCard",
+  "counterspell",
+  "dampen",
+  "deflect",
 ];
 
 export function createEmptySymbolMap(): GrimoireSymbols {
@@ -114,6 +139,57 @@ export function requirementSatisfied(symbols: GrimoireSymbols, requirement: Grim
   return true;
 }
 
+/** Symbols invested in `requirement`'s arcana past what it asks for; null when it isn't met. */
+function requirementSurplus(symbols: GrimoireSymbols, requirement: GrimoireRequirement | undefined): number | null {
+  if (!requirementSatisfied(symbols, requirement)) return null;
+  let surplus = 0;
+  for (const [arcana, needed] of Object.entries(requirement ?? {})) {
+    if (typeof needed !== "number" || needed <= 0) continue;
+    surplus += (symbols[arcana as Arcana] ?? 0) - needed;
+  }
+  return surplus;
+}
+
+/**
+ * The rank `symbols` unlock for a spell with `requirement`: 0 when it isn't learned,
+ * 1 at the requirement, and one more for every SPELL_RANK_STEP symbols past it, up to
+ * `maxRank`.
+ */
+export function getSpellRank(
+  symbols: GrimoireSymbols,
+  requirement: GrimoireRequirement | undefined,
+  maxRank = MAX_SPELL_RANK,
+): number {
+  const surplus = requirementSurplus(symbols, requirement);
+  if (surplus === null) return 0;
+  return Math.min(Math.max(1, maxRank), 1 + Math.floor(surplus / SPELL_RANK_STEP));
+}
+
+/** Symbols a spell's arcana still need before `rank` unlocks; 0 once it has. */
+export function symbolsForSpellRank(
+  symbols: GrimoireSymbols,
+  requirement: GrimoireRequirement | undefined,
+  rank: number,
+): number {
+  let missing = 0;
+  let surplus = 0;
+  for (const [arcana, needed] of Object.entries(requirement ?? {})) {
+    if (typeof needed !== "number" || needed <= 0) continue;
+    const have = symbols[arcana as Arcana] ?? 0;
+    missing += Math.max(0, needed - have);
+    surplus += Math.max(0, have - needed);
+  }
+  return missing + Math.max(0, (rank - 1) * SPELL_RANK_STEP - surplus);
+}
+
+/**
+ * The grimoire a fighter's deck was built from, one arcana card per symbol. Cards in
+ * lanes still sit in the hand, so deck, hand and discard hold every card.
+ */
+export function countFighterSymbols(fighter: Pick<Fighter, "deck" | "hand" | "discard">): GrimoireSymbols {
+  return clampSymbols(countSymbolsFromCards([...fighter.deck, ...fighter.hand, ...fighter.discard]));
+}
+
 export function getSpellsForSymbols(symbols: GrimoireSymbols): SpellId[] {
   const available: SpellId[] = [];
   for (const id of SPELL_PRIORITY) {
@@ -124,6 +200,25 @@ export function getSpellsForSymbols(symbols: GrimoireSymbols): SpellId[] {
   return available;
 }
 
+/** The spells and symbols a player brings to a match; peers swap theirs when it starts. */
+export type MatchGrimoire = {
+  spellIds: SpellId[];
+  symbols: GrimoireSymbols;
+};
+
+/**
+ * Validates a grimoire received from a peer. Symbols are clamped, and only spells those
+ * symbols unlock are kept; anything unusable leaves an empty grimoire.
+ */
+export function normalizeMatchGrimoire(value: unknown): MatchGrimoire {
+  const raw = typeof value === "object" && value !== null ? (value as Record<string, unknown>) : {};
+  const symbols = clampSymbols(
+    typeof raw.symbols === "object" && raw.symbols !== null ? (raw.symbols as Partial<Record<Arcana, number>>) : null,
+  );
+  const claimed = new Set(Array.isArray(raw.spellIds) ? raw.spellIds : []);
+  return { spellIds: getSpellsForSymbols(symbols).filter((id) => claimed.has(id)), symbols };
+}
+
 export function handMeetsVisibilityRequirement(
   handSymbols: GrimoireSymbols,
   requirement: GrimoireRequirement | undefined,
@@ -1,8 +1,9 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
-import type { Card, CorePhase, Fighter, Phase } from "../types";
+import type { Card, CorePhase, Fighter, Phase, Section } from "../types";
 import {
   computeSpellCost,
+  createSpellRng,
   resolvePendingSpell,
   type PendingSpellDescriptor,
   type SpellDefinition,
@@ -13,34 +14,65 @@ import {
 import { getSpellTargetStage, spellTargetStageRequiresManualSelection } from "../spells";
 import type { SpellTargetLocation } from "../spells";
 import { getCardArcana } from "../arcana";
+import { getVictoryCondition } from "../victoryConditions";
+import type { SpellPreview } from "../spellPreview";
+import { getSpellCastBlock, type SpellCastHistory } from "../spellLimits";
 import type { LegacySide } from "../../features/threeWheel/utils/spellEffectTransforms";
 
-type SideState<T> = Record<LegacySide, T>;
-
 export type UseSpellCastingOptions = {
+  /** Fighters as spells see them: `hand` holds only the cards in reserve. */
   caster: Fighter;
   opponent: Fighter;
   phase: CorePhase;
   localSide: LegacySide;
+  /** Mana the local side has banked; a spell is only paid for once it is declared. */
   localMana: number;
-  applySpellEffects: (payload: SpellEffectPayload) => void;
-  setManaPools: React.Dispatch<React.SetStateAction<SideState<number>>>;
+  /** Takes a cast spell's effects; `descriptor` says who cast what. */
+  applySpellEffects: (payload: SpellEffectPayload, descriptor: PendingSpellDescriptor) => void;
+  /** A cast spell is waiting to resolve, so only reactions may be cast. */
+  spellStackOpen: boolean;
+  /** The local side may answer the spell on top of the stack. */
+  canReact: boolean;
+  /**
+   * Works out what a payload would change. When given, a local spell stops once its
+   * targets are picked and waits for `confirmSpellPreview` before it is cast.
+   */
+  previewSpell?: (payload: SpellEffectPayload) => SpellPreview;
+  /** Spells cast this match; spells on cooldown or spent ultimates can't be cast. */
+  castHistory?: SpellCastHistory;
+  round?: number;
+  /** The match seed; spells roll from it so every client rolls alike. */
+  seed?: number;
   runtimeStateRef: React.MutableRefObject<SpellRuntimeState>;
   closeGrimoire: () => void;
   isWheelActive: (wheelIndex: number) => boolean;
 };
 
+/** A resolved spell held back so its caster can see what it would do. */
+export type HeldSpellPreview = {
+  descriptor: PendingSpellDescriptor;
+  payload: SpellEffectPayload;
+  preview: SpellPreview;
+};
+
 export type UseSpellCastingResult = {
   pendingSpell: PendingSpellDescriptor | null;
+  spellPreview: HeldSpellPreview | null;
   phaseBeforeSpell: CorePhase | null;
   awaitingSpellTarget: boolean;
   handleSpellActivate: (spell: SpellDefinition) => void;
-  handlePendingSpellCancel: (refundMana: boolean) => void;
+  handlePendingSpellCancel: () => void;
   handleSpellTargetSelect: (
     selection: { side: LegacySide; lane: number | null; card: Card; location: SpellTargetLocation },
   ) => void;
   handleWheelTargetSelect: (wheelIndex: number) => void;
+  handleSectionTargetSelect: (wheelIndex: number, sectionIndex: number, section: Section) => void;
   handleOptionalStageSkip: () => void;
+  confirmSpellPreview: () => void;
+  /** Drops the held spell. */
+  cancelSpellPreview: () => void;
+  /** Mana set aside for the local spell being targeted or previewed, not yet declared. */
+  heldMana: number;
 };
 
 const enqueueMicrotask = (task: () => void) => {
@@ -66,10 +98,15 @@ export function useSpellCasting(options: UseSpellCastingOptions): UseSpellCastin
     localSide,
     localMana,
     applySpellEffects,
-    setManaPools,
     runtimeStateRef,
     closeGrimoire,
     isWheelActive,
+    spellStackOpen,
+    canReact,
+    previewSpell,
+    castHistory,
+    round = 0,
+    seed,
   } = options;
 
   const [pendingSpell, setPendingSpell] = useState<PendingSpellDescriptor | null>(null);
@@ -91,6 +128,7 @@ export function useSpellCasting(options: UseSpellCastingOptions): UseSpellCastin
     setPendingSpell(null);
   }, []);
   const [phaseBeforeSpell, setPhaseBeforeSpell] = useState<CorePhase | null>(null);
+  const [spellPreview, setSpellPreview] = useState<HeldSpellPreview | null>(null);
 
   const phaseForLogic = phaseBeforeSpell ?? phase;
   const normalizedPhaseForLogic: CorePhase =
@@ -116,6 +154,7 @@ export function useSpellCasting(options: UseSpellCastingOptions): UseSpellCastin
         opponent,
         phase: normalizedPhaseForLogic,
         runtimeState: runtimeStateRef.current,
+        rng: seed === undefined ? undefined : createSpellRng(seed, descriptor.side, descriptor.spell.id, castHistory),
       });
 
       if (result.outcome === "requiresTarget") {
@@ -126,29 +165,18 @@ export function useSpellCasting(options: UseSpellCastingOptions): UseSpellCastin
 
       if (result.outcome === "error") {
         console.error("Spell resolution failed", result.error);
-        if (result.manaRefund && result.manaRefund > 0) {
-          setManaPools((mana) => {
-            const next: SideState<number> = { ...mana };
-            next[descriptor.side] = mana[descriptor.side] + result.manaRefund!;
-            return next;
-          });
-        }
         clearPendingSpell();
         closeGrimoire();
         setPhaseBeforeSpell(null);
         return;
       }
 
-      if (result.manaRefund && result.manaRefund > 0) {
-        setManaPools((mana) => {
-          const next: SideState<number> = { ...mana };
-          next[descriptor.side] = mana[descriptor.side] + result.manaRefund!;
-          return next;
-        });
-      }
-
       if (result.payload) {
-        applySpellEffects(result.payload);
+        if (previewSpell && descriptor.side === localSide && !descriptor.spell.reaction) {
+          setSpellPreview({ descriptor, payload: result.payload, preview: previewSpell(result.payload) });
+        } else {
+          applySpellEffects(result.payload, descriptor);
+        }
       }
 
       clearPendingSpell();
@@ -159,63 +187,63 @@ export function useSpellCasting(options: UseSpellCastingOptions): UseSpellCastin
       applySpellEffects,
       beginPendingSpell,
       caster,
+      castHistory,
       clearPendingSpell,
       closeGrimoire,
+      localSide,
       normalizedPhaseForLogic,
       opponent,
+      previewSpell,
       runtimeStateRef,
-      setManaPools,
+      seed,
     ],
   );
 
-  const handlePendingSpellCancel = useCallback(
-    (refundMana: boolean) => {
-      pendingSpellScheduleIdRef.current++;
-      setPendingSpell((current) => {
-        if (!current) return current;
-
-        if (refundMana && current.spentMana > 0) {
-          setManaPools((mana) => {
-            const next: SideState<number> = { ...mana };
-            next[current.side] = mana[current.side] + current.spentMana;
-            return next;
-          });
-        }
+  const confirmSpellPreview = useCallback(() => {
+    if (!spellPreview) return;
+    setSpellPreview(null);
+    applySpellEffects(spellPreview.payload, spellPreview.descriptor);
+  }, [applySpellEffects, spellPreview]);
 
-        return null;
-      });
-      closeGrimoire();
-      setPhaseBeforeSpell(null);
-    },
-    [closeGrimoire, setManaPools],
-  );
+  const cancelSpellPreview = useCallback(() => {
+    if (!spellPreview) return;
+    setSpellPreview(null);
+  }, [spellPreview]);
+
+  // A held spell can't be cast once its phase has passed or another spell is waiting to resolve.
+  useEffect(() => {
+    if (!spellPreview) return;
+    const allowedPhases = spellPreview.descriptor.spell.allowedPhases ?? ["choose"];
+    if (spellStackOpen || !allowedPhases.includes(normalizedPhaseForLogic)) cancelSpellPreview();
+  }, [cancelSpellPreview, normalizedPhaseForLogic, spellPreview, spellStackOpen]);
+
+  const handlePendingSpellCancel = useCallback(() => {
+    clearPendingSpell();
+    closeGrimoire();
+    setPhaseBeforeSpell(null);
+  }, [clearPendingSpell, closeGrimoire]);
 
   const handleSpellActivate = useCallback(
     (spell: SpellDefinition) => {
       if (pendingSpell && pendingSpell.side !== localSide) return;
 
-      const refundablePending =
-        pendingSpell && pendingSpell.side === localSide ? pendingSpell : null;
-
-      const allowedPhases = spell.allowedPhases ?? ["choose"];
-      if (!allowedPhases.includes(normalizedPhaseForLogic)) return;
+      if (spell.reaction) {
+        if (!canReact) return;
+      } else {
+        const allowedPhases = spell.allowedPhases ?? ["choose"];
+        if (spellStackOpen || !allowedPhases.includes(normalizedPhaseForLogic)) return;
+      }
+      if (castHistory && getSpellCastBlock(spell, castHistory, localSide, round)) return;
 
       const effectiveCost = getSpellCost(spell);
-      const availableMana = refundablePending ? localMana + refundablePending.spentMana : localMana;
-      if (availableMana < effectiveCost) return;
+      if (localMana < effectiveCost) return;
 
-      if (refundablePending) {
-        handlePendingSpellCancel(true);
+      if (pendingSpell) {
+        handlePendingSpellCancel();
+      }
+      if (spellPreview) {
+        cancelSpellPreview();
       }
-
-      setManaPools((current) => {
-        const currentMana = current[localSide];
-        if (currentMana < effectiveCost) return current;
-
-        const next: SideState<number> = { ...current };
-        next[localSide] = currentMana - effectiveCost;
-        return next;
-      });
 
       setPhaseBeforeSpell((current) => current ?? phaseForLogic);
 
@@ -230,6 +258,9 @@ export function useSpellCasting(options: UseSpellCastingOptions): UseSpellCastin
       handleResolvePendingSpell(descriptor);
     },
     [
+      canReact,
+      cancelSpellPreview,
+      castHistory,
       closeGrimoire,
       getSpellCost,
       handleResolvePendingSpell,
@@ -239,7 +270,9 @@ export function useSpellCasting(options: UseSpellCastingOptions): UseSpellCastin
       normalizedPhaseForLogic,
       pendingSpell,
       phaseForLogic,
-      setManaPools,
+      round,
+      spellPreview,
+      spellStackOpen,
     ],
   );
 
@@ -270,6 +303,11 @@ export function useSpellCasting(options: UseSpellCastingOptions): UseSpellCastin
         if (stageLocation === "hand" && selection.location !== "hand") return;
       }
 
+      if (selection.location === "hand") {
+        const reserve = candidateOwnership === "ally" ? caster.hand : opponent.hand;
+        if (!reserve.some((card) => card.id === selection.card.id)) return;
+      }
+
       const cardArcana = getCardArcana(selection.card);
 
       if (
@@ -315,7 +353,7 @@ export function useSpellCasting(options: UseSpellCastingOptions): UseSpellCastin
 
       handleResolvePendingSpell(pendingSpell, nextTarget);
     },
-    [handleResolvePendingSpell, localSide, pendingSpell],
+    [caster.hand, handleResolvePendingSpell, localSide, opponent.hand, pendingSpell],
   );
 
   const handleWheelTargetSelect = useCallback(
@@ -342,6 +380,33 @@ export function useSpellCasting(options: UseSpellCastingOptions): UseSpellCastin
     [handleResolvePendingSpell, isWheelActive, localSide, pendingSpell],
   );
 
+  const handleSectionTargetSelect = useCallback(
+    (wheelIndex: number, sectionIndex: number, section: Section) => {
+      if (!pendingSpell) return;
+      if (pendingSpell.side !== localSide) return;
+
+      const stage = getSpellTargetStage(pendingSpell.spell.target, pendingSpell.currentStage);
+      if (!stage || stage.type !== "section") return;
+
+      if (stage.scope === "current" && !isWheelActive(wheelIndex)) {
+        return;
+      }
+      if (stage.conditions && !stage.conditions.includes(section.id)) return;
+
+      const sectionTarget: SpellTargetInstance = {
+        type: "section",
+        wheelId: String(wheelIndex),
+        sectionIndex,
+        condition: section.id,
+        label: `Wheel ${wheelIndex + 1}'s ${getVictoryCondition(section.id)?.label ?? section.id} section`,
+        stageIndex: pendingSpell.currentStage,
+      };
+
+      handleResolvePendingSpell(pendingSpell, sectionTarget);
+    },
+    [handleResolvePendingSpell, isWheelActive, localSide, pendingSpell],
+  );
+
   const handleOptionalStageSkip = useCallback(() => {
     if (!pendingSpell) return;
     if (pendingSpell.side !== localSide) return;
@@ -361,14 +426,22 @@ export function useSpellCasting(options: UseSpellCastingOptions): UseSpellCastin
     }
   }, [pendingSpell]);
 
+  const heldMana =
+    (pendingSpell?.side === localSide ? pendingSpell.spentMana : 0) + (spellPreview?.descriptor.spentMana ?? 0);
+
   return {
     pendingSpell,
+    spellPreview,
     phaseBeforeSpell,
     awaitingSpellTarget,
     handleSpellActivate,
     handlePendingSpellCancel,
     handleSpellTargetSelect,
     handleWheelTargetSelect,
+    handleSectionTargetSelect,
     handleOptionalStageSkip,
+    confirmSpellPreview,
+    cancelSpellPreview,
+    heldMana,
   };
 }
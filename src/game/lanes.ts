@@ -0,0 +1,27 @@
+// src/game/lanes.ts
+// Lane (wheel) count helpers. A match is played on 1–5 lanes; every per-lane
+// array in the game is sized from the match's lane count.
+
+export const MIN_LANES = 1 as const;
+export const MAX_LANES = 5 as const;
+export const DEFAULT_LANE_COUNT = 3 as const;
+
+/** Cards left in hand after filling every lane under the classic rules; they form the reserve. */
+export const RESERVE_CARD_COUNT = 2 as const;
+
+export function clampLaneCount(value: unknown): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) return DEFAULT_LANE_COUNT;
+  return Math.max(MIN_LANES, Math.min(MAX_LANES, Math.round(value)));
+}
+
+/** One card per lane plus the reserve. */
+export const handSizeForLanes = (laneCount: number, reserveSize: number = RESERVE_CARD_COUNT) =>
+  clampLaneCount(laneCount) + reserveSize;
+
+export const laneIndexes = (laneCount: number): number[] =>
+  Array.from({ length: clampLaneCount(laneCount) }, (_, i) => i);
+
+export const fillLanes = <T>(laneCount: number, value: T): T[] =>
+  Array.from({ length: clampLaneCount(laneCount) }, () => value);
+
+export const LANE_COUNT_OPTIONS: readonly number[] = laneIndexes(MAX_LANES).map((i) => i + MIN_LANES);
@@ -0,0 +1,1383 @@
+// src/game/matchEngine.ts
+// Framework-free match rules: state + action -> next state + events.
+// The React hook, the CPU and Node tests all share these rules.
+import {
+  SLICES,
+  type Card,
+  type CorePhase,
+  type Fighter,
+  type LegacySide,
+  type Section,
+  type SplitChoiceMap,
+  type SplitFace,
+} from "./types.js";
+import { inSection, seededRandomStep } from "./math.js";
+import {
+  findSlice0Section,
+  genWheelSections,
+  rotationTemplateAt,
+  sliceCountAt,
+  type WheelTemplate,
+} from "./wheel.js";
+import { effectiveValue, isNormal, isSplit } from "./values.js";
+import { echoReserveBonus, laneFlipsComparison, laneStepShift } from "./cardTags.js";
+import { getVictoryCondition } from "./victoryConditions.js";
+import { DEFAULT_SLICE0_RULE, SLICE0_RULES, type Slice0Rule } from "./slice0Rules.js";
+import { DEFAULT_TIE_BREAK, TIE_BREAKS, breakTie, type TieBreakRule } from "./tieBreakers.js";
+import { CLASSIC_RULES, type AnteRules, type RulesConfig } from "./rules.js";
+import { chillStacksByLane, fireStatusTrigger, type StatusEffect, type StatusTrigger } from "./statusEffects.js";
+import {
+  DEFAULT_LANE_COUNT,
+  RESERVE_CARD_COUNT,
+  clampLaneCount,
+  fillLanes,
+  handSizeForLanes,
+  laneIndexes,
+} from "./lanes.js";
+import { drawOne, refillTo } from "./decks.js";
+import { getSkillCardValue, type AbilityKind } from "./skills.js";
+import { normalizeGameMode, type GameMode } from "../gameModes.js";
+import {
+  applySpellEffects as runSpellEffects,
+  resolveSpellStackEntries,
+  type AssignmentState,
+  type ReserveState,
+  type SpellEffectPayload,
+  type SpellStackEntry,
+} from "./spellEngine.js";
+import { claimedCard, validateSpellDeclaration, type SpellValidationContext } from "./spellValidation.js";
+import { awardMana, createSpellCastHistory, recordSpellCast, type SpellCastHistory } from "./spellLimits.js";
+import {
+  advanceSpellCombo,
+  comboBonusPayload,
+  createSpellComboState,
+  type SpellComboState,
+} from "./spellCombos.js";
+import { countSymbolsFromCards, type MatchGrimoire } from "./grimoire.js";
+import {
+  summarizeRoundOutcome,
+  type AnteSnapshot,
+  type RoundAnalysis,
+  type RoundOutcomeSummary,
+  type WheelOutcome,
+} from "../features/threeWheel/hooks/roundOutcomeSummary.js";
+import {
+  createSkillState,
+  getSkillCardStatusKey,
+  reconcileSkillStateWithAssignments,
+  type SkillState,
+} from "../features/threeWheel/hooks/skillState.js";
+import { determinePostResolvePhase } from "../features/threeWheel/utils/skillPhase.js";
+import {
+  applySkillAbilityEffect,
+  type SkillAbilityTarget,
+} from "../features/threeWheel/utils/skillAbilityExecution.js";
+
+type SideState<T> = Record<LegacySide, T>;
+
+export type LaneTokens = number[];
+
+export type MatchConfig = {
+  seed: number;
+  names: SideState<string>;
+  hudColors: SideState<string>;
+  winGoal: number;
+  gameMode: GameMode;
+  easyMode: boolean;
+  /** Wheels in play (1–5). Defaults to 3. */
+  laneCount?: number;
+  /** Template for each lane's wheel; missing lanes follow the default rotation. */
+  wheelTemplates?: WheelTemplate[];
+  /** What slice 0 does on wheels without a slice-0 section. Defaults to no win. */
+  slice0Rule?: Slice0Rule;
+  /** How a wheel whose condition comes out even is decided. Defaults to no winner. */
+  tieBreak?: TieBreakRule;
+  /** Hand, reserve, ante and skill numbers; defaults to the Classic preset. */
+  rules?: RulesConfig;
+  /** Spells and symbols each side brought; a side without one may cast any spell. */
+  grimoires?: Partial<SideState<MatchGrimoire>>;
+  localLegacySide: LegacySide;
+  /** The side played on another client; its hand here is only a stand-in. */
+  peerSide?: LegacySide;
+  startingInitiative: LegacySide;
+};
+
+export type MatchState = {
+  config: MatchConfig;
+  rngState: number;
+  phase: CorePhase;
+  round: number;
+  player: Fighter;
+  enemy: Fighter;
+  initiative: LegacySide;
+  wins: SideState<number>;
+  pendingWins: SideState<number> | null;
+  pendingInitiative: LegacySide | null;
+  /** Wins waiting on each lane from carried-over ties and slice-0 landings. */
+  carryOver: number[];
+  pendingCarryOver: number[] | null;
+  ante: AnteSnapshot;
+  wheelSections: Section[][];
+  /** Slice count of each wheel, from its template. */
+  wheelSlices: number[];
+  tokens: LaneTokens;
+  roundStartTokens: LaneTokens;
+  /** Wheels whose token stays put this round. */
+  wheelLocks: boolean[];
+  /** Per-wheel offset between the token and the slice the pointer reads. */
+  pointerShifts: number[];
+  assign: AssignmentState<Card>;
+  splitChoices: SplitChoiceMap;
+  /** Lasting spell effects; unlike the per-lane fields they carry across rounds. */
+  statusEffects: StatusEffect[];
+  reservePenalties: SideState<number>;
+  /** Card ids each side designated as its reserve this round. */
+  reserveChoices: SideState<string[]>;
+  reserveSums: ReserveState | null;
+  /**
+   * Reserve sums a peer reported for their side this round, before spell penalties. Their
+   * hand here is a stand-in, so a reported reserve counts instead of one read from it.
+   */
+  reserveReports: SideState<number | null>;
+  wheelHUD: (string | null)[];
+  analysis: RoundAnalysis | null;
+  skill: SkillState;
+  /** Mana each side has banked; every reveal adds a share of its reserve. */
+  mana: SideState<number>;
+  spellCasts: SpellCastHistory;
+  /** Declared spells, oldest first, waiting for the side that didn't cast the top one to pass. */
+  spellStack: SpellStackEntry[];
+  /** `spellCasts` as it stood before each stacked spell was declared, so a withdrawn one can be taken back. */
+  stackedCasts: SpellCastHistory[];
+  spellCombo: SpellComboState;
+};
+
+export type MatchAction =
+  | { type: "assign"; side: LegacySide; lane: number; cardId: string; face?: SplitFace }
+  | { type: "chooseFace"; side: LegacySide; cardId: string; face: SplitFace }
+  | { type: "clear"; side: LegacySide; lane: number }
+  /** The cards a peer put in their lanes, as they shared them when both sides were ready. */
+  | { type: "receiveAssignments"; side: LegacySide; cards: (Card | null)[]; splitChoices?: SplitChoiceMap }
+  | { type: "chooseReserve"; side: LegacySide; cardIds: string[] }
+  | { type: "reportReserve"; side: LegacySide; reserve: number; round: number }
+  | { type: "setAnte"; side: LegacySide; bet: number }
+  | { type: "reveal" }
+  | { type: "useSkill"; side: LegacySide; laneIndex: number; target?: SkillAbilityTarget }
+  | { type: "finishSkills" }
+  /**
+   * `hiddenLanes` marks lanes holding a card this side can't see yet, when a peer casts
+   * before their assignments arrive.
+   */
+  | { type: "declareSpell"; entry: SpellStackEntry; hiddenLanes?: AssignmentState<boolean> }
+  | { type: "passReaction"; side: LegacySide }
+  | { type: "withdrawSpell"; entryId: string }
+  | { type: "nextRound" }
+  | { type: "rematch"; fighters: SideState<Fighter> };
+
+export type MatchEvent =
+  | { type: "log"; message: string; kind: "general" | "spell" | "skill" }
+  | { type: "phaseChanged"; phase: CorePhase }
+  | { type: "roundResolved"; round: number; analysis: RoundAnalysis; summary: RoundOutcomeSummary }
+  | { type: "roundStarted"; round: number }
+  | { type: "skillUsed"; side: LegacySide; laneIndex: number; ability: AbilityKind; exhausted: boolean }
+  /** `entry` carries the effects re-derived from its targets, not the ones it arrived with. */
+  | { type: "spellDeclared"; entry: SpellStackEntry }
+  | { type: "spellEffectsApplied"; payload: SpellEffectPayload }
+  | { type: "matchEnded"; winner: LegacySide }
+  | { type: "rejected"; action: MatchAction["type"]; reason: string };
+
+export type MatchStepResult = {
+  state: MatchState;
+  events: MatchEvent[];
+};
+
+export const getLaneCount = (config: Pick<MatchConfig, "laneCount">) => clampLaneCount(config.laneCount);
+
+export const otherSide = (side: LegacySide): LegacySide => (side === "player" ? "enemy" : "player");
+
+export const modSlice = (value: number, slices: number = SLICES) => ((value % slices) + slices) % slices;
+
+/** Value used for wheel steps and VC comparisons; split cards use their chosen face. */
+export function cardWheelValue(card: Card | null, splitChoices: SplitChoiceMap = {}): number {
+  if (!card) return 0;
+  if (isSplit(card)) return effectiveValue(card, splitChoices);
+  if (typeof card.number === "number" && Number.isFinite(card.number)) return card.number;
+  if (typeof card.leftValue === "number" && Number.isFinite(card.leftValue)) return card.leftValue;
+  if (typeof card.rightValue === "number" && Number.isFinite(card.rightValue)) return card.rightValue;
+  return 0;
+}
+
+/**
+ * The unplayed cards that make up the reserve: the ones the side designated first,
+ * then the remaining hand in order until the reserve is full.
+ */
+export function pickReserveCards(
+  hand: Card[],
+  used: (Card | null)[],
+  chosen: readonly string[] = [],
+  reserveSize: number = RESERVE_CARD_COUNT,
+): Card[] {
+  const usedIds = new Set((used.filter(Boolean) as Card[]).map((c) => c.id));
+  const left = hand.filter((c) => !usedIds.has(c.id));
+  const designated = chosen
+    .map((id) => left.find((c) => c.id === id))
+    .filter((c): c is Card => !!c)
+    .slice(0, reserveSize);
+  const rest = left.filter((c) => !designated.includes(c));
+  return [...designated, ...rest].slice(0, reserveSize);
+}
+
+/**
+ * Reserve = the normal cards picked by `pickReserveCards`, plus any echoreserve
+ * cards in play, minus any spell penalty.
+ */
+export function computeReserveSum(
+  hand: Card[],
+  used: (Card | null)[],
+  penalty = 0,
+  splitChoices: SplitChoiceMap = {},
+  chosen: readonly string[] = [],
+  reserveSize: number = RESERVE_CARD_COUNT,
+): number {
+  const base = pickReserveCards(hand, used, chosen, reserveSize).reduce((a, c) => a + (isNormal(c) ? c.number : 0), 0);
+  return Math.max(0, base + echoReserveBonus(used, splitChoices) - (penalty ?? 0));
+}
+
+export function resolveWheelOutcome({
+  wheel,
+  sections,
+  startToken,
+  playerValue,
+  enemyValue,
+  playerCard = null,
+  enemyCard = null,
+  lanes,
+  reserves,
+  initiative,
+  slices = SLICES,
+  locked = false,
+  pointerShift = 0,
+  slice0Rule = DEFAULT_SLICE0_RULE,
+  tieBreak = DEFAULT_TIE_BREAK,
+}: {
+  wheel: number;
+  sections: Section[];
+  startToken: number;
+  playerValue: number;
+  enemyValue: number;
+  /** Cards on the lane, used for their tag effects. */
+  playerCard?: Card | null;
+  enemyCard?: Card | null;
+  /** All cards in play this round; defaults to just this lane. */
+  lanes?: Record<LegacySide, (Card | null)[]>;
+  reserves: ReserveState;
+  initiative: LegacySide;
+  /** Slices on this wheel; defaults to the classic 16. */
+  slices?: number;
+  /** A locked wheel keeps its token where the round started. */
+  locked?: boolean;
+  /** Slices the pointer reads ahead of (or, when negative, behind) the token. */
+  pointerShift?: number;
+  /** What an empty slice 0 does; defaults to no win. */
+  slice0Rule?: Slice0Rule;
+  /** How an even victory condition is decided; defaults to no winner. */
+  tieBreak?: TieBreakRule;
+}): WheelOutcome {
+  const shift = laneStepShift(playerCard, enemyCard, playerValue, enemyValue);
+  const steps = locked
+    ? 0
+    : modSlice(modSlice(playerValue, slices) + modSlice(enemyValue, slices) + shift, slices);
+  const targetSlice = modSlice(startToken + steps + pointerShift, slices);
+  const slice0 = targetSlice === 0 ? findSlice0Section(sections) : undefined;
+  const section =
+    slice0 ||
+    sections.find((s) => targetSlice !== 0 && inSection(targetSlice, s)) ||
+    ({ id: "Strongest", color: "transparent", start: 0, end: 0 } as Section);
+
+  let winner: LegacySide | null = null;
+  let tie = false;
+  let detail = "";
+  let wins: number | undefined;
+  let brokenBy: TieBreakRule | undefined;
+  if (targetSlice === 0 && !slice0 && slice0Rule === "jackpot") {
+    const duel = getVictoryCondition("Strongest")?.resolve({
+      playerValue,
+      enemyValue,
+      reserves,
+      initiative,
+      section,
+      targetSlice,
+      lanes: lanes ?? { player: [playerCard], enemy: [enemyCard] },
+    });
+    winner = duel?.winner ?? null;
+    tie = winner === null;
+    detail = `Slice 0 jackpot: ${duel?.detail ?? "no duel"}`;
+    if (winner) wins = 2;
+  } else if (targetSlice === 0 && !slice0) {
+    tie = true;
+    detail = slice0Rule === "noWin" ? "Slice 0: no win" : `Slice 0: ${SLICE0_RULES[slice0Rule].label.toLowerCase()}`;
+  } else {
+    const flipped = laneFlipsComparison(playerCard, enemyCard);
+    const base = getVictoryCondition(section.id);
+    const rule = (flipped && base?.flipsTo ? getVictoryCondition(base.flipsTo) : base) ?? null;
+    if (!rule) {
+      tie = true;
+      detail = `Slice 0: no section`;
+    } else {
+      const result = rule.resolve({
+        playerValue,
+        enemyValue,
+        reserves,
+        initiative,
+        section,
+        targetSlice,
+        lanes: lanes ?? { player: [playerCard], enemy: [enemyCard] },
+      });
+      winner = result.winner;
+      tie = winner === null;
+      detail = rule !== base ? `${result.detail} (flipped)` : result.detail;
+      if (tie && tieBreak !== "none") {
+        brokenBy = tieBreak;
+        winner = breakTie(tieBreak, { playerCard, enemyCard, reserves, initiative });
+        tie = winner === null;
+        if (winner) detail = `${detail}, tie to ${TIE_BREAKS[tieBreak].label.toLowerCase()}`;
+      }
+    }
+  }
+
+  const outcome: WheelOutcome = { steps, targetSlice, section, winner, tie, wheel, detail, slices };
+  if (locked) outcome.locked = true;
+  if (pointerShift !== 0) outcome.pointerShift = pointerShift;
+  if (targetSlice === 0 && !slice0 && slice0Rule !== "noWin") outcome.slice0 = slice0Rule;
+  if (wins !== undefined) outcome.wins = wins;
+  if (brokenBy && (winner || brokenBy === "carryOver")) outcome.tieBreak = brokenBy;
+  return outcome;
+}
+
+export function analyzeRound({
+  played,
+  wheelSections,
+  tokens,
+  reserves,
+  initiative,
+  localLegacySide,
+  usedRemoteReport = false,
+  splitChoices = {},
+  wheelSlices,
+  wheelLocks,
+  pointerShifts,
+  slice0Rule,
+  tieBreak,
+}: {
+  played: { p: Card | null; e: Card | null }[];
+  wheelSections: Section[][];
+  tokens: readonly number[];
+  reserves: ReserveState;
+  initiative: LegacySide;
+  localLegacySide: LegacySide;
+  usedRemoteReport?: boolean;
+  splitChoices?: SplitChoiceMap;
+  wheelSlices?: readonly number[];
+  wheelLocks?: readonly boolean[];
+  pointerShifts?: readonly number[];
+  slice0Rule?: Slice0Rule;
+  tieBreak?: TieBreakRule;
+}): RoundAnalysis {
+  const lanes = { player: played.map((lane) => lane.p), enemy: played.map((lane) => lane.e) };
+  const outcomes = played.map((_, w) =>
+    resolveWheelOutcome({
+      wheel: w,
+      sections: wheelSections[w] ?? [],
+      startToken: tokens[w] ?? 0,
+      playerValue: cardWheelValue(played[w]?.p ?? null, splitChoices),
+      enemyValue: cardWheelValue(played[w]?.e ?? null, splitChoices),
+      playerCard: played[w]?.p ?? null,
+      enemyCard: played[w]?.e ?? null,
+      lanes,
+      reserves,
+      initiative,
+      slices: sliceCountAt(wheelSlices, w),
+      locked: wheelLocks?.[w] === true,
+      pointerShift: pointerShifts?.[w] ?? 0,
+      slice0Rule,
+      tieBreak,
+    }),
+  );
+
+  const remoteLegacySide = otherSide(localLegacySide);
+  return {
+    outcomes,
+    localReserve: reserves[localLegacySide],
+    remoteReserve: reserves[remoteLegacySide],
+    pReserve: reserves.player,
+    eReserve: reserves.enemy,
+    usedRemoteReport,
+  };
+}
+
+export function advanceTokens(startingTokens: readonly number[], analysis: RoundAnalysis): LaneTokens {
+  const finalTokens: LaneTokens = [...startingTokens];
+  analysis.outcomes.forEach((outcome) => {
+    if (outcome.steps > 0) {
+      finalTokens[outcome.wheel] = (finalTokens[outcome.wheel] + outcome.steps) % (outcome.slices ?? SLICES);
+    }
+  });
+  return finalTokens;
+}
+
+export function calculateAnteOdds({
+  wins,
+  winGoal,
+  initiative,
+  rules = CLASSIC_RULES.ante,
+}: {
+  wins: { player: number; enemy: number };
+  winGoal: number;
+  initiative: LegacySide;
+  rules?: AnteRules;
+}): Record<LegacySide, number> {
+  const result: Record<LegacySide, number> = { player: rules.baseOdds, enemy: rules.baseOdds };
+  (Object.keys(result) as LegacySide[]).forEach((side) => {
+    const other = otherSide(side);
+    const winsLeftSelf = Math.max(0, winGoal - wins[side]);
+    const winsLeftOpp = Math.max(0, winGoal - wins[other]);
+    const totalLeft = winsLeftSelf + winsLeftOpp;
+    let probability = totalLeft === 0 ? 0.5 : winsLeftOpp / totalLeft;
+
+    if (initiative === side) probability += rules.initiativeEdge;
+    else probability -= rules.initiativeEdge;
+
+    probability = Math.max(rules.minChance, Math.min(rules.maxChance, probability));
+    const payout = Math.max(rules.minPayout, Math.round((1 / probability) * 100) / 100);
+    result[side] = payout;
+  });
+  return result;
+}
+
+/** Bets are whole numbers between 0 and the bettor's current wins. */
+export function clampAnteBet(value: number, currentWins: number): number {
+  if (!Number.isFinite(value)) return 0;
+  const floored = Math.floor(value);
+  const max = Math.max(0, currentWins);
+  if (floored <= 0) return 0;
+  return Math.min(floored, max);
+}
+
+/** Pads a short hand with value-0 cards; ids come from `rng` so seeded matches replay exactly. */
+export function ensureFiveHand<T extends Fighter>(
+  f: T,
+  TARGET = handSizeForLanes(DEFAULT_LANE_COUNT),
+  rng: () => number = Math.random,
+): T {
+  if (f.hand.length >= TARGET) return f;
+
+  const padded = [...f.hand];
+  while (padded.length < TARGET) {
+    padded.push({
+      id: `pad-${Math.floor(rng() * 0x100000000).toString(36)}-${padded.length}`,
+      name: "Reserve",
+      number: 0,
+      baseNumber: 0,
+      kind: "normal",
+    } as unknown as Card);
+  }
+  return { ...f, hand: padded } as T;
+}
+
+export function settleFighterAfterRound(
+  f: Fighter,
+  played: Card[],
+  rng: () => number = Math.random,
+  handSize = handSizeForLanes(DEFAULT_LANE_COUNT),
+): Fighter {
+  const playedIds = new Set(played.map((c) => c.id));
+  const leftovers = f.hand.filter((c) => !playedIds.has(c.id));
+  const next: Fighter = {
+    name: f.name,
+    deck: [...f.deck],
+    hand: [],
+    discard: [...f.discard, ...played, ...leftovers],
+    exhaust: [...f.exhaust],
+  };
+
+  const refilled = refillTo(next, handSize, rng);
+
+  return ensureFiveHand(refilled, handSize, rng);
+}
+
+const resetCardNumberToBase = (card: Card): Card => {
+  const base = card.baseNumber;
+  if (typeof base === "number" && card.number !== base) {
+    return { ...card, number: base };
+  }
+  return card;
+};
+
+export const resetCardsToBase = (cards: Card[]): Card[] => {
+  let changed = false;
+  const next = cards.map((card) => {
+    const reset = resetCardNumberToBase(card);
+    if (reset !== card) changed = true;
+    return reset;
+  });
+  return changed ? next : cards;
+};
+
+export const resetFighterCardsToBase = (fighter: Fighter): Fighter => {
+  const nextDeck = resetCardsToBase(fighter.deck);
+  const nextHand = resetCardsToBase(fighter.hand);
+  const nextDiscard = resetCardsToBase(fighter.discard);
+  const nextExhaust = resetCardsToBase(fighter.exhaust);
+
+  if (
+    nextDeck === fighter.deck &&
+    nextHand === fighter.hand &&
+    nextDiscard === fighter.discard &&
+    nextExhaust === fighter.exhaust
+  ) {
+    return fighter;
+  }
+
+  return {
+    ...fighter,
+    deck: nextDeck,
+    hand: nextHand,
+    discard: nextDiscard,
+    exhaust: nextExhaust,
+  };
+};
+
+const templateAt = (templates: readonly WheelTemplate[] | undefined, lane: number) =>
+  templates?.[lane] ?? rotationTemplateAt(lane);
+
+/** One wheel per lane, dealt from `templates`; lanes without one follow the bandit → sorcerer → beast rotation. */
+export function generateWheelSet(
+  rng: () => number,
+  easyMode: boolean,
+  laneCount: number = DEFAULT_LANE_COUNT,
+  templates?: readonly WheelTemplate[],
+): Section[][] {
+  return laneIndexes(laneCount).map((i) => genWheelSections(templateAt(templates, i), rng, { easyMode }));
+}
+
+/** Slice count of each lane's wheel, matching the templates `generateWheelSet` deals. */
+export function getWheelSliceCounts(
+  laneCount: number = DEFAULT_LANE_COUNT,
+  templates?: readonly WheelTemplate[],
+): number[] {
+  return laneIndexes(laneCount).map((i) => templateAt(templates, i).slices);
+}
+
+/** Runs `fn` with a seeded RNG resumed from `rngState`, returning the advanced state. */
+function withRng<T>(rngState: number, fn: (rng: () => number) => T): { value: T; rngState: number } {
+  let current = rngState;
+  const rng = () => {
+    const step = seededRandomStep(current);
+    current = step.state;
+    return step.value;
+  };
+  const value = fn(rng);
+  return { value, rngState: current };
+}
+
+const isAnteMode = (config: MatchConfig) => normalizeGameMode(config.gameMode).includes("ante");
+const isSkillMode = (config: MatchConfig) => normalizeGameMode(config.gameMode).includes("skill");
+const getRules = (config: MatchConfig): RulesConfig => config.rules ?? CLASSIC_RULES;
+const getHandSize = (config: MatchConfig) => handSizeForLanes(getLaneCount(config), getRules(config).reserveSize);
+
+function anteForRound(
+  config: MatchConfig,
+  round: number,
+  wins: SideState<number>,
+  initiative: LegacySide,
+): AnteSnapshot {
+  return {
+    round,
+    bets: { player: 0, enemy: 0 },
+    odds: isAnteMode(config)
+      ? calculateAnteOdds({ wins, winGoal: config.winGoal, initiative, rules: getRules(config).ante })
+      : { player: getRules(config).ante.minPayout, enemy: getRules(config).ante.minPayout },
+  };
+}
+
+const emptyAssign = (laneCount: number): AssignmentState<Card> => ({
+  player: fillLanes<Card | null>(laneCount, null),
+  enemy: fillLanes<Card | null>(laneCount, null),
+});
+
+/** Per-lane fields that reset at the start of every round. */
+const freshLaneState = (laneCount: number, skillMode: boolean) => ({
+  tokens: fillLanes(laneCount, 0),
+  roundStartTokens: fillLanes(laneCount, 0),
+  wheelLocks: fillLanes(laneCount, false),
+  pointerShifts: fillLanes(laneCount, 0),
+  assign: emptyAssign(laneCount),
+  splitChoices: {},
+  reservePenalties: { player: 0, enemy: 0 },
+  reserveChoices: { player: [], enemy: [] },
+  reserveSums: null,
+  reserveReports: { player: null, enemy: null },
+  wheelHUD: fillLanes<string | null>(laneCount, null),
+  analysis: null,
+  skill: createSkillState(skillMode, laneCount),
+});
+
+export function createMatchState(config: MatchConfig, fighters: SideState<Fighter>): MatchState {
+  const { value: wheelSections, rngState } = withRng(config.seed >>> 0, (rng) =>
+    generateWheelSet(rng, config.easyMode, getLaneCount(config), config.wheelTemplates),
+  );
+  const wins = { player: 0, enemy: 0 };
+
+  return {
+    config,
+    rngState,
+    phase: "choose",
+    round: 1,
+    player: fighters.player,
+    enemy: fighters.enemy,
+    initiative: config.startingInitiative,
+    wins,
+    pendingWins: null,
+    pendingInitiative: null,
+    carryOver: fillLanes(getLaneCount(config), 0),
+    pendingCarryOver: null,
+    ante: anteForRound(config, 1, wins, config.startingInitiative),
+    wheelSections,
+    wheelSlices: getWheelSliceCounts(getLaneCount(config), config.wheelTemplates),
+    statusEffects: [],
+    ...freshLaneState(getLaneCount(config), isSkillMode(config)),
+    mana: { player: 0, enemy: 0 },
+    spellCasts: createSpellCastHistory(),
+    spellStack: [],
+    stackedCasts: [],
+    spellCombo: createSpellComboState(),
+  };
+}
+
+/** The reserve `side` reports to a peer: its sum before spell penalties, which both clients take off. */
+export function reserveReport(state: MatchState, side: LegacySide): number {
+  const { reserveSize } = getRules(state.config);
+  return computeReserveSum(state[side].hand, state.assign[side], 0, state.splitChoices, state.reserveChoices[side], reserveSize);
+}
+
+export function computeReserves(state: MatchState): ReserveState {
+  const { reserveSize } = getRules(state.config);
+  const reserveOf = (side: LegacySide) => {
+    const reported = state.reserveReports[side];
+    if (reported !== null) return Math.max(0, reported - state.reservePenalties[side]);
+    return computeReserveSum(
+      state[side].hand,
+      state.assign[side],
+      state.reservePenalties[side],
+      state.splitChoices,
+      state.reserveChoices[side],
+      reserveSize,
+    );
+  };
+  return { player: reserveOf("player"), enemy: reserveOf("enemy") };
+}
+
+export const getMatchWinner = (state: Pick<MatchState, "wins" | "config">): LegacySide | null =>
+  state.wins.player >= state.config.winGoal
+    ? "player"
+    : state.wins.enemy >= state.config.winGoal
+      ? "enemy"
+      : null;
+
+type Draft = { state: MatchState; events: MatchEvent[] };
+
+const log = (draft: Draft, message: string, kind: "general" | "spell" | "skill" = "general") => {
+  draft.events.push({ type: "log", message, kind });
+};
+
+const setPhase = (draft: Draft, phase: CorePhase) => {
+  if (draft.state.phase === phase) return;
+  draft.state = { ...draft.state, phase };
+  draft.events.push({ type: "phaseChanged", phase });
+};
+
+const reject = (action: MatchAction, reason: string): MatchEvent => ({
+  type: "rejected",
+  action: action.type,
+  reason,
+});
+
+const setAssign = (draft: Draft, assign: AssignmentState<Card>) => {
+  const { state } = draft;
+  draft.state = {
+    ...state,
+    assign,
+    skill: reconcileSkillStateWithAssignments(
+      state.skill,
+      assign,
+      isSkillMode(state.config),
+      getRules(state.config).skillUses,
+    ),
+  };
+};
+
+/**
+ * Fires the status effects listening for `trigger` and applies what they ask for.
+ * Initiative taken before resolving counts now; initiative held afterwards carries
+ * into the next round.
+ */
+function runStatusTrigger(draft: Draft, trigger: StatusTrigger) {
+  const { effects, outcomes } = fireStatusTrigger(draft.state.statusEffects, trigger);
+  draft.state = { ...draft.state, statusEffects: effects };
+  outcomes.forEach((outcome) => {
+    if (outcome.type === "log") log(draft, outcome.message, "spell");
+    else if (outcome.type === "takeInitiative") draft.state = { ...draft.state, initiative: outcome.side };
+    else draft.state = { ...draft.state, pendingInitiative: outcome.side };
+  });
+}
+
+const chilledLanes = (state: MatchState, side: LegacySide) =>
+  chillStacksByLane(state.statusEffects, getLaneCount(state.config))[side];
+
+/**
+ * Resolves (or re-resolves, after a skill or spell) the current round from
+ * the round-start tokens. Wins are held as pending until the next round starts
+ * unless the match ends outright.
+ */
+function resolveCurrentRound(draft: Draft, options: { emitLogs: boolean }) {
+  runStatusTrigger(draft, "preResolve");
+  const state = draft.state;
+  const { config } = state;
+  const reserves = computeReserves(state);
+  const played = laneIndexes(getLaneCount(config)).map((i) => ({ p: state.assign.player[i] ?? null, e: state.assign.enemy[i] ?? null }));
+  const analysis = analyzeRound({
+    played,
+    wheelSections: state.wheelSections,
+    tokens: state.roundStartTokens,
+    reserves,
+    initiative: state.initiative,
+    localLegacySide: config.localLegacySide,
+    usedRemoteReport: state.reserveReports[otherSide(config.localLegacySide)] !== null,
+    splitChoices: state.splitChoices,
+    wheelSlices: state.wheelSlices,
+    wheelLocks: state.wheelLocks,
+    pointerShifts: state.pointerShifts,
+    slice0Rule: config.slice0Rule,
+    tieBreak: config.tieBreak,
+  });
+
+  const summary = summarizeRoundOutcome({
+    analysis,
+    wins: state.wins,
+    carryOver: state.carryOver,
+    initiative: state.initiative,
+    round: state.round,
+    namesByLegacy: config.names,
+    HUD_COLORS: config.hudColors,
+    isAnteMode: isAnteMode(config),
+    anteState: state.ante,
+    winGoal: config.winGoal,
+    localLegacySide: config.localLegacySide,
+    remoteLegacySide: otherSide(config.localLegacySide),
+  });
+
+  let next: MatchState = {
+    ...state,
+    analysis,
+    tokens: advanceTokens(state.roundStartTokens, analysis),
+    reserveSums: { player: analysis.pReserve, enemy: analysis.eReserve },
+    wheelHUD: summary.hudColors,
+    pendingWins: summary.wins,
+    pendingInitiative: summary.nextInitiative,
+    pendingCarryOver: summary.carryOver,
+  };
+
+  if (summary.shouldResetAnte && next.ante.round === next.round) {
+    next = { ...next, ante: { ...next.ante, bets: { player: 0, enemy: 0 } } };
+  }
+
+  if (summary.matchEnded) {
+    next = { ...next, wins: summary.wins, pendingWins: null };
+  }
+
+  draft.state = next;
+  if (options.emitLogs) {
+    summary.logs.forEach((message) => log(draft, message));
+  }
+  runStatusTrigger(draft, "postResolve");
+  draft.events.push({ type: "roundResolved", round: state.round, analysis, summary });
+
+  if (summary.matchEnded) {
+    setPhase(draft, "ended");
+    const winner = getMatchWinner(draft.state);
+    if (winner) draft.events.push({ type: "matchEnded", winner });
+    return;
+  }
+
+  setPhase(
+    draft,
+    determinePostResolvePhase({
+      isSkillMode: isSkillMode(config),
+      skillCompleted: draft.state.skill.completed,
+    }),
+  );
+}
+
+function assignCard(draft: Draft, action: Extract<MatchAction, { type: "assign" }>): string | null {
+  const state = draft.state;
+  if (state.phase !== "choose") return "Cards can only be placed while choosing.";
+  const { side, lane: laneIndex } = action;
+  if (!Number.isInteger(laneIndex) || laneIndex < 0 || laneIndex >= getLaneCount(state.config)) {
+    return `Lane ${laneIndex} does not exist.`;
+  }
+
+  const fighter = state[side];
+  const lane = state.assign[side];
+  const card =
+    fighter.hand.find((c) => c.id === action.cardId) ??
+    lane.find((c): c is Card => !!c && c.id === action.cardId) ??
+    null;
+  if (!card) return `Card ${action.cardId} is not available to ${side}.`;
+
+  const prevAtLane = lane[laneIndex];
+  const fromIdx = lane.findIndex((c) => c?.id === card.id);
+  const chillStacks = chilledLanes(state, side);
+
+  if (chillStacks[laneIndex] > 0 && (!prevAtLane || prevAtLane.id !== card.id)) {
+    return `Lane ${laneIndex + 1} is chilled.`;
+  }
+  if (fromIdx !== -1 && chillStacks[fromIdx] > 0 && fromIdx !== laneIndex) {
+    return `Lane ${fromIdx + 1} is chilled.`;
+  }
+  if (prevAtLane && prevAtLane.id === card.id) {
+    return "Card is already in that lane.";
+  }
+
+  const nextLane = [...lane];
+  if (fromIdx !== -1) nextLane[fromIdx] = null;
+  nextLane[laneIndex] = card;
+
+  let hand = fighter.hand.filter((c) => c.id !== card.id);
+  if (prevAtLane && !hand.some((c) => c.id === prevAtLane.id)) {
+    hand = [...hand, prevAtLane];
+  }
+
+  const splitChoices = isSplit(card)
+    ? { ...state.splitChoices, [card.id]: action.face ?? state.splitChoices[card.id] ?? "left" }
+    : state.splitChoices;
+
+  draft.state = { ...draft.state, [side]: { ...fighter, hand }, splitChoices };
+  setAssign(draft, { ...draft.state.assign, [side]: nextLane });
+  return null;
+}
+
+function chooseFace(draft: Draft, action: Extract<MatchAction, { type: "chooseFace" }>): string | null {
+  const state = draft.state;
+  if (state.phase !== "choose") return "Split faces can only be chosen while choosing.";
+  const card = state.assign[action.side].find((c): c is Card => !!c && c.id === action.cardId);
+  if (!card) return `Card ${action.cardId} is not in a ${action.side} lane.`;
+  if (!isSplit(card)) return `${card.name} is not a split card.`;
+  draft.state = { ...state, splitChoices: { ...state.splitChoices, [card.id]: action.face } };
+  return null;
+}
+
+function clearLane(draft: Draft, action: Extract<MatchAction, { type: "clear" }>): string | null {
+  const state = draft.state;
+  if (state.phase !== "choose") return "Lanes can only be cleared while choosing.";
+  const { side, lane: laneIndex } = action;
+  const prev = state.assign[side][laneIndex];
+  if (!prev) return `Lane ${laneIndex + 1} is already empty.`;
+  if (chilledLanes(state, side)[laneIndex] > 0) return `Lane ${laneIndex + 1} is chilled.`;
+
+  const nextLane = [...state.assign[side]];
+  nextLane[laneIndex] = null;
+  const fighter = state[side];
+  const hand = fighter.hand.some((c) => c.id === prev.id) ? fighter.hand : [...fighter.hand, prev];
+
+  draft.state = { ...state, [side]: { ...fighter, hand } };
+  setAssign(draft, { ...draft.state.assign, [side]: nextLane });
+  return null;
+}
+
+/**
+ * Lays out the cards a peer shared. Their hand on this client is only a stand-in, so the
+ * cards are taken as sent rather than looked up in it.
+ */
+function receiveAssignments(
+  draft: Draft,
+  action: Extract<MatchAction, { type: "receiveAssignments" }>,
+): string | null {
+  const state = draft.state;
+  if (state.phase !== "choose") return "Cards can only be placed while choosing.";
+  const laneCount = getLaneCount(state.config);
+  if (action.cards.length > laneCount) return `Only ${laneCount} lanes are in play.`;
+
+  const lane = laneIndexes(laneCount).map((i) => action.cards[i] ?? null);
+  const splitChoices = { ...state.splitChoices };
+  lane.forEach((card) => {
+    if (card && isSplit(card)) splitChoices[card.id] = action.splitChoices?.[card.id] === "right" ? "right" : "left";
+  });
+
+  draft.state = { ...state, splitChoices };
+  setAssign(draft, { ...state.assign, [action.side]: lane });
+  return null;
+}
+
+function chooseReserve(draft: Draft, action: Extract<MatchAction, { type: "chooseReserve" }>): string | null {
+  const state = draft.state;
+  if (state.phase !== "choose") return "Reserve cards can only be chosen while choosing.";
+  const cardIds = Array.from(new Set(action.cardIds));
+  const { reserveSize } = getRules(state.config);
+  if (cardIds.length > reserveSize) return `Choose at most ${reserveSize} reserve cards.`;
+  const assigned = new Set(state.assign[action.side].filter((c): c is Card => !!c).map((c) => c.id));
+  const missing = cardIds.find((id) => assigned.has(id) || !state[action.side].hand.some((c) => c.id === id));
+  if (missing) return `Card ${missing} is not in the ${action.side} hand.`;
+  draft.state = { ...state, reserveChoices: { ...state.reserveChoices, [action.side]: cardIds } };
+  return null;
+}
+
+function useSkill(draft: Draft, action: Extract<MatchAction, { type: "useSkill" }>): string | null {
+  const state = draft.state;
+  if (!isSkillMode(state.config)) return "Skill mode is not enabled.";
+  if (state.phase !== "skill") return "Skills can only be used during the skill phase.";
+
+  const { side, laneIndex, target } = action;
+  const laneState = state.skill.lanes[side]?.[laneIndex];
+  if (!laneState || !laneState.ability) return "No skill in that lane.";
+  const ability = laneState.ability;
+  const actorName = state.config.names[side];
+  if (laneState.exhausted) return `${ability} exhausted`;
+
+  const skillCard = state.assign[side][laneIndex] ?? null;
+  let working: MatchState = state;
+  const skillLogs: string[] = [];
+
+  const { value: result, rngState } = withRng(state.rngState, (rng) =>
+    applySkillAbilityEffect({
+      ability,
+      actorName,
+      side,
+      laneIndex,
+      target,
+      skillCard,
+      storedSkillValue: skillCard ? getSkillCardValue(skillCard) : 0,
+      sideAssignments: { player: [...state.assign.player], enemy: [...state.assign.enemy] },
+      concludeAssignUpdate: (nextAssign) => {
+        working = { ...working, assign: nextAssign };
+      },
+      recalcWheelForLane: () => ({ value: 0, changed: false }),
+      getFighterSnapshot: (who) => working[who],
+      updateFighter: (who, updater) => {
+        working = { ...working, [who]: updater(working[who]) };
+      },
+      drawOne: (fighter) => drawOne(fighter, rng),
+      updateReservePreview: () => {},
+      appendLog: (message) => skillLogs.push(message),
+      reserveCardIds: pickReserveCards(
+        state[side].hand,
+        state.assign[side],
+        state.reserveChoices[side],
+        getRules(state.config).reserveSize,
+      ).map((card) => card.id),
+      updateWheelLocks: (updater) => {
+        working = { ...working, wheelLocks: updater(working.wheelLocks) };
+      },
+      updatePointerShifts: (updater) => {
+        working = { ...working, pointerShifts: updater(working.pointerShifts) };
+      },
+    }),
+  );
+
+  skillLogs.forEach((message) => log(draft, message, "skill"));
+  if (!result.success) {
+    return result.failureReason ?? `${ability} failed`;
+  }
+
+  const usesRemaining = Math.max(0, laneState.usesRemaining - 1);
+  const exhausted = usesRemaining <= 0;
+  const lanes = [...working.skill.lanes[side]];
+  lanes[laneIndex] = { ...lanes[laneIndex], exhausted, usesRemaining };
+  const cardStatus = { ...working.skill.cardStatus };
+  if (laneState.cardId) {
+    cardStatus[getSkillCardStatusKey(side, laneState.cardId)] = { ability, exhausted, usesRemaining };
+  }
+
+  draft.state = { ...working, rngState };
+  setAssign(draft, working.assign);
+  draft.state = {
+    ...draft.state,
+    skill: {
+      ...draft.state.skill,
+      lanes: { ...draft.state.skill.lanes, [side]: lanes },
+      cardStatus,
+    },
+  };
+  log(draft, `${actorName} used ${ability}.`, "skill");
+  draft.events.push({ type: "skillUsed", side, laneIndex, ability, exhausted });
+
+  resolveCurrentRound(draft, { emitLogs: false });
+  return null;
+}
+
+function applySpells(draft: Draft, payload: SpellEffectPayload) {
+  let working: MatchState = draft.state;
+
+  runSpellEffects<Card>(payload, {
+    assignSnapshot: working.assign,
+    updateAssignments: (updater) => {
+      working = { ...working, assign: updater(working.assign) };
+    },
+    updateReserveSums: (updater) => {
+      working = { ...working, reserveSums: updater(working.reserveSums) };
+    },
+    updateTokens: (updater) => {
+      const next = updater(working.tokens);
+      working = { ...working, tokens: next, roundStartTokens: next };
+    },
+    updateStatusEffects: (updater) => {
+      working = { ...working, statusEffects: updater(working.statusEffects) };
+    },
+    setInitiative: (side) => {
+      working = { ...working, initiative: side };
+    },
+    appendLog: (message, options) => log(draft, message, options?.type ?? "spell"),
+    initiative: working.initiative,
+    isMultiplayer: false,
+    applyReservePenalty: (side, amount) => {
+      if (!Number.isFinite(amount) || amount <= 0) return;
+      working = {
+        ...working,
+        reservePenalties: {
+          ...working.reservePenalties,
+          [side]: Math.max(0, working.reservePenalties[side] + amount),
+        },
+      };
+    },
+    startingTokens: working.roundStartTokens,
+    wheelSlices: working.wheelSlices,
+    updateRoundStartTokens: (nextTokens) => {
+      working = { ...working, roundStartTokens: nextTokens };
+    },
+    updateWheelLocks: (updater) => {
+      working = { ...working, wheelLocks: updater(working.wheelLocks) };
+    },
+    updatePointerShifts: (updater) => {
+      working = { ...working, pointerShifts: updater(working.pointerShifts) };
+    },
+    updateWheelSections: (updater) => {
+      working = { ...working, wheelSections: updater(working.wheelSections) };
+    },
+    updateFighter: (side, updater) => {
+      working = { ...working, [side]: updater(working[side]) };
+    },
+  });
+
+  draft.state = working;
+  setAssign(draft, working.assign);
+  draft.events.push({ type: "spellEffectsApplied", payload });
+
+  if (draft.state.phase === "skill" || draft.state.phase === "roundEnd") {
+    resolveCurrentRound(draft, { emitLogs: true });
+  }
+}
+
+/** The game as `validateSpellDeclaration` needs it for a spell `side` casts now. */
+function spellContext(
+  state: MatchState,
+  side: LegacySide,
+  hiddenLanes: AssignmentState<boolean> | undefined,
+): SpellValidationContext {
+  const { reserveSize } = getRules(state.config);
+  // While the caster's lanes are hidden, any card still in their hand could be in reserve.
+  const reserveOf = (of: LegacySide) =>
+    of === side && hiddenLanes?.[of].some(Boolean)
+      ? state[of].hand
+      : pickReserveCards(state[of].hand, state.assign[of], state.reserveChoices[of], reserveSize);
+  const grimoire = state.config.grimoires?.[side];
+  // Spells show for the hand the round was dealt, so cards since played still count. A
+  // peer's hand isn't known here, so their grimoire from the lobby is all that's checked.
+  const dealt = [...state[side].hand, ...state.assign[side].filter((card): card is Card => !!card)];
+  const peer = side === state.config.peerSide;
+  const top = state.spellStack[state.spellStack.length - 1];
+  return {
+    fighters: {
+      player: { ...state.player, hand: reserveOf("player") },
+      enemy: { ...state.enemy, hand: reserveOf("enemy") },
+    },
+    assign: state.assign,
+    hiddenLanes,
+    hiddenHand: state.config.peerSide,
+    wheelSections: state.wheelSections,
+    activeWheels: fillLanes(getLaneCount(state.config), true),
+    phase: state.phase === "skill" ? "roundEnd" : state.phase,
+    mana: state.mana[side],
+    knownSpellIds: grimoire?.spellIds,
+    grimoireSymbols: peer ? undefined : countSymbolsFromCards(dealt),
+    profileSymbols: grimoire?.symbols,
+    stackOpen: !!top,
+    canReact: !!top && top.side !== side,
+    castHistory: state.spellCasts,
+    round: state.round,
+    seed: state.config.seed,
+  };
+}
+
+/**
+ * Checks a cast and puts it on the stack with its effects re-derived from its targets.
+ * Declaring pays the mana and counts as casting, so a countered spell still goes on
+ * cooldown.
+ */
+function declareSpell(draft: Draft, action: Extract<MatchAction, { type: "declareSpell" }>): string | null {
+  const state = draft.state;
+  if (state.phase === "ended") return "The match is over.";
+  const { entry } = action;
+  const result = validateSpellDeclaration(entry, spellContext(state, entry.side, action.hiddenLanes));
+  if (!result.ok) return result.reason;
+
+  if (action.hiddenLanes) placeTargetedHiddenCards(draft, entry, action.hiddenLanes);
+  const declared: SpellStackEntry = { ...entry, payload: result.payload ?? { caster: entry.side } };
+  draft.state = {
+    ...draft.state,
+    mana: { ...state.mana, [entry.side]: state.mana[entry.side] - entry.spentMana },
+    spellCasts: recordSpellCast(state.spellCasts, entry.side, entry.spellId, state.round),
+    spellStack: [...state.spellStack, declared],
+    stackedCasts: [...state.stackedCasts, state.spellCasts],
+  };
+  draft.events.push({ type: "spellDeclared", entry: declared });
+  return null;
+}
+
+/**
+ * Targeting a card in one of the caster's hidden lanes shows which card is there, so it
+ * takes its place now and the spell lands on it rather than on a card still in hand. A
+ * peer's card goes in as they claimed it, since their hand here is only a stand-in.
+ */
+function placeTargetedHiddenCards(draft: Draft, entry: SpellStackEntry, hiddenLanes: AssignmentState<boolean>) {
+  entry.targets.forEach((target) => {
+    if (target.type !== "card" || target.owner !== "ally" || target.location !== "board") return;
+    const lane = target.lane;
+    if (typeof lane !== "number" || !hiddenLanes[entry.side][lane] || draft.state.assign[entry.side][lane]) return;
+    const claimed = entry.side === draft.state.config.peerSide ? claimedCard(target) : undefined;
+    if (claimed) {
+      const lanes = [...draft.state.assign[entry.side]];
+      lanes[lane] = claimed;
+      setAssign(draft, { ...draft.state.assign, [entry.side]: lanes });
+      return;
+    }
+    assignCard(draft, { type: "assign", side: entry.side, lane, cardId: target.cardId });
+  });
+}
+
+/**
+ * `side` lets the spell on top resolve, which settles the whole stack. Spells that
+ * aren't countered extend their caster's combo chain, and a finished combo applies its
+ * bonus straight after the spell that finished it.
+ */
+function passReaction(draft: Draft, action: Extract<MatchAction, { type: "passReaction" }>): string | null {
+  const state = draft.state;
+  const stack = state.spellStack;
+  const top = stack[stack.length - 1];
+  if (!top) return "There is no spell to answer.";
+  if (top.side === action.side) return "Only the other side can answer a spell.";
+
+  draft.state = { ...state, spellStack: [], stackedCasts: [] };
+  const at = { round: state.round, phase: state.phase };
+  let combo = state.spellCombo;
+  resolveSpellStackEntries(stack).forEach(({ entry, payload, countered }) => {
+    applySpells(draft, payload);
+    if (countered) return;
+    const advanced = advanceSpellCombo(combo, entry.side, entry.spellId, at);
+    combo = advanced.state;
+    if (advanced.combo) {
+      applySpells(draft, comboBonusPayload(advanced.combo, entry.side, draft.state[entry.side].name));
+    }
+  });
+  draft.state = { ...draft.state, spellCombo: combo };
+  return null;
+}
+
+/**
+ * Takes the spell on top back off the stack, as when a peer refuses it. The peer never
+ * charged for it, so its mana comes back and it no longer counts as cast.
+ */
+function withdrawSpell(draft: Draft, action: Extract<MatchAction, { type: "withdrawSpell" }>): string | null {
+  const { spellStack: stack, stackedCasts, mana } = draft.state;
+  const top = stack[stack.length - 1];
+  if (!top || top.id !== action.entryId) return "That spell is not on top of the stack.";
+  draft.state = {
+    ...draft.state,
+    mana: { ...mana, [top.side]: mana[top.side] + top.spentMana },
+    spellCasts: stackedCasts[stackedCasts.length - 1] ?? draft.state.spellCasts,
+    spellStack: stack.slice(0, -1),
+    stackedCasts: stackedCasts.slice(0, -1),
+  };
+  return null;
+}
+
+/** Each side banks a share of the reserve it revealed with. */
+function awardRoundMana(draft: Draft) {
+  const { mana, reserveSums, config } = draft.state;
+  if (!reserveSums) return;
+  const rules = getRules(config);
+  draft.state = {
+    ...draft.state,
+    mana: {
+      player: awardMana(mana.player, Math.ceil(reserveSums.player / rules.manaDivisor), rules),
+      enemy: awardMana(mana.enemy, Math.ceil(reserveSums.enemy / rules.manaDivisor), rules),
+    },
+  };
+}
+
+function startNextRound(draft: Draft) {
+  const state = draft.state;
+  const { config } = state;
+  const skillMode = isSkillMode(config);
+  const wins = state.pendingWins ?? state.wins;
+  const initiative = state.pendingInitiative ?? state.initiative;
+  const carryOver = state.pendingCarryOver ?? state.carryOver;
+
+  const laneCount = getLaneCount(config);
+  const settle = (fighter: Fighter, played: Card[], rng: () => number) => {
+    const base = skillMode ? resetFighterCardsToBase(fighter) : fighter;
+    return settleFighterAfterRound(
+      base,
+      skillMode ? resetCardsToBase(played) : played,
+      rng,
+      getHandSize(config),
+    );
+  };
+  const playerPlayed = state.assign.player.filter((c): c is Card => !!c);
+  const enemyPlayed = state.assign.enemy.filter((c): c is Card => !!c);
+
+  const {
+    value: { player, enemy, wheelSections },
+    rngState,
+  } = withRng(state.rngState, (rng) => ({
+    player: settle(state.player, playerPlayed, rng),
+    enemy: settle(state.enemy, enemyPlayed, rng),
+    wheelSections: generateWheelSet(rng, config.easyMode, laneCount, config.wheelTemplates),
+  }));
+  const round = state.round + 1;
+
+  draft.state = {
+    ...state,
+    rngState,
+    round,
+    player,
+    enemy,
+    wins,
+    initiative,
+    pendingWins: null,
+    pendingInitiative: null,
+    carryOver,
+    pendingCarryOver: null,
+    ante: anteForRound(config, round, wins, initiative),
+    wheelSections,
+    wheelSlices: getWheelSliceCounts(laneCount, config.wheelTemplates),
+    ...freshLaneState(laneCount, skillMode),
+  };
+  draft.events.push({ type: "roundStarted", round });
+  runStatusTrigger(draft, "roundStart");
+  setPhase(draft, "choose");
+}
+
+export function matchReducer(state: MatchState, action: MatchAction): MatchStepResult {
+  const draft: Draft = { state, events: [] };
+  let failure: string | null = null;
+
+  switch (action.type) {
+    case "assign":
+      failure = assignCard(draft, action);
+      break;
+    case "chooseFace":
+      failure = chooseFace(draft, action);
+      break;
+    case "clear":
+      failure = clearLane(draft, action);
+      break;
+    case "receiveAssignments":
+      failure = receiveAssignments(draft, action);
+      break;
+    case "chooseReserve":
+      failure = chooseReserve(draft, action);
+      break;
+    case "reportReserve":
+      if (state.phase !== "choose" || action.round !== state.round) {
+        failure = "Reserves are only reported while choosing this round.";
+        break;
+      }
+      if (!Number.isFinite(action.reserve) || action.reserve < 0) {
+        failure = `${action.reserve} is not a reserve sum.`;
+        break;
+      }
+      draft.state = { ...state, reserveReports: { ...state.reserveReports, [action.side]: action.reserve } };
+      break;
+    case "setAnte": {
+      if (!isAnteMode(state.config)) {
+        failure = "Ante mode is not enabled.";
+        break;
+      }
+      if (state.phase !== "choose") {
+        failure = "Bets can only be placed while choosing.";
+        break;
+      }
+      const bet = clampAnteBet(action.bet, state.wins[action.side]);
+      draft.state = {
+        ...state,
+        ante: { ...state.ante, bets: { ...state.ante.bets, [action.side]: bet } },
+      };
+      break;
+    }
+    case "reveal":
+      if (state.phase !== "choose") {
+        failure = "The round has already been revealed.";
+        break;
+      }
+      draft.state = { ...state, roundStartTokens: [...state.tokens] };
+      resolveCurrentRound(draft, { emitLogs: true });
+      awardRoundMana(draft);
+      break;
+    case "useSkill":
+      failure = useSkill(draft, action);
+      break;
+    case "declareSpell":
+      failure = declareSpell(draft, action);
+      break;
+    case "passReaction":
+      failure = passReaction(draft, action);
+      break;
+    case "withdrawSpell":
+      failure = withdrawSpell(draft, action);
+      break;
+    case "finishSkills":
+      if (state.phase !== "skill") {
+        failure = "There is no skill phase to finish.";
+        break;
+      }
+      draft.state = { ...state, skill: { ...state.skill, completed: true } };
+      setPhase(draft, "roundEnd");
+      break;
+    case "nextRound":
+      if (state.phase === "skill") {
+        failure = "Finish the skill phase first.";
+        break;
+      }
+      if (state.phase !== "roundEnd") {
+        failure = "The round is not finished yet.";
+        break;
+      }
+      startNextRound(draft);
+      break;
+    case "rematch":
+      if (state.phase !== "ended") {
+        failure = "The match is still in progress.";
+        break;
+      }
+      draft.state = createMatchState(state.config, action.fighters);
+      draft.events.push({ type: "roundStarted", round: 1 });
+      setPhase(draft, "choose");
+      break;
+    default:
+      break;
+  }
+
+  if (failure) {
+    return { state, events: [reject(action, failure)] };
+  }
+  return draft;
+}
@@ -0,0 +1,222 @@
+// src/game/replay.ts
+// Versioned match replay format: match metadata plus an ordered action log,
+// with a snapshot of every resolved round so playback never has to re-simulate.
+import type {
+  Card,
+  GameMode,
+  LegacySide,
+  Players,
+  Section,
+  Side,
+  SplitChoiceMap,
+  SplitFace,
+} from "./types.js";
+import type { AbilityKind } from "./skills.js";
+import { clampLaneCount } from "./lanes.js";
+import type { SpellEffectPayload } from "./spellEngine.js";
+import type { WheelOutcome } from "../features/threeWheel/hooks/roundOutcomeSummary.js";
+import type { SkillAbilityTarget } from "../features/threeWheel/utils/skillAbilityExecution.js";
+
+export const REPLAY_VERSION = 1;
+
+export type ReplayRoundResult = {
+  wheelSections: Section[][];
+  /** Absent in replays recorded before wheels could differ in size. */
+  wheelSlices?: number[];
+  startTokens: number[];
+  finalTokens: number[];
+  assign: { player: (Card | null)[]; enemy: (Card | null)[] };
+  splitChoices?: SplitChoiceMap;
+  outcomes: WheelOutcome[];
+  reserves: Record<LegacySide, number>;
+  wins: Record<LegacySide, number>;
+  initiative: LegacySide;
+};
+
+export type ReplayAction =
+  | { type: "assign"; side: LegacySide; lane: number; card: Card; face?: SplitFace }
+  | { type: "splitFace"; side: LegacySide; cardId: string; face: SplitFace }
+  | { type: "clear"; side: LegacySide; lane: number }
+  | { type: "reserve"; side: LegacySide; cardIds: string[] }
+  | { type: "ante"; side: LegacySide; bet: number }
+  | { type: "revealVote"; side: LegacySide }
+  | { type: "reveal" }
+  | { type: "spellEffects"; payload: SpellEffectPayload }
+  | { type: "skill"; side: LegacySide; laneIndex: number; ability: AbilityKind; target?: SkillAbilityTarget }
+  | { type: "nextVote"; side: LegacySide }
+  | { type: "nextRound" }
+  | { type: "rematchVote"; side: LegacySide }
+  | { type: "roundResult"; result: ReplayRoundResult };
+
+export type ReplayEvent = ReplayAction & {
+  round: number;
+  /** Milliseconds since the replay started recording. */
+  at: number;
+};
+
+export type MatchReplay = {
+  version: typeof REPLAY_VERSION;
+  id: string;
+  recordedAt: string;
+  seed: number;
+  players: Players;
+  localSide: Side;
+  gameMode: GameMode;
+  targetWins: number;
+  easyMode: boolean;
+  laneCount: number;
+  events: ReplayEvent[];
+  winner: LegacySide | null;
+  finalWins: Record<LegacySide, number> | null;
+};
+
+export type ReplayMeta = Pick<
+  MatchReplay,
+  "seed" | "players" | "localSide" | "gameMode" | "targetWins" | "easyMode"
+> &
+  Partial<Pick<MatchReplay, "laneCount">>;
+
+export type ReplayRoundView = {
+  round: number;
+  actions: ReplayEvent[];
+  result: ReplayRoundResult | null;
+};
+
+// Card and payload objects are copied so later in-place edits cannot leak into the log.
+const cloneJson = <T>(value: T): T => JSON.parse(JSON.stringify(value)) as T;
+
+export function createReplay(meta: ReplayMeta, now: Date = new Date()): MatchReplay {
+  return {
+    version: REPLAY_VERSION,
+    id: `replay-${now.getTime().toString(36)}-${meta.seed.toString(36)}`,
+    recordedAt: now.toISOString(),
+    seed: meta.seed,
+    players: cloneJson(meta.players),
+    localSide: meta.localSide,
+    gameMode: [...meta.gameMode],
+    targetWins: meta.targetWins,
+    easyMode: meta.easyMode,
+    laneCount: clampLaneCount(meta.laneCount),
+    events: [],
+    winner: null,
+    finalWins: null,
+  };
+}
+
+export function recordReplayEvent(
+  replay: MatchReplay,
+  round: number,
+  action: ReplayAction,
+  at: number = Date.now() - Date.parse(replay.recordedAt),
+): MatchReplay {
+  const event = { ...cloneJson(action), round, at: Math.max(0, Math.round(at)) } as ReplayEvent;
+  return { ...replay, events: [...replay.events, event] };
+}
+
+export function finalizeReplay(
+  replay: MatchReplay,
+  winner: LegacySide | null,
+  finalWins: Record<LegacySide, number>,
+): MatchReplay {
+  return { ...replay, winner, finalWins: { ...finalWins } };
+}
+
+export function serializeReplay(replay: MatchReplay): string {
+  return JSON.stringify(replay, null, 2);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** Parses a replay file, returning null when it is not a replay this build can play. */
+export function parseReplay(raw: unknown): MatchReplay | null {
+  let data: unknown = raw;
+  if (typeof raw === "string") {
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+
+  if (!isRecord(data)) return null;
+  if (data.version !== REPLAY_VERSION) return null;
+  if (typeof data.id !== "string" || typeof data.seed !== "number") return null;
+  if (!isRecord(data.players) || !isRecord(data.players.left) || !isRecord(data.players.right)) return null;
+  if (data.localSide !== "left" && data.localSide !== "right") return null;
+  if (!Array.isArray(data.gameMode) || !Array.isArray(data.events)) return null;
+
+  const events = data.events.filter(
+    (event): event is ReplayEvent =>
+      isRecord(event) && typeof event.type === "string" && typeof event.round === "number",
+  );
+
+  return {
+    ...(data as unknown as MatchReplay),
+    targetWins: typeof data.targetWins === "number" ? data.targetWins : 0,
+    easyMode: data.easyMode === true,
+    laneCount: clampLaneCount(data.laneCount),
+    events,
+    winner: data.winner === "player" || data.winner === "enemy" ? data.winner : null,
+    finalWins: isRecord(data.finalWins) ? (data.finalWins as Record<LegacySide, number>) : null,
+  };
+}
+
+/**
+ * Groups the action log by round. A round can be re-resolved after skills or
+ * spells, so the last recorded result is the one shown.
+ */
+export function getReplayRounds(replay: MatchReplay): ReplayRoundView[] {
+  const byRound = new Map<number, ReplayRoundView>();
+  for (const event of replay.events) {
+    let view = byRound.get(event.round);
+    if (!view) {
+      view = { round: event.round, actions: [], result: null };
+      byRound.set(event.round, view);
+    }
+    if (event.type === "roundResult") {
+      view.result = event.result;
+    } else {
+      view.actions.push(event);
+    }
+  }
+  return Array.from(byRound.values()).sort((a, b) => a.round - b.round);
+}
+
+export function describeReplayAction(event: ReplayEvent, names: Record<LegacySide, string>): string {
+  switch (event.type) {
+    case "assign":
+      return `${names[event.side]} placed ${event.card.name} on wheel ${event.lane + 1}.`;
+    case "splitFace":
+      return `${names[event.side]} switched a split card to its ${event.face} face.`;
+    case "clear":
+      return `${names[event.side]} cleared wheel ${event.lane + 1}.`;
+    case "reserve":
+      return event.cardIds.length > 0
+        ? `${names[event.side]} set aside ${event.cardIds.length} reserve ${event.cardIds.length === 1 ? "card" : "cards"}.`
+        : `${names[event.side]} cleared their reserve picks.`;
+    case "ante":
+      return `${names[event.side]} bet ${event.bet}.`;
+    case "revealVote":
+      return `${names[event.side]} is ready to reveal.`;
+    case "reveal":
+      return "Cards revealed.";
+    case "spellEffects": {
+      const caster = names[event.payload.caster] ?? "Someone";
+      const detail = event.payload.logMessages?.[0];
+      return detail ? `${caster}: ${detail}` : `${caster} cast a spell.`;
+    }
+    case "skill":
+      return `${names[event.side]} used ${event.ability} from wheel ${event.laneIndex + 1}.`;
+    case "nextVote":
+      return `${names[event.side]} is ready for the next round.`;
+    case "nextRound":
+      return "Next round.";
+    case "rematchVote":
+      return `${names[event.side]} wants a rematch.`;
+    case "roundResult":
+      return `Round resolved (${event.result.wins.player}-${event.result.wins.enemy}).`;
+    default:
+      return "";
+  }
+}
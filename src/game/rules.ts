@@ -0,0 +1,160 @@
+// src/game/rules.ts
+// The numbers a match is played by. A match carries one RulesConfig; the engine, the
+// hook and the lobby read from it instead of their own constants, and multiplayer
+// sends the host's copy so both clients play identical rules.
+import { TARGET_WINS } from "./types.js";
+import { RESERVE_CARD_COUNT } from "./lanes.js";
+import type { AbilityKind } from "./skills.js";
+
+export type AnteRules = {
+  /** Payout offered before the first round's odds are worked out. */
+  baseOdds: number;
+  /** Win chance added for the initiative holder (and taken from the other side). */
+  initiativeEdge: number;
+  /** Win chances are clamped to this range before becoming payouts. */
+  minChance: number;
+  maxChance: number;
+  /** Smallest payout a bet can offer. */
+  minPayout: number;
+};
+
+/**
+ * What happens to mana gained past the cap: `discard` drops it, `decay` keeps half of
+ * whatever would sit above the cap (rounded down).
+ */
+export type ManaOverflowRule = "discard" | "decay";
+
+export const MANA_OVERFLOW_RULES: ManaOverflowRule[] = ["discard", "decay"];
+
+export type RulesConfig = {
+  /** Wins that take the match. */
+  targetWins: number;
+  /** Cards left in hand as the reserve; the hand holds one card per lane plus these. */
+  reserveSize: number;
+  /** Cards in a grimoire deck; profile decks can't grow past it. */
+  deckSize: number;
+  /** Mana gained at round end is the reserve divided by this, rounded up. */
+  manaDivisor: number;
+  /** Most mana a side banks between rounds; 0 for no cap. */
+  manaCap: number;
+  manaOverflow: ManaOverflowRule;
+  ante: AnteRules;
+  /** Uses each skill starts with when its card is played. */
+  skillUses: Record<AbilityKind, number>;
+};
+
+export type RulesPresetId = "classic" | "quick" | "marathon";
+
+export type RulesPreset = {
+  id: RulesPresetId;
+  label: string;
+  description: string;
+  rules: RulesConfig;
+};
+
+export const CLASSIC_RULES: RulesConfig = {
+  targetWins: TARGET_WINS,
+  reserveSize: RESERVE_CARD_COUNT,
+  deckSize: 10,
+  manaDivisor: 2,
+  manaCap: 0,
+  manaOverflow: "discard",
+  ante: { baseOdds: 1.2, initiativeEdge: 0.05, minChance: 0.15, maxChance: 0.85, minPayout: 1.1 },
+  skillUses: {
+    swapReserve: 1,
+    rerollReserve: 2,
+    boostCard: 1,
+    reserveBoost: 1,
+    shiftPointer: 1,
+    lockWheel: 1,
+  },
+};
+
+export const RULES_PRESETS: Record<RulesPresetId, RulesPreset> = {
+  classic: {
+    id: "classic",
+    label: "Classic",
+    description: "First to 12, two reserve cards.",
+    rules: CLASSIC_RULES,
+  },
+  quick: {
+    id: "quick",
+    label: "Quick",
+    description: "First to 6 with one reserve card and faster mana, banked up to 8.",
+    rules: { ...CLASSIC_RULES, targetWins: 6, reserveSize: 1, manaDivisor: 1, manaCap: 8 },
+  },
+  marathon: {
+    id: "marathon",
+    label: "Marathon",
+    description: "First to 20 with three reserve cards, extra skill uses and mana banked up to 15.",
+    rules: {
+      ...CLASSIC_RULES,
+      targetWins: 20,
+      reserveSize: 3,
+      deckSize: 12,
+      manaDivisor: 3,
+      manaCap: 15,
+      skillUses: { ...CLASSIC_RULES.skillUses, swapReserve: 2, boostCard: 2, reserveBoost: 2 },
+    },
+  },
+};
+
+export const DEFAULT_RULES_PRESET: RulesPresetId = "classic";
+
+export function listRulesPresets(): RulesPreset[] {
+  return Object.values(RULES_PRESETS);
+}
+
+/** Copy of a preset's rules, safe to edit. */
+export function rulesForPreset(id: RulesPresetId): RulesConfig {
+  const { rules } = RULES_PRESETS[id] ?? RULES_PRESETS[DEFAULT_RULES_PRESET];
+  return { ...rules, ante: { ...rules.ante }, skillUses: { ...rules.skillUses } };
+}
+
+/** Preset `rules` follows, ignoring target wins (which players set on their own); null when customised. */
+export function findRulesPreset(rules: RulesConfig): RulesPresetId | null {
+  const key = (value: RulesConfig) => JSON.stringify({ ...value, targetWins: 0 });
+  return listRulesPresets().find((preset) => key(preset.rules) === key(rules))?.id ?? null;
+}
+
+const readNumber = (value: unknown, fallback: number, min: number, max: number, integer = true) => {
+  if (typeof value !== "number" || !Number.isFinite(value)) return fallback;
+  const rounded = integer ? Math.round(value) : value;
+  return Math.max(min, Math.min(max, rounded));
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** Validates rules received from a peer; missing or unusable fields fall back to Classic. */
+export function normalizeRulesConfig(value: unknown): RulesConfig {
+  const raw = isRecord(value) ? value : {};
+  const ante = isRecord(raw.ante) ? raw.ante : {};
+  const uses = isRecord(raw.skillUses) ? raw.skillUses : {};
+  const base = CLASSIC_RULES;
+
+  const minChance = readNumber(ante.minChance, base.ante.minChance, 0.01, 0.5, false);
+  return {
+    targetWins: readNumber(raw.targetWins, base.targetWins, 1, 25),
+    reserveSize: readNumber(raw.reserveSize, base.reserveSize, 1, 4),
+    deckSize: readNumber(raw.deckSize, base.deckSize, 8, 30),
+    manaDivisor: readNumber(raw.manaDivisor, base.manaDivisor, 1, 10),
+    manaCap: readNumber(raw.manaCap, base.manaCap, 0, 99),
+    manaOverflow: MANA_OVERFLOW_RULES.includes(raw.manaOverflow as ManaOverflowRule)
+      ? (raw.manaOverflow as ManaOverflowRule)
+      : base.manaOverflow,
+    ante: {
+      baseOdds: readNumber(ante.baseOdds, base.ante.baseOdds, 1, 10, false),
+      initiativeEdge: readNumber(ante.initiativeEdge, base.ante.initiativeEdge, 0, 0.5, false),
+      minChance,
+      maxChance: readNumber(ante.maxChance, base.ante.maxChance, Math.max(0.5, minChance), 0.99, false),
+      minPayout: readNumber(ante.minPayout, base.ante.minPayout, 1, 10, false),
+    },
+    skillUses: Object.fromEntries(
+      (Object.keys(base.skillUses) as AbilityKind[]).map((kind) => [
+        kind,
+        readNumber(uses[kind], base.skillUses[kind], 0, 9),
+      ]),
+    ) as Record<AbilityKind, number>,
+  };
+}
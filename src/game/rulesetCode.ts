@@ -0,0 +1,137 @@
+// src/game/rulesetCode.ts
+// A ruleset is every setting a match is played by. Its share code holds only what
+// differs from the defaults, as base64url JSON behind a version prefix, so pasting
+// another player's code into mode select or the lobby reproduces their match exactly.
+import type { GameMode } from "./types.js";
+import { normalizeGameMode } from "../gameModes.js";
+import { DEFAULT_LANE_COUNT, clampLaneCount } from "./lanes.js";
+import {
+  DEFAULT_WHEEL_SET,
+  isBuiltinWheelTemplate,
+  normalizeWheelSetChoice,
+  normalizeWheelTemplates,
+  resolveWheelTemplates,
+  type WheelSetChoice,
+  type WheelTemplate,
+} from "./wheel.js";
+import { DEFAULT_SLICE0_RULE, normalizeSlice0Rule, type Slice0Rule } from "./slice0Rules.js";
+import { DEFAULT_TIE_BREAK, normalizeTieBreak, type TieBreakRule } from "./tieBreakers.js";
+import { CLASSIC_RULES, normalizeRulesConfig, type RulesConfig } from "./rules.js";
+
+export type Ruleset = {
+  gameMode: GameMode;
+  easyMode: boolean;
+  laneCount: number;
+  wheelSet: WheelSetChoice;
+  /** Custom templates the wheel set deals, so the code works where they aren't saved. */
+  templates: WheelTemplate[];
+  slice0Rule: Slice0Rule;
+  tieBreak: TieBreakRule;
+  rules: RulesConfig;
+};
+
+export const RULESET_CODE_PREFIX = "RW1-";
+
+export const DEFAULT_RULESET: Ruleset = {
+  gameMode: [],
+  easyMode: false,
+  laneCount: DEFAULT_LANE_COUNT,
+  wheelSet: DEFAULT_WHEEL_SET,
+  templates: [],
+  slice0Rule: DEFAULT_SLICE0_RULE,
+  tieBreak: DEFAULT_TIE_BREAK,
+  rules: CLASSIC_RULES,
+};
+
+/** The custom (non built-in) templates `wheelSet` deals from `library`, once each. */
+export function customTemplatesFor(
+  wheelSet: WheelSetChoice,
+  laneCount: number,
+  library: readonly WheelTemplate[],
+): WheelTemplate[] {
+  const seen = new Set<string>();
+  return resolveWheelTemplates(wheelSet, laneCount, library).filter((template) => {
+    if (isBuiltinWheelTemplate(template.id) || seen.has(template.id)) return false;
+    seen.add(template.id);
+    return true;
+  });
+}
+
+/** `library` with a ruleset's templates added, replacing any saved under the same id. */
+export function withRulesetTemplates(
+  library: readonly WheelTemplate[],
+  templates: readonly WheelTemplate[],
+): WheelTemplate[] {
+  const ids = new Set(templates.map((template) => template.id));
+  return [...library.filter((template) => !ids.has(template.id)), ...templates];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** Fields of `value` that differ from `base`; records are compared key by key, anything else whole. */
+function diff(value: unknown, base: unknown): unknown {
+  if (isRecord(value) && isRecord(base)) {
+    const out: Record<string, unknown> = {};
+    Object.keys(value).forEach((key) => {
+      const changed = diff(value[key], base[key]);
+      if (changed !== undefined) out[key] = changed;
+    });
+    return Object.keys(out).length > 0 ? out : undefined;
+  }
+  return JSON.stringify(value) === JSON.stringify(base) ? undefined : value;
+}
+
+function merge(base: unknown, patch: unknown): unknown {
+  if (patch === undefined) return base;
+  if (!isRecord(base) || !isRecord(patch)) return patch;
+  const out: Record<string, unknown> = { ...base };
+  Object.keys(patch).forEach((key) => {
+    out[key] = merge(base[key], patch[key]);
+  });
+  return out;
+}
+
+function toBase64Url(text: string): string {
+  let binary = "";
+  new TextEncoder().encode(text).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(code: string): string {
+  const base64 = code.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+export function encodeRulesetCode(ruleset: Ruleset): string {
+  return RULESET_CODE_PREFIX + toBase64Url(JSON.stringify(diff(ruleset, DEFAULT_RULESET) ?? {}));
+}
+
+/** Reads a pasted share code, returning null when it isn't one this build understands. */
+export function decodeRulesetCode(code: string): Ruleset | null {
+  const trimmed = code.replace(/\s+/g, "");
+  if (!trimmed.startsWith(RULESET_CODE_PREFIX)) return null;
+
+  let patch: unknown;
+  try {
+    patch = JSON.parse(fromBase64Url(trimmed.slice(RULESET_CODE_PREFIX.length)));
+  } catch {
+    return null;
+  }
+  if (!isRecord(patch)) return null;
+
+  const raw = merge(DEFAULT_RULESET, patch) as Record<string, unknown>;
+  return {
+    gameMode: normalizeGameMode(Array.isArray(raw.gameMode) ? (raw.gameMode as GameMode) : []),
+    easyMode: raw.easyMode === true,
+    laneCount: clampLaneCount(raw.laneCount),
+    wheelSet: normalizeWheelSetChoice(raw.wheelSet),
+    templates: normalizeWheelTemplates(raw.templates) ?? [],
+    slice0Rule: normalizeSlice0Rule(raw.slice0Rule),
+    tieBreak: normalizeTieBreak(raw.tieBreak),
+    rules: normalizeRulesConfig(raw.rules),
+  };
+}
@@ -4,13 +4,17 @@ export type AbilityKind =
   | "swapReserve"
   | "rerollReserve"
   | "boostCard"
-  | "reserveBoost";
+  | "reserveBoost"
+  | "shiftPointer"
+  | "lockWheel";
 
 export const SKILL_ABILITY_LABELS: Record<AbilityKind, string> = {
   swapReserve: "Swap Reserve",
   rerollReserve: "Reroll Reserve",
   boostCard: "Boost Card",
   reserveBoost: "Reserve Boost",
+  shiftPointer: "Shift Pointer",
+  lockWheel: "Lock Wheel",
 };
 
 function sanitizeNumber(value: unknown): number | undefined {
@@ -41,6 +45,14 @@ export function getCurrentSkillCardValue(card: Card): number | undefined {
 }
 
 export function deriveAbilityForCard(printed: number): AbilityKind {
+  if (printed === 7) {
+    return "shiftPointer";
+  }
+
+  if (printed === 9) {
+    return "lockWheel";
+  }
+
   if (printed >= 6) {
     return "reserveBoost";
   }
@@ -116,6 +128,8 @@ const ABILITY_DESCRIPTIONS: Record<AbilityKind, (card?: Card) => string> = {
       ? `Exhaust a reserve card to boost a card by it's value.`
       : "-";
   },
+  shiftPointer: () => "Shift a wheel's pointer 1 slice ahead this round.",
+  lockWheel: () => "Lock a wheel so its token doesn't move this round.",
 };
 
 export function describeSkillAbility(kind: AbilityKind, card?: Card): string {
@@ -0,0 +1,53 @@
+// src/game/slice0Rules.ts
+// What landing on slice 0 means when the wheel has no section there. The rule is a
+// match setting; the resolver, the round summary and the CPU all read it from here.
+
+export type Slice0Rule = "noWin" | "jackpot" | "reversal" | "carryOver";
+
+export type Slice0RuleDef = {
+  id: Slice0Rule;
+  label: string;
+  icon: string;
+  description: string;
+};
+
+export const SLICE0_RULES: Record<Slice0Rule, Slice0RuleDef> = {
+  noWin: {
+    id: "noWin",
+    label: "No win",
+    icon: "∅",
+    description: "Nobody wins the wheel.",
+  },
+  jackpot: {
+    id: "jackpot",
+    label: "Jackpot",
+    icon: "💰",
+    description: "The higher card wins the wheel for two wins.",
+  },
+  reversal: {
+    id: "reversal",
+    label: "Sudden reversal",
+    icon: "🔄",
+    description: "Nobody wins the wheel and initiative flips.",
+  },
+  carryOver: {
+    id: "carryOver",
+    label: "Carry-over",
+    icon: "⏩",
+    description: "Nobody wins the wheel; its win rolls into the next round.",
+  },
+};
+
+export const DEFAULT_SLICE0_RULE: Slice0Rule = "noWin";
+
+export function listSlice0Rules(): Slice0RuleDef[] {
+  return Object.values(SLICE0_RULES);
+}
+
+export function isSlice0Rule(value: unknown): value is Slice0Rule {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(SLICE0_RULES, value);
+}
+
+export function normalizeSlice0Rule(value: unknown): Slice0Rule {
+  return isSlice0Rule(value) ? value : DEFAULT_SLICE0_RULE;
+}
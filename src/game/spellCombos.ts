@@ -0,0 +1,129 @@
+// src/game/spellCombos.ts
+// Combo chains: spells of the right arcana resolved one after another in the same
+// phase set off a bonus. Chains are kept in the spell runtime state and advanced as
+// the stack settles, so both clients see the same combos without sending them.
+import type { Arcana, LegacySide } from "./types.js";
+import type { SpellEffectPayload } from "./spellEngine.js";
+import { getSpellById } from "./spells.js";
+
+export type SpellCombo = {
+  id: string;
+  name: string;
+  /** Arcana of the spells, in the order they must resolve. */
+  sequence: Arcana[];
+  description: string;
+  bonus: {
+    /** Taken from the opponent's reserve. */
+    drain?: number;
+    draw?: number;
+    initiative?: boolean;
+  };
+};
+
+export const SPELL_COMBOS: SpellCombo[] = [
+  {
+    id: "searingEdge",
+    name: "Searing Edge",
+    sequence: ["fire", "blade"],
+    description: "Drain 2 from the opponent's reserve.",
+    bonus: { drain: 2 },
+  },
+  {
+    id: "foresight",
+    name: "Foresight",
+    sequence: ["eye", "moon"],
+    description: "Draw a card.",
+    bonus: { draw: 1 },
+  },
+  {
+    id: "coilingTide",
+    name: "Coiling Tide",
+    sequence: ["moon", "serpent"],
+    description: "Gain Initiative.",
+    bonus: { initiative: true },
+  },
+];
+
+const LONGEST_COMBO = Math.max(...SPELL_COMBOS.map((combo) => combo.sequence.length));
+
+/** Arcana of the spells each side has resolved this phase, oldest first. */
+export type SpellComboState = {
+  round: number;
+  phase: string;
+  chains: Record<LegacySide, Arcana[]>;
+};
+
+export type SpellComboMoment = { round: number; phase: string };
+
+export const createSpellComboState = (at: SpellComboMoment = { round: 0, phase: "" }): SpellComboState => ({
+  ...at,
+  chains: { player: [], enemy: [] },
+});
+
+/** The arcana a spell counts as in a chain: that of its first requirement. */
+export function getSpellArcana(spellId: string): Arcana | null {
+  return getSpellById(spellId)?.requirements[0]?.arcana ?? null;
+}
+
+/** `side`'s chain at `at`; empty once the phase or round has moved on. */
+export function getComboChain(state: SpellComboState | undefined, side: LegacySide, at: SpellComboMoment): Arcana[] {
+  if (!state || state.round !== at.round || state.phase !== at.phase) return [];
+  return state.chains[side];
+}
+
+/** The combo `arcana` completes when cast after `chain`, if any. */
+export function findComboFinish(chain: readonly Arcana[], arcana: Arcana): SpellCombo | null {
+  const next = [...chain, arcana];
+  return (
+    SPELL_COMBOS.find((combo) => {
+      const tail = next.slice(-combo.sequence.length);
+      return tail.length === combo.sequence.length && tail.every((entry, i) => entry === combo.sequence[i]);
+    }) ?? null
+  );
+}
+
+/** Combos `chain` is partway into, each with the arcana it needs next. */
+export function getComboProgress(chain: readonly Arcana[]): Array<{ combo: SpellCombo; next: Arcana }> {
+  const progress: Array<{ combo: SpellCombo; next: Arcana }> = [];
+  SPELL_COMBOS.forEach((combo) => {
+    for (let done = Math.min(chain.length, combo.sequence.length - 1); done > 0; done -= 1) {
+      const tail = chain.slice(-done);
+      if (tail.every((entry, i) => entry === combo.sequence[i])) {
+        progress.push({ combo, next: combo.sequence[done]! });
+        return;
+      }
+    }
+  });
+  return progress;
+}
+
+/**
+ * Adds a resolved spell to its caster's chain. A finished combo is returned and
+ * clears the chain, so one spell never sets off two combos.
+ */
+export function advanceSpellCombo(
+  state: SpellComboState | undefined,
+  side: LegacySide,
+  spellId: string,
+  at: SpellComboMoment,
+): { state: SpellComboState; combo: SpellCombo | null } {
+  const current = state && state.round === at.round && state.phase === at.phase ? state : createSpellComboState(at);
+  const arcana = getSpellArcana(spellId);
+  if (!arcana) return { state: current, combo: null };
+  const combo = findComboFinish(current.chains[side], arcana);
+  const chain = combo ? [] : [...current.chains[side], arcana].slice(-(LONGEST_COMBO - 1));
+  return { state: { ...current, chains: { ...current.chains, [side]: chain } }, combo };
+}
+
+/** What a finished combo does for `side`. */
+export function comboBonusPayload(combo: SpellCombo, side: LegacySide, casterName: string): SpellEffectPayload {
+  const opponent: LegacySide = side === "player" ? "enemy" : "player";
+  const payload: SpellEffectPayload = {
+    caster: side,
+    logMessages: [`${casterName} chains a ${combo.name} combo: ${combo.description}`],
+  };
+  if (combo.bonus.drain) payload.reserveDrains = [{ side: opponent, amount: combo.bonus.drain }];
+  if (combo.bonus.draw) payload.drawCards = [{ side, count: combo.bonus.draw }];
+  if (combo.bonus.initiative) payload.initiative = side;
+  return payload;
+}
@@ -0,0 +1,452 @@
+// src/game/spellData.ts
+// The built-in spells, written in the declarative spell format (see spellSpec.ts).
+// Everything here is plain JSON, so a spell can be tuned, or a new one tried, by
+// editing data; loadSpellSpecs accepts the same shape as JSON text.
+import type { SpellSpec } from "./spellSpec.js";
+
+export const SPELL_SPECS: SpellSpec[] = [
+  {
+    id: "fireball",
+    name: "Fireball",
+    icon: "🔥",
+    description: "Damage a card by 2\n+🔥: Boost spell by 🔥.",
+    targetSummary: "Target: Enemy card (+optional 🔥)",
+    cost: 2,
+    allowedPhases: ["roundEnd", "showEnemy"],
+    requirements: [{ arcana: "fire", symbols: 1 }],
+    targets: [
+      { type: "card", ownership: "enemy", location: "board", label: "Enemy card" },
+      { type: "card", ownership: "ally", location: "any", arcana: "fire", label: "Optional 🔥 card", optional: true },
+    ],
+    effects: [
+      { type: "log", text: "{caster} scorches {0} with a Fireball." },
+      { type: "adjustCard", target: 0, amount: { neg: { sum: [{ rank: [2, 3] }, { value: 1 }] } } },
+    ],
+    ranks: [
+      { description: "Damage by 3." },
+      {
+        description: "Costs 1. Scorch a second enemy card by 1.",
+        cost: 1,
+        targets: [{ type: "card", ownership: "enemy", location: "board", label: "Optional second enemy card", optional: true }],
+        effects: [{ type: "adjustCard", target: 2, amount: -1 }],
+      },
+    ],
+  },
+  {
+    id: "iceShard",
+    name: "Ice Shard",
+    icon: "🗡️",
+    description: "Freeze a card\n+🗡️: Add another freeze stack.",
+    targetSummary: "Target: Enemy card (+optional 🗡️)",
+    cost: 1,
+    allowedPhases: ["roundEnd", "showEnemy"],
+    requirements: [{ arcana: "blade", symbols: 1 }],
+    targets: [
+      { type: "card", ownership: "enemy", location: "board", label: "Enemy card" },
+      { type: "card", ownership: "ally", location: "any", arcana: "blade", label: "Optional 🗡️ card", optional: true },
+    ],
+    effects: [
+      { type: "log", text: "{caster} encases {0} in razor ice." },
+      { type: "chill", target: 0, stacks: { sum: [{ rank: [1, 1, 2] }, { if: { picked: 1 }, then: 1 }] } },
+    ],
+    ranks: [
+      {
+        description: "Freeze a second enemy card.",
+        targets: [{ type: "card", ownership: "enemy", location: "board", label: "Optional second enemy card", optional: true }],
+        effects: [{ type: "chill", target: 2, stacks: 1 }],
+      },
+      { description: "The first card freezes for another round." },
+    ],
+  },
+  {
+    id: "mirrorImage",
+    name: "Mirror Image",
+    icon: "👁️",
+    description: "Copy an opposing card's value\n+👁️: Increase by 👁️ value.",
+    targetSummary: "Target: Ally card (+optional 👁️ from reserve)",
+    cost: 4,
+    allowedPhases: ["roundEnd", "showEnemy"],
+    cooldown: 1,
+    requirements: [{ arcana: "eye", symbols: 1 }],
+    targets: [
+      { type: "card", ownership: "ally", location: "board", label: "Your card" },
+      { type: "card", ownership: "ally", location: "hand", arcana: "eye", label: "Optional 👁️ in reserve", optional: true },
+    ],
+    requires: [0],
+    effects: [
+      { type: "log", text: "{caster} reflects {0} into its foe." },
+      { type: "mirrorCopy", target: 0 },
+      { type: "adjustCard", target: 0, amount: { value: 1 } },
+    ],
+  },
+  {
+    id: "arcaneShift",
+    name: "Arcane Shift",
+    icon: "🌒",
+    description: "Advance a wheel by 1\n+🌒: Boost spell by 🌒.",
+    targetSummary: "Target: Active wheel (+optional 🌒)",
+    cost: 3,
+    allowedPhases: ["roundEnd", "showEnemy", "anim"],
+    requirements: [{ arcana: "moon", symbols: 1 }],
+    targets: [
+      { type: "wheel", scope: "current", label: "Wheel" },
+      { type: "card", ownership: "ally", location: "any", arcana: "moon", label: "Optional 🌒 card", optional: true },
+    ],
+    effects: [
+      { type: "log", text: "{caster} empowers {0} with arcane momentum." },
+      { type: "moveToken", target: 0, amount: { sum: [1, { value: 1 }] } },
+    ],
+  },
+  {
+    id: "hex",
+    name: "Hex",
+    icon: "🐍",
+    description: "Damage opponent's reserve by 2\n+🐍: Boost spell by 🐍.",
+    targetSummary: "Target: Enemy card (+optional 🐍)",
+    cost: 4,
+    allowedPhases: ["roundEnd", "showEnemy"],
+    requirements: [{ arcana: "serpent", symbols: 1 }],
+    targets: [
+      { type: "card", ownership: "enemy", location: "board", label: "Enemy card" },
+      { type: "card", ownership: "ally", location: "any", arcana: "serpent", label: "Optional 🐍 card", optional: true },
+    ],
+    effects: [
+      { type: "log", text: "{caster} drains their foe’s reserve with a wicked hex." },
+      { type: "drainReserve", target: 0, amount: { sum: [{ rank: [2, 3] }, { value: 1 }] } },
+    ],
+    ranks: [{ description: "Drain 3." }, { description: "Costs 3.", cost: 3 }],
+  },
+  {
+    id: "timeTwist",
+    name: "Time Twist",
+    icon: "⏳",
+    description: "Discard a card to gain Initiative\n–👁️: Draw 1 if discarded card is 👁️.",
+    targetSummary: "Target: Your reserve card",
+    cost: 5,
+    allowedPhases: ["choose", "roundEnd"],
+    cooldown: 2,
+    requirements: [{ arcana: "eye", symbols: 1 }],
+    targets: [{ type: "card", ownership: "ally", location: "hand", label: "Discard from reserve" }],
+    effects: [
+      { type: "log", text: "{caster} bends time around themselves." },
+      { type: "gainInitiative" },
+      { type: "draw", count: 1, when: { arcana: 0, is: "eye" } },
+      { type: "discard", target: 0 },
+    ],
+  },
+  {
+    id: "kindle",
+    name: "Kindle",
+    icon: "🔥",
+    description: "Increase a card by 2\n+🔥: Boost by 🔥.",
+    targetSummary: "Target: Your card (+optional 🔥)",
+    cost: 2,
+    allowedPhases: ["choose", "roundEnd", "showEnemy"],
+    requirements: [{ arcana: "fire", symbols: 1 }],
+    targets: [
+      { type: "card", ownership: "ally", location: "any", label: "Your card" },
+      { type: "card", ownership: "ally", location: "any", arcana: "fire", label: "Optional 🔥 card", optional: true },
+    ],
+    effects: [
+      { type: "log", text: "{caster} fans the flames of {0}." },
+      { type: "adjustCard", target: 0, amount: { sum: [{ rank: [2, 3] }, { value: 1 }] } },
+    ],
+    ranks: [{ description: "Increase by 3." }, { description: "Costs 1.", cost: 1 }],
+  },
+  {
+    id: "suddenStrike",
+    name: "Sudden Strike",
+    icon: "🗡️",
+    description: "Duel. If you win, gain Initiative\n–🗡️: Win on tie.",
+    targetSummary: "Target: Your committed card",
+    cost: 6,
+    allowedPhases: ["roundEnd", "showEnemy"],
+    ultimate: true,
+    requirements: [{ arcana: "blade", symbols: 1 }],
+    targets: [{ type: "card", ownership: "ally", location: "board", label: "Your card" }],
+    effects: [
+      { type: "log", text: "{caster} lashes out with a sudden strike from {0}." },
+      { type: "initiativeDuel", target: 0, mode: "higher", winOnTie: { arcana: 0, is: "blade" } },
+    ],
+  },
+  {
+    id: "leech",
+    name: "Leech",
+    icon: "🐍",
+    description: "Drain value from an adjacent to selected card\n+🐍: Damage reserve by 🐍.",
+    targetSummary: "Targets: Your card → adjacent (+optional 🐍)",
+    cost: 4,
+    allowedPhases: ["roundEnd", "showEnemy"],
+    requirements: [{ arcana: "serpent", symbols: 2 }],
+    targets: [
+      { type: "card", ownership: "ally", location: "board", label: "Your card" },
+      { type: "card", ownership: "any", location: "board", adjacentToPrevious: true, label: "Adjacent card" },
+      { type: "card", ownership: "ally", location: "any", arcana: "serpent", label: "Optional 🐍 card", optional: true },
+    ],
+    requires: [0, 1],
+    effects: [
+      { type: "adjustCard", target: 0, amount: { value: 1 } },
+      { type: "adjustCard", target: 1, amount: { neg: { value: 1 } } },
+      { type: "drainReserve", amount: { value: 2 } },
+      { type: "log", text: "{caster} siphons power between {0} and its neighbor." },
+    ],
+  },
+  {
+    id: "crosscut",
+    name: "Crosscut",
+    icon: "🗡️",
+    description: "Duel. Damage opponent's reserve by difference\n–🗡️: Boost 🗡️ card by difference.",
+    targetSummary: "Targets: Your reserve (+optional 🗡️ in play)",
+    cost: 4,
+    allowedPhases: ["choose", "roundEnd"],
+    requirements: [{ arcana: "blade", symbols: 2 }],
+    targets: [
+      { type: "card", ownership: "ally", location: "hand", label: "Your reserve card" },
+      { type: "card", ownership: "ally", location: "board", arcana: "blade", label: "🗡️ card in play", optional: true },
+    ],
+    requires: [0],
+    let: { difference: { diff: [{ value: 0 }, { value: "opponentReserve" }] } },
+    effects: [
+      {
+        type: "log",
+        when: { not: { picked: "opponentReserve" } },
+        text: "{caster} reveals {0} with Crosscut, but {opponent} has no reserve to reveal.",
+      },
+      {
+        type: "log",
+        when: { picked: "opponentReserve" },
+        text: "{caster} crosscuts {0} against {opponentReserve}, revealing a difference of {difference}.",
+      },
+      { type: "drainReserve", target: "opponentReserve", amount: { var: "difference" } },
+      { type: "adjustCard", target: 1, amount: { var: "difference" }, when: { picked: "opponentReserve" } },
+    ],
+  },
+  {
+    id: "offering",
+    name: "Offering",
+    icon: "🔥",
+    description: "Discard a card. Fortify by its value\n–🔥: Double if 🔥.",
+    targetSummary: "Targets: Your committed → reserve to discard",
+    cost: 4,
+    allowedPhases: ["choose", "roundEnd"],
+    requirements: [{ arcana: "fire", symbols: 2 }],
+    targets: [
+      { type: "card", ownership: "ally", location: "board", label: "Your committed card" },
+      { type: "card", ownership: "ally", location: "hand", label: "Reserve to discard" },
+    ],
+    requires: [0, 1],
+    effects: [
+      { type: "log", text: "{caster} offers {1} to empower {0}." },
+      {
+        type: "adjustCard",
+        target: 0,
+        amount: { if: { arcana: 1, is: "fire" }, then: { times: [2, { value: 1 }] }, else: { value: 1 } },
+      },
+      { type: "discard", target: 1 },
+    ],
+  },
+  {
+    id: "phantom",
+    name: "Phantom",
+    icon: "🌒",
+    description: "Swap a card with another in play\n-🌒: With a reserve.",
+    targetSummary: "Targets: Two committed (reserve if first 🌒)",
+    cost: 3,
+    allowedPhases: ["roundEnd", "showEnemy"],
+    requirements: [{ arcana: "moon", symbols: 2 }],
+    targets: [
+      { type: "card", ownership: "ally", location: "board", label: "Committed card A" },
+      { type: "card", ownership: "ally", location: "any", label: "Committed card B (or reserve if first 🌒)" },
+    ],
+    requires: [0, 1],
+    effects: [
+      {
+        type: "log",
+        when: { all: [{ location: 1, is: "hand" }, { arcana: 0, is: "moon" }] },
+        text: "{caster} phases {0} with {1} from reserve.",
+      },
+      { type: "log", when: { not: { location: 1, is: "hand" } }, text: "{caster} phases {0} with {1}." },
+      {
+        type: "swapLanes",
+        first: 0,
+        second: 1,
+        when: { any: [{ not: { location: 1, is: "hand" } }, { arcana: 0, is: "moon" }] },
+      },
+    ],
+  },
+  {
+    id: "anchor",
+    name: "Anchor",
+    icon: "🌒",
+    description: "Lock a wheel so its token doesn't move this round\n+🗡️: Also pull its pointer back 1.",
+    targetSummary: "Target: Any wheel (+optional 🗡️)",
+    cost: 3,
+    allowedPhases: ["choose", "roundEnd", "showEnemy"],
+    requirements: [{ arcana: "moon", symbols: 1 }],
+    targets: [
+      { type: "wheel", scope: "any", label: "Wheel" },
+      { type: "card", ownership: "ally", location: "any", arcana: "blade", label: "Optional 🗡️ card", optional: true },
+    ],
+    requires: [0],
+    effects: [
+      { type: "log", text: "{caster} drops an anchor on {0}." },
+      { type: "lockWheel", target: 0 },
+      { type: "shiftPointer", target: 0, amount: -1, when: { picked: 1 } },
+    ],
+  },
+  {
+    id: "misdirect",
+    name: "Misdirect",
+    icon: "🐍",
+    description: "Shift a wheel's pointer back 1\n+🐍: Shift by 🐍 more.",
+    targetSummary: "Target: Any wheel (+optional 🐍)",
+    cost: 2,
+    allowedPhases: ["choose", "roundEnd", "showEnemy"],
+    requirements: [{ arcana: "serpent", symbols: 1 }],
+    targets: [
+      { type: "wheel", scope: "any", label: "Wheel" },
+      { type: "card", ownership: "ally", location: "any", arcana: "serpent", label: "Optional 🐍 card", optional: true },
+    ],
+    requires: [0],
+    effects: [
+      { type: "log", text: "{caster} twists the pointer on {0}." },
+      { type: "shiftPointer", target: 0, amount: { neg: { sum: [1, { max: [0, { value: 1 }] }] } } },
+    ],
+  },
+  {
+    id: "reshape",
+    name: "Reshape",
+    icon: "🧭",
+    description: "Widen a wheel section by 1 slice\n+👁️: Also re-roll its target.",
+    targetSummary: "Target: Any wheel section (+optional 👁️)",
+    cost: 3,
+    allowedPhases: ["choose", "roundEnd", "showEnemy"],
+    requirements: [{ arcana: "eye", symbols: 1 }],
+    targets: [
+      { type: "section", scope: "any", label: "Wheel section" },
+      { type: "card", ownership: "ally", location: "any", arcana: "eye", label: "Optional 👁️ card", optional: true },
+    ],
+    requires: [0],
+    effects: [
+      { type: "log", text: "{caster} reshapes {0}." },
+      { type: "rewriteSection", target: 0, resize: 1 },
+      { type: "rewriteSection", target: 0, reroll: true, when: { picked: 1 } },
+    ],
+  },
+  {
+    id: "transmute",
+    name: "Transmute",
+    icon: "🎲",
+    description: "Turn a wheel section into a random condition\n+🐍: Also widen it by 1 slice.",
+    targetSummary: "Target: Any wheel section (+optional 🐍)",
+    cost: 3,
+    allowedPhases: ["choose", "roundEnd", "showEnemy"],
+    requirements: [{ arcana: "eye", symbols: 1 }],
+    targets: [
+      { type: "section", scope: "any", label: "Wheel section" },
+      { type: "card", ownership: "ally", location: "any", arcana: "serpent", label: "Optional 🐍 card", optional: true },
+    ],
+    requires: [0],
+    effects: [
+      { type: "log", text: "{caster} transmutes {0}." },
+      { type: "rewriteSection", target: 0, condition: "random" },
+      { type: "rewriteSection", target: 0, resize: 1, when: { picked: 1 } },
+    ],
+  },
+  {
+    id: "loadedDie",
+    name: "Loaded Die",
+    icon: "🎯",
+    description: "Re-roll the target of a target section\n+👁️: Widen it by 👁️.",
+    targetSummary: "Target: Closest-to-target or exact-sum section (+optional 👁️)",
+    cost: 2,
+    allowedPhases: ["choose", "roundEnd", "showEnemy"],
+    requirements: [{ arcana: "eye", symbols: 1 }],
+    targets: [
+      { type: "section", scope: "any", conditions: ["ClosestToTarget", "ExactSum"], label: "Target section" },
+      { type: "card", ownership: "ally", location: "any", arcana: "eye", label: "Optional 👁️ card", optional: true },
+    ],
+    requires: [0],
+    effects: [
+      { type: "log", text: "{caster} loads the die on {0}." },
+      { type: "rewriteSection", target: 0, reroll: true },
+      { type: "rewriteSection", target: 0, resize: { value: 1 }, when: { picked: 1 } },
+    ],
+  },
+  {
+    id: "unravel",
+    name: "Unravel",
+    icon: "🧵",
+    description: "Narrow a wheel section by 1 slice and drain 1 from the foe's reserve\n+🐍: Drain more by 🐍.",
+    targetSummary: "Target: Any wheel section (+optional 🐍)",
+    cost: 3,
+    allowedPhases: ["choose", "roundEnd", "showEnemy"],
+    requirements: [{ arcana: "serpent", symbols: 1 }],
+    targets: [
+      { type: "section", scope: "any", label: "Wheel section" },
+      { type: "card", ownership: "ally", location: "any", arcana: "serpent", label: "Optional 🐍 card", optional: true },
+    ],
+    requires: [0],
+    effects: [
+      { type: "log", text: "{caster} unravels {0}." },
+      { type: "rewriteSection", target: 0, resize: -1 },
+      { type: "drainReserve", amount: { sum: [1, { value: 1 }] } },
+    ],
+  },
+  {
+    id: "palmCard",
+    name: "Palm Card",
+    icon: "🃏",
+    description: "Increase a reserve card by 2\n+🔥: Also draw 1.",
+    targetSummary: "Target: Your reserve card (+optional 🔥)",
+    cost: 2,
+    allowedPhases: ["choose", "roundEnd"],
+    requirements: [{ arcana: "blade", symbols: 1 }],
+    targets: [
+      { type: "card", ownership: "ally", location: "hand", label: "Your reserve card" },
+      { type: "card", ownership: "ally", location: "any", arcana: "fire", label: "Optional 🔥 card", optional: true },
+    ],
+    effects: [
+      { type: "log", text: "{caster} palms {0} and weights it." },
+      { type: "adjustCard", target: 0, amount: 2 },
+      { type: "draw", count: 1, when: { picked: 1 } },
+    ],
+  },
+  {
+    id: "counterspell",
+    name: "Counterspell",
+    icon: "🚫",
+    description: "Reaction: Cancel the spell just cast.",
+    targetSummary: "Reaction to the other side's spell",
+    cost: 4,
+    reaction: "counter",
+    cooldown: 2,
+    requirements: [{ arcana: "eye", symbols: 1 }],
+    targets: [{ type: "none" }],
+    effects: [{ type: "log", text: "{caster} unravels {opponent}'s spell with a Counterspell." }],
+  },
+  {
+    id: "dampen",
+    name: "Dampen",
+    icon: "🌫️",
+    description: "Reaction: Halve the numbers of the spell just cast.",
+    targetSummary: "Reaction to the other side's spell",
+    cost: 2,
+    reaction: "reduce",
+    requirements: [{ arcana: "moon", symbols: 1 }],
+    targets: [{ type: "none" }],
+    effects: [{ type: "log", text: "{caster} dampens {opponent}'s spell." }],
+  },
+  {
+    id: "deflect",
+    name: "Deflect",
+    icon: "🪞",
+    description: "Reaction: Turn the drains, draws and initiative of the spell just cast back on its caster.",
+    targetSummary: "Reaction to the other side's spell",
+    cost: 3,
+    reaction: "redirect",
+    requirements: [{ arcana: "blade", symbols: 1 }],
+    targets: [{ type: "none" }],
+    effects: [{ type: "log", text: "{caster} deflects {opponent}'s spell back at them." }],
+  },
+];
@@ -1,13 +1,10 @@
-import { SLICES } from "./types.js";
-import type { Fighter } from "./types.js";
-import {
-  applyCardStatAdjustments,
-  applyChilledCardUpdates,
-} from "../features/threeWheel/utils/spellEffectTransforms.js";
+import type { Fighter, Section } from "./types.js";
+import { applyWheelSectionEdit, sectionLength, sliceCountAt } from "./wheel.js";
+import { getVictoryCondition } from "./victoryConditions.js";
+import { applyStatusEffects, type StatusEffect } from "./statusEffects.js";
+import { applyCardStatAdjustments } from "../features/threeWheel/utils/spellEffectTransforms.js";
 import type {
   CardStatAdjustment,
-  ChilledCardUpdate,
-  LaneChillStacks,
   LegacySide,
   SpellEffectPayload,
 } from "../features/threeWheel/utils/spellEffectTransforms.js";
@@ -31,8 +28,8 @@ export type SpellEffectApplicationContext<CardT> = {
   assignSnapshot: AssignmentState<CardT>;
   updateAssignments: (updater: (prev: AssignmentState<CardT>) => AssignmentState<CardT>) => void;
   updateReserveSums: (updater: (prev: ReserveState | null) => ReserveState | null) => void;
-  updateTokens: (updater: (prev: [number, number, number]) => [number, number, number]) => void;
-  updateLaneChillStacks: (updater: (prev: LaneChillStacks) => LaneChillStacks) => void;
+  updateTokens: (updater: (prev: number[]) => number[]) => void;
+  updateStatusEffects: (updater: (prev: StatusEffect[]) => StatusEffect[]) => void;
   setInitiative: (side: LegacySide) => void;
   appendLog: (message: string, options?: { type?: "general" | "spell" }) => void;
   initiative: LegacySide;
@@ -40,8 +37,13 @@ export type SpellEffectApplicationContext<CardT> = {
   broadcastEffects?: (payload: SpellEffectPayload) => void;
   updateTokenVisual?: (wheelIndex: number, value: number) => void;
   applyReservePenalty?: (side: LegacySide, amount: number) => void;
-  startingTokens?: [number, number, number];
-  updateRoundStartTokens?: (tokens: [number, number, number]) => void;
+  startingTokens?: number[];
+  updateRoundStartTokens?: (tokens: number[]) => void;
+  updateWheelLocks?: (updater: (prev: boolean[]) => boolean[]) => void;
+  updatePointerShifts?: (updater: (prev: number[]) => number[]) => void;
+  updateWheelSections?: (updater: (prev: Section[][]) => Section[][]) => void;
+  /** Slice count of each wheel; wheels without an entry have 16. */
+  wheelSlices?: readonly number[];
   updateFighter: (side: LegacySide, updater: (fighter: Fighter) => Fighter) => void;
 };
 
@@ -63,13 +65,16 @@ export function getCardValue(card: CardLikeWithValues | null | undefined): numbe
 
 export function computeWheelTokenTargets<CardT extends { id: string }>(
   assignState: AssignmentState<CardT>,
-): [number, number, number] {
-  const next: [number, number, number] = [0, 0, 0];
-  for (let i = 0; i < 3; i++) {
+  wheelSlices?: readonly number[],
+): number[] {
+  const laneCount = Math.max(assignState.player.length, assignState.enemy.length);
+  const next: number[] = [];
+  for (let i = 0; i < laneCount; i++) {
     const playerValue = getCardValue(assignState.player[i] as CardLikeWithValues | null);
     const enemyValue = getCardValue(assignState.enemy[i] as CardLikeWithValues | null);
     const total = playerValue + enemyValue;
-    const normalized = ((total % SLICES) + SLICES) % SLICES;
+    const slices = sliceCountAt(wheelSlices, i);
+    const normalized = ((total % slices) + slices) % slices;
     next[i] = normalized;
   }
   return next;
@@ -78,7 +83,8 @@ export function computeWheelTokenTargets<CardT extends { id: string }>(
 type MirrorCopyContext<CardT extends { id: string }> = {
   assignSnapshot: AssignmentState<CardT>;
   updateAssignments: (updater: (prev: AssignmentState<CardT>) => AssignmentState<CardT>) => void;
-  previewTokenTargets: (targets: [number, number, number]) => void;
+  previewTokenTargets: (targets: number[]) => void;
+  wheelSlices?: readonly number[];
 };
 
 export function handleMirrorCopyEffects<CardT extends { id: string }>(
@@ -149,7 +155,7 @@ export function handleMirrorCopyEffects<CardT extends { id: string }>(
   }
 
   if (mirrorUpdatedAssignments) {
-    const nextTokenSteps = computeWheelTokenTargets(mirrorUpdatedAssignments);
+    const nextTokenSteps = computeWheelTokenTargets(mirrorUpdatedAssignments, context.wheelSlices);
     context.previewTokenTargets(nextTokenSteps);
     latestAssignments = mirrorUpdatedAssignments;
   }
@@ -158,9 +164,10 @@ export function handleMirrorCopyEffects<CardT extends { id: string }>(
 }
 
 type WheelTokenContext = {
-  updateTokens: (updater: (prev: [number, number, number]) => [number, number, number]) => void;
+  updateTokens: (updater: (prev: number[]) => number[]) => void;
   updateTokenVisual?: (wheelIndex: number, value: number) => void;
-  updateRoundStartTokens?: (tokens: [number, number, number]) => void;
+  updateRoundStartTokens?: (tokens: number[]) => void;
+  wheelSlices?: readonly number[];
 };
 
 export function handleWheelTokenAdjustments(
@@ -170,7 +177,7 @@ export function handleWheelTokenAdjustments(
   if (!adjustments?.length) return [];
 
   const tokenUpdates = new Map<number, number>();
-  let persistedTokens: [number, number, number] | null = null;
+  let persistedTokens: number[] | null = null;
   context.updateTokens((prev) => {
     let next = prev;
     let changed = false;
@@ -181,16 +188,17 @@ export function handleWheelTokenAdjustments(
       if (!Number.isInteger(idx) || idx < 0 || idx >= prev.length) return;
       const current = next === prev ? prev[idx] : next[idx];
       const raw = current + adjustment.amount;
-      const updated = ((raw % SLICES) + SLICES) % SLICES;
+      const slices = sliceCountAt(context.wheelSlices, idx);
+      const updated = ((raw % slices) + slices) % slices;
       if (updated === current) return;
-      if (!changed) next = [...prev] as [number, number, number];
+      if (!changed) next = [...prev];
       next[idx] = updated;
       changed = true;
       tokenUpdates.set(idx, updated);
     });
 
     if (!changed) return prev;
-    persistedTokens = next as [number, number, number];
+    persistedTokens = next;
     return next;
   });
 
@@ -205,6 +213,106 @@ export function handleWheelTokenAdjustments(
   return [];
 }
 
+export function handleWheelLocks(
+  locks: SpellEffectPayload["wheelLocks"],
+  context: { updateWheelLocks?: (updater: (prev: boolean[]) => boolean[]) => void },
+): SpellEffectLogEntry[] {
+  if (!locks?.length || !context.updateWheelLocks) return [];
+
+  const locked: number[] = [];
+  context.updateWheelLocks((prev) => {
+    let next = prev;
+    locks.forEach((lock) => {
+      const idx = lock?.wheelIndex;
+      if (!Number.isInteger(idx) || idx < 0 || idx >= prev.length || next[idx]) return;
+      if (next === prev) next = [...prev];
+      next[idx] = true;
+      locked.push(idx);
+    });
+    return next;
+  });
+
+  return locked.map((idx) => ({ message: `Wheel ${idx + 1} is locked this round.` }));
+}
+
+export function handlePointerShifts(
+  shifts: SpellEffectPayload["pointerShifts"],
+  context: {
+    updatePointerShifts?: (updater: (prev: number[]) => number[]) => void;
+    wheelSlices?: readonly number[];
+  },
+): SpellEffectLogEntry[] {
+  if (!shifts?.length || !context.updatePointerShifts) return [];
+
+  const logEntries: SpellEffectLogEntry[] = [];
+  context.updatePointerShifts((prev) => {
+    let next = prev;
+    shifts.forEach((shift) => {
+      if (!shift || typeof shift.amount !== "number" || !Number.isFinite(shift.amount)) return;
+      const idx = shift.wheelIndex;
+      if (!Number.isInteger(idx) || idx < 0 || idx >= prev.length || shift.amount === 0) return;
+      const slices = sliceCountAt(context.wheelSlices, idx);
+      const raw = (next[idx] ?? 0) + Math.round(shift.amount);
+      // Keep the offset within half a turn so "2 back" doesn't read as "14 ahead".
+      const wrapped = ((raw % slices) + slices) % slices;
+      const updated = wrapped > slices / 2 ? wrapped - slices : wrapped;
+      if (next === prev) next = [...prev];
+      next[idx] = updated;
+      logEntries.push({
+        message: `Wheel ${idx + 1}'s pointer now reads ${Math.abs(updated)} slice${Math.abs(updated) === 1 ? "" : "s"} ${
+          updated < 0 ? "behind" : "ahead of"
+        } the token.`,
+      });
+    });
+    return next;
+  });
+
+  return logEntries;
+}
+
+const conditionLabel = (section: Section) => getVictoryCondition(section.id)?.label ?? section.id;
+
+export function handleWheelSectionEdits(
+  edits: SpellEffectPayload["wheelSectionEdits"],
+  context: {
+    updateWheelSections?: (updater: (prev: Section[][]) => Section[][]) => void;
+    wheelSlices?: readonly number[];
+  },
+): SpellEffectLogEntry[] {
+  if (!edits?.length || !context.updateWheelSections) return [];
+
+  const logEntries: SpellEffectLogEntry[] = [];
+  context.updateWheelSections((prev) => {
+    let next = prev;
+    edits.forEach((edit) => {
+      const idx = edit?.wheelIndex;
+      if (!Number.isInteger(idx) || idx < 0 || idx >= prev.length) return;
+      const slices = sliceCountAt(context.wheelSlices, idx);
+      const sections = next[idx] ?? [];
+      const updated = applyWheelSectionEdit(sections, edit, slices);
+      if (updated === sections) return;
+      if (next === prev) next = [...prev];
+      next[idx] = updated;
+
+      const before = sections[edit.sectionIndex];
+      const after = updated[edit.sectionIndex];
+      const name = `Wheel ${idx + 1}'s ${conditionLabel(before)} section`;
+      if (edit.kind === "recolor") {
+        logEntries.push({ message: `${name} turns ${conditionLabel(after)}.` });
+      } else if (edit.kind === "resize") {
+        const length = sectionLength(after, slices);
+        const verb = length > sectionLength(before, slices) ? "widens" : "narrows";
+        logEntries.push({ message: `${name} ${verb} to ${length} slice${length === 1 ? "" : "s"}.` });
+      } else {
+        logEntries.push({ message: `${name} now aims at ${after.target}.` });
+      }
+    });
+    return next;
+  });
+
+  return logEntries;
+}
+
 type ReserveDrainContext = {
   updateReserveSums: (updater: (prev: ReserveState | null) => ReserveState | null) => void;
   applyReservePenalty?: (side: LegacySide, amount: number) => void;
@@ -250,7 +358,8 @@ export function handleReserveDrains(
 
 type CardAdjustmentContext<CardT extends { id: string }> = {
   updateAssignments: (updater: (prev: AssignmentState<CardT>) => AssignmentState<CardT>) => void;
-  previewTokenTargets: (targets: [number, number, number]) => void;
+  previewTokenTargets: (targets: number[]) => void;
+  wheelSlices?: readonly number[];
 };
 
 export function handleCardAdjustments<CardT extends { id: string }>(
@@ -270,7 +379,7 @@ export function handleCardAdjustments<CardT extends { id: string }>(
   });
 
   if (updatedAssignments) {
-    const nextTokenSteps = computeWheelTokenTargets(updatedAssignments);
+    const nextTokenSteps = computeWheelTokenTargets(updatedAssignments, context.wheelSlices);
     context.previewTokenTargets(nextTokenSteps);
   }
 
@@ -422,21 +531,13 @@ export function handlePositionSwaps<CardT extends { id: string }>(
   return { latestAssignments, logEntries: [] };
 }
 
-type ChillContext<CardT extends { id: string }> = {
-  updateLaneChillStacks: (updater: (prev: LaneChillStacks) => LaneChillStacks) => void;
-  latestAssignments: AssignmentState<CardT>;
-};
-
-export function handleChilledCards<CardT extends { id: string }>(
-  chilledCards: SpellEffectPayload["chilledCards"],
-  context: ChillContext<CardT>,
+export function handleStatusEffects(
+  statusEffects: SpellEffectPayload["statusEffects"],
+  context: { updateStatusEffects: (updater: (prev: StatusEffect[]) => StatusEffect[]) => void },
 ): SpellEffectLogEntry[] {
-  if (!chilledCards?.length) return [];
+  if (!statusEffects?.length) return [];
 
-  context.updateLaneChillStacks((prev) => {
-    const updated = applyChilledCardUpdates(prev, context.latestAssignments, chilledCards as ChilledCardUpdate[]);
-    return updated ?? prev;
-  });
+  context.updateStatusEffects((prev) => applyStatusEffects(prev, statusEffects));
 
   return [];
 }
@@ -485,16 +586,6 @@ export function handleInitiativeEffects<CardT extends { id: string }>(
   return [];
 }
 
-export function handleDelayedEffects(
-  delayedEffects: SpellEffectPayload["delayedEffects"],
-): SpellEffectLogEntry[] {
-  if (!Array.isArray(delayedEffects)) return [];
-
-  return delayedEffects
-    .filter((entry): entry is string => typeof entry === "string" && entry.trim().length > 0)
-    .map((entry) => ({ message: entry, type: "spell" as const }));
-}
-
 export function normalizeLogMessages(logMessages: SpellEffectPayload["logMessages"]): SpellEffectLogEntry[] {
   if (!Array.isArray(logMessages)) return [];
 
@@ -1,25 +1,42 @@
-import type { Fighter, Phase } from "./types.js";
-import { SLICES } from "./types.js";
-import type { SpellDefinition, SpellRuntimeState, SpellTargetInstance, SpellTargetOwnership } from "./spells.js";
+import type { Fighter, Phase, VC } from "./types.js";
+import { uidShort } from "../utils/uid.js";
+import { createSeededRng, deriveSeed } from "./math.js";
+import type { SpellCastHistory } from "./spellLimits.js";
+import { sliceCountAt, type WheelSectionEdit } from "./wheel.js";
+import type {
+  SpellDefinition,
+  SpellReaction,
+  SpellRuntimeState,
+  SpellTargetInstance,
+  SpellTargetOwnership,
+} from "./spells.js";
 import {
   spellTargetRequiresManualSelection,
   getSpellTargetStages,
   getSpellTargetStage,
   spellTargetStageRequiresManualSelection,
 } from "./spells.js";
-import { collectRuntimeSpellEffects, type LaneChillStacks, type LegacySide, type SpellEffectPayload } from "../features/threeWheel/utils/spellEffectTransforms.js";
+import {
+  collectRuntimeSpellEffects,
+  dampenSpellEffectPayload,
+  redirectSpellEffectPayload,
+  type LegacySide,
+  type SpellEffectPayload,
+} from "../features/threeWheel/utils/spellEffectTransforms.js";
 import {
   computeWheelTokenTargets,
   handleCardAdjustments,
-  handleChilledCards,
-  handleDelayedEffects,
   handleDrawCards,
   handleHandAdjustments,
   handleHandDiscards,
   handleInitiativeEffects,
   handleMirrorCopyEffects,
+  handlePointerShifts,
   handlePositionSwaps,
   handleReserveDrains,
+  handleStatusEffects,
+  handleWheelLocks,
+  handleWheelSectionEdits,
   handleWheelTokenAdjustments,
   normalizeLogMessages,
   type AssignmentState,
@@ -29,7 +46,13 @@ import {
 } from "./spellEffectHandlers.js";
 
 export type { LegacySide, SpellEffectPayload, LaneChillStacks } from "../features/threeWheel/utils/spellEffectTransforms.js";
-export type { SpellDefinition, SpellRuntimeState, SpellTargetInstance, SpellTargetOwnership } from "./spells.js";
+export type {
+  SpellDefinition,
+  SpellReaction,
+  SpellRuntimeState,
+  SpellTargetInstance,
+  SpellTargetOwnership,
+} from "./spells.js";
 export type {
   AssignmentState,
   ReserveState,
@@ -47,6 +70,131 @@ export type PendingSpellDescriptor = {
   spentMana: number;
 };
 
+/**
+ * A spell that has been cast but not applied yet. Each one waits on the stack while
+ * the other side gets a chance to answer it with a reaction.
+ */
+export type SpellStackEntry = {
+  id: string;
+  side: LegacySide;
+  spellId: string;
+  spellName: string;
+  icon?: string;
+  reaction?: SpellReaction;
+  /** Rank the spell was cast at, when above 1. */
+  rank?: number;
+  /** The picked targets and the mana paid, so the other client can check the cast. */
+  targets: SpellTargetInstance[];
+  spentMana: number;
+  payload: SpellEffectPayload;
+};
+
+const REACTIONS: readonly SpellReaction[] = ["counter", "reduce", "redirect"];
+
+/**
+ * The rolls for `side`'s next cast of `spellId`, drawn from the match seed so the caster
+ * and the other client roll alike. Keyed on how often the spell was cast, so recasting
+ * can't fish for a better roll and a withdrawn spell rolls the same when cast again.
+ */
+export const createSpellRng = (
+  seed: number,
+  side: LegacySide,
+  spellId: string,
+  history?: SpellCastHistory,
+): (() => number) => createSeededRng(deriveSeed(seed, `spell:${side}:${spellId}:${history?.[side][spellId]?.casts ?? 0}`));
+
+export function createSpellStackEntry(
+  descriptor: Pick<PendingSpellDescriptor, "side" | "spell" | "targets" | "spentMana">,
+  payload: SpellEffectPayload,
+): SpellStackEntry {
+  const { side, spell, targets, spentMana } = descriptor;
+  const entry: SpellStackEntry = {
+    id: uidShort({ prefix: "spell" }),
+    side,
+    spellId: spell.id,
+    spellName: spell.name,
+    targets,
+    spentMana,
+    payload,
+  };
+  if (spell.icon) entry.icon = spell.icon;
+  if (spell.reaction) entry.reaction = spell.reaction;
+  if (spell.rank && spell.rank > 1) entry.rank = spell.rank;
+  return entry;
+}
+
+/**
+ * Checks the shape of an entry received from a peer; null when unusable. Only the
+ * shape: whether the cast was legal is for `validateSpellDeclaration` to say.
+ */
+export function normalizeSpellStackEntry(value: unknown): SpellStackEntry | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.id !== "string" || typeof raw.spellId !== "string" || typeof raw.spellName !== "string") return null;
+  if (raw.side !== "player" && raw.side !== "enemy") return null;
+  const payload = raw.payload as SpellEffectPayload | undefined;
+  if (!payload || typeof payload !== "object" || payload.caster !== raw.side) return null;
+  if (!Array.isArray(raw.targets) || typeof raw.spentMana !== "number") return null;
+  const targets = raw.targets.filter(
+    (target): target is SpellTargetInstance => Boolean(target) && typeof target === "object",
+  );
+  const entry: SpellStackEntry = {
+    id: raw.id,
+    side: raw.side,
+    spellId: raw.spellId,
+    spellName: raw.spellName.slice(0, 60),
+    targets,
+    spentMana: raw.spentMana,
+    payload,
+  };
+  if (typeof raw.icon === "string") entry.icon = raw.icon.slice(0, 8);
+  if (REACTIONS.includes(raw.reaction as SpellReaction)) entry.reaction = raw.reaction as SpellReaction;
+  if (Number.isInteger(raw.rank) && (raw.rank as number) > 1) entry.rank = raw.rank as number;
+  return entry;
+}
+
+/** How long a side has to answer a spell in multiplayer before it resolves. */
+export const REACTION_WINDOW_MS = 6000;
+
+export type ResolvedSpellStackEntry = {
+  entry: SpellStackEntry;
+  payload: SpellEffectPayload;
+  countered: boolean;
+};
+
+/**
+ * Resolves the stack last in, first out: each entry applies before the one beneath
+ * it, and a reaction changes what the entry beneath it does. A countered reaction
+ * does nothing, so a counter on a counter lets the original spell through. Returns
+ * each entry with the payload to apply, in order.
+ */
+export function resolveSpellStackEntries(stack: readonly SpellStackEntry[]): ResolvedSpellStackEntry[] {
+  const resolved: ResolvedSpellStackEntry[] = [];
+  let incoming: SpellReaction | null = null;
+  for (let i = stack.length - 1; i >= 0; i -= 1) {
+    const entry = stack[i];
+    const reaction = incoming;
+    incoming = null;
+    if (reaction === "counter") {
+      resolved.push({ entry, payload: { caster: entry.side, logMessages: [`${entry.spellName} fizzles.`] }, countered: true });
+      continue;
+    }
+    const payload =
+      reaction === "reduce"
+        ? dampenSpellEffectPayload(entry.payload)
+        : reaction === "redirect"
+          ? redirectSpellEffectPayload(entry.payload)
+          : entry.payload;
+    resolved.push({ entry, payload, countered: false });
+    incoming = entry.reaction ?? null;
+  }
+  return resolved;
+}
+
+/** The payloads `resolveSpellStackEntries` applies, in order. */
+export const resolveSpellStack = (stack: readonly SpellStackEntry[]): SpellEffectPayload[] =>
+  resolveSpellStackEntries(stack).map(({ payload }) => payload);
+
 export type SpellCostContext = {
   caster: Fighter;
   opponent: Fighter;
@@ -75,6 +223,8 @@ export type ResolveSpellParams = {
   phase: Phase;
   runtimeState: SpellRuntimeState;
   targetOverride?: SpellTargetInstance | null;
+  /** Rolls for the spell's random effects; see `createSpellRng`. */
+  rng?: () => number;
 };
 
 export type SpellResolutionResult =
@@ -97,11 +247,12 @@ export type SpellResolutionResult =
 const RUNTIME_CLEANUP_KEYS: Array<keyof SpellRuntimeState | string> = [
   "mirrorCopyEffects",
   "wheelTokenAdjustments",
+  "wheelLocks",
+  "pointerShifts",
+  "wheelSectionEdits",
   "reserveDrains",
   "drawCards",
-  "chilledCards",
-  "delayedEffects",
-  "timeMomentum",
+  "statusEffects",
   "cardAdjustments",
   "handAdjustments",
   "handDiscards",
@@ -111,7 +262,7 @@ const RUNTIME_CLEANUP_KEYS: Array<keyof SpellRuntimeState | string> = [
 ];
 
 export function resolvePendingSpell(params: ResolveSpellParams): SpellResolutionResult {
-  const { descriptor, caster, opponent, phase, runtimeState, targetOverride } = params;
+  const { descriptor, caster, opponent, phase, runtimeState, targetOverride, rng = Math.random } = params;
 
   const stages = getSpellTargetStages(descriptor.spell.target);
   const pendingTargets = Array.isArray(descriptor.targets) ? [...descriptor.targets] : [];
@@ -182,6 +333,7 @@ export function resolvePendingSpell(params: ResolveSpellParams): SpellResolution
     target: finalTarget ?? undefined,
     targets: pendingTargets,
     state: runtimeState,
+    rng,
   } as const;
 
   try {
@@ -223,6 +375,58 @@ export function resolvePendingSpell(params: ResolveSpellParams): SpellResolution
         .filter((entry): entry is { wheelIndex: number; amount: number } => entry !== null)
     : undefined;
 
+  const parseWheelIndex = (target: unknown): number | null => {
+    if (!target || typeof target !== "object") return null;
+    if ((target as { type?: unknown }).type !== "wheel") return null;
+    const wheelId = (target as { wheelId?: unknown }).wheelId;
+    if (typeof wheelId !== "string") return null;
+    const idx = Number.parseInt(wheelId, 10);
+    return Number.isInteger(idx) ? idx : null;
+  };
+
+  const wheelLocks = Array.isArray(runtimeState.wheelLocks)
+    ? runtimeState.wheelLocks
+        .map((entry: unknown) => {
+          if (!entry || typeof entry !== "object") return null;
+          const idx = parseWheelIndex((entry as { target?: unknown }).target);
+          return idx === null ? null : { wheelIndex: idx };
+        })
+        .filter((entry): entry is { wheelIndex: number } => entry !== null)
+    : undefined;
+
+  const pointerShifts = Array.isArray(runtimeState.pointerShifts)
+    ? runtimeState.pointerShifts
+        .map((entry: unknown) => {
+          if (!entry || typeof entry !== "object") return null;
+          const amount = (entry as { amount?: unknown }).amount;
+          if (typeof amount !== "number") return null;
+          const idx = parseWheelIndex((entry as { target?: unknown }).target);
+          return idx === null ? null : { wheelIndex: idx, amount };
+        })
+        .filter((entry): entry is { wheelIndex: number; amount: number } => entry !== null)
+    : undefined;
+
+  const wheelSectionEdits = Array.isArray(runtimeState.wheelSectionEdits)
+    ? runtimeState.wheelSectionEdits
+        .map((entry: unknown): WheelSectionEdit | null => {
+          if (!entry || typeof entry !== "object") return null;
+          const target = (entry as { target?: unknown }).target;
+          if (!target || typeof target !== "object" || (target as { type?: unknown }).type !== "section") return null;
+          const wheelIndex = Number.parseInt(String((target as { wheelId?: unknown }).wheelId), 10);
+          const sectionIndex = (target as { sectionIndex?: unknown }).sectionIndex;
+          if (!Number.isInteger(wheelIndex) || !Number.isInteger(sectionIndex)) return null;
+          const at = { wheelIndex, sectionIndex: sectionIndex as number };
+          const { kind, id, amount, roll } = entry as { kind?: unknown; id?: unknown; amount?: unknown; roll?: unknown };
+          if (kind === "recolor" && typeof id === "string") {
+            return typeof roll === "number" ? { ...at, kind, id: id as VC, roll } : { ...at, kind, id: id as VC };
+          }
+          if (kind === "resize" && typeof amount === "number" && amount !== 0) return { ...at, kind, amount };
+          if (kind === "retarget" && typeof roll === "number") return { ...at, kind, roll };
+          return null;
+        })
+        .filter((entry): entry is WheelSectionEdit => entry !== null)
+    : undefined;
+
   const reserveDrains = Array.isArray(runtimeState.reserveDrains)
     ? runtimeState.reserveDrains
         .map((entry: unknown) => {
@@ -365,6 +569,15 @@ export function resolvePendingSpell(params: ResolveSpellParams): SpellResolution
   if (wheelTokenAdjustments && wheelTokenAdjustments.length > 0) {
     effectPayload.wheelTokenAdjustments = wheelTokenAdjustments;
   }
+  if (wheelLocks && wheelLocks.length > 0) {
+    effectPayload.wheelLocks = wheelLocks;
+  }
+  if (pointerShifts && pointerShifts.length > 0) {
+    effectPayload.pointerShifts = pointerShifts;
+  }
+  if (wheelSectionEdits && wheelSectionEdits.length > 0) {
+    effectPayload.wheelSectionEdits = wheelSectionEdits;
+  }
   if (reserveDrains && reserveDrains.length > 0) {
     effectPayload.reserveDrains = reserveDrains;
   }
@@ -386,14 +599,8 @@ export function resolvePendingSpell(params: ResolveSpellParams): SpellResolution
   if (runtimeSummary.cardAdjustments && runtimeSummary.cardAdjustments.length > 0) {
     effectPayload.cardAdjustments = runtimeSummary.cardAdjustments;
   }
-  if (runtimeSummary.chilledCards && runtimeSummary.chilledCards.length > 0) {
-    effectPayload.chilledCards = runtimeSummary.chilledCards;
-  }
-  if (runtimeSummary.delayedEffects && runtimeSummary.delayedEffects.length > 0) {
-    effectPayload.delayedEffects = runtimeSummary.delayedEffects;
-  }
-  if (runtimeSummary.initiative) {
-    effectPayload.initiative = runtimeSummary.initiative;
+  if (runtimeSummary.statusEffects && runtimeSummary.statusEffects.length > 0) {
+    effectPayload.statusEffects = runtimeSummary.statusEffects;
   }
   if (logMessages && logMessages.length > 0) {
     effectPayload.logMessages = logMessages;
@@ -402,6 +609,9 @@ export function resolvePendingSpell(params: ResolveSpellParams): SpellResolution
   const hasEffect =
     (effectPayload.mirrorCopyEffects?.length ?? 0) > 0 ||
     (effectPayload.wheelTokenAdjustments?.length ?? 0) > 0 ||
+    (effectPayload.wheelLocks?.length ?? 0) > 0 ||
+    (effectPayload.pointerShifts?.length ?? 0) > 0 ||
+    (effectPayload.wheelSectionEdits?.length ?? 0) > 0 ||
     (effectPayload.reserveDrains?.length ?? 0) > 0 ||
     (effectPayload.drawCards?.length ?? 0) > 0 ||
     (effectPayload.cardAdjustments?.length ?? 0) > 0 ||
@@ -409,9 +619,7 @@ export function resolvePendingSpell(params: ResolveSpellParams): SpellResolution
     (effectPayload.handDiscards?.length ?? 0) > 0 ||
     (effectPayload.positionSwaps?.length ?? 0) > 0 ||
     (effectPayload.initiativeChallenges?.length ?? 0) > 0 ||
-    (effectPayload.chilledCards?.length ?? 0) > 0 ||
-    (effectPayload.delayedEffects?.length ?? 0) > 0 ||
-    Boolean(effectPayload.initiative) ||
+    (effectPayload.statusEffects?.length ?? 0) > 0 ||
     (effectPayload.logMessages?.length ?? 0) > 0;
 
   for (const key of RUNTIME_CLEANUP_KEYS) {
@@ -437,7 +645,7 @@ export function applySpellEffects<CardT extends { id: string }>(
     updateAssignments,
     updateReserveSums,
     updateTokens,
-    updateLaneChillStacks,
+    updateStatusEffects,
     setInitiative,
     appendLog,
     initiative,
@@ -447,12 +655,19 @@ export function applySpellEffects<CardT extends { id: string }>(
     applyReservePenalty,
     startingTokens,
     updateRoundStartTokens,
+    updateWheelLocks,
+    updatePointerShifts,
+    updateWheelSections,
+    wheelSlices,
     updateFighter,
   } = context;
 
   const {
     mirrorCopyEffects,
     wheelTokenAdjustments,
+    wheelLocks,
+    pointerShifts,
+    wheelSectionEdits,
     reserveDrains,
     drawCards,
     cardAdjustments,
@@ -460,17 +675,17 @@ export function applySpellEffects<CardT extends { id: string }>(
     handDiscards,
     positionSwaps,
     initiativeChallenges,
-    chilledCards,
-    delayedEffects,
+    statusEffects,
     initiative: initiativeTarget,
     logMessages,
   } = payload;
 
   let latestAssignments: AssignmentState<CardT> = assignSnapshot;
-  const previewTokenTargets = (targets: [number, number, number]) => {
+  const previewTokenTargets = (targets: number[]) => {
     for (let i = 0; i < targets.length; i++) {
       const target = targets[i] ?? 0;
-      const visual = ((target % SLICES) + SLICES) % SLICES;
+      const slices = sliceCountAt(wheelSlices, i);
+      const visual = ((target % slices) + slices) % slices;
       updateTokenVisual?.(i, visual);
     }
   };
@@ -481,6 +696,7 @@ export function applySpellEffects<CardT extends { id: string }>(
     assignSnapshot,
     updateAssignments,
     previewTokenTargets,
+    wheelSlices,
   });
   latestAssignments = mirrorResult.latestAssignments;
   aggregatedLogs.push(...mirrorResult.logEntries);
@@ -490,14 +706,20 @@ export function applySpellEffects<CardT extends { id: string }>(
       updateTokens,
       updateTokenVisual,
       updateRoundStartTokens,
+      wheelSlices,
     }),
   );
 
+  aggregatedLogs.push(...handleWheelLocks(wheelLocks, { updateWheelLocks }));
+  aggregatedLogs.push(...handlePointerShifts(pointerShifts, { updatePointerShifts, wheelSlices }));
+  aggregatedLogs.push(...handleWheelSectionEdits(wheelSectionEdits, { updateWheelSections, wheelSlices }));
+
   aggregatedLogs.push(...handleReserveDrains(reserveDrains, { updateReserveSums, applyReservePenalty }));
 
   const cardResult = handleCardAdjustments<CardT>(cardAdjustments, {
     updateAssignments,
     previewTokenTargets,
+    wheelSlices,
   });
   if (cardResult.latestAssignments) {
     latestAssignments = cardResult.latestAssignments;
@@ -516,12 +738,7 @@ export function applySpellEffects<CardT extends { id: string }>(
   }
   aggregatedLogs.push(...positionResult.logEntries);
 
-  aggregatedLogs.push(
-    ...handleChilledCards(chilledCards, {
-      updateLaneChillStacks,
-      latestAssignments,
-    }),
-  );
+  aggregatedLogs.push(...handleStatusEffects(statusEffects, { updateStatusEffects }));
 
   aggregatedLogs.push(
     ...handleInitiativeEffects<CardT>({
@@ -534,7 +751,6 @@ export function applySpellEffects<CardT extends { id: string }>(
   );
 
   aggregatedLogs.push(...normalizeLogMessages(logMessages));
-  aggregatedLogs.push(...handleDelayedEffects(delayedEffects));
 
   aggregatedLogs.forEach((entry) => {
     appendLog(entry.message, { type: entry.type ?? "spell" });
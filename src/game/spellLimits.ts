@@ -0,0 +1,74 @@
+// src/game/spellLimits.ts
+// How often a spell may be cast: cooldowns counted in rounds, ultimates that go once
+// a match, and the cap on how much mana a side can bank.
+import type { LegacySide } from "./types.js";
+import type { SpellDefinition } from "./spells.js";
+import type { RulesConfig } from "./rules.js";
+
+type SideState<T> = Record<LegacySide, T>;
+
+export type SpellCastRecord = {
+  /** Round of the latest cast. */
+  lastRound: number;
+  casts: number;
+};
+
+/** Every spell each side has cast this match, by spell id. */
+export type SpellCastHistory = SideState<Record<string, SpellCastRecord>>;
+
+/** Why a spell can't be cast right now, or null when nothing holds it back. */
+export type SpellCastBlock = { kind: "cooldown"; rounds: number } | { kind: "spent" } | null;
+
+type SpellLimits = Pick<SpellDefinition, "cooldown" | "ultimate">;
+
+export const createSpellCastHistory = (): SpellCastHistory => ({ player: {}, enemy: {} });
+
+export function recordSpellCast(
+  history: SpellCastHistory,
+  side: LegacySide,
+  spellId: string,
+  round: number,
+): SpellCastHistory {
+  const previous = history[side][spellId];
+  return {
+    ...history,
+    [side]: { ...history[side], [spellId]: { lastRound: round, casts: (previous?.casts ?? 0) + 1 } },
+  };
+}
+
+/**
+ * Rounds left before `spell` can be cast again; 0 when it's ready. A spell with a
+ * cooldown of 2 cast in round 3 sits out rounds 4 and 5.
+ */
+export function spellCooldownRemaining(spell: SpellLimits, record: SpellCastRecord | undefined, round: number): number {
+  const cooldown = spell.cooldown ?? 0;
+  if (!record || cooldown <= 0) return 0;
+  return Math.max(0, record.lastRound + cooldown + 1 - round);
+}
+
+export function getSpellCastBlock(
+  spell: SpellLimits & Pick<SpellDefinition, "id">,
+  history: SpellCastHistory,
+  side: LegacySide,
+  round: number,
+): SpellCastBlock {
+  const record = history[side][spell.id];
+  if (spell.ultimate && record) return { kind: "spent" };
+  const rounds = spellCooldownRemaining(spell, record, round);
+  return rounds > 0 ? { kind: "cooldown", rounds } : null;
+}
+
+/** Short label for a blocked spell's button. */
+export const describeSpellCastBlock = (block: SpellCastBlock): string | null => {
+  if (!block) return null;
+  return block.kind === "spent" ? "Used" : `⏳ ${block.rounds}`;
+};
+
+/** `current` mana after gaining `gain`, with the rules' cap and overflow applied. */
+export function awardMana(current: number, gain: number, rules: Pick<RulesConfig, "manaCap" | "manaOverflow">): number {
+  const total = current + gain;
+  if (rules.manaCap <= 0 || total <= rules.manaCap) return total;
+  if (rules.manaOverflow === "decay") return rules.manaCap + Math.floor((total - rules.manaCap) / 2);
+  // Mana already over the cap (from a refund, say) is kept, but nothing is added to it.
+  return Math.max(rules.manaCap, current);
+}
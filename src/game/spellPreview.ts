@@ -0,0 +1,169 @@
+// src/game/spellPreview.ts
+// What a spell would change about the current round, worked out on a copy of the
+// board before the caster commits to it.
+import type { Card, Fighter, LegacySide, Section, SplitChoiceMap } from "./types.js";
+import { analyzeRound, cardWheelValue, computeReserveSum } from "./matchEngine.js";
+import { applySpellEffects, type AssignmentState, type SpellEffectPayload } from "./spellEngine.js";
+import type { Slice0Rule } from "./slice0Rules.js";
+import type { StatusEffect } from "./statusEffects.js";
+import type { TieBreakRule } from "./tieBreakers.js";
+
+type SideState<T> = Record<LegacySide, T>;
+
+/** Everything a round analysis reads, as it stands when the spell is cast. */
+export type SpellPreviewBoard = {
+  assign: AssignmentState<Card>;
+  fighters: SideState<Fighter>;
+  reservePenalties: SideState<number>;
+  reserveChoices: SideState<readonly string[]>;
+  reserveSize: number;
+  splitChoices: SplitChoiceMap;
+  /** Round-start tokens, which the round is analyzed from. */
+  tokens: number[];
+  wheelSections: Section[][];
+  wheelSlices: number[];
+  wheelLocks: boolean[];
+  pointerShifts: number[];
+  initiative: LegacySide;
+  statusEffects: StatusEffect[];
+  localLegacySide: LegacySide;
+  slice0Rule?: Slice0Rule;
+  tieBreak?: TieBreakRule;
+};
+
+type Change<T> = { before: T; after: T };
+
+export type SpellLanePreview = {
+  wheel: number;
+  winner: Change<LegacySide | null>;
+  /** The lane would go to someone else, or stop being a tie. */
+  flips: boolean;
+  /** Wheel value of each side's card; null for an empty slot. */
+  values: SideState<Change<number | null>>;
+};
+
+export type SpellPreview = {
+  lanes: SpellLanePreview[];
+  reserves: SideState<Change<number>>;
+  initiative: Change<LegacySide>;
+};
+
+/** `board` with `payload` applied, leaving `board` itself untouched. */
+export function applySpellPayloadToBoard(board: SpellPreviewBoard, payload: SpellEffectPayload): SpellPreviewBoard {
+  let next: SpellPreviewBoard = { ...board, fighters: { ...board.fighters }, reservePenalties: { ...board.reservePenalties } };
+
+  applySpellEffects<Card>(
+    payload,
+    {
+      assignSnapshot: next.assign,
+      updateAssignments: (updater) => {
+        next = { ...next, assign: updater(next.assign) };
+      },
+      updateReserveSums: () => {},
+      updateTokens: (updater) => {
+        next = { ...next, tokens: updater(next.tokens) };
+      },
+      updateStatusEffects: (updater) => {
+        next = { ...next, statusEffects: updater(next.statusEffects) };
+      },
+      setInitiative: (side) => {
+        next = { ...next, initiative: side };
+      },
+      appendLog: () => {},
+      initiative: next.initiative,
+      isMultiplayer: false,
+      applyReservePenalty: (side, amount) => {
+        if (!Number.isFinite(amount) || amount <= 0) return;
+        next = { ...next, reservePenalties: { ...next.reservePenalties, [side]: next.reservePenalties[side] + amount } };
+      },
+      startingTokens: next.tokens,
+      wheelSlices: next.wheelSlices,
+      updateRoundStartTokens: (tokens) => {
+        next = { ...next, tokens };
+      },
+      updateWheelLocks: (updater) => {
+        next = { ...next, wheelLocks: updater(next.wheelLocks) };
+      },
+      updatePointerShifts: (updater) => {
+        next = { ...next, pointerShifts: updater(next.pointerShifts) };
+      },
+      updateWheelSections: (updater) => {
+        next = { ...next, wheelSections: updater(next.wheelSections) };
+      },
+      updateFighter: (side, updater) => {
+        next = { ...next, fighters: { ...next.fighters, [side]: updater(next.fighters[side]) } };
+      },
+    },
+    { broadcast: false },
+  );
+
+  return next;
+}
+
+const boardReserves = (board: SpellPreviewBoard): SideState<number> => {
+  const reserveOf = (side: LegacySide) =>
+    computeReserveSum(
+      board.fighters[side].hand,
+      board.assign[side],
+      board.reservePenalties[side],
+      board.splitChoices,
+      board.reserveChoices[side],
+      board.reserveSize,
+    );
+  return { player: reserveOf("player"), enemy: reserveOf("enemy") };
+};
+
+const analyzeBoard = (board: SpellPreviewBoard, reserves: SideState<number>) =>
+  analyzeRound({
+    played: board.assign.player.map((p, i) => ({ p, e: board.assign.enemy[i] ?? null })),
+    wheelSections: board.wheelSections,
+    tokens: board.tokens,
+    reserves,
+    initiative: board.initiative,
+    localLegacySide: board.localLegacySide,
+    splitChoices: board.splitChoices,
+    wheelSlices: board.wheelSlices,
+    wheelLocks: board.wheelLocks,
+    pointerShifts: board.pointerShifts,
+    slice0Rule: board.slice0Rule,
+    tieBreak: board.tieBreak,
+  });
+
+/**
+ * Analyzes the round as it stands and again with `payload` applied, and reports
+ * what moved: lane winners, card values, reserves and initiative.
+ */
+export function previewSpellEffects(board: SpellPreviewBoard, payload: SpellEffectPayload): SpellPreview {
+  const after = applySpellPayloadToBoard(board, payload);
+  const reservesBefore = boardReserves(board);
+  const reservesAfter = boardReserves(after);
+  const analysisBefore = analyzeBoard(board, reservesBefore);
+  const analysisAfter = analyzeBoard(after, reservesAfter);
+
+  const valueOf = (state: SpellPreviewBoard, side: LegacySide, lane: number) => {
+    const card = state.assign[side][lane] ?? null;
+    return card ? cardWheelValue(card, state.splitChoices) : null;
+  };
+
+  const lanes = analysisBefore.outcomes.map((outcome, wheel): SpellLanePreview => {
+    const winner = { before: outcome.winner, after: analysisAfter.outcomes[wheel]?.winner ?? null };
+    return {
+      wheel,
+      winner,
+      flips: winner.before !== winner.after,
+      values: {
+        player: { before: valueOf(board, "player", wheel), after: valueOf(after, "player", wheel) },
+        enemy: { before: valueOf(board, "enemy", wheel), after: valueOf(after, "enemy", wheel) },
+      },
+    };
+  });
+
+  return {
+    lanes,
+    reserves: {
+      player: { before: reservesBefore.player, after: reservesAfter.player },
+      enemy: { before: reservesBefore.enemy, after: reservesAfter.enemy },
+    },
+    initiative: { before: board.initiative, after: after.initiative },
+  };
+}
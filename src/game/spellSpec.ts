@@ -0,0 +1,719 @@
+// src/game/spellSpec.ts
+// Declarative spell format. A spec is plain JSON — targets, cost, phases, arcana
+// requirements and a list of effect primitives — that the loader validates and
+// compiles into the SpellDefinition the spell engine already runs.
+import type { Arcana, Card, Fighter, Phase, VC } from "./types.js";
+import { STATUS_EFFECTS, isStatusEffectKind, type StatusEffectKind } from "./statusEffects.js";
+import { getRotationPool, getVictoryCondition } from "./victoryConditions.js";
+import { MAX_SPELL_RANK } from "./grimoire.js";
+import type {
+  SpellDefinition,
+  SpellReaction,
+  SpellRequirement,
+  SpellResolverContext,
+  SpellRuntimeState,
+  SpellTargetDefinition,
+  SpellTargetInstance,
+  SpellTargetLocation,
+  SpellTargetStageDefinition,
+} from "./spells.js";
+
+/** A target stage by index, or the opponent's first reserve card. */
+export type SpellTargetRef = number | "opponentReserve";
+
+export type SpellValueExpr =
+  | number
+  | { value: SpellTargetRef }
+  | { var: string }
+  | { sum: SpellValueExpr[] }
+  | { times: SpellValueExpr[] }
+  | { max: SpellValueExpr[] }
+  | { neg: SpellValueExpr }
+  | { diff: [SpellValueExpr, SpellValueExpr] }
+  /** One value per rank from rank 1 up; ranks past the end take the last. */
+  | { rank: SpellValueExpr[] }
+  | { if: SpellCondition; then: SpellValueExpr; else?: SpellValueExpr };
+
+export type SpellCondition =
+  | { picked: SpellTargetRef }
+  | { arcana: SpellTargetRef; is: Arcana }
+  | { location: SpellTargetRef; is: SpellTargetLocation }
+  | { all: SpellCondition[] }
+  | { any: SpellCondition[] }
+  | { not: SpellCondition };
+
+export type SpellEffectSpec = { when?: SpellCondition } & (
+  | { type: "log"; text: string }
+  | { type: "adjustCard"; target: SpellTargetRef; amount: SpellValueExpr }
+  | { type: "drainReserve"; target?: SpellTargetRef; amount: SpellValueExpr }
+  | { type: "moveToken"; target: SpellTargetRef; amount: SpellValueExpr }
+  | { type: "shiftPointer"; target: SpellTargetRef; amount: SpellValueExpr }
+  | { type: "lockWheel"; target: SpellTargetRef }
+  | { type: "swapLanes"; first: SpellTargetRef; second: SpellTargetRef }
+  | { type: "draw"; count: SpellValueExpr }
+  | { type: "chill"; target: SpellTargetRef; stacks: SpellValueExpr }
+  | { type: "initiativeDuel"; target: SpellTargetRef; mode: "higher" | "lower"; winOnTie?: SpellCondition }
+  | { type: "mirrorCopy"; target: SpellTargetRef }
+  | { type: "discard"; target: SpellTargetRef }
+  | { type: "gainInitiative" }
+  | {
+      type: "rewriteSection";
+      /** A picked wheel section. */
+      target: SpellTargetRef;
+      /** Condition the section turns into; "random" deals one from the rotation. */
+      condition?: VC | "random";
+      /** Slices the section widens by, taken from its neighbour; negative narrows it. */
+      resize?: SpellValueExpr;
+      /** Re-rolls the target of a condition that aims at one. */
+      reroll?: boolean;
+    }
+  | {
+      type: "status";
+      status: StatusEffectKind;
+      /** The picked card, lane or wheel, for effects that sit on one. */
+      target?: SpellTargetRef;
+      /** Whose fighter or reserve, for effects that sit on a side. Defaults to the caster. */
+      side?: "caster" | "opponent";
+      stacks?: SpellValueExpr;
+      /** Round starts the effect survives; defaults to its kind's duration. */
+      rounds?: number;
+      note?: string;
+    }
+);
+
+export type SpellEffectType = SpellEffectSpec["type"];
+
+/**
+ * A stronger rank, unlocked by grimoire symbols past the spell's requirement. Ranks
+ * stack: rank 3 keeps what rank 2 added.
+ */
+export type SpellRankSpec = {
+  /** What the rank adds, shown in the spellbook. */
+  description: string;
+  /** Replaces the spell's cost from this rank up. */
+  cost?: number;
+  /** Target stages picked after the spell's own. */
+  targets?: SpellTargetStageDefinition[];
+  /** Applied after the spell's own effects. */
+  effects?: SpellEffectSpec[];
+};
+
+export type SpellSpec = {
+  id: string;
+  name: string;
+  icon?: string;
+  /** Card text; one line per clause, arcana bonuses on their own line. */
+  description: string;
+  targetSummary?: string;
+  cost: number;
+  allowedPhases?: Phase[];
+  /** Makes this a reaction: castable only in a reaction window, ignoring `allowedPhases`. */
+  reaction?: SpellReaction;
+  /** Rounds the spell sits out after it is cast. */
+  cooldown?: number;
+  /** Castable once a match. */
+  ultimate?: boolean;
+  /** Ranks above the first, in order. */
+  ranks?: SpellRankSpec[];
+  requirements: SpellRequirement[];
+  /** Target stages in the order the caster picks them. */
+  targets: SpellTargetStageDefinition[];
+  /** Targets that must be picked; without them the spell does nothing. */
+  requires?: SpellTargetRef[];
+  /** Named values worked out once and usable as `{ "var": name }` and `{name}` in log text. */
+  let?: Record<string, SpellValueExpr>;
+  /**
+   * Applied in order; each may carry a `when` condition. Card adjustments of 0 and
+   * reserve drains below 1 are skipped, as are effects whose target wasn't picked.
+   * Log text fills in {caster}, {opponent}, target indexes like {0}, {opponentReserve}
+   * and `let` names.
+   */
+  effects: SpellEffectSpec[];
+};
+
+// ---------- validation ----------
+
+const PHASES: readonly Phase[] = ["choose", "skill", "recalc", "showEnemy", "anim", "roundEnd", "ended", "spellTargeting"];
+const ARCANA: readonly Arcana[] = ["fire", "blade", "eye", "moon", "serpent"];
+const LOCATIONS: readonly SpellTargetLocation[] = ["board", "hand", "any"];
+const OWNERSHIPS = ["ally", "enemy", "any"] as const;
+const REACTIONS: readonly SpellReaction[] = ["counter", "reduce", "redirect"];
+
+const EFFECT_FIELDS: Record<
+  SpellEffectType,
+  { refs?: string[]; optionalRefs?: string[]; values?: string[]; optionalValues?: string[] }
+> = {
+  log: {},
+  adjustCard: { refs: ["target"], values: ["amount"] },
+  drainReserve: { optionalRefs: ["target"], values: ["amount"] },
+  moveToken: { refs: ["target"], values: ["amount"] },
+  shiftPointer: { refs: ["target"], values: ["amount"] },
+  lockWheel: { refs: ["target"] },
+  swapLanes: { refs: ["first", "second"] },
+  draw: { values: ["count"] },
+  chill: { refs: ["target"], values: ["stacks"] },
+  initiativeDuel: { refs: ["target"] },
+  mirrorCopy: { refs: ["target"] },
+  discard: { refs: ["target"] },
+  gainInitiative: {},
+  rewriteSection: { refs: ["target"], optionalValues: ["resize"] },
+  status: { optionalRefs: ["target"], optionalValues: ["stacks"] },
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isArcana = (value: unknown): value is Arcana => ARCANA.includes(value as Arcana);
+
+const isArcanaList = (value: unknown) =>
+  isArcana(value) || (Array.isArray(value) && value.length > 0 && value.every(isArcana));
+
+type Checker = { errors: string[]; stageCount: number; vars: Set<string> };
+
+function checkRef(value: unknown, path: string, check: Checker) {
+  if (value === "opponentReserve") return;
+  if (typeof value === "number" && Number.isInteger(value) && value >= 0 && value < check.stageCount) return;
+  check.errors.push(`${path}: expected a target index below ${check.stageCount} or "opponentReserve".`);
+}
+
+function checkCondition(value: unknown, path: string, check: Checker) {
+  if (!isRecord(value)) {
+    check.errors.push(`${path}: expected a condition.`);
+    return;
+  }
+  if ("picked" in value) return checkRef(value.picked, `${path}.picked`, check);
+  if ("arcana" in value) {
+    checkRef(value.arcana, `${path}.arcana`, check);
+    if (!isArcana(value.is)) check.errors.push(`${path}.is: unknown arcana.`);
+    return;
+  }
+  if ("location" in value) {
+    checkRef(value.location, `${path}.location`, check);
+    if (!LOCATIONS.includes(value.is as SpellTargetLocation)) check.errors.push(`${path}.is: unknown location.`);
+    return;
+  }
+  if ("not" in value) return checkCondition(value.not, `${path}.not`, check);
+  const list = "all" in value ? "all" : "any" in value ? "any" : null;
+  if (list && Array.isArray(value[list])) {
+    (value[list] as unknown[]).forEach((entry, i) => checkCondition(entry, `${path}.${list}[${i}]`, check));
+    return;
+  }
+  check.errors.push(`${path}: unknown condition.`);
+}
+
+function checkValue(value: unknown, path: string, check: Checker) {
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) check.errors.push(`${path}: numbers must be finite.`);
+    return;
+  }
+  if (!isRecord(value)) {
+    check.errors.push(`${path}: expected a number or an expression.`);
+    return;
+  }
+  if ("value" in value) return checkRef(value.value, `${path}.value`, check);
+  if ("var" in value) {
+    if (typeof value.var !== "string" || !check.vars.has(value.var)) {
+      check.errors.push(`${path}.var: "${String(value.var)}" isn't defined under let.`);
+    }
+    return;
+  }
+  if ("neg" in value) return checkValue(value.neg, `${path}.neg`, check);
+  if ("if" in value) {
+    checkCondition(value.if, `${path}.if`, check);
+    checkValue(value.then, `${path}.then`, check);
+    if ("else" in value) checkValue(value.else, `${path}.else`, check);
+    return;
+  }
+  const list = (["sum", "times", "max", "diff", "rank"] as const).find((key) => key in value);
+  if (list && Array.isArray(value[list]) && (value[list] as unknown[]).length > 0) {
+    if (list === "diff" && (value.diff as unknown[]).length !== 2) {
+      check.errors.push(`${path}.diff: expected two values.`);
+    }
+    (value[list] as unknown[]).forEach((entry, i) => checkValue(entry, `${path}.${list}[${i}]`, check));
+    return;
+  }
+  check.errors.push(`${path}: unknown expression.`);
+}
+
+function checkStage(value: unknown, path: string, errors: string[]) {
+  if (!isRecord(value)) {
+    errors.push(`${path}: expected a target stage.`);
+    return;
+  }
+  switch (value.type) {
+    case "none":
+    case "self":
+      return;
+    case "card":
+      if (!OWNERSHIPS.includes(value.ownership as (typeof OWNERSHIPS)[number])) {
+        errors.push(`${path}.ownership: expected "ally", "enemy" or "any".`);
+      }
+      if (value.location !== undefined && !LOCATIONS.includes(value.location as SpellTargetLocation)) {
+        errors.push(`${path}.location: unknown location.`);
+      }
+      if (value.arcana !== undefined && !isArcanaList(value.arcana)) errors.push(`${path}.arcana: unknown arcana.`);
+      return;
+    case "wheel":
+      if (value.scope !== "current" && value.scope !== "any") {
+        errors.push(`${path}.scope: expected "current" or "any".`);
+      }
+      if (value.requiresArcana !== undefined && !isArcanaList(value.requiresArcana)) {
+        errors.push(`${path}.requiresArcana: unknown arcana.`);
+      }
+      return;
+    case "section":
+      if (value.scope !== "current" && value.scope !== "any") {
+        errors.push(`${path}.scope: expected "current" or "any".`);
+      }
+      if (
+        value.conditions !== undefined &&
+        (!Array.isArray(value.conditions) || value.conditions.some((id) => !getVictoryCondition(id as VC)))
+      ) {
+        errors.push(`${path}.conditions: expected a list of victory conditions.`);
+      }
+      return;
+    default:
+      errors.push(`${path}.type: expected "none", "self", "card", "wheel" or "section".`);
+  }
+}
+
+function checkEffect(value: unknown, path: string, check: Checker) {
+  if (!isRecord(value) || typeof value.type !== "string" || !(value.type in EFFECT_FIELDS)) {
+    check.errors.push(`${path}: unknown effect.`);
+    return;
+  }
+  const fields = EFFECT_FIELDS[value.type as SpellEffectType];
+  fields.refs?.forEach((key) => checkRef(value[key], `${path}.${key}`, check));
+  fields.optionalRefs?.forEach((key) => value[key] !== undefined && checkRef(value[key], `${path}.${key}`, check));
+  fields.values?.forEach((key) => checkValue(value[key], `${path}.${key}`, check));
+  fields.optionalValues?.forEach((key) => value[key] !== undefined && checkValue(value[key], `${path}.${key}`, check));
+  if (value.when !== undefined) checkCondition(value.when, `${path}.when`, check);
+
+  if (value.type === "log") {
+    if (typeof value.text !== "string" || value.text.trim() === "") {
+      check.errors.push(`${path}.text: expected log text.`);
+    } else {
+      for (const [, name] of value.text.matchAll(/\{(\w+)\}/g)) {
+        const known =
+          name === "caster" ||
+          name === "opponent" ||
+          name === "opponentReserve" ||
+          check.vars.has(name) ||
+          (/^\d+$/.test(name) && Number(name) < check.stageCount);
+        if (!known) check.errors.push(`${path}.text: unknown placeholder {${name}}.`);
+      }
+    }
+  }
+  if (value.type === "status") {
+    if (!isStatusEffectKind(value.status)) {
+      check.errors.push(`${path}.status: unknown status effect.`);
+    } else {
+      const sitsOnSide = ["fighter", "reserve"].includes(STATUS_EFFECTS[value.status].target);
+      if (!sitsOnSide && value.target === undefined) check.errors.push(`${path}.target: ${value.status} needs a target.`);
+    }
+    if (value.side !== undefined && value.side !== "caster" && value.side !== "opponent") {
+      check.errors.push(`${path}.side: expected "caster" or "opponent".`);
+    }
+    if (value.rounds !== undefined && (typeof value.rounds !== "number" || !Number.isInteger(value.rounds) || value.rounds < 0)) {
+      check.errors.push(`${path}.rounds: expected a whole number of at least 0.`);
+    }
+    if (value.note !== undefined && typeof value.note !== "string") check.errors.push(`${path}.note: expected text.`);
+  }
+  if (value.type === "rewriteSection") {
+    if (value.condition !== undefined && value.condition !== "random" && !getVictoryCondition(value.condition as VC)) {
+      check.errors.push(`${path}.condition: unknown victory condition.`);
+    }
+    if (value.reroll !== undefined && typeof value.reroll !== "boolean") check.errors.push(`${path}.reroll: expected true or false.`);
+    if (value.condition === undefined && value.resize === undefined && value.reroll !== true) {
+      check.errors.push(`${path}: expected a condition, resize or reroll.`);
+    }
+  }
+  if (value.type === "initiativeDuel") {
+    if (value.mode !== "higher" && value.mode !== "lower") check.errors.push(`${path}.mode: expected "higher" or "lower".`);
+    if (value.winOnTie !== undefined) checkCondition(value.winOnTie, `${path}.winOnTie`, check);
+  }
+}
+
+/** Problems with a spec, each prefixed with where it was found; empty when the spec compiles. */
+export function validateSpellSpec(value: unknown): string[] {
+  if (!isRecord(value)) return ["spell: expected an object."];
+  const id = typeof value.id === "string" && value.id.trim() !== "" ? value.id : null;
+  const errors: string[] = id ? [] : ["spell.id: expected a non-empty string."];
+  const at = id ?? "spell";
+
+  if (typeof value.name !== "string" || value.name.trim() === "") errors.push(`${at}.name: expected a non-empty string.`);
+  if (typeof value.description !== "string") errors.push(`${at}.description: expected a string.`);
+  if (typeof value.cost !== "number" || !Number.isFinite(value.cost) || value.cost < 0) {
+    errors.push(`${at}.cost: expected a number of at least 0.`);
+  }
+  if (value.allowedPhases !== undefined) {
+    if (!Array.isArray(value.allowedPhases) || value.allowedPhases.some((phase) => !PHASES.includes(phase as Phase))) {
+      errors.push(`${at}.allowedPhases: expected a list of phases.`);
+    }
+  }
+  if (value.reaction !== undefined && !REACTIONS.includes(value.reaction as SpellReaction)) {
+    errors.push(`${at}.reaction: expected "counter", "reduce" or "redirect".`);
+  }
+  if (value.cooldown !== undefined && (!Number.isInteger(value.cooldown) || (value.cooldown as number) < 0)) {
+    errors.push(`${at}.cooldown: expected a whole number of rounds.`);
+  }
+  if (value.ultimate !== undefined && typeof value.ultimate !== "boolean") {
+    errors.push(`${at}.ultimate: expected true or false.`);
+  }
+  if (
+    !Array.isArray(value.requirements) ||
+    value.requirements.some(
+      (req) => !isRecord(req) || !isArcana(req.arcana) || typeof req.symbols !== "number" || req.symbols < 0,
+    )
+  ) {
+    errors.push(`${at}.requirements: expected a list of { arcana, symbols }.`);
+  }
+
+  const targets = Array.isArray(value.targets) ? value.targets : [];
+  if (targets.length === 0) errors.push(`${at}.targets: expected at least one target stage.`);
+  targets.forEach((stage, i) => checkStage(stage, `${at}.targets[${i}]`, errors));
+
+  const rankSpecs = Array.isArray(value.ranks) ? value.ranks : [];
+  if (value.ranks !== undefined && (!Array.isArray(value.ranks) || value.ranks.length > MAX_SPELL_RANK - 1)) {
+    errors.push(`${at}.ranks: expected a list of up to ${MAX_SPELL_RANK - 1} ranks.`);
+  }
+  rankSpecs.forEach((rank, i) => {
+    const path = `${at}.ranks[${i}]`;
+    if (!isRecord(rank)) {
+      errors.push(`${path}: expected a rank.`);
+      return;
+    }
+    if (typeof rank.description !== "string" || rank.description.trim() === "") {
+      errors.push(`${path}.description: expected a non-empty string.`);
+    }
+    if (rank.cost !== undefined && (typeof rank.cost !== "number" || !Number.isFinite(rank.cost) || rank.cost < 0)) {
+      errors.push(`${path}.cost: expected a number of at least 0.`);
+    }
+    if (rank.targets !== undefined && !Array.isArray(rank.targets)) errors.push(`${path}.targets: expected a list of target stages.`);
+    if (rank.effects !== undefined && !Array.isArray(rank.effects)) errors.push(`${path}.effects: expected a list of effects.`);
+    if (Array.isArray(rank.targets)) rank.targets.forEach((stage, j) => checkStage(stage, `${path}.targets[${j}]`, errors));
+  });
+
+  const check: Checker = { errors, stageCount: targets.length, vars: new Set() };
+  if (value.requires !== undefined) {
+    if (Array.isArray(value.requires)) value.requires.forEach((ref, i) => checkRef(ref, `${at}.requires[${i}]`, check));
+    else errors.push(`${at}.requires: expected a list of targets.`);
+  }
+  if (value.let !== undefined) {
+    if (isRecord(value.let)) {
+      Object.entries(value.let).forEach(([name, expr]) => {
+        checkValue(expr, `${at}.let.${name}`, check);
+        check.vars.add(name);
+      });
+    } else {
+      errors.push(`${at}.let: expected named values.`);
+    }
+  }
+  if (!Array.isArray(value.effects) || value.effects.length === 0) {
+    errors.push(`${at}.effects: expected at least one effect.`);
+  } else {
+    value.effects.forEach((effect, i) => checkEffect(effect, `${at}.effects[${i}]`, check));
+  }
+  // A rank's effects may pick from its own stages and those of the ranks below it.
+  rankSpecs.forEach((rank, i) => {
+    if (!isRecord(rank)) return;
+    if (Array.isArray(rank.targets)) check.stageCount += rank.targets.length;
+    if (Array.isArray(rank.effects)) {
+      rank.effects.forEach((effect, j) => checkEffect(effect, `${at}.ranks[${i}].effects[${j}]`, check));
+    }
+  });
+  return errors;
+}
+
+// ---------- compilation ----------
+
+const describeTarget = (target?: SpellTargetInstance | null): string => {
+  if (!target) return "the void";
+  switch (target.type) {
+    case "card":
+      return target.cardName ?? `card ${target.cardId}`;
+    case "wheel":
+      return target.label ?? `wheel ${target.wheelId}`;
+    case "section":
+      return target.label ?? `a section of wheel ${target.wheelId}`;
+    case "self":
+      return "the caster";
+    default:
+      return "the field";
+  }
+};
+
+const cardValue = (card: Card): number => {
+  if (typeof card.number === "number" && Number.isFinite(card.number)) return card.number;
+  if (typeof card.leftValue === "number" && Number.isFinite(card.leftValue)) return card.leftValue;
+  if (typeof card.rightValue === "number" && Number.isFinite(card.rightValue)) return card.rightValue;
+  return 0;
+};
+
+/** A picked card's value, looked up in its owner's hand when the pick didn't carry one. */
+const targetValue = (target: SpellTargetInstance | null | undefined, context: SpellResolverContext): number => {
+  if (target?.type !== "card") return 0;
+  if (typeof target.cardValue === "number") return target.cardValue;
+  const owner: Fighter | null =
+    target.owner === "ally" ? context.caster : target.owner === "enemy" ? context.opponent : null;
+  const found = owner?.hand.find((card) => card.id === target.cardId);
+  return found ? cardValue(found) : 0;
+};
+
+const opponentReserveTarget = (context: SpellResolverContext): SpellTargetInstance | null => {
+  const card = context.opponent.hand[0];
+  if (!card) return null;
+  return {
+    type: "card",
+    cardId: card.id,
+    cardName: card.name,
+    arcana: card.arcana,
+    owner: "enemy",
+    location: "hand",
+    cardValue: cardValue(card),
+  };
+};
+
+const isPicked = (target: SpellTargetInstance | null | undefined): target is SpellTargetInstance =>
+  target?.type === "card" || target?.type === "wheel" || target?.type === "section";
+
+const pushRuntime = (state: SpellRuntimeState, key: string, value: unknown) => {
+  const existing = Array.isArray(state[key]) ? (state[key] as unknown[]) : [];
+  existing.push(value);
+  state[key] = existing;
+};
+
+/**
+ * Turns a spec into the definition the spell engine runs, at rank 1; a spec with ranks
+ * lists every rank under `ranks`. Validate untrusted specs first.
+ */
+export function compileSpellSpec(spec: SpellSpec): SpellDefinition {
+  if (!spec.ranks || spec.ranks.length === 0) return compileRank(spec, 1);
+  const ranks: SpellDefinition[] = [];
+  for (let rank = 1; rank <= spec.ranks.length + 1; rank += 1) {
+    ranks.push({ ...compileRank(spec, rank), rank, ranks });
+  }
+  return ranks[0]!;
+}
+
+function compileRank(spec: SpellSpec, rank: number): SpellDefinition {
+  const added = (spec.ranks ?? []).slice(0, rank - 1);
+  const stages = [...spec.targets, ...added.flatMap((entry) => entry.targets ?? [])];
+  const effects = [...spec.effects, ...added.flatMap((entry) => entry.effects ?? [])];
+  const cost = added.reduce((current, entry) => entry.cost ?? current, spec.cost);
+  const target: SpellTargetDefinition = stages.length === 1 ? stages[0] : { type: "sequence", stages };
+
+  return {
+    id: spec.id,
+    name: spec.name,
+    description: spec.description,
+    targetSummary: spec.targetSummary,
+    cost,
+    icon: spec.icon,
+    allowedPhases: spec.allowedPhases,
+    reaction: spec.reaction,
+    cooldown: spec.cooldown,
+    ultimate: spec.ultimate,
+    rankDescription: added[added.length - 1]?.description,
+    requirements: spec.requirements,
+    target,
+    resolver: (context) => {
+      const opponentReserve = opponentReserveTarget(context);
+      const ref = (value: SpellTargetRef) =>
+        value === "opponentReserve" ? opponentReserve : context.targets?.[value] ?? null;
+      if (spec.requires?.some((value) => !isPicked(ref(value)))) return;
+
+      const test = (cond: SpellCondition): boolean => {
+        if ("picked" in cond) return isPicked(ref(cond.picked));
+        if ("arcana" in cond) {
+          const picked = ref(cond.arcana);
+          return picked?.type === "card" && picked.arcana === cond.is;
+        }
+        if ("location" in cond) {
+          const picked = ref(cond.location);
+          return picked?.type === "card" && (picked.location ?? "board") === cond.is;
+        }
+        if ("all" in cond) return cond.all.every(test);
+        if ("any" in cond) return cond.any.some(test);
+        return !test(cond.not);
+      };
+
+      const vars: Record<string, number> = {};
+      const evaluate = (expr: SpellValueExpr): number => {
+        if (typeof expr === "number") return expr;
+        if ("value" in expr) return targetValue(ref(expr.value), context);
+        if ("var" in expr) return vars[expr.var] ?? 0;
+        if ("sum" in expr) return expr.sum.reduce<number>((total, item) => total + evaluate(item), 0);
+        if ("times" in expr) return expr.times.reduce<number>((total, item) => total * evaluate(item), 1);
+        if ("max" in expr) return Math.max(...expr.max.map(evaluate));
+        if ("neg" in expr) return -evaluate(expr.neg);
+        if ("diff" in expr) return Math.abs(evaluate(expr.diff[0]) - evaluate(expr.diff[1]));
+        if ("rank" in expr) return evaluate(expr.rank[Math.min(rank, expr.rank.length) - 1]!);
+        return test(expr.if) ? evaluate(expr.then) : expr.else === undefined ? 0 : evaluate(expr.else);
+      };
+      Object.entries(spec.let ?? {}).forEach(([name, expr]) => {
+        vars[name] = evaluate(expr);
+      });
+
+      const fill = (text: string) =>
+        text.replace(/\{(\w+)\}/g, (match, name: string) => {
+          if (name === "caster") return context.caster.name;
+          if (name === "opponent") return context.opponent.name;
+          if (name === "opponentReserve") return describeTarget(opponentReserve);
+          if (/^\d+$/.test(name)) return describeTarget(context.targets?.[Number(name)]);
+          return name in vars ? String(vars[name]) : match;
+        });
+
+      const { state } = context;
+      const caster = context.caster.name;
+      effects.forEach((effect) => {
+        if (effect.when && !test(effect.when)) return;
+        switch (effect.type) {
+          case "log":
+            if (!Array.isArray(state.log)) state.log = [];
+            state.log.push(fill(effect.text));
+            return;
+          case "adjustCard": {
+            const picked = ref(effect.target);
+            const numberDelta = evaluate(effect.amount);
+            if (picked?.type !== "card" || numberDelta === 0) return;
+            const key = (picked.location ?? "board") === "hand" ? "handAdjustments" : "cardAdjustments";
+            pushRuntime(state, key, { target: picked, numberDelta });
+            return;
+          }
+          case "drainReserve": {
+            // Without a target the drain falls on the opponent.
+            const picked = effect.target === undefined ? { type: "none" as const } : ref(effect.target);
+            const amount = evaluate(effect.amount);
+            if ((effect.target !== undefined && picked?.type !== "card") || amount < 1) return;
+            pushRuntime(state, "reserveDrains", { target: picked, amount, caster });
+            return;
+          }
+          case "moveToken":
+          case "shiftPointer": {
+            const picked = ref(effect.target);
+            if (picked?.type !== "wheel") return;
+            const key = effect.type === "moveToken" ? "wheelTokenAdjustments" : "pointerShifts";
+            pushRuntime(state, key, { target: picked, amount: evaluate(effect.amount), caster });
+            return;
+          }
+          case "lockWheel": {
+            const picked = ref(effect.target);
+            if (picked?.type === "wheel") pushRuntime(state, "wheelLocks", { target: picked });
+            return;
+          }
+          case "swapLanes": {
+            const first = ref(effect.first);
+            const second = ref(effect.second);
+            if (first?.type === "card" && second?.type === "card") {
+              pushRuntime(state, "positionSwaps", { first, second, caster });
+            }
+            return;
+          }
+          case "draw": {
+            const count = evaluate(effect.count);
+            if (count > 0) state.drawCards = (state.drawCards ?? 0) + count;
+            return;
+          }
+          case "chill": {
+            // Each stack keeps the lane frozen for another round.
+            const picked = ref(effect.target);
+            const stacks = evaluate(effect.stacks);
+            if (picked?.type !== "card" || stacks <= 0) return;
+            pushRuntime(state, "statusEffects", { kind: "chill", target: picked, stacks, rounds: stacks });
+            return;
+          }
+          case "initiativeDuel": {
+            const picked = ref(effect.target);
+            if (picked?.type !== "card") return;
+            const winOnTie = effect.winOnTie ? test(effect.winOnTie) : false;
+            pushRuntime(state, "initiativeChallenges", {
+              target: picked,
+              mode: effect.mode,
+              caster,
+              ...(winOnTie ? { winOnTie: true } : {}),
+            });
+            return;
+          }
+          case "mirrorCopy": {
+            const picked = ref(effect.target);
+            if (picked?.type === "card") {
+              pushRuntime(state, "mirrorCopyEffects", { targetCardId: picked.cardId, mode: "opponent", caster });
+            }
+            return;
+          }
+          case "discard": {
+            const picked = ref(effect.target);
+            if (picked?.type === "card") pushRuntime(state, "handDiscards", { target: picked });
+            return;
+          }
+          case "rewriteSection": {
+            // Rolls are made here so the payload carries them to every client.
+            const picked = ref(effect.target);
+            if (picked?.type !== "section") return;
+            const rng = context.rng ?? Math.random;
+            if (effect.condition !== undefined) {
+              const pool = getRotationPool().filter((id) => id !== picked.condition);
+              const id = effect.condition === "random" ? pool[Math.floor(rng() * pool.length)] : effect.condition;
+              if (id) pushRuntime(state, "wheelSectionEdits", { target: picked, kind: "recolor", id, roll: rng() });
+            }
+            const amount = effect.resize === undefined ? 0 : Math.round(evaluate(effect.resize));
+            if (amount !== 0) pushRuntime(state, "wheelSectionEdits", { target: picked, kind: "resize", amount });
+            if (effect.reroll) pushRuntime(state, "wheelSectionEdits", { target: picked, kind: "retarget", roll: rng() });
+            return;
+          }
+          case "gainInitiative":
+            pushRuntime(state, "statusEffects", { kind: "momentum", side: "caster" });
+            return;
+          case "status": {
+            const picked = effect.target === undefined ? null : ref(effect.target);
+            if (effect.target !== undefined && !isPicked(picked)) return;
+            const stacks = effect.stacks === undefined ? 1 : evaluate(effect.stacks);
+            if (stacks <= 0) return;
+            pushRuntime(state, "statusEffects", {
+              kind: effect.status,
+              target: picked,
+              side: effect.side ?? "caster",
+              stacks,
+              ...(effect.rounds === undefined ? {} : { rounds: effect.rounds }),
+              ...(effect.note === undefined ? {} : { note: fill(effect.note) }),
+            });
+            return;
+          }
+        }
+      });
+    },
+  };
+}
+
+/**
+ * Validates and compiles a list of specs, given as parsed data or JSON text. Broken or
+ * duplicate specs are left out and reported; the rest still load.
+ */
+export function loadSpellSpecs(input: unknown): { spells: SpellDefinition[]; errors: string[] } {
+  let data = input;
+  if (typeof input === "string") {
+    try {
+      data = JSON.parse(input);
+    } catch (error) {
+      return { spells: [], errors: [`Spell data isn't valid JSON: ${(error as Error).message}`] };
+    }
+  }
+  if (!Array.isArray(data)) return { spells: [], errors: ["Spell data must be a list of spells."] };
+
+  const spells: SpellDefinition[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  data.forEach((entry) => {
+    const problems = validateSpellSpec(entry);
+    const spec = entry as SpellSpec;
+    if (problems.length === 0 && seen.has(spec.id)) problems.push(`${spec.id}: duplicate spell id.`);
+    if (problems.length > 0) {
+      errors.push(...problems);
+      return;
+    }
+    seen.add(spec.id);
+    spells.push(compileSpellSpec(spec));
+  });
+  return { spells, errors };
+}
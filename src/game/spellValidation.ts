@@ -0,0 +1,262 @@
+// src/game/spellValidation.ts
+// Checks a spell declared by the other client: re-derives its effects from the spell
+// and targets instead of trusting the payload that came with it.
+import type { Card, CorePhase, Fighter, LegacySide, Section } from "./types.js";
+import { getCardArcana, matchesArcana } from "./arcana.js";
+import {
+  GRIMOIRE_SPELL_REQUIREMENTS,
+  getSpellRank,
+  handMeetsVisibilityRequirement,
+  type GrimoireSymbols,
+} from "./grimoire.js";
+import {
+  getSpellAtRank,
+  getSpellById,
+  getSpellMaxRank,
+  getSpellTargetStages,
+  type SpellDefinition,
+  type SpellId,
+  type SpellTargetInstance,
+} from "./spells.js";
+import { getCardValue } from "./spellEffectHandlers.js";
+import {
+  computeSpellCost,
+  createSpellRng,
+  resolvePendingSpell,
+  type AssignmentState,
+  type SpellEffectPayload,
+  type SpellStackEntry,
+} from "./spellEngine.js";
+import { getSpellCastBlock, type SpellCastHistory } from "./spellLimits.js";
+
+type SideState<T> = Record<LegacySide, T>;
+
+/** The game as the validating client sees it when the declaration arrives. */
+export type SpellValidationContext = {
+  /** Fighters as spells see them: `hand` holds only the cards in reserve. */
+  fighters: SideState<Fighter>;
+  assign: AssignmentState<Card>;
+  /**
+   * Lanes holding a card this client can't see yet. A target there must be a card still
+   * in the caster's `hand`, which its arcana and value are read from; only the lane is
+   * taken at the caster's word until their assignments arrive.
+   */
+  hiddenLanes?: AssignmentState<boolean>;
+  /**
+   * A side whose hand this client only holds a stand-in for, as a peer's. Cards claimed
+   * from it are taken at the caster's word: their name, arcana and value.
+   */
+  hiddenHand?: LegacySide;
+  wheelSections: Section[][];
+  activeWheels: readonly boolean[];
+  phase: CorePhase;
+  /** Mana the caster has before paying. */
+  mana: number;
+  /** Spells the caster may cast; any registered spell when omitted. */
+  knownSpellIds?: readonly string[];
+  /** The caster's arcana this round; the spell must show in a grimoire holding them. */
+  grimoireSymbols?: GrimoireSymbols;
+  /**
+   * The caster's profile grimoire, which caps the rank they cast at. Peers don't share
+   * theirs, so without it any rank the spell has is accepted.
+   */
+  profileSymbols?: GrimoireSymbols;
+  /** A spell is on the stack, and whether the caster is the one who may answer it. */
+  stackOpen: boolean;
+  canReact: boolean;
+  /** Spells cast so far this match, for cooldowns and ultimates; unchecked when omitted. */
+  castHistory?: SpellCastHistory;
+  round?: number;
+  /** The match seed. Random effects are rolled from it, so the caster's rolls must match. */
+  seed: number;
+};
+
+export type SpellValidationResult =
+  | { ok: true; spell: SpellDefinition; payload: SpellEffectPayload | null }
+  | { ok: false; reason: string };
+
+const otherSide = (side: LegacySide): LegacySide => (side === "player" ? "enemy" : "player");
+
+const reject = (reason: string): SpellValidationResult => ({ ok: false, reason });
+
+const isIndex = (value: unknown): value is number => typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+/** The card a target claims, rebuilt from the claim; undefined when it doesn't say enough. */
+export function claimedCard(claimed: SpellTargetInstance): Card | undefined {
+  if (claimed.type !== "card" || typeof claimed.cardId !== "string" || typeof claimed.cardName !== "string") return undefined;
+  const value = claimed.cardValue;
+  if (typeof value !== "number" || !Number.isFinite(value)) return undefined;
+  return {
+    id: claimed.cardId,
+    name: claimed.cardName,
+    type: "normal",
+    number: value,
+    baseNumber: value,
+    tags: [],
+    ...(claimed.arcana ? { arcana: claimed.arcana } : {}),
+  };
+}
+
+/**
+ * Rebuilds the target for stage `index` from the board, or explains why it isn't
+ * legal. Card values and arcana come from the real card, not the claim.
+ */
+function checkTarget(
+  spell: SpellDefinition,
+  index: number,
+  claimed: SpellTargetInstance | undefined,
+  previous: SpellTargetInstance | undefined,
+  side: LegacySide,
+  context: SpellValidationContext,
+): SpellTargetInstance | string {
+  const stage = getSpellTargetStages(spell.target)[index]!;
+  if (stage.optional && (!claimed || claimed.type === "none")) return { type: "none", stageIndex: index };
+  if (stage.type === "none" || stage.type === "self") return { type: stage.type, stageIndex: index };
+  if (!claimed || claimed.type !== stage.type) return `target ${index + 1} should be a ${stage.type}`;
+
+  if (claimed.type === "wheel" || claimed.type === "section") {
+    const wheelIndex = Number.parseInt(claimed.wheelId, 10);
+    if (!isIndex(wheelIndex) || !context.wheelSections[wheelIndex]) return `target ${index + 1} names no wheel`;
+    if ((stage.type === "wheel" || stage.type === "section") && stage.scope === "current" && !context.activeWheels[wheelIndex]) {
+      return `wheel ${wheelIndex + 1} isn't in play`;
+    }
+    if (claimed.type === "wheel") return { type: "wheel", wheelId: String(wheelIndex), label: `Wheel ${wheelIndex + 1}`, stageIndex: index };
+
+    const section = isIndex(claimed.sectionIndex) ? context.wheelSections[wheelIndex]![claimed.sectionIndex] : undefined;
+    if (!section) return `target ${index + 1} names no section`;
+    if (stage.type === "section" && stage.conditions && !stage.conditions.includes(section.id)) {
+      return `${section.id} can't be picked`;
+    }
+    return { type: "section", wheelId: String(wheelIndex), sectionIndex: claimed.sectionIndex, condition: section.id, stageIndex: index };
+  }
+
+  if (claimed.type !== "card" || stage.type !== "card") return `target ${index + 1} isn't legal`;
+  if (claimed.owner !== "ally" && claimed.owner !== "enemy") return `target ${index + 1} has no owner`;
+  if (stage.ownership !== "any" && stage.ownership !== claimed.owner) return `target ${index + 1} belongs to the wrong side`;
+  const ownerSide = claimed.owner === "ally" ? side : otherSide(side);
+  const fromHand = () =>
+    ownerSide === context.hiddenHand
+      ? claimedCard(claimed)
+      : context.fighters[ownerSide].hand.find((entry) => entry.id === claimed.cardId);
+
+  const location = claimed.location === "hand" ? "hand" : "board";
+  const allowed = stage.location ?? "board";
+  if (allowed !== "any" && allowed !== location) return `target ${index + 1} should be on the ${allowed}`;
+
+  let card: Card | undefined;
+  let lane: number | null = null;
+  if (location === "board") {
+    if (!isIndex(claimed.lane)) return `target ${index + 1} names no lane`;
+    lane = claimed.lane;
+    const slot = context.assign[ownerSide][lane];
+    if (slot?.id === claimed.cardId) {
+      card = slot;
+    } else if (!slot && context.hiddenLanes?.[ownerSide][lane] && ownerSide === side) {
+      card = fromHand();
+    }
+  } else {
+    card = fromHand();
+  }
+  if (!card) return `${claimed.cardId} isn't where the caster says`;
+
+  const arcana = getCardArcana(card);
+  if (stage.arcana && !matchesArcana(arcana, stage.arcana)) return `${card.name} has the wrong arcana`;
+
+  if (stage.adjacentToPrevious) {
+    if (previous?.type !== "card" || typeof previous.lane !== "number" || lane === null) return `target ${index + 1} must sit next to the last`;
+    if (previous.owner !== claimed.owner || Math.abs(previous.lane - lane) !== 1) return `target ${index + 1} must sit next to the last`;
+  }
+
+  return {
+    type: "card",
+    cardId: card.id,
+    owner: claimed.owner,
+    cardName: card.name,
+    arcana,
+    location,
+    lane,
+    stageIndex: index,
+    cardValue: getCardValue(card),
+  };
+}
+
+/** Deep equality that ignores key order and keys left undefined. */
+const sameValue = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((entry, i) => sameValue(entry, b[i]));
+  }
+  if (!a || !b || typeof a !== "object" || typeof b !== "object") return false;
+  const keys = (value: object) => Object.keys(value).filter((key) => (value as Record<string, unknown>)[key] !== undefined);
+  const aKeys = keys(a);
+  const bKeys = keys(b);
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every((key) => sameValue((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]))
+  );
+};
+
+/**
+ * Re-derives what `entry` does from its spell and targets against the game as this
+ * client sees it. Fails when the caster couldn't have cast it: an unknown spell, one on
+ * cooldown or past its ranks, the wrong phase, too little mana, illegal targets, or
+ * effects that don't match.
+ */
+export function validateSpellDeclaration(entry: SpellStackEntry, context: SpellValidationContext): SpellValidationResult {
+  const base = getSpellById(entry.spellId);
+  if (!base) return reject(`unknown spell ${entry.spellId}`);
+  if (context.knownSpellIds && !context.knownSpellIds.includes(base.id)) return reject(`${base.name} isn't one of their spells`);
+  const requirement = GRIMOIRE_SPELL_REQUIREMENTS[base.id as SpellId];
+  if (context.grimoireSymbols && !handMeetsVisibilityRequirement(context.grimoireSymbols, requirement)) {
+    return reject(`${base.name} isn't in their grimoire this round`);
+  }
+  const rank = entry.rank ?? 1;
+  if (rank > getSpellMaxRank(base)) return reject(`${base.name} has no rank ${rank}`);
+  if (context.profileSymbols && rank > getSpellRank(context.profileSymbols, requirement, getSpellMaxRank(base))) {
+    return reject(`their grimoire can't cast ${base.name} at rank ${rank}`);
+  }
+  const spell = getSpellAtRank(base, rank);
+  const block = context.castHistory
+    ? getSpellCastBlock(spell, context.castHistory, entry.side, context.round ?? 0)
+    : null;
+  if (block) return reject(block.kind === "spent" ? `${spell.name} was already used this match` : `${spell.name} is on cooldown`);
+
+  if (spell.reaction) {
+    if (!context.canReact) return reject(`there is nothing for ${spell.name} to answer`);
+  } else if (context.stackOpen || !(spell.allowedPhases ?? ["choose"]).includes(context.phase)) {
+    return reject(`${spell.name} can't be cast now`);
+  }
+
+  const { side } = entry;
+  const caster = context.fighters[side];
+  const opponent = context.fighters[otherSide(side)];
+  const cost = computeSpellCost(spell, { caster, opponent, phase: context.phase, runtimeState: {} });
+  if (entry.spentMana !== cost) return reject(`${spell.name} costs ${cost}, not ${entry.spentMana}`);
+  if (context.mana < cost) return reject(`not enough mana for ${spell.name}`);
+
+  const stages = getSpellTargetStages(spell.target);
+  const targets: SpellTargetInstance[] = [];
+  for (let i = 0; i < stages.length; i += 1) {
+    const checked = checkTarget(spell, i, entry.targets[i], targets[i - 1], side, context);
+    if (typeof checked === "string") return reject(checked);
+    targets.push(checked);
+  }
+
+  const result = resolvePendingSpell({
+    descriptor: { side, spell, targets, currentStage: stages.length, spentMana: cost },
+    caster,
+    opponent,
+    phase: context.phase,
+    runtimeState: {},
+    rng: createSpellRng(context.seed, side, spell.id, context.castHistory),
+  });
+  if (result.outcome !== "success") return reject(`${spell.name} didn't resolve`);
+  if (!result.payload) return { ok: true, spell, payload: null };
+
+  const payload = result.payload;
+  // Log lines carry names, which each client may spell differently.
+  if (!sameValue({ ...payload, logMessages: undefined }, { ...entry.payload, logMessages: undefined })) {
+    return reject(`${spell.name}'s effects don't match its targets`);
+  }
+  return { ok: true, spell, payload };
+}
@@ -0,0 +1,290 @@
+// src/game/statusEffects.ts
+// Effects that outlast the spell that applied them. Each one records who applied it,
+// what it sits on and how long it lasts; the engine and the hook fire them at round
+// start and around resolution, so both clients tick the same list in step.
+import type { LegacySide } from "./types.js";
+
+export type StatusEffectKind = "chill" | "momentum" | "omen";
+
+export type StatusTrigger = "roundStart" | "preResolve" | "postResolve";
+
+export type StatusTarget =
+  | { type: "card"; side: LegacySide; cardId: string }
+  | { type: "lane"; side: LegacySide; lane: number }
+  | { type: "wheel"; wheel: number }
+  | { type: "reserve"; side: LegacySide }
+  | { type: "fighter"; side: LegacySide };
+
+export type StatusTargetType = StatusTarget["type"];
+
+/**
+ * How long an effect lasts. `rounds` counts the round starts it survives, so 0 ends
+ * at the next one; `phase` ends right after the named trigger next fires.
+ */
+export type StatusDuration =
+  | { unit: "rounds"; remaining: number }
+  | { unit: "phase"; until: StatusTrigger };
+
+/**
+ * What happens when an effect lands on a target that already has one of its kind:
+ * `stack` adds stacks and rounds, `refresh` keeps the larger stack count and restarts
+ * the duration, `replace` swaps the old one out and `separate` keeps both.
+ */
+export type StatusStacking = "stack" | "refresh" | "replace" | "separate";
+
+export type StatusEffect = {
+  kind: StatusEffectKind;
+  /** Side that applied it. */
+  owner: LegacySide;
+  target: StatusTarget;
+  stacks: number;
+  duration: StatusDuration;
+  /** Text an omen reads out when it fires. */
+  note?: string;
+};
+
+/** What a firing effect asks the match to do. */
+export type StatusOutcome =
+  | { type: "takeInitiative"; side: LegacySide }
+  | { type: "holdInitiative"; side: LegacySide }
+  | { type: "log"; message: string };
+
+export type StatusEffectDef = {
+  id: StatusEffectKind;
+  label: string;
+  icon: string;
+  description: string;
+  target: StatusTargetType;
+  stacking: StatusStacking;
+  /** Used when whoever applies the effect doesn't give a duration. */
+  duration: StatusDuration;
+  triggers: Partial<Record<StatusTrigger, (effect: StatusEffect) => StatusOutcome[]>>;
+};
+
+export const STATUS_EFFECTS: Record<StatusEffectKind, StatusEffectDef> = {
+  chill: {
+    id: "chill",
+    label: "Chill",
+    icon: "❄️",
+    description: "Cards can't be placed in, moved out of or cleared from this lane.",
+    target: "lane",
+    stacking: "stack",
+    duration: { unit: "rounds", remaining: 1 },
+    triggers: {},
+  },
+  momentum: {
+    id: "momentum",
+    label: "Momentum",
+    icon: "⏳",
+    description: "Takes initiative before the wheels resolve and keeps it for the next round.",
+    target: "fighter",
+    stacking: "refresh",
+    duration: { unit: "rounds", remaining: 0 },
+    triggers: {
+      preResolve: (effect) => [{ type: "takeInitiative", side: effect.owner }],
+      postResolve: (effect) => [{ type: "holdInitiative", side: effect.owner }],
+    },
+  },
+  omen: {
+    id: "omen",
+    label: "Omen",
+    icon: "🔮",
+    description: "Comes to pass at the start of the next round.",
+    target: "fighter",
+    stacking: "separate",
+    duration: { unit: "rounds", remaining: 0 },
+    triggers: {
+      roundStart: (effect) => (effect.note ? [{ type: "log", message: effect.note }] : []),
+    },
+  },
+};
+
+export function isStatusEffectKind(value: unknown): value is StatusEffectKind {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(STATUS_EFFECTS, value);
+}
+
+const targetKey = (target: StatusTarget): string => {
+  switch (target.type) {
+    case "card":
+      return `card:${target.side}:${target.cardId}`;
+    case "lane":
+      return `lane:${target.side}:${target.lane}`;
+    case "wheel":
+      return `wheel:${target.wheel}`;
+    default:
+      return `${target.type}:${target.side}`;
+  }
+};
+
+const sameTarget = (a: StatusTarget, b: StatusTarget) => targetKey(a) === targetKey(b);
+
+/** An effect of `kind` with its definition's duration unless `options` says otherwise. */
+export function createStatusEffect(
+  kind: StatusEffectKind,
+  owner: LegacySide,
+  target: StatusTarget,
+  options: { stacks?: number; duration?: StatusDuration; note?: string } = {},
+): StatusEffect {
+  const effect: StatusEffect = {
+    kind,
+    owner,
+    target,
+    stacks: Math.max(1, Math.round(options.stacks ?? 1)),
+    duration: options.duration ?? STATUS_EFFECTS[kind].duration,
+  };
+  if (options.note) effect.note = options.note;
+  return effect;
+}
+
+const mergeDurations = (current: StatusDuration, incoming: StatusDuration): StatusDuration =>
+  current.unit === "rounds" && incoming.unit === "rounds"
+    ? { unit: "rounds", remaining: current.remaining + incoming.remaining }
+    : incoming;
+
+/** Adds `incoming` to the list following its kind's stacking rule. */
+export function applyStatusEffect(effects: readonly StatusEffect[], incoming: StatusEffect): StatusEffect[] {
+  const { stacking } = STATUS_EFFECTS[incoming.kind];
+  const index =
+    stacking === "separate"
+      ? -1
+      : effects.findIndex((effect) => effect.kind === incoming.kind && sameTarget(effect.target, incoming.target));
+  if (index === -1) return [...effects, incoming];
+
+  const current = effects[index];
+  let merged: StatusEffect;
+  switch (stacking) {
+    case "stack":
+      merged = {
+        ...current,
+        owner: incoming.owner,
+        stacks: current.stacks + incoming.stacks,
+        duration: mergeDurations(current.duration, incoming.duration),
+      };
+      break;
+    case "refresh":
+      merged = { ...current, owner: incoming.owner, stacks: Math.max(current.stacks, incoming.stacks), duration: incoming.duration };
+      break;
+    default:
+      merged = incoming;
+  }
+  const next = [...effects];
+  next[index] = merged;
+  return next;
+}
+
+export function applyStatusEffects(effects: readonly StatusEffect[], incoming: readonly StatusEffect[]): StatusEffect[] {
+  return incoming.reduce<StatusEffect[]>((list, effect) => applyStatusEffect(list, effect), [...effects]);
+}
+
+/**
+ * Fires every effect listening for `trigger`, then retires the ones that end there.
+ * Round durations only count down at round start.
+ */
+export function fireStatusTrigger(
+  effects: readonly StatusEffect[],
+  trigger: StatusTrigger,
+): { effects: StatusEffect[]; outcomes: StatusOutcome[] } {
+  const outcomes: StatusOutcome[] = [];
+  const remaining: StatusEffect[] = [];
+  for (const effect of effects) {
+    const fire = STATUS_EFFECTS[effect.kind]?.triggers[trigger];
+    if (fire) outcomes.push(...fire(effect));
+
+    const { duration } = effect;
+    if (duration.unit === "phase") {
+      if (duration.until !== trigger) remaining.push(effect);
+    } else if (trigger !== "roundStart") {
+      remaining.push(effect);
+    } else if (duration.remaining > 0) {
+      remaining.push({ ...effect, duration: { unit: "rounds", remaining: duration.remaining - 1 } });
+    }
+  }
+  return { effects: remaining, outcomes };
+}
+
+/** Effects sitting on exactly `target`. */
+export function statusEffectsOn(effects: readonly StatusEffect[], target: StatusTarget): StatusEffect[] {
+  return effects.filter((effect) => sameTarget(effect.target, target));
+}
+
+/** Chill stacks on each side's lanes. */
+export function chillStacksByLane(effects: readonly StatusEffect[], laneCount: number): Record<LegacySide, number[]> {
+  const stacks = { player: new Array<number>(laneCount).fill(0), enemy: new Array<number>(laneCount).fill(0) };
+  for (const effect of effects) {
+    if (effect.kind !== "chill" || effect.target.type !== "lane") continue;
+    const { side, lane } = effect.target;
+    if (lane >= 0 && lane < laneCount) stacks[side][lane] += effect.stacks;
+  }
+  return stacks;
+}
+
+/** Hover text for a badge: what the effect does and how long it has left. */
+export function describeStatusEffect(effect: StatusEffect): string {
+  const def = STATUS_EFFECTS[effect.kind];
+  const stacks = effect.stacks > 1 ? ` ×${effect.stacks}` : "";
+  const { duration } = effect;
+  const left =
+    duration.unit === "phase"
+      ? `until ${duration.until === "roundStart" ? "the next round" : duration.until === "preResolve" ? "the wheels resolve" : "the round resolves"}`
+      : duration.remaining === 0
+        ? "until the next round"
+        : `${duration.remaining} more round${duration.remaining === 1 ? "" : "s"}`;
+  return `${def.label}${stacks}: ${effect.note ?? def.description} (${left})`;
+}
+
+const SIDES: readonly LegacySide[] = ["player", "enemy"];
+const TRIGGERS: readonly StatusTrigger[] = ["roundStart", "preResolve", "postResolve"];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isSide = (value: unknown): value is LegacySide => SIDES.includes(value as LegacySide);
+
+const isIndex = (value: unknown): value is number => typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+function readTarget(value: unknown): StatusTarget | null {
+  if (!isRecord(value)) return null;
+  switch (value.type) {
+    case "card":
+      return isSide(value.side) && typeof value.cardId === "string" ? { type: "card", side: value.side, cardId: value.cardId } : null;
+    case "lane":
+      return isSide(value.side) && isIndex(value.lane) ? { type: "lane", side: value.side, lane: value.lane } : null;
+    case "wheel":
+      return isIndex(value.wheel) ? { type: "wheel", wheel: value.wheel } : null;
+    case "reserve":
+    case "fighter":
+      return isSide(value.side) ? { type: value.type, side: value.side } : null;
+    default:
+      return null;
+  }
+}
+
+function readDuration(value: unknown): StatusDuration | null {
+  if (!isRecord(value)) return null;
+  if (value.unit === "rounds" && isIndex(value.remaining)) return { unit: "rounds", remaining: Math.min(value.remaining, 9) };
+  if (value.unit === "phase" && TRIGGERS.includes(value.until as StatusTrigger)) {
+    return { unit: "phase", until: value.until as StatusTrigger };
+  }
+  return null;
+}
+
+/** Validates effects received from a peer; anything malformed is dropped. */
+export function normalizeStatusEffects(value: unknown): StatusEffect[] {
+  if (!Array.isArray(value)) return [];
+  const effects: StatusEffect[] = [];
+  for (const entry of value) {
+    if (!isRecord(entry) || !isStatusEffectKind(entry.kind) || !isSide(entry.owner)) continue;
+    const target = readTarget(entry.target);
+    const duration = readDuration(entry.duration);
+    if (!target || !duration || target.type !== STATUS_EFFECTS[entry.kind].target) continue;
+    const stacks = typeof entry.stacks === "number" && Number.isFinite(entry.stacks) ? entry.stacks : 1;
+    effects.push(
+      createStatusEffect(entry.kind, entry.owner, target, {
+        stacks: Math.min(stacks, 9),
+        duration,
+        note: typeof entry.note === "string" ? entry.note.slice(0, 200) : undefined,
+      }),
+    );
+  }
+  return effects;
+}
@@ -0,0 +1,85 @@
+// src/game/tieBreakers.ts
+// Match-wide rule for lanes whose victory condition comes out even. The resolver,
+// the round summary and the CPU all read it from here.
+import type { Card, LegacySide } from "./types.js";
+import { getArcanaPriority, getCardArcana } from "./arcana.js";
+
+export type TieBreakRule = "none" | "initiative" | "reserve" | "arcana" | "carryOver";
+
+export type TieBreakDef = {
+  id: TieBreakRule;
+  label: string;
+  description: string;
+};
+
+export const TIE_BREAKS: Record<TieBreakRule, TieBreakDef> = {
+  none: {
+    id: "none",
+    label: "No winner",
+    description: "A tied wheel awards nobody.",
+  },
+  initiative: {
+    id: "initiative",
+    label: "Initiative",
+    description: "The initiative holder wins a tied wheel.",
+  },
+  reserve: {
+    id: "reserve",
+    label: "Higher reserve",
+    description: "The higher reserve wins a tied wheel.",
+  },
+  arcana: {
+    id: "arcana",
+    label: "Arcana priority",
+    description: "The card with the higher arcana (🔥 > 🗡️ > 👁️ > 🌒 > 🐍) wins a tied wheel.",
+  },
+  carryOver: {
+    id: "carryOver",
+    label: "Carry-over",
+    description: "A tied wheel's win rolls into the next round.",
+  },
+};
+
+export const DEFAULT_TIE_BREAK: TieBreakRule = "none";
+
+export function listTieBreaks(): TieBreakDef[] {
+  return Object.values(TIE_BREAKS);
+}
+
+export function isTieBreakRule(value: unknown): value is TieBreakRule {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(TIE_BREAKS, value);
+}
+
+export function normalizeTieBreak(value: unknown): TieBreakRule {
+  return isTieBreakRule(value) ? value : DEFAULT_TIE_BREAK;
+}
+
+const higher = (player: number, enemy: number): LegacySide | null =>
+  player === enemy ? null : player > enemy ? "player" : "enemy";
+
+/**
+ * Side a tie goes to under `rule`, or null when the rule leaves it tied (including
+ * carry-over, which the round summary settles).
+ */
+export function breakTie(
+  rule: TieBreakRule,
+  ctx: {
+    playerCard: Card | null;
+    enemyCard: Card | null;
+    reserves: Record<LegacySide, number>;
+    initiative: LegacySide;
+  },
+): LegacySide | null {
+  switch (rule) {
+    case "initiative":
+      return ctx.initiative;
+    case "reserve":
+      return higher(ctx.reserves.player, ctx.reserves.enemy);
+    case "arcana": {
+      const rank = (card: Card | null) => (card ? getArcanaPriority(getCardArcana(card)) : 0);
+      return higher(rank(ctx.playerCard), rank(ctx.enemyCard));
+    }
+    default:
+      return null;
+  }
+}
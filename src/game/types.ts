@@ -1,4 +1,5 @@
 // src/game/types.ts
+/** Slices on a wheel unless its template says otherwise. */
 export const SLICES = 16 as const;
 export const TARGET_WINS = 12 as const;
 
@@ -44,12 +45,17 @@ export type Card = {
   reserveExhausted?: boolean;
 };
 
+/** Victory condition ids; rules and metadata live in victoryConditions.ts. */
 export type VC =
   | "Strongest"
   | "Weakest"
   | "ReserveSum"
   | "ClosestToTarget"
-  | "Initiative";
+  | "Initiative"
+  | "EvenBeatsOdd"
+  | "ExactSum"
+  | "LowestReserve"
+  | "ArcanaCount";
 
 export type Section = {
   id: VC;
@@ -87,4 +93,6 @@ export type ChosenCardMap = Partial<Record<Side, Card>>;
 export type NumberBySide = Record<Side, number>;
 
 // Activation support
-export type SplitChoiceMap = Record<string, "left" | "right">;
+export type SplitFace = "left" | "right";
+/** Chosen face for each split card currently in a lane, keyed by card id. */
+export type SplitChoiceMap = Record<string, SplitFace>;
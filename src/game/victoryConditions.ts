@@ -0,0 +1,208 @@
+// src/game/victoryConditions.ts
+// Registry of victory conditions (VCs). Each entry carries its wheel metadata and the
+// comparison that decides a lane, so the live resolver and the CPU share one rule table.
+import type { Card, LegacySide, Section, VC } from "./types.js";
+import { getCardArcana } from "./arcana.js";
+
+export type VCContext = {
+  playerValue: number;
+  enemyValue: number;
+  reserves: { player: number; enemy: number };
+  initiative: LegacySide;
+  section: Section;
+  targetSlice: number;
+  /** Every card each side has on the wheels this round, for conditions that look past one lane. */
+  lanes: Record<LegacySide, (Card | null)[]>;
+};
+
+export type VCResult = { winner: LegacySide | null; detail: string };
+
+/** Inclusive range a per-section target is rolled from. */
+export type TargetRange = { min: number; max: number };
+
+export type VictoryConditionDef = {
+  id: VC;
+  label: string;
+  icon: string;
+  color: string;
+  short: string;
+  explain: string;
+  /** Dealt onto randomly generated wheels. */
+  inRotation: boolean;
+  /** Simple enough for easy mode. */
+  basic?: boolean;
+  /** Condition this one turns into when a lane is parity-flipped. */
+  flipsTo?: VC;
+  /** Range of the per-section target rolled when a wheel with `slices` slices is generated. */
+  targetRange?: (slices: number) => TargetRange;
+  resolve: (ctx: VCContext) => VCResult;
+};
+
+const higherWins = (a: number, b: number): LegacySide | null =>
+  a === b ? null : a > b ? "player" : "enemy";
+
+const lowerWins = (a: number, b: number): LegacySide | null =>
+  a === b ? null : a < b ? "player" : "enemy";
+
+const isEven = (value: number) => Math.abs(Math.trunc(value)) % 2 === 0;
+
+const distinctArcana = (cards: (Card | null)[]) =>
+  new Set(cards.filter((card): card is Card => !!card).map((card) => getCardArcana(card))).size;
+
+const BUILTIN_VICTORY_CONDITIONS: VictoryConditionDef[] = [
+  {
+    id: "Strongest",
+    label: "Strongest",
+    icon: "💥",
+    color: "#f43f5e",
+    short: "STR",
+    explain: "Higher value wins.",
+    inRotation: true,
+    basic: true,
+    flipsTo: "Weakest",
+    resolve: ({ playerValue: p, enemyValue: e }) => ({
+      winner: higherWins(p, e),
+      detail: `Strongest ${p} vs ${e}`,
+    }),
+  },
+  {
+    id: "Weakest",
+    label: "Weakest",
+    icon: "🦊",
+    color: "#10b981",
+    short: "WEAK",
+    explain: "Lower value wins.",
+    inRotation: true,
+    basic: true,
+    flipsTo: "Strongest",
+    resolve: ({ playerValue: p, enemyValue: e }) => ({
+      winner: lowerWins(p, e),
+      detail: `Weakest ${p} vs ${e}`,
+    }),
+  },
+  {
+    id: "ReserveSum",
+    label: "Reserve",
+    icon: "🗃️",
+    color: "#0ea5e9",
+    short: "RES",
+    explain: "Compare sums of the two cards left in hand.",
+    inRotation: true,
+    basic: true,
+    resolve: ({ reserves }) => ({
+      winner: higherWins(reserves.player, reserves.enemy),
+      detail: `Reserve ${reserves.player} vs ${reserves.enemy}`,
+    }),
+  },
+  {
+    id: "ClosestToTarget",
+    label: "Closest",
+    icon: "🎯",
+    color: "#f59e0b",
+    short: "CL",
+    explain: "Value closest to target wins.",
+    inRotation: true,
+    basic: true,
+    targetRange: (slices) => ({ min: 0, max: slices - 1 }),
+    resolve: ({ playerValue: p, enemyValue: e, targetSlice, section }) => {
+      const t = targetSlice === 0 ? section.target ?? 0 : targetSlice;
+      return {
+        winner: lowerWins(Math.abs(p - t), Math.abs(e - t)),
+        detail: `Closest to ${t}: ${p} vs ${e}`,
+      };
+    },
+  },
+  {
+    id: "Initiative",
+    label: "Initiative",
+    icon: "⚑",
+    color: "#a78bfa",
+    short: "INIT",
+    explain: "Initiative holder wins.",
+    inRotation: true,
+    basic: true,
+    resolve: ({ initiative }) => ({ winner: initiative, detail: `Initiative -> ${initiative}` }),
+  },
+  {
+    id: "EvenBeatsOdd",
+    label: "Even beats Odd",
+    icon: "☯️",
+    color: "#14b8a6",
+    short: "EVEN",
+    explain: "An even value beats an odd one; matching parity is a tie.",
+    inRotation: true,
+    resolve: ({ playerValue: p, enemyValue: e }) => {
+      const winner = isEven(p) === isEven(e) ? null : isEven(p) ? "player" : "enemy";
+      return { winner, detail: `Even beats odd: ${p} vs ${e}` };
+    },
+  },
+  {
+    id: "ExactSum",
+    label: "Exact Sum",
+    icon: "➕",
+    color: "#ec4899",
+    short: "SUM",
+    explain: "If both cards add up to the target, the lower card wins; otherwise the higher card wins.",
+    inRotation: true,
+    targetRange: () => ({ min: 4, max: 14 }),
+    resolve: ({ playerValue: p, enemyValue: e, section }) => {
+      const target = section.target ?? 0;
+      const exact = p + e === target;
+      return {
+        winner: exact ? lowerWins(p, e) : higherWins(p, e),
+        detail: `Sum ${p + e} ${exact ? "=" : "≠"} ${target}: ${p} vs ${e}`,
+      };
+    },
+  },
+  {
+    id: "LowestReserve",
+    label: "Lowest Reserve",
+    icon: "🪶",
+    color: "#64748b",
+    short: "LRES",
+    explain: "Smaller reserve wins.",
+    inRotation: true,
+    resolve: ({ reserves }) => ({
+      winner: lowerWins(reserves.player, reserves.enemy),
+      detail: `Lowest reserve ${reserves.player} vs ${reserves.enemy}`,
+    }),
+  },
+  {
+    id: "ArcanaCount",
+    label: "Arcana Count",
+    icon: "🔮",
+    color: "#8b5cf6",
+    short: "ARC",
+    explain: "Most different arcana among your cards in play wins.",
+    inRotation: true,
+    resolve: ({ lanes }) => {
+      const p = distinctArcana(lanes.player);
+      const e = distinctArcana(lanes.enemy);
+      return { winner: higherWins(p, e), detail: `Arcana ${p} vs ${e}` };
+    },
+  },
+];
+
+const registry = new Map<VC, VictoryConditionDef>(
+  BUILTIN_VICTORY_CONDITIONS.map((def) => [def.id, def]),
+);
+
+/** Adds or replaces a victory condition. */
+export function registerVictoryCondition(def: VictoryConditionDef) {
+  registry.set(def.id, def);
+}
+
+export function getVictoryCondition(id: VC): VictoryConditionDef | undefined {
+  return registry.get(id);
+}
+
+export function listVictoryConditions(): VictoryConditionDef[] {
+  return Array.from(registry.values());
+}
+
+/** Conditions dealt onto generated wheels; easy mode only deals the basic ones. */
+export function getRotationPool(options: { easyMode?: boolean } = {}): VC[] {
+  return listVictoryConditions()
+    .filter((def) => def.inRotation && (!options.easyMode || def.basic))
+    .map((def) => def.id);
+}
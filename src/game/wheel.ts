@@ -1,63 +1,392 @@
 // src/game/wheel.ts
-import { SLICES, VC, Section } from "./types";
-
-export const VC_META: Record<
-  VC,
-  { icon: string; color: string; short: string; explain: string }
-> = {
-  Strongest: { icon: "💥", color: "#f43f5e", short: "STR", explain: "Higher value wins." },
-  Weakest: { icon: "🦊", color: "#10b981", short: "WEAK", explain: "Lower value wins." },
-  ReserveSum: { icon: "🗃️", color: "#0ea5e9", short: "RES", explain: "Compare sums of the two cards left in hand." },
-  ClosestToTarget: { icon: "🎯", color: "#f59e0b", short: "CL", explain: "Value closest to target wins." },
-  Initiative: { icon: "⚑", color: "#a78bfa", short: "INIT", explain: "Initiative holder wins." },
+// Wheel templates are plain data: built-ins live here, custom ones are saved by the
+// wheel editor, and a match carries the resolved template for each lane.
+import { SLICES, type VC, type Section } from "./types.js";
+import { getRotationPool, getVictoryCondition, type TargetRange } from "./victoryConditions.js";
+import { ARCHETYPE_IDS, type ArchetypeId } from "./archetypes.js";
+import { laneIndexes } from "./lanes.js";
+import { inSection, shuffle } from "./math.js";
+
+export type WheelArchetype = "bandit" | "sorcerer" | "beast" | "fatespinner";
+
+export type WheelTemplate = {
+  id: string;
+  name: string;
+  /** Slices on the wheel, including slice 0. */
+  slices: number;
+  /** Section lengths; rescaled to fill every slice but 0 when they don't add up. */
+  lengths: number[];
+  /** Conditions dealt onto the wheel; omitted or empty deals the rotation pool. */
+  conditions?: VC[];
+  /** Overrides a condition's target roll, e.g. the slice ClosestToTarget aims at. */
+  targetRanges?: Partial<Record<VC, TargetRange>>;
+  /** Condition that decides slice 0; without one slice 0 is a no-win slice. */
+  slice0?: VC | null;
+  /** Archetype this wheel stands for when a match ties wheels to archetypes. */
+  archetype?: ArchetypeId;
+};
+
+/** Which templates a match deals onto its lanes. */
+export type WheelSetChoice =
+  | { kind: "rotation" }
+  | { kind: "archetypes"; player: ArchetypeId; enemy: ArchetypeId }
+  | { kind: "templates"; templateIds: string[] };
+
+export const MIN_WHEEL_SLICES = 8;
+export const MAX_WHEEL_SLICES = 32;
+export const WHEEL_SLICE_OPTIONS: readonly number[] = [12, 16, 20, 24];
+
+export const WHEEL_TEMPLATES: Record<WheelArchetype, WheelTemplate> = {
+  bandit: { id: "bandit", name: "Bandit", slices: SLICES, lengths: [5, 4, 3, 2, 1], archetype: "bandit" },
+  sorcerer: { id: "sorcerer", name: "Sorcerer", slices: SLICES, lengths: [5, 5, 2, 2, 1], archetype: "sorcerer" },
+  beast: { id: "beast", name: "Beast", slices: SLICES, lengths: [6, 3, 3, 2, 1], archetype: "beast" },
+  fatespinner: { id: "fatespinner", name: "Fatespinner", slices: SLICES, lengths: [3, 3, 3, 3, 3], archetype: "fatespinner" },
 };
 
-import { shuffle } from "./math";
+const ROTATION: readonly WheelArchetype[] = ["bandit", "sorcerer", "beast"];
+
+/** Built-ins in library order; the ones outside the rotation only deal when chosen. */
+const BUILTINS: readonly WheelArchetype[] = [...ROTATION, "fatespinner"];
+
+export const DEFAULT_WHEEL_SET: WheelSetChoice = { kind: "rotation" };
+
+export function listBuiltinWheelTemplates(): WheelTemplate[] {
+  return BUILTINS.map((id) => WHEEL_TEMPLATES[id]);
+}
+
+export const isBuiltinWheelTemplate = (id: string) => (BUILTINS as readonly string[]).includes(id);
+
+/** Template lane `lane` gets when nothing else is chosen: bandit → sorcerer → beast, repeating. */
+export const rotationTemplateAt = (lane: number): WheelTemplate =>
+  WHEEL_TEMPLATES[ROTATION[lane % ROTATION.length]];
+
+export function normalizeSliceCount(value: unknown): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) return SLICES;
+  return Math.max(MIN_WHEEL_SLICES, Math.min(MAX_WHEEL_SLICES, Math.round(value)));
+}
+
+/** Slice count of the wheel at `index`, falling back to the classic 16. */
+export const sliceCountAt = (wheelSlices: readonly number[] | undefined, index: number): number =>
+  normalizeSliceCount(wheelSlices?.[index]);
+
+/** The zero-width section that decides slice 0, if the wheel has one. */
+export const findSlice0Section = (sections: readonly Section[]): Section | undefined =>
+  sections.find((section) => section.start === 0 && section.end === 0);
+
+/** Index of the section slice `slice` falls in, or -1 when it's in none. */
+export const sectionIndexAt = (sections: readonly Section[], slice: number): number =>
+  slice === 0
+    ? sections.findIndex((section) => section.start === 0 && section.end === 0)
+    : sections.findIndex((section) => inSection(slice, section));
+
+const isKnownCondition = (value: unknown): value is VC =>
+  typeof value === "string" && getVictoryCondition(value as VC) !== undefined;
+
+const isArchetypeId = (value: unknown): value is ArchetypeId =>
+  typeof value === "string" && (ARCHETYPE_IDS as string[]).includes(value);
+
+function normalizeTargetRange(value: unknown): TargetRange | null {
+  if (!value || typeof value !== "object") return null;
+  const { min, max } = value as Partial<TargetRange>;
+  if (typeof min !== "number" || typeof max !== "number") return null;
+  if (!Number.isFinite(min) || !Number.isFinite(max)) return null;
+  const lo = Math.round(Math.min(min, max));
+  const hi = Math.round(Math.max(min, max));
+  return { min: lo, max: hi };
+}
+
+/** Validates a template loaded from storage or received from a peer; null when unusable. */
+export function normalizeWheelTemplate(value: unknown): WheelTemplate | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.id !== "string" || raw.id.trim() === "") return null;
+
+  const lengths = Array.isArray(raw.lengths)
+    ? raw.lengths
+        .filter((len): len is number => typeof len === "number" && Number.isFinite(len))
+        .map((len) => Math.round(len))
+        .filter((len) => len > 0)
+    : [];
+  if (lengths.length === 0) return null;
+
+  const template: WheelTemplate = {
+    id: raw.id,
+    name: typeof raw.name === "string" && raw.name.trim() !== "" ? raw.name : raw.id,
+    slices: normalizeSliceCount(raw.slices),
+    lengths,
+  };
+
+  if (Array.isArray(raw.conditions)) {
+    const conditions = raw.conditions.filter(isKnownCondition);
+    if (conditions.length > 0) template.conditions = conditions;
+  }
+  if (raw.targetRanges && typeof raw.targetRanges === "object") {
+    const ranges: Partial<Record<VC, TargetRange>> = {};
+    Object.entries(raw.targetRanges as Record<string, unknown>).forEach(([id, range]) => {
+      const normalized = normalizeTargetRange(range);
+      if (isKnownCondition(id) && normalized) ranges[id] = normalized;
+    });
+    if (Object.keys(ranges).length > 0) template.targetRanges = ranges;
+  }
+  if (isKnownCondition(raw.slice0)) template.slice0 = raw.slice0;
+  if (isArchetypeId(raw.archetype)) template.archetype = raw.archetype;
+  return template;
+}
+
+/** Validates a per-lane template list; undefined when nothing usable is left. */
+export function normalizeWheelTemplates(value: unknown): WheelTemplate[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const templates = value
+    .map((entry) => normalizeWheelTemplate(entry))
+    .filter((template): template is WheelTemplate => template !== null);
+  return templates.length > 0 ? templates : undefined;
+}
+
+/** Validates a wheel-set choice from a peer or a ruleset code; unusable ones fall back to the rotation. */
+export function normalizeWheelSetChoice(value: unknown): WheelSetChoice {
+  if (!value || typeof value !== "object") return DEFAULT_WHEEL_SET;
+  const raw = value as Record<string, unknown>;
+  if (raw.kind === "archetypes" && isArchetypeId(raw.player) && isArchetypeId(raw.enemy)) {
+    return { kind: "archetypes", player: raw.player, enemy: raw.enemy };
+  }
+  if (raw.kind === "templates" && Array.isArray(raw.templateIds)) {
+    const templateIds = raw.templateIds.filter((id): id is string => typeof id === "string" && id !== "");
+    if (templateIds.length > 0) return { kind: "templates", templateIds };
+  }
+  return DEFAULT_WHEEL_SET;
+}
+
+/** The template standing for `archetype`; later library entries win over built-ins. */
+export function templateForArchetype(
+  archetype: ArchetypeId,
+  library: readonly WheelTemplate[] = listBuiltinWheelTemplates(),
+): WheelTemplate {
+  for (let i = library.length - 1; i >= 0; i--) {
+    if (library[i].archetype === archetype) return library[i];
+  }
+  return WHEEL_TEMPLATES[archetype] ?? WHEEL_TEMPLATES.bandit;
+}
+
+/**
+ * Resolves a wheel-set choice into one template per lane. Archetype sets alternate the
+ * player's and the enemy's wheels starting from the left; template lists repeat to fill
+ * the lanes and unknown ids fall back to the rotation.
+ */
+export function resolveWheelTemplates(
+  choice: WheelSetChoice,
+  laneCount: number,
+  library: readonly WheelTemplate[] = listBuiltinWheelTemplates(),
+): WheelTemplate[] {
+  return laneIndexes(laneCount).map((lane) => {
+    switch (choice.kind) {
+      case "archetypes":
+        return templateForArchetype(lane % 2 === 0 ? choice.player : choice.enemy, library);
+      case "templates": {
+        const ids = choice.templateIds;
+        const id = ids.length > 0 ? ids[lane % ids.length] : undefined;
+        return library.find((template) => template.id === id) ?? rotationTemplateAt(lane);
+      }
+      default:
+        return rotationTemplateAt(lane);
+    }
+  });
+}
+
+/**
+ * Scales `lengths` so they cover `total` slices, keeping every section at least
+ * one slice long and handing leftover slices to the largest remainders.
+ */
+function fitLengths(lengths: number[], total: number): number[] {
+  const usable = lengths.slice(0, total).filter((len) => len > 0);
+  const sum = usable.reduce((a, len) => a + len, 0);
+  if (usable.length === 0 || sum === total) return usable;
+
+  const spare = total - usable.length;
+  const scaled = usable.map((len) => ((len - 1) / Math.max(1, sum - usable.length)) * spare);
+  const fitted = scaled.map((value) => 1 + Math.floor(value));
+  let remaining = total - fitted.reduce((a, len) => a + len, 0);
+  const order = scaled
+    .map((value, i) => ({ i, rest: value - Math.floor(value) }))
+    .sort((a, b) => b.rest - a.rest || a.i - b.i);
+  for (let k = 0; remaining > 0; k = (k + 1) % order.length, remaining--) {
+    fitted[order[k].i] += 1;
+  }
+  return fitted;
+}
+
+function conditionPool(template: WheelTemplate, easyMode: boolean): VC[] {
+  const listed = (template.conditions ?? []).filter(
+    (id) => isKnownCondition(id) && (!easyMode || getVictoryCondition(id)?.basic),
+  );
+  return listed.length > 0 ? listed : getRotationPool({ easyMode });
+}
+
+function rollTarget(template: WheelTemplate, id: VC, slices: number, rng: () => number): number | undefined {
+  const range = getVictoryCondition(id)?.targetRange?.(slices);
+  if (!range) return undefined;
+  const { min, max } = template.targetRanges?.[id] ?? range;
+  return min + Math.floor(rng() * (max - min + 1));
+}
 
 export function genWheelSections(
-  archetype: "bandit" | "sorcerer" | "beast" = "bandit",
+  archetype: WheelArchetype | WheelTemplate = "bandit",
   rng: () => number = Math.random,
-  options: { easyMode?: boolean } = {}
+  options: { easyMode?: boolean; slices?: number } = {}
 ): Section[] {
   const easyMode = options.easyMode === true;
-  const kinds: VC[] = shuffle([
-    "Strongest",
-    "Weakest",
-    "ReserveSum",
-    "ClosestToTarget",
-    "Initiative",
-  ], rng);
+  const template =
+    typeof archetype === "string" ? WHEEL_TEMPLATES[archetype] ?? WHEEL_TEMPLATES.bandit : archetype;
+  const slices = normalizeSliceCount(options.slices ?? template.slices);
+  const kinds: VC[] = shuffle(conditionPool(template, easyMode), rng);
 
   const lens = (() => {
+    const total = slices - 1;
     if (easyMode) {
-      const total = SLICES - 1;
       const candidate = [3, 2, 1].find((count) => count <= kinds.length && total % count === 0) ?? 1;
       const count = Math.max(1, candidate);
       const segmentLength = total / count;
       return new Array(count).fill(segmentLength);
     }
 
-    if (archetype === "bandit") return shuffle([5, 4, 3, 2, 1], rng);
-    if (archetype === "sorcerer") return shuffle([5, 5, 2, 2, 1], rng);
-    return shuffle([6, 3, 3, 2, 1], rng);
+    return shuffle(fitLengths(template.lengths.slice(0, kinds.length), total), rng);
   })();
 
   let start = 1;
   const sections: Section[] = [];
-  const segmentCount = easyMode ? lens.length : kinds.length;
+  const segmentCount = Math.min(lens.length, kinds.length);
   for (let i = 0; i < segmentCount; i++) {
     const id = kinds[i];
     const len = lens[i];
-    if (typeof id === "undefined" || typeof len !== "number") continue;
-    const end = (start + len - 1) % SLICES;
+    const def = getVictoryCondition(id);
+    if (typeof id === "undefined" || typeof len !== "number" || !def) continue;
+    const end = (start + len - 1) % slices;
     sections.push({
       id,
-      color: VC_META[id].color,
+      color: def.color,
       start,
       end,
-      target: id === "ClosestToTarget" ? Math.floor(rng() * 16) : undefined,
+      target: rollTarget(template, id, slices, rng),
+    });
+    start = (start + len) % slices;
+  }
+
+  const slice0 = template.slice0 ? getVictoryCondition(template.slice0) : undefined;
+  if (slice0) {
+    sections.push({
+      id: slice0.id,
+      color: slice0.color,
+      start: 0,
+      end: 0,
+      target: rollTarget(template, slice0.id, slices, rng),
     });
-    start = (start + len) % SLICES;
   }
   return sections;
 }
+
+/**
+ * A spell's rewrite of one section: `recolor` swaps its condition, `resize` widens it
+ * (or shrinks it, when negative) at its neighbour's expense, and `retarget` re-rolls the
+ * target of a condition that aims at one. Rolls are picked by the caster in [0, 1), so
+ * every client lands on the same target.
+ */
+export type WheelSectionEdit = { wheelIndex: number; sectionIndex: number } & (
+  | { kind: "recolor"; id: VC; roll?: number }
+  | { kind: "resize"; amount: number }
+  | { kind: "retarget"; roll: number }
+);
+
+/** Slices a section covers; 0 for the slice-0 section. */
+export const sectionLength = (section: Section, slices: number) =>
+  section.start === 0 && section.end === 0 ? 0 : ((section.end - section.start + slices) % slices) + 1;
+
+/** The target `id` lands on for a roll in [0, 1); undefined for conditions without one. */
+export function rollSectionTarget(id: VC, slices: number, roll: number): number | undefined {
+  const range = getVictoryCondition(id)?.targetRange?.(slices);
+  if (!range) return undefined;
+  const unit = Math.min(Math.max(roll, 0), 0.999999);
+  return range.min + Math.floor(unit * (range.max - range.min + 1));
+}
+
+/**
+ * Moves the boundary between `sections[index]` and the section after it by `amount`
+ * slices, or the one before it when the section runs up to slice 0. Every section keeps
+ * at least one slice.
+ */
+function resizeSection(sections: readonly Section[], index: number, amount: number, slices: number): Section[] {
+  const section = sections[index];
+  if (!section || sectionLength(section, slices) === 0 || amount === 0) return sections as Section[];
+  const wrap = (slice: number) => ((slice % slices) + slices) % slices;
+  const after = sections.findIndex((other, i) => i !== index && sectionLength(other, slices) > 0 && other.start === wrap(section.end + 1));
+  const before = sections.findIndex((other, i) => i !== index && sectionLength(other, slices) > 0 && other.end === wrap(section.start - 1));
+  const neighbour = after !== -1 ? after : before;
+  if (neighbour === -1) return sections as Section[];
+
+  const giver = amount > 0 ? sections[neighbour] : section;
+  const moved = Math.min(Math.abs(Math.round(amount)), sectionLength(giver, slices) - 1);
+  if (moved === 0) return sections as Section[];
+  const shift = amount > 0 ? moved : -moved;
+
+  const next = [...sections];
+  if (neighbour === after) {
+    next[index] = { ...section, end: wrap(section.end + shift) };
+    next[after] = { ...sections[after], start: wrap(sections[after].start + shift) };
+  } else {
+    next[index] = { ...section, start: wrap(section.start - shift) };
+    next[before] = { ...sections[before], end: wrap(sections[before].end - shift) };
+  }
+  return next;
+}
+
+/** Applies one edit to a wheel's sections; returns `sections` itself when nothing changes. */
+export function applyWheelSectionEdit(sections: readonly Section[], edit: WheelSectionEdit, slices: number): Section[] {
+  const section = sections[edit.sectionIndex];
+  if (!section) return sections as Section[];
+  switch (edit.kind) {
+    case "resize":
+      return resizeSection(sections, edit.sectionIndex, edit.amount, slices);
+    case "recolor": {
+      const def = getVictoryCondition(edit.id);
+      if (!def || def.id === section.id) return sections as Section[];
+      const next = [...sections];
+      next[edit.sectionIndex] = {
+        ...section,
+        id: def.id,
+        color: def.color,
+        target: rollSectionTarget(def.id, slices, edit.roll ?? 0.5),
+      };
+      return next;
+    }
+    case "retarget": {
+      const target = rollSectionTarget(section.id, slices, edit.roll);
+      if (target === undefined || target === section.target) return sections as Section[];
+      const next = [...sections];
+      next[edit.sectionIndex] = { ...section, target };
+      return next;
+    }
+  }
+}
+
+const isIndex = (value: unknown): value is number => typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+const isRoll = (value: unknown): value is number => typeof value === "number" && value >= 0 && value < 1;
+
+/** Validates section edits received from a peer; anything malformed is dropped. */
+export function normalizeWheelSectionEdits(value: unknown): WheelSectionEdit[] {
+  if (!Array.isArray(value)) return [];
+  const edits: WheelSectionEdit[] = [];
+  for (const entry of value) {
+    if (!entry || typeof entry !== "object") continue;
+    const raw = entry as Record<string, unknown>;
+    if (!isIndex(raw.wheelIndex) || !isIndex(raw.sectionIndex)) continue;
+    const at = { wheelIndex: raw.wheelIndex, sectionIndex: raw.sectionIndex };
+    if (raw.kind === "recolor" && isKnownCondition(raw.id)) {
+      edits.push(isRoll(raw.roll) ? { ...at, kind: "recolor", id: raw.id, roll: raw.roll } : { ...at, kind: "recolor", id: raw.id });
+    } else if (raw.kind === "resize" && typeof raw.amount === "number" && Number.isFinite(raw.amount)) {
+      const amount = Math.max(-MAX_WHEEL_SLICES, Math.min(MAX_WHEEL_SLICES, Math.round(raw.amount)));
+      if (amount !== 0) edits.push({ ...at, kind: "resize", amount });
+    } else if (raw.kind === "retarget" && isRoll(raw.roll)) {
+      edits.push({ ...at, kind: "retarget", roll: raw.roll });
+    }
+  }
+  return edits;
+}
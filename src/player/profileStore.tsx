@@ -2,8 +2,11 @@
 // to match your existing game types/functions.
 
 import { shuffle } from "../game/math";
+import { refillTo } from "../game/decks";
 import { deriveArcanaForCard } from "../game/arcana";
-import type { Arcana, Card, Fighter } from "../game/types";
+import { isRuleTag } from "../game/cardTags";
+import { CLASSIC_RULES } from "../game/rules";
+import type { Arcana, Card, Fighter, TagId } from "../game/types";
 import {
   DEFAULT_GRIMOIRE_SYMBOLS,
   GRIMOIRE_SYMBOL_ORDER,
@@ -45,9 +48,11 @@ type LocalState = {
 // ===== Storage/config =====
 const KEY = "rw:single:state";
 const VERSION = 4;
-const MAX_DECK_SIZE = 10;
+const MAX_DECK_SIZE = CLASSIC_RULES.deckSize;
 const MAX_COPIES_PER_DECK = 2;
 const MAX_PROFILE_NAME_LENGTH = 24;
+// Grimoire slots that are dealt as split cards instead of a plain number.
+const GRIMOIRE_SPLIT_FACES: Partial<Record<number, [number, number]>> = { 5: [2, 8] };
 
 type SafeStorage = Pick<Storage, "getItem" | "setItem"> | null;
 
@@ -501,18 +506,42 @@ export function addToInventory(items: SwapItem[]) {
 // sequential card ids for the runtime deck
 const nextCardId = (() => { let i = 1; return () => `C${i++}`; })();
 
+function splitCard(left: number, right: number, extras: Partial<Card> = {}): Card {
+  return {
+    id: nextCardId(),
+    name: `${left}|${right}`,
+    type: "split",
+    leftValue: left,
+    rightValue: right,
+    tags: [],
+    ...extras,
+  };
+}
+
 /**
  * Supported cardId formats:
  *  - "basic_N" where N is 0..9  → normal card with number N
  *  - "neg_X" where X is a number (e.g., -2) → normal card with number X
  *  - "num_X" explicit number alias
+ *  - "split_L_R" → split card with faces L and R
+ *  - any of the above followed by ":tag" (e.g., "basic_3:oddshift") → same card with rule tags
  * Anything else falls back to number 0.
  */
 function cardFromId(cardId: string): Card {
+  const [baseId, ...tagParts] = cardId.split(":");
+  const tags: TagId[] = tagParts.filter(isRuleTag);
+
+  const mSplit = /^split_(-?\d+)_(-?\d+)$/.exec(baseId);
+  if (mSplit) {
+    const card = splitCard(parseInt(mSplit[1], 10), parseInt(mSplit[2], 10), { tags });
+    card.arcana = deriveArcanaForCard(card);
+    return card;
+  }
+
   let num = 0;
-  const mBasic = /^basic_(\d+)$/.exec(cardId);
-  const mNeg   = /^neg_(-?\d+)$/.exec(cardId);
-  const mNum   = /^num_(-?\d+)$/.exec(cardId);
+  const mBasic = /^basic_(\d+)$/.exec(baseId);
+  const mNeg   = /^neg_(-?\d+)$/.exec(baseId);
+  const mNum   = /^num_(-?\d+)$/.exec(baseId);
 
   if (mBasic) num = parseInt(mBasic[1], 10);
   else if (mNeg) num = parseInt(mNeg[1], 10);
@@ -524,14 +553,14 @@ function cardFromId(cardId: string): Card {
     type: "normal",
     number: num,
     baseNumber: num,
-    tags: [],
+    tags,
   };
 
   card.arcana = deriveArcanaForCard(card);
   return card;
 }
 
-function buildGrimoireDeck(symbols: GrimoireSymbols): Card[] {
+function buildGrimoireDeck(symbols: GrimoireSymbols, deckSize = MAX_DECK_SIZE): Card[] {
   const queue: Arcana[] = [];
   for (const arcana of GRIMOIRE_SYMBOL_ORDER) {
     const count = symbols[arcana] ?? 0;
@@ -541,11 +570,17 @@ function buildGrimoireDeck(symbols: GrimoireSymbols): Card[] {
   }
 
   const cards: Card[] = [];
-  const baseNumbers = Array.from({ length: MAX_DECK_SIZE }, (_, n) => n);
+  const baseNumbers = Array.from({ length: deckSize }, (_, n) => n);
   let index = 0;
 
   for (const arcana of queue) {
     const number = baseNumbers[index % baseNumbers.length];
+    const faces = GRIMOIRE_SPLIT_FACES[number];
+    if (faces) {
+      cards.push(splitCard(faces[0], faces[1], { arcana }));
+      index += 1;
+      continue;
+    }
     const card: Card = {
       id: nextCardId(),
       name: `${number}`,
@@ -559,7 +594,7 @@ function buildGrimoireDeck(symbols: GrimoireSymbols): Card[] {
     index += 1;
   }
 
-  while (cards.length < MAX_DECK_SIZE) {
+  while (cards.length < deckSize) {
     const number = baseNumbers[index % baseNumbers.length];
     const filler: Card = {
       id: nextCardId(),
@@ -577,61 +612,38 @@ function buildGrimoireDeck(symbols: GrimoireSymbols): Card[] {
 }
 
 // ====== Build a runtime deck (Card[]) from the ACTIVE profile deck ======
-export function buildActiveDeckAsCards(): Card[] {
+export function buildActiveDeckAsCards(rng: () => number = Math.random, deckSize = MAX_DECK_SIZE): Card[] {
   const { active, grimoire } = getProfileBundle();
   const symbolDeck = grimoire?.symbols ?? DEFAULT_GRIMOIRE_SYMBOLS;
   if (symbolsTotal(symbolDeck) > 0) {
-    return shuffle(buildGrimoireDeck(symbolDeck));
+    return shuffle(buildGrimoireDeck(symbolDeck, deckSize), rng);
   }
-  if (!active || !active.cards?.length) return starterDeck(); // fallback
+  if (!active || !active.cards?.length) return starterDeck(rng); // fallback
 
   const pool: Card[] = [];
   for (const entry of active.cards) {
     for (let i = 0; i < entry.qty; i++) pool.push(cardFromId(entry.cardId));
   }
-  return shuffle(pool);
+  return shuffle(pool, rng);
 }
 
-// ====== Runtime helpers (folded from your src/game/decks.ts) ======
-export function starterDeck(): Card[] {
-  return shuffle(buildGrimoireDeck(DEFAULT_GRIMOIRE_SYMBOLS));
-}
-
-export function drawOne(f: Fighter): Fighter {
-  const next = {
-    ...f,
-    deck: [...f.deck],
-    hand: [...f.hand],
-    discard: [...f.discard],
-    exhaust: [...f.exhaust],
-  };
-  if (next.deck.length === 0 && next.discard.length > 0) {
-    next.deck = shuffle(next.discard);
-    next.discard = [];
-  }
-  if (next.deck.length) next.hand.push(next.deck.shift()!);
-  return next;
-}
+// ====== Runtime helpers (draw/refill primitives live in src/game/decks.ts) ======
+export { drawOne, refillTo, freshFive } from "../game/decks";
 
-export function refillTo(f: Fighter, target: number): Fighter {
-  let cur = { ...f };
-  while (cur.hand.length < target) {
-    const before = cur.hand.length;
-    cur = drawOne(cur);
-    if (cur.hand.length === before) break;
-  }
-  return cur;
-}
-
-export function freshFive(f: Fighter): Fighter {
-  const pool = shuffle([...f.deck, ...f.hand, ...f.discard]);
-  const hand = pool.slice(0, 5);
-  const deck = pool.slice(5);
-  return { name: f.name, hand, deck, discard: [], exhaust: [...f.exhaust] };
+export function starterDeck(rng: () => number = Math.random): Card[] {
+  return shuffle(buildGrimoireDeck(DEFAULT_GRIMOIRE_SYMBOLS), rng);
 }
 
-/** Make a fighter using the ACTIVE profile deck (draw 5 to start). */
-export function makeFighter(name: string): Fighter {
-  const deck = buildActiveDeckAsCards();
-  return refillTo({ name, deck, hand: [], discard: [], exhaust: [] }, 5);
+/**
+ * Make a fighter using the ACTIVE profile deck (draw 5 to start).
+ * Pass a seeded `rng` to make the deck order reproducible; `deckSize` fills grimoire decks.
+ */
+export function makeFighter(
+  name: string,
+  rng: () => number = Math.random,
+  handSize = 5,
+  deckSize = MAX_DECK_SIZE,
+): Fighter {
+  const deck = buildActiveDeckAsCards(rng, deckSize);
+  return refillTo({ name, deck, hand: [], discard: [], exhaust: [] }, handSize, rng);
 }
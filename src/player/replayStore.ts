@@ -0,0 +1,75 @@
+// src/player/replayStore.ts
+import { parseReplay, type MatchReplay } from "../game/replay";
+
+// ===== Storage/config =====
+const KEY = "rw:replays";
+const MAX_REPLAYS = 10;
+
+type SafeStorage = Pick<Storage, "getItem" | "setItem"> | null;
+
+function resolveStorage(): SafeStorage {
+  try {
+    if (typeof window === "undefined") return null;
+    if (!("localStorage" in window)) return null;
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+}
+
+const storage: SafeStorage = resolveStorage();
+let memoryReplays: MatchReplay[] = [];
+
+// ===== Load/save =====
+function loadReplays(): MatchReplay[] {
+  if (!storage) return memoryReplays;
+  let raw: string | null = null;
+  try {
+    raw = storage.getItem(KEY);
+  } catch {
+    return memoryReplays;
+  }
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .map((entry) => parseReplay(entry))
+      .filter((replay): replay is MatchReplay => replay !== null);
+  } catch {
+    return [];
+  }
+}
+
+function saveReplays(replays: MatchReplay[]) {
+  memoryReplays = replays;
+  if (!storage) return;
+  try {
+    storage.setItem(KEY, JSON.stringify(replays));
+  } catch {
+    // Quota errors keep the in-memory copy for this session only.
+  }
+}
+
+// ===== Public API =====
+/** Newest first. */
+export function listReplays(): MatchReplay[] {
+  return loadReplays();
+}
+
+export function getReplay(id: string): MatchReplay | null {
+  return loadReplays().find((replay) => replay.id === id) ?? null;
+}
+
+export function saveReplay(replay: MatchReplay): MatchReplay[] {
+  const rest = loadReplays().filter((entry) => entry.id !== replay.id);
+  const next = [replay, ...rest].slice(0, MAX_REPLAYS);
+  saveReplays(next);
+  return next;
+}
+
+export function deleteReplay(id: string): MatchReplay[] {
+  const next = loadReplays().filter((replay) => replay.id !== id);
+  saveReplays(next);
+  return next;
+}
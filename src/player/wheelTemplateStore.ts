@@ -0,0 +1,88 @@
+// src/player/wheelTemplateStore.ts
+import {
+  isBuiltinWheelTemplate,
+  listBuiltinWheelTemplates,
+  normalizeWheelTemplate,
+  type WheelTemplate,
+} from "../game/wheel";
+
+// ===== Storage/config =====
+const KEY = "rw:wheelTemplates";
+const MAX_TEMPLATES = 24;
+
+type SafeStorage = Pick<Storage, "getItem" | "setItem"> | null;
+
+function resolveStorage(): SafeStorage {
+  try {
+    if (typeof window === "undefined") return null;
+    if (!("localStorage" in window)) return null;
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+}
+
+const storage: SafeStorage = resolveStorage();
+let memoryTemplates: WheelTemplate[] = [];
+
+// ===== Load/save =====
+function loadCustomTemplates(): WheelTemplate[] {
+  if (!storage) return memoryTemplates;
+  let raw: string | null = null;
+  try {
+    raw = storage.getItem(KEY);
+  } catch {
+    return memoryTemplates;
+  }
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .map((entry) => normalizeWheelTemplate(entry))
+      .filter((template): template is WheelTemplate => template !== null && !isBuiltinWheelTemplate(template.id));
+  } catch {
+    return [];
+  }
+}
+
+function saveCustomTemplates(templates: WheelTemplate[]) {
+  memoryTemplates = templates;
+  if (!storage) return;
+  try {
+    storage.setItem(KEY, JSON.stringify(templates));
+  } catch {
+    // Quota errors keep the in-memory copy for this session only.
+  }
+}
+
+// ===== Public API =====
+/** Templates saved from the wheel editor, oldest first. */
+export function listCustomWheelTemplates(): WheelTemplate[] {
+  return loadCustomTemplates();
+}
+
+/** Built-ins followed by saved templates; the order `templateForArchetype` relies on. */
+export function listWheelTemplates(): WheelTemplate[] {
+  return [...listBuiltinWheelTemplates(), ...loadCustomTemplates()];
+}
+
+/** Saves or replaces a custom template. Built-in ids are read-only and rejected. */
+export function saveWheelTemplate(template: WheelTemplate): WheelTemplate[] {
+  const normalized = normalizeWheelTemplate(template);
+  if (!normalized || isBuiltinWheelTemplate(normalized.id)) return loadCustomTemplates();
+  const existing = loadCustomTemplates();
+  const index = existing.findIndex((entry) => entry.id === normalized.id);
+  const next =
+    index >= 0
+      ? existing.map((entry, i) => (i === index ? normalized : entry))
+      : [...existing, normalized].slice(-MAX_TEMPLATES);
+  saveCustomTemplates(next);
+  return next;
+}
+
+export function deleteWheelTemplate(id: string): WheelTemplate[] {
+  const next = loadCustomTemplates().filter((template) => template.id !== id);
+  saveCustomTemplates(next);
+  return next;
+}
@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+
+import type { Card, Section, TagId } from "../src/game/types.js";
+import { echoReserveBonus, laneFlipsComparison, laneStepShift } from "../src/game/cardTags.js";
+import { computeReserveSum, resolveWheelOutcome } from "../src/game/matchEngine.js";
+import { chooseBestMove, type GameState } from "../src/game/ai/DecisionEngine.js";
+import { createSeededRng } from "../src/game/math.js";
+import { makeCard as makePlainCard } from "./helpers/fixtures.js";
+
+const makeCard = (id: string, value: number, tags: TagId[] = []): Card => ({ ...makePlainCard(id, value), tags });
+
+const strongest: Section[] = [{ id: "Strongest", color: "#fff", start: 1, end: 15 }];
+
+{
+  // Oddshift only adds a step when the card's value is odd.
+  assert.equal(laneStepShift(makeCard("a", 3, ["oddshift"]), null, 3, 0), 1);
+  assert.equal(laneStepShift(makeCard("a", 4, ["oddshift"]), null, 4, 0), 0);
+
+  const outcome = resolveWheelOutcome({
+    wheel: 0,
+    sections: strongest,
+    startToken: 0,
+    playerValue: 3,
+    enemyValue: 2,
+    playerCard: makeCard("p", 3, ["oddshift"]),
+    enemyCard: makeCard("e", 2),
+    reserves: { player: 0, enemy: 0 },
+    initiative: "player",
+  });
+  assert.equal(outcome.steps, 6);
+}
+
+{
+  // Parity flip swaps Strongest for Weakest, and two flips cancel.
+  const flip = makeCard("p", 9, ["parityflip"]);
+  const base = {
+    wheel: 0,
+    sections: strongest,
+    startToken: 0,
+    playerValue: 9,
+    enemyValue: 2,
+    reserves: { player: 0, enemy: 0 },
+    initiative: "player" as const,
+  };
+  assert.equal(resolveWheelOutcome(base).winner, "player");
+  assert.equal(resolveWheelOutcome({ ...base, playerCard: flip, enemyCard: makeCard("e", 2) }).winner, "enemy");
+  assert.equal(laneFlipsComparison(flip, makeCard("e", 2, ["parityflip"])), false);
+}
+
+{
+  // Echo reserve cards count toward the reserve while in play.
+  const echo = makeCard("echo", 4, ["echoreserve"]);
+  const hand = [echo, makeCard("h1", 1), makeCard("h2", 2)];
+  assert.equal(echoReserveBonus([echo, null, null]), 4);
+  assert.equal(computeReserveSum(hand, [echo, null, null]), 7);
+  assert.equal(computeReserveSum(hand, [null, null, null]), 5);
+}
+
+{
+  // The CPU prefers the parity-flipped low card on a Strongest-only board it would otherwise lose.
+  const state: GameState = {
+    wheels: [{ aiCard: null, playerCard: makeCard("p", 8) }, { aiCard: null, playerCard: null }, { aiCard: null, playerCard: null }],
+    aiHand: [makeCard("low", 1, ["parityflip"]), makeCard("mid", 5)],
+    playerHand: [],
+    tokens: [0, 0, 0],
+    wheelSections: [strongest, strongest, strongest],
+    initiative: "player",
+  };
+  const move = chooseBestMove(state, [0], 10, createSeededRng(3));
+  assert.equal(move?.card.id, "low");
+}
+
+console.log("cardTags test passed");
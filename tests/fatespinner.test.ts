@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+
+import type { Card, Section } from "../src/game/types.js";
+import { ARCHETYPE_DEFINITIONS } from "../src/game/archetypes.js";
+import { chooseCpuSpellResponse, type CpuSpellContext } from "../src/game/ai/grimoireCpu.js";
+import { GRIMOIRE_SPELL_REQUIREMENTS } from "../src/game/grimoire.js";
+import { resolvePendingSpell } from "../src/game/spellEngine.js";
+import { getSpellById, type SpellDefinition, type SpellTargetInstance } from "../src/game/spells.js";
+import { getRotationPool } from "../src/game/victoryConditions.js";
+import { WHEEL_TEMPLATES } from "../src/game/wheel.js";
+import { makeCard, makeSpellFighter } from "./helpers/fixtures.js";
+
+const spell = (id: string): SpellDefinition => {
+  const definition = getSpellById(id);
+  assert.ok(definition, `${id} should be registered`);
+  return definition;
+};
+
+const cast = (definition: SpellDefinition, targets: SpellTargetInstance[]) => {
+  const result = resolvePendingSpell({
+    descriptor: { side: "player", spell: definition, targets, currentStage: targets.length, spentMana: definition.cost },
+    caster: makeSpellFighter("p"),
+    opponent: makeSpellFighter("e"),
+    phase: "choose",
+    runtimeState: {},
+  });
+  assert.equal(result.outcome, "success");
+  return result.outcome === "success" ? result.payload : undefined;
+};
+
+const wheel: Section[] = [
+  { id: "Strongest", color: "#f43f5e", start: 1, end: 5 },
+  { id: "Weakest", color: "#10b981", start: 6, end: 10 },
+  { id: "ClosestToTarget", color: "#f59e0b", start: 11, end: 15, target: 3 },
+  { id: "Initiative", color: "#a855f7", start: 0, end: 0 },
+];
+
+const section = (sectionIndex: number, stageIndex = 0): SpellTargetInstance => ({
+  type: "section",
+  wheelId: "0",
+  sectionIndex,
+  condition: wheel[sectionIndex]!.id,
+  stageIndex,
+});
+
+{
+  // The Fatespinner brings its own spells, grimoire costs and wheel.
+  const { spellIds } = ARCHETYPE_DEFINITIONS.fatespinner;
+  for (const id of ["transmute", "loadedDie", "unravel", "palmCard"]) {
+    assert.ok(spellIds.includes(id as (typeof spellIds)[number]), `${id} should be a Fatespinner spell`);
+    assert.ok(GRIMOIRE_SPELL_REQUIREMENTS[id as (typeof spellIds)[number]], `${id} should have a grimoire cost`);
+    spell(id);
+  }
+  assert.equal(WHEEL_TEMPLATES.fatespinner.archetype, "fatespinner");
+}
+
+{
+  // Transmute deals a different rotation condition; Unravel narrows and drains; Palm Card boosts and draws.
+  const transmuted = cast(spell("transmute"), [section(1)]);
+  const recolor = transmuted?.wheelSectionEdits?.[0];
+  assert.equal(recolor?.kind, "recolor");
+  if (recolor?.kind === "recolor") {
+    assert.notEqual(recolor.id, "Weakest");
+    assert.ok(getRotationPool().includes(recolor.id));
+  }
+
+  const serpent: SpellTargetInstance = { type: "card", cardId: "p-3", owner: "ally", arcana: "serpent", cardValue: 2, stageIndex: 1 };
+  const unraveled = cast(spell("unravel"), [section(0), serpent]);
+  assert.deepEqual(unraveled?.wheelSectionEdits, [{ wheelIndex: 0, sectionIndex: 0, kind: "resize", amount: -1 }]);
+  assert.deepEqual(unraveled?.reserveDrains, [{ side: "enemy", amount: 3 }]);
+
+  const reserve: SpellTargetInstance = { type: "card", cardId: "p-1", owner: "ally", location: "hand", cardValue: 2, stageIndex: 0 };
+  const fire: SpellTargetInstance = { type: "card", cardId: "p-2", owner: "ally", arcana: "fire", cardValue: 3, stageIndex: 1 };
+  const palmed = cast(spell("palmCard"), [reserve, fire]);
+  assert.deepEqual(palmed?.drawCards, [{ side: "player", count: 1 }]);
+}
+
+{
+  // The CPU rewrites the section a lane is headed for when that lane is lost, and only then.
+  const context = (overrides: Partial<CpuSpellContext>): CpuSpellContext => ({
+    casterSide: "player",
+    caster: { ...makeSpellFighter("p"), hand: [makeCard("p-fire", 3, "fire"), makeCard("p-low", 1)] },
+    opponent: makeSpellFighter("e"),
+    // 7 + 1 moves the token 8 slices, onto Weakest, where the lighter enemy card wins.
+    board: { player: [makeCard("p-7", 7)], enemy: [makeCard("e-1", 1)] },
+    reserveSums: { player: 4, enemy: 4 },
+    initiative: "player",
+    availableSpells: [],
+    wheels: { sections: [wheel], slices: [16], tokens: [0] },
+    ...overrides,
+  });
+
+  const transmute = { spell: spell("transmute"), cost: 3 };
+  const loadedDie = { spell: spell("loadedDie"), cost: 2 };
+  const decision = chooseCpuSpellResponse(context({ availableSpells: [transmute, loadedDie] }));
+  assert.equal(decision?.spell.id, "transmute");
+  assert.deepEqual(decision?.targets[0], { type: "section", wheelId: "0", sectionIndex: 1, condition: "Weakest" });
+
+  // Tied on a ClosestToTarget section, a loaded die is worth more than a random condition.
+  const tied = context({
+    availableSpells: [transmute, loadedDie],
+    board: { player: [makeCard("p-6", 6)], enemy: [makeCard("e-6", 6)] },
+  });
+  assert.equal(chooseCpuSpellResponse(tied)?.spell.id, "loadedDie");
+
+  const winning = context({ availableSpells: [transmute, loadedDie], board: { player: [makeCard("p-4", 4)], enemy: [makeCard("e-1", 1)] } });
+  assert.equal(chooseCpuSpellResponse(winning), null);
+  assert.equal(chooseCpuSpellResponse(context({ availableSpells: [transmute], wheels: undefined })), null);
+
+  const palm = chooseCpuSpellResponse(context({ availableSpells: [{ spell: spell("palmCard"), cost: 2 }] }));
+  assert.deepEqual(palm?.targets.map((target) => (target.type === "card" ? target.cardId : null)), ["p-low", "p-fire"]);
+}
+
+console.log("fatespinner test passed");
@@ -0,0 +1,118 @@
+// tests/helpers/casting.ts
+// Spells cast into a match the way a client casts them: targets read off the board,
+// a declaration carrying the caster's effects, then the other side passes.
+import assert from "node:assert/strict";
+
+import type { LegacySide } from "../../src/game/types.js";
+import { getCardArcana } from "../../src/game/arcana.js";
+import { getCardValue } from "../../src/game/spellEffectHandlers.js";
+import { CLASSIC_RULES } from "../../src/game/rules.js";
+import {
+  matchReducer,
+  otherSide,
+  pickReserveCards,
+  type MatchState,
+  type MatchStepResult,
+} from "../../src/game/matchEngine.js";
+import {
+  computeSpellCost,
+  createSpellRng,
+  createSpellStackEntry,
+  resolvePendingSpell,
+  type SpellStackEntry,
+} from "../../src/game/spellEngine.js";
+import { getSpellAtRank, getSpellById, type SpellTargetInstance } from "../../src/game/spells.js";
+
+export const skipTarget = (stageIndex: number): SpellTargetInstance => ({ type: "none", stageIndex });
+
+export const wheelTarget = (wheelIndex: number, stageIndex = 0): SpellTargetInstance => ({
+  type: "wheel",
+  wheelId: String(wheelIndex),
+  label: `Wheel ${wheelIndex + 1}`,
+  stageIndex,
+});
+
+export const sectionTarget = (
+  state: MatchState,
+  wheelIndex: number,
+  sectionIndex: number,
+  stageIndex = 0,
+): SpellTargetInstance => ({
+  type: "section",
+  wheelId: String(wheelIndex),
+  sectionIndex,
+  condition: state.wheelSections[wheelIndex]![sectionIndex]!.id,
+  stageIndex,
+});
+
+/** Card `cardId` as `side` would pick it: in a lane on either side, or in their own hand. */
+export function cardTarget(state: MatchState, side: LegacySide, cardId: string, stageIndex = 0): SpellTargetInstance {
+  for (const of of [side, otherSide(side)]) {
+    const lane = state.assign[of].findIndex((card) => card?.id === cardId);
+    const card = lane !== -1 ? state.assign[of][lane] : of === side ? state[of].hand.find((c) => c.id === cardId) : null;
+    if (!card) continue;
+    return {
+      type: "card",
+      cardId,
+      owner: of === side ? "ally" : "enemy",
+      cardName: card.name,
+      arcana: getCardArcana(card),
+      location: lane !== -1 ? "board" : "hand",
+      lane: lane !== -1 ? lane : null,
+      stageIndex,
+      cardValue: getCardValue(card),
+    };
+  }
+  assert.fail(`${side} can't see ${cardId}`);
+}
+
+/** The declaration `side`'s client would send for `spellId` against `state`. */
+export function declaration(
+  state: MatchState,
+  side: LegacySide,
+  spellId: string,
+  targets: SpellTargetInstance[],
+  rank = 1,
+): SpellStackEntry {
+  const base = getSpellById(spellId);
+  assert.ok(base, `${spellId} should be registered`);
+  const spell = getSpellAtRank(base, rank);
+  const { reserveSize } = state.config.rules ?? CLASSIC_RULES;
+  const asReserve = (of: LegacySide) => ({
+    ...state[of],
+    hand: pickReserveCards(state[of].hand, state.assign[of], state.reserveChoices[of], reserveSize),
+  });
+  const caster = asReserve(side);
+  const opponent = asReserve(otherSide(side));
+  const phase = state.phase === "skill" ? "roundEnd" : state.phase;
+  const spentMana = computeSpellCost(spell, { caster, opponent, phase, runtimeState: {} });
+  const result = resolvePendingSpell({
+    descriptor: { side, spell, targets, currentStage: targets.length, spentMana },
+    caster,
+    opponent,
+    phase,
+    runtimeState: {},
+    rng: createSpellRng(state.config.seed, side, spellId, state.spellCasts),
+  });
+  assert.equal(result.outcome, "success", `${spellId} should resolve`);
+  const payload = (result.outcome === "success" && result.payload) || { caster: side };
+  return createSpellStackEntry({ side, spell, targets, spentMana }, payload);
+}
+
+/** Declares the spell, then lets the other side pass so it resolves. */
+export function castSpell(
+  state: MatchState,
+  side: LegacySide,
+  spellId: string,
+  targets: SpellTargetInstance[],
+  rank = 1,
+): MatchStepResult {
+  const declared = matchReducer(state, { type: "declareSpell", entry: declaration(state, side, spellId, targets, rank) });
+  const passed = matchReducer(declared.state, { type: "passReaction", side: otherSide(side) });
+  return { state: passed.state, events: [...declared.events, ...passed.events] };
+}
+
+export const withMana = (state: MatchState, mana: number): MatchState => ({
+  ...state,
+  mana: { player: mana, enemy: mana },
+});
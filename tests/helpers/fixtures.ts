@@ -0,0 +1,63 @@
+// tests/helpers/fixtures.ts
+// Cards, fighters and match configs the rule tests build their games from.
+import type { Arcana, Card, Fighter } from "../../src/game/types.js";
+import type { MatchConfig } from "../../src/game/matchEngine.js";
+
+/** A normal card named after its value. */
+export const makeCard = (id: string, value: number, arcana?: Arcana): Card => ({
+  id,
+  name: `${value}`,
+  type: "normal",
+  number: value,
+  baseNumber: value,
+  tags: [],
+  ...(arcana ? { arcana } : {}),
+});
+
+export const makeFighter = (name: string, hand: Card[], deck: Card[] = []): Fighter => ({
+  name,
+  deck,
+  hand,
+  discard: [],
+  exhaust: [],
+});
+
+/** A fighter holding one card per value, with ids `${name}-0`, `${name}-1`, … and nothing to draw. */
+export const makeHandFighter = (name: string, values: number[]): Fighter =>
+  makeFighter(
+    name,
+    values.map((value, i) => makeCard(`${name}-${i}`, value)),
+  );
+
+/**
+ * A fighter dealt the first `handSize` cards of a `deckSize` deck. Card `i` is worth
+ * `valueAt(i)`, so by default the hand holds 0–4 and the deck 5–9.
+ */
+export const makeDeckFighter = (
+  name: string,
+  {
+    deckSize = 10,
+    handSize = 5,
+    valueAt = (i: number) => i,
+  }: { deckSize?: number; handSize?: number; valueAt?: (i: number) => number } = {},
+): Fighter => {
+  const cards = Array.from({ length: deckSize }, (_, i) => makeCard(`${name}-${i}`, valueAt(i)));
+  return makeFighter(name, cards.slice(0, handSize), cards.slice(handSize));
+};
+
+/** Twenty cards cycling 1–6, the deck the spell tests play with. */
+export const makeSpellFighter = (name: string): Fighter =>
+  makeDeckFighter(name, { deckSize: 20, valueAt: (i) => (i % 6) + 1 });
+
+/** A three-lane classic match to 3, player first; `overrides` replace any field. */
+export const makeMatchConfig = (overrides: Partial<MatchConfig> = {}): MatchConfig => ({
+  seed: 1,
+  names: { player: "Hero", enemy: "Nemesis" },
+  hudColors: { player: "#00aaff", enemy: "#ff3366" },
+  winGoal: 3,
+  gameMode: [],
+  easyMode: false,
+  localLegacySide: "player",
+  startingInitiative: "player",
+  ...overrides,
+});
@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+
+import { createMatchState, matchReducer, type MatchState } from "../src/game/matchEngine.js";
+import { chooseBestMove, type GameState } from "../src/game/ai/DecisionEngine.js";
+import { createSeededRng } from "../src/game/math.js";
+import { clampLaneCount, handSizeForLanes, LANE_COUNT_OPTIONS } from "../src/game/lanes.js";
+import { chillStacksByLane } from "../src/game/statusEffects.js";
+import { makeCard, makeDeckFighter, makeMatchConfig } from "./helpers/fixtures.js";
+
+const fighterFor = (prefix: string, handSize: number) =>
+  makeDeckFighter(prefix, { deckSize: 30, handSize, valueAt: (i) => i % 10 });
+
+const configFor = (laneCount: number) => makeMatchConfig({ seed: 99, winGoal: 50, laneCount });
+
+const start = (laneCount: number) =>
+  createMatchState(configFor(laneCount), {
+    player: fighterFor("p", handSizeForLanes(laneCount)),
+    enemy: fighterFor("e", handSizeForLanes(laneCount)),
+  });
+
+const fillAllLanes = (state: MatchState): MatchState => {
+  let next = state;
+  for (const side of ["player", "enemy"] as const) {
+    for (let lane = 0; lane < next.wheelSections.length; lane++) {
+      const cardId = next[side].hand[0].id;
+      next = matchReducer(next, { type: "assign", side, lane, cardId }).state;
+    }
+  }
+  return next;
+};
+
+{
+  // Lane counts clamp to 1–5 and hands hold one card per lane plus the reserve.
+  assert.deepEqual(LANE_COUNT_OPTIONS, [1, 2, 3, 4, 5]);
+  assert.equal(clampLaneCount(9), 5);
+  assert.equal(clampLaneCount(0), 1);
+  assert.equal(clampLaneCount(undefined), 3);
+  assert.equal(handSizeForLanes(5), 7);
+}
+
+{
+  // Every per-lane field is sized from the configured lane count.
+  const state = start(5);
+  assert.equal(state.wheelSections.length, 5);
+  assert.equal(state.tokens.length, 5);
+  assert.equal(state.assign.player.length, 5);
+  assert.equal(chillStacksByLane(state.statusEffects, 5).enemy.length, 5);
+  assert.equal(state.wheelHUD.length, 5);
+  assert.equal(state.skill.lanes.player.length, 5);
+
+  const cardId = state.player.hand[0].id;
+  assert.equal(matchReducer(state, { type: "assign", side: "player", lane: 4, cardId }).events.length, 0);
+  const rejected = matchReducer(state, { type: "assign", side: "player", lane: 5, cardId });
+  assert.equal(rejected.events[0]?.type, "rejected");
+  assert.equal(rejected.state, state);
+}
+
+{
+  // Omitting the lane count keeps the classic three wheels.
+  const { laneCount: _omit, ...config } = configFor(3);
+  const state = createMatchState(config, { player: fighterFor("p", 5), enemy: fighterFor("e", 5) });
+  assert.equal(state.wheelSections.length, 3);
+}
+
+{
+  // Rounds resolve one outcome per lane, and hands refill to the lane-sized hand.
+  for (const laneCount of [1, 5]) {
+    const revealed = matchReducer(fillAllLanes(start(laneCount)), { type: "reveal" });
+    const resolved = revealed.events.find((event) => event.type === "roundResolved");
+    assert.ok(resolved && resolved.type === "roundResolved");
+    assert.equal(resolved.analysis.outcomes.length, laneCount);
+    assert.equal(revealed.state.tokens.length, laneCount);
+
+    const next = matchReducer(revealed.state, { type: "nextRound" }).state;
+    assert.equal(next.round, 2);
+    assert.equal(next.player.hand.length, handSizeForLanes(laneCount));
+    assert.equal(next.wheelSections.length, laneCount);
+  }
+}
+
+{
+  // The CPU considers every lane of a wider board.
+  const strongest = [{ id: "Strongest" as const, color: "#fff", start: 1, end: 15 }];
+  const state: GameState = {
+    wheels: Array.from({ length: 5 }, () => ({ aiCard: null, playerCard: null })),
+    aiHand: [makeCard("ai", 7)],
+    playerHand: [],
+    tokens: [0, 0, 0, 0, 0],
+    wheelSections: Array.from({ length: 5 }, () => strongest),
+    initiative: "player",
+  };
+  const move = chooseBestMove(state, [4], 4, createSeededRng(1));
+  assert.equal(move?.wheelIndex, 4);
+}
+
+console.log("laneCount test passed");
@@ -0,0 +1,254 @@
+import assert from "node:assert/strict";
+
+import type { Card, LegacySide } from "../src/game/types.js";
+import {
+  createMatchState,
+  getMatchWinner,
+  matchReducer,
+  reserveReport,
+  type MatchAction,
+  type MatchEvent,
+  type MatchState,
+} from "../src/game/matchEngine.js";
+import { makeCard, makeDeckFighter, makeFighter, makeMatchConfig } from "./helpers/fixtures.js";
+import { cardTarget, declaration, skipTarget, withMana } from "./helpers/casting.js";
+
+const baseConfig = makeMatchConfig({ seed: 1234 });
+
+const freshFighters = () => ({ player: makeDeckFighter("p"), enemy: makeDeckFighter("e") });
+
+const dispatch = (state: MatchState, action: MatchAction) => matchReducer(state, action);
+
+{
+  // The same seed always produces the same opening wheels.
+  const a = createMatchState(baseConfig, freshFighters());
+  const b = createMatchState(baseConfig, freshFighters());
+  assert.deepEqual(a.wheelSections, b.wheelSections);
+  assert.equal(a.phase, "choose");
+  assert.equal(a.round, 1);
+}
+
+{
+  // Assigning moves a card from hand to lane; clearing returns it.
+  const start = createMatchState(baseConfig, freshFighters());
+  const cardId = start.player.hand[0].id;
+  const assigned = dispatch(start, { type: "assign", side: "player", lane: 1, cardId });
+  assert.equal(assigned.events.length, 0);
+  assert.equal(assigned.state.assign.player[1]?.id, cardId);
+  assert.ok(!assigned.state.player.hand.some((c) => c.id === cardId));
+  assert.equal(start.assign.player[1], null, "reducer must not mutate the previous state");
+
+  const moved = dispatch(assigned.state, { type: "assign", side: "player", lane: 2, cardId });
+  assert.equal(moved.state.assign.player[1], null);
+  assert.equal(moved.state.assign.player[2]?.id, cardId);
+
+  const cleared = dispatch(moved.state, { type: "clear", side: "player", lane: 2 });
+  assert.equal(cleared.state.assign.player[2], null);
+  assert.ok(cleared.state.player.hand.some((c) => c.id === cardId));
+
+  const bogus = dispatch(start, { type: "assign", side: "player", lane: 0, cardId: "missing" });
+  assert.equal(bogus.state, start);
+  assert.equal(bogus.events[0]?.type, "rejected");
+}
+
+{
+  // Ante bets are rejected outside ante mode and clamped to current wins inside it.
+  const classic = createMatchState(baseConfig, freshFighters());
+  assert.equal(dispatch(classic, { type: "setAnte", side: "player", bet: 2 }).events[0]?.type, "rejected");
+
+  const ante = createMatchState({ ...baseConfig, gameMode: ["ante"] }, freshFighters());
+  const withWins: MatchState = { ...ante, wins: { player: 2, enemy: 0 } };
+  const bet = dispatch(withWins, { type: "setAnte", side: "player", bet: 9 });
+  assert.equal(bet.state.ante.bets.player, 2);
+}
+
+{
+  // A full match runs headless until someone reaches the win goal.
+  let state = createMatchState(baseConfig, freshFighters());
+  const events: MatchEvent[] = [];
+  const run = (action: MatchAction) => {
+    const result = dispatch(state, action);
+    state = result.state;
+    events.push(...result.events);
+  };
+
+  let guard = 0;
+  while (state.phase !== "ended" && guard++ < 100) {
+    (["player", "enemy"] as LegacySide[]).forEach((side) => {
+      state[side].hand.slice(0, 3).forEach((card, lane) => {
+        run({ type: "assign", side, lane, cardId: card.id });
+      });
+    });
+    run({ type: "reveal" });
+    if (state.phase === "roundEnd") run({ type: "nextRound" });
+  }
+
+  assert.equal(state.phase, "ended");
+  assert.ok(guard < 100, "match should finish");
+  assert.ok(!events.some((e) => e.type === "rejected"), "no legal action should be rejected");
+  const winner = getMatchWinner(state);
+  assert.ok(winner);
+  assert.ok(state.wins[winner] >= baseConfig.winGoal);
+  assert.ok(events.some((e) => e.type === "matchEnded" && e.winner === winner));
+  const resolved = events.filter((e) => e.type === "roundResolved").length;
+  assert.equal(resolved, state.round);
+
+  const rematch = dispatch(state, { type: "rematch", fighters: freshFighters() });
+  assert.equal(rematch.state.phase, "choose");
+  assert.deepEqual(rematch.state.wins, { player: 0, enemy: 0 });
+  assert.deepEqual(rematch.state.wheelSections, createMatchState(baseConfig, freshFighters()).wheelSections);
+}
+
+{
+  // Skill mode pauses in the skill phase until it is finished, then advances on nextRound.
+  let state = createMatchState({ ...baseConfig, gameMode: ["skill"] }, freshFighters());
+  (["player", "enemy"] as LegacySide[]).forEach((side) => {
+    state[side].hand.slice(0, 3).forEach((card, lane) => {
+      state = dispatch(state, { type: "assign", side, lane, cardId: card.id }).state;
+    });
+  });
+  state = dispatch(state, { type: "reveal" }).state;
+  if (state.phase !== "ended") {
+    assert.equal(state.phase, "skill");
+    const early = dispatch(state, { type: "nextRound" });
+    assert.equal(early.state, state);
+    assert.equal(early.events[0]?.type, "rejected");
+
+    const finished = dispatch(state, { type: "finishSkills" });
+    assert.equal(finished.state.phase, "roundEnd");
+    assert.equal(finished.state.skill.completed, true);
+    const next = dispatch(finished.state, { type: "nextRound" });
+    assert.equal(next.state.phase, "choose");
+    assert.equal(next.state.round, 2);
+    assert.equal(next.state.player.hand.length, 5);
+  }
+}
+
+{
+  // Spells are checked, paid for and stacked on declaring; the other side's pass applies them.
+  const player = makeFighter(
+    "p",
+    [0, 1, 2, 4].map((value, i) => makeCard(`p-${i}`, value)).concat(makeCard("p-4", 3, "fire")),
+  );
+  let state = createMatchState(baseConfig, { player, enemy: makeDeckFighter("e") });
+  (["player", "enemy"] as LegacySide[]).forEach((side) => {
+    state[side].hand.slice(0, 3).forEach((card, lane) => {
+      state = dispatch(state, { type: "assign", side, lane, cardId: card.id }).state;
+    });
+  });
+  const fireball = () => declaration(state, "player", "fireball", [cardTarget(state, "player", "e-2"), skipTarget(1)]);
+
+  const early = dispatch(state, { type: "declareSpell", entry: fireball() });
+  assert.equal(early.state, state);
+  assert.deepEqual(early.events, [{ type: "rejected", action: "declareSpell", reason: "Fireball can't be cast now" }]);
+
+  // Each side banks half its reserve, rounded up: 4 + 3 for the player, 3 + 4 for the enemy.
+  state = dispatch(state, { type: "reveal" }).state;
+  assert.equal(state.phase, "roundEnd");
+  assert.deepEqual(state.mana, { player: 4, enemy: 4 });
+
+  const declared = dispatch(state, { type: "declareSpell", entry: fireball() });
+  state = declared.state;
+  assert.equal(state.spellStack.length, 1);
+  assert.equal(state.mana.player, 2);
+  assert.equal(state.spellCasts.player.fireball?.casts, 1);
+  assert.equal(state.assign.enemy[2]?.number, 2, "nothing applies until the enemy answers");
+  assert.equal(dispatch(state, { type: "declareSpell", entry: fireball() }).events[0]?.type, "rejected");
+  assert.equal(dispatch(state, { type: "passReaction", side: "player" }).events[0]?.type, "rejected");
+
+  const passed = dispatch(state, { type: "passReaction", side: "enemy" });
+  state = passed.state;
+  assert.deepEqual(state.spellStack, []);
+  assert.equal(state.assign.enemy[2]?.number, 0);
+  assert.ok(passed.events.some((event) => event.type === "spellEffectsApplied"));
+  assert.ok(passed.events.some((event) => event.type === "roundResolved"));
+
+  // A withdrawn spell leaves the stack with its mana given back and its cast forgotten.
+  const again = fireball();
+  state = dispatch(state, { type: "declareSpell", entry: again }).state;
+  assert.equal(state.mana.player, 0);
+  assert.equal(dispatch(state, { type: "withdrawSpell", entryId: "other" }).events[0]?.type, "rejected");
+  state = dispatch(state, { type: "withdrawSpell", entryId: again.id }).state;
+  assert.deepEqual(state.spellStack, []);
+  assert.equal(state.mana.player, 2);
+  assert.equal(state.spellCasts.player.fireball?.casts, 1);
+  assert.equal(dispatch(state, { type: "declareSpell", entry: fireball() }).events[0]?.type, "spellDeclared");
+}
+
+{
+  // A peer's spell on a card in one of their hidden lanes puts that card there.
+  const enemy = makeFighter("e", [
+    makeCard("e-0", 3, "fire"),
+    makeCard("e-1", 1, "moon"),
+    ...[2, 4, 5].map((value, i) => makeCard(`e-${i + 2}`, value)),
+  ]);
+  let state = withMana(createMatchState(baseConfig, { player: makeDeckFighter("p"), enemy }), 5);
+  const hiddenLanes = { player: [false, false, false], enemy: [true, false, false] };
+  const target = { ...cardTarget(state, "enemy", "e-0"), location: "board" as const, lane: 0 };
+  const kindle = declaration(state, "enemy", "kindle", [target, skipTarget(1)]);
+
+  assert.equal(dispatch(state, { type: "declareSpell", entry: kindle }).events[0]?.type, "rejected");
+  state = dispatch(state, { type: "declareSpell", entry: kindle, hiddenLanes }).state;
+  assert.equal(state.assign.enemy[0]?.id, "e-0");
+  assert.ok(!state.enemy.hand.some((card) => card.id === "e-0"));
+
+  state = dispatch(state, { type: "passReaction", side: "player" }).state;
+  assert.equal(state.assign.enemy[0]?.number, 5);
+}
+
+{
+  // A peer's stand-in hand doesn't decide what they may cast or which of their cards they target.
+  const config = makeMatchConfig({ seed: 1234, peerSide: "enemy" });
+  let state = withMana(createMatchState(config, freshFighters()), 5);
+  const hiddenLanes = { player: [false, false, false], enemy: [true, false, false] };
+  const claimed = { ...cardTarget(state, "enemy", "e-0"), cardId: "peer-0", cardName: "Peer", cardValue: 3, arcana: "fire" as const };
+  const target = { ...claimed, location: "board" as const, lane: 0 };
+  const kindle = declaration(state, "enemy", "kindle", [target, skipTarget(1)]);
+
+  const local = withMana(createMatchState(baseConfig, freshFighters()), 5);
+  assert.equal(dispatch(local, { type: "declareSpell", entry: kindle, hiddenLanes }).events[0]?.type, "rejected");
+  state = dispatch(state, { type: "declareSpell", entry: kindle, hiddenLanes }).state;
+  assert.equal(state.assign.enemy[0]?.id, "peer-0");
+  assert.equal(state.enemy.hand.length, 5, "the stand-in hand is left alone");
+
+  state = dispatch(state, { type: "passReaction", side: "player" }).state;
+  assert.equal(state.assign.enemy[0]?.number, 5);
+}
+
+{
+  // A peer's shared cards go in their lanes as sent, even though their hand here is a stand-in.
+  const start = createMatchState(baseConfig, freshFighters());
+  const split: Card = { id: "peer-1", name: "Split", type: "split", leftValue: 2, rightValue: 7, tags: [] };
+  const cards = [makeCard("peer-0", 9, "moon"), split, null];
+  const received = dispatch(start, { type: "receiveAssignments", side: "enemy", cards, splitChoices: { "peer-1": "right" } });
+  assert.deepEqual(received.events, []);
+  assert.deepEqual(received.state.assign.enemy, cards);
+  assert.equal(received.state.splitChoices["peer-1"], "right");
+  assert.deepEqual(received.state.enemy.hand, start.enemy.hand);
+
+  const tooMany = dispatch(start, { type: "receiveAssignments", side: "enemy", cards: [...cards, null] });
+  assert.equal(tooMany.events[0]?.type, "rejected");
+  const revealed = dispatch(received.state, { type: "reveal" }).state;
+  assert.equal(dispatch(revealed, { type: "receiveAssignments", side: "enemy", cards }).events[0]?.type, "rejected");
+}
+
+{
+  // A peer's reported reserve stands in for the one read from their stand-in hand.
+  let state = createMatchState(baseConfig, freshFighters());
+  (["player", "enemy"] as LegacySide[]).forEach((side) => {
+    state[side].hand.slice(0, 3).forEach((card, lane) => {
+      state = dispatch(state, { type: "assign", side, lane, cardId: card.id }).state;
+    });
+  });
+  assert.equal(reserveReport(state, "enemy"), 7);
+  assert.equal(dispatch(state, { type: "reportReserve", side: "enemy", reserve: 12, round: 2 }).events[0]?.type, "rejected");
+  state = dispatch(state, { type: "reportReserve", side: "enemy", reserve: 12, round: 1 }).state;
+  state = { ...state, reservePenalties: { player: 0, enemy: 2 } };
+
+  const revealed = dispatch(state, { type: "reveal" }).state;
+  assert.deepEqual(revealed.reserveSums, { player: 7, enemy: 10 });
+  assert.equal(revealed.analysis?.usedRemoteReport, true);
+  assert.equal(revealed.mana.enemy, 5);
+}
+
+console.log("matchEngine test passed");
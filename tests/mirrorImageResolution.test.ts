@@ -7,7 +7,7 @@ import {
   type ReserveState,
   type SpellEffectApplicationContext,
 } from "../src/game/spellEngine.js";
-import type { LaneChillStacks } from "../src/features/threeWheel/utils/spellEffectTransforms.js";
+import type { StatusEffect } from "../src/game/statusEffects.js";
 
 const initialInitiative: LegacySide = "player";
 
@@ -28,9 +28,9 @@ const createInitialAssignments = (): AssignmentState<TestCard> => ({
 
 {
   let assignments = createInitialAssignments();
-  let tokens: [number, number, number] = [0, 0, 0];
+  let tokens: number[] = [0, 0, 0];
   let reserveState: ReserveState | null = { player: 0, enemy: 0 };
-  let laneChillStacks: LaneChillStacks = { player: [0, 0, 0], enemy: [0, 0, 0] };
+  let statusEffects: StatusEffect[] = [];
   let initiative: LegacySide = initialInitiative;
   const logs: string[] = [];
   const tokenVisualUpdates: Array<{ index: number; value: number }> = [];
@@ -48,8 +48,8 @@ const createInitialAssignments = (): AssignmentState<TestCard> => ({
       tokenUpdateCallCount += 1;
       tokens = updater(tokens);
     },
-    updateLaneChillStacks: (updater) => {
-      laneChillStacks = updater(laneChillStacks);
+    updateStatusEffects: (updater) => {
+      statusEffects = updater(statusEffects);
     },
     setInitiative: (side) => {
       initiative = side;
@@ -94,7 +94,7 @@ const createInitialAssignments = (): AssignmentState<TestCard> => ({
   ]);
 
   assert.equal(reserveState?.player, 0);
-  assert.equal(laneChillStacks.player[0], 0);
+  assert.deepEqual(statusEffects, []);
   assert.equal(initiative, initialInitiative);
   assert.equal(logs.length, 0);
 }
@@ -102,9 +102,9 @@ const createInitialAssignments = (): AssignmentState<TestCard> => ({
 // Hex drains the opponent's reserve before reveal, flipping the ReserveSum outcome.
 {
   let assignments = createInitialAssignments();
-  let tokens: [number, number, number] = [0, 0, 0];
+  let tokens: number[] = [0, 0, 0];
   let reserveState: ReserveState | null = null;
-  let laneChillStacks: LaneChillStacks = { player: [0, 0, 0], enemy: [0, 0, 0] };
+  let statusEffects: StatusEffect[] = [];
   let initiative: LegacySide = initialInitiative;
   const logs: string[] = [];
   const penalties: Record<LegacySide, number> = { player: 0, enemy: 0 };
@@ -124,8 +124,8 @@ const createInitialAssignments = (): AssignmentState<TestCard> => ({
     updateTokens: (updater) => {
       tokens = updater(tokens);
     },
-    updateLaneChillStacks: (updater) => {
-      laneChillStacks = updater(laneChillStacks);
+    updateStatusEffects: (updater) => {
+      statusEffects = updater(statusEffects);
     },
     setInitiative: (side) => {
       initiative = side;
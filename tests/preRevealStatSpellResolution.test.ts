@@ -7,7 +7,8 @@ import {
   type ReserveState,
   type SpellEffectApplicationContext,
 } from "../src/game/spellEngine.js";
-import type { LaneChillStacks, LegacySide } from "../src/features/threeWheel/utils/spellEffectTransforms.js";
+import type { LegacySide } from "../src/features/threeWheel/utils/spellEffectTransforms.js";
+import type { StatusEffect } from "../src/game/statusEffects.js";
 
 type TestCard = { id: string; name: string; number: number; tags?: string[] };
 
@@ -28,9 +29,9 @@ const createAssignments = (): AssignmentState<TestCard> => ({
 
 {
   let assignments = createAssignments();
-  let tokens: [number, number, number] = [3, 0, 0];
+  let tokens: number[] = [3, 0, 0];
   let reserveState: ReserveState | null = { player: 0, enemy: 0 };
-  let laneChillStacks: LaneChillStacks = { player: [0, 0, 0], enemy: [0, 0, 0] };
+  let statusEffects: StatusEffect[] = [];
   const previewUpdates: Array<{ index: number; value: number }> = [];
   let tokenUpdateCallCount = 0;
 
@@ -46,8 +47,8 @@ const createAssignments = (): AssignmentState<TestCard> => ({
       tokenUpdateCallCount += 1;
       tokens = updater(tokens);
     },
-    updateLaneChillStacks: (updater) => {
-      laneChillStacks = updater(laneChillStacks);
+    updateStatusEffects: (updater) => {
+      statusEffects = updater(statusEffects);
     },
     setInitiative: () => {},
     appendLog: () => {},
@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+
+import type { Card, Players } from "../src/game/types.js";
+import {
+  REPLAY_VERSION,
+  createReplay,
+  describeReplayAction,
+  finalizeReplay,
+  getReplayRounds,
+  parseReplay,
+  recordReplayEvent,
+  serializeReplay,
+  type ReplayRoundResult,
+} from "../src/game/replay.js";
+
+const players: Players = {
+  left: { id: "p1", name: "Hero", color: "#00aaff" },
+  right: { id: "p2", name: "Nemesis", color: "#ff3366" },
+};
+
+const card: Card = { id: "c-1", name: "4", type: "normal", number: 4, baseNumber: 4, tags: [] };
+
+const makeResult = (playerWins: number): ReplayRoundResult => ({
+  wheelSections: [[], [], []],
+  startTokens: [0, 0, 0],
+  finalTokens: [4, 0, 0],
+  assign: { player: [card, null, null], enemy: [null, null, null] },
+  outcomes: [],
+  reserves: { player: 3, enemy: 5 },
+  wins: { player: playerWins, enemy: 0 },
+  initiative: "player",
+});
+
+const base = createReplay(
+  { seed: 42, players, localSide: "left", gameMode: ["ante"], targetWins: 3, easyMode: false },
+  new Date(0),
+);
+
+{
+  // Recording never mutates earlier snapshots, and cards are copied on write.
+  const recorded = recordReplayEvent(base, 1, { type: "assign", side: "player", lane: 0, card }, 10);
+  assert.equal(base.events.length, 0);
+  assert.equal(recorded.events.length, 1);
+  assert.equal(recorded.events[0].round, 1);
+  assert.equal(recorded.events[0].at, 10);
+  const logged = recorded.events[0];
+  assert.ok(logged.type === "assign");
+  assert.notEqual(logged.card, card);
+  assert.deepEqual(logged.card, card);
+}
+
+{
+  // Serialized replays round-trip, and foreign files are rejected.
+  let replay = recordReplayEvent(base, 1, { type: "ante", side: "enemy", bet: 1 }, 5);
+  replay = recordReplayEvent(replay, 1, { type: "roundResult", result: makeResult(1) }, 20);
+  replay = finalizeReplay(replay, "player", { player: 3, enemy: 1 });
+
+  const parsed = parseReplay(serializeReplay(replay));
+  assert.deepEqual(parsed, replay);
+  assert.equal(parsed?.version, REPLAY_VERSION);
+
+  assert.equal(parseReplay("not json"), null);
+  assert.equal(parseReplay({ ...replay, version: 99 }), null);
+  assert.equal(parseReplay({ ...replay, players: null }), null);
+}
+
+{
+  // Rounds are grouped and the last resolution of a round wins.
+  let replay = base;
+  replay = recordReplayEvent(replay, 1, { type: "assign", side: "player", lane: 0, card }, 1);
+  replay = recordReplayEvent(replay, 1, { type: "reveal" }, 2);
+  replay = recordReplayEvent(replay, 1, { type: "roundResult", result: makeResult(0) }, 3);
+  replay = recordReplayEvent(replay, 1, { type: "skill", side: "player", laneIndex: 0, ability: "boostCard" }, 4);
+  replay = recordReplayEvent(replay, 1, { type: "roundResult", result: makeResult(1) }, 5);
+  replay = recordReplayEvent(replay, 2, { type: "nextVote", side: "enemy" }, 6);
+
+  const rounds = getReplayRounds(replay);
+  assert.equal(rounds.length, 2);
+  assert.equal(rounds[0].actions.length, 3);
+  assert.equal(rounds[0].result?.wins.player, 1);
+  assert.equal(rounds[1].result, null);
+
+  const names = { player: "Hero", enemy: "Nemesis" };
+  assert.equal(describeReplayAction(rounds[0].actions[0], names), "Hero placed 4 on wheel 1.");
+}
+
+console.log("replay test passed");
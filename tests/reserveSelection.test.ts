@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+
+import type { Section } from "../src/game/types.js";
+import {
+  computeReserveSum,
+  computeReserves,
+  createMatchState,
+  matchReducer,
+  pickReserveCards,
+} from "../src/game/matchEngine.js";
+import { chooseReserveCards } from "../src/game/ai/DecisionEngine.js";
+import { applySkillAbilityEffect } from "../src/features/threeWheel/utils/skillAbilityExecution.js";
+import { makeCard, makeHandFighter, makeMatchConfig } from "./helpers/fixtures.js";
+
+const baseConfig = makeMatchConfig({ seed: 99 });
+
+const hand = [makeCard("a", 1), makeCard("b", 7), makeCard("c", 3), makeCard("d", 9)];
+
+{
+  // Without a choice the reserve is the first two unplayed cards; choices go first.
+  assert.deepEqual(pickReserveCards(hand, [hand[0]]).map((c) => c.id), ["b", "c"]);
+  assert.deepEqual(pickReserveCards(hand, [], ["d"]).map((c) => c.id), ["d", "a"]);
+  assert.deepEqual(pickReserveCards(hand, [], ["d", "b", "c"]).map((c) => c.id), ["d", "b"]);
+  // A chosen card that has since been played no longer counts.
+  assert.deepEqual(pickReserveCards(hand, [hand[3]], ["d"]).map((c) => c.id), ["a", "b"]);
+
+  assert.equal(computeReserveSum(hand, []), 8);
+  assert.equal(computeReserveSum(hand, [], 0, {}, ["b", "d"]), 16);
+  assert.equal(computeReserveSum(hand, [], 5, {}, ["b", "d"]), 11);
+}
+
+{
+  // chooseReserve only takes up to two unplayed hand cards during the choose phase.
+  const start = createMatchState(baseConfig, {
+    player: makeHandFighter("p", [1, 2, 3, 8, 9]),
+    enemy: makeHandFighter("e", [1, 2, 3, 4, 5]),
+  });
+  assert.deepEqual(start.reserveChoices, { player: [], enemy: [] });
+
+  const chosen = matchReducer(start, { type: "chooseReserve", side: "player", cardIds: ["p-3", "p-4"] });
+  assert.equal(chosen.events.length, 0);
+  assert.deepEqual(chosen.state.reserveChoices.player, ["p-3", "p-4"]);
+  assert.equal(computeReserves(start).player, 3);
+  assert.equal(computeReserves(chosen.state).player, 17);
+
+  const tooMany = matchReducer(start, { type: "chooseReserve", side: "player", cardIds: ["p-0", "p-1", "p-2"] });
+  assert.equal(tooMany.state, start);
+  assert.equal(tooMany.events[0]?.type, "rejected");
+
+  const foreign = matchReducer(start, { type: "chooseReserve", side: "player", cardIds: ["e-0"] });
+  assert.equal(foreign.events[0]?.type, "rejected");
+
+  const assigned = matchReducer(start, { type: "assign", side: "player", lane: 0, cardId: "p-4" });
+  const played = matchReducer(assigned.state, { type: "chooseReserve", side: "player", cardIds: ["p-4"] });
+  assert.equal(played.events[0]?.type, "rejected");
+
+  const late = matchReducer({ ...start, phase: "roundEnd" }, { type: "chooseReserve", side: "enemy", cardIds: [] });
+  assert.equal(late.events[0]?.type, "rejected");
+}
+
+{
+  // The CPU keeps its high cards for Reserve wheels and its low cards for Lowest Reserve wheels.
+  const section = (id: Section["id"], start: number, end: number): Section => ({ id, color: "#000", start, end });
+  const reserveHeavy = [[section("ReserveSum", 1, 10), section("LowestReserve", 11, 15)]];
+  const lowestHeavy = [[section("ReserveSum", 1, 3), section("LowestReserve", 4, 15)]];
+
+  assert.deepEqual(chooseReserveCards(hand, [], reserveHeavy), ["d", "b"]);
+  assert.deepEqual(chooseReserveCards(hand, [], lowestHeavy), ["a", "c"]);
+  assert.deepEqual(chooseReserveCards(hand, [hand[0]], lowestHeavy), ["c", "b"]);
+  // Slice counts come from the wheel, so a small wheel still weighs its sections.
+  assert.deepEqual(chooseReserveCards(hand, [], [[section("LowestReserve", 10, 2)]], [12]), ["a", "c"]);
+}
+
+{
+  // Skills can't reach a hand card that isn't part of the reserve.
+  const result = applySkillAbilityEffect({
+    ability: "swapReserve",
+    actorName: "Hero",
+    side: "player",
+    laneIndex: 0,
+    target: { type: "reserve", cardId: "a" },
+    skillCard: makeCard("skill", 4),
+    storedSkillValue: 0,
+    sideAssignments: { player: [null, null, null], enemy: [null, null, null] },
+    concludeAssignUpdate: () => {
+      throw new Error("concludeAssignUpdate should not run");
+    },
+    recalcWheelForLane: () => ({ value: 0, changed: false }),
+    getFighterSnapshot: () => makeHandFighter("p", []),
+    updateFighter: () => {
+      throw new Error("updateFighter should not run");
+    },
+    drawOne: (fighter) => fighter,
+    updateReservePreview: () => {},
+    appendLog: () => {},
+    reserveCardIds: ["b", "d"],
+  });
+  assert.equal(result.success, false);
+  assert.equal(result.failureReason, "That card is not in your reserve.");
+}
+
+console.log("reserve selection test passed");
@@ -91,9 +91,9 @@ const summary = summarizeRoundOutcome({
   remoteLegacySide: "enemy",
 });
 
-let wheelHUD = [...hudBefore] as [string | null, string | null, string | null];
+let wheelHUD: (string | null)[] = [...hudBefore];
 let winsState = { ...initialWins };
-let tokensState = [...initialTokens] as [number, number, number];
+let tokensState: number[] = [...initialTokens];
 
 // Skip animation path should immediately apply the recalculated totals and winners
 // except for the round win totals, which are now deferred until the round fully ends.
@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+
+import {
+  calculateAnteOdds,
+  computeReserveSum,
+  createMatchState,
+  matchReducer,
+} from "../src/game/matchEngine.js";
+import { handSizeForLanes } from "../src/game/lanes.js";
+import { CLASSIC_RULES, normalizeRulesConfig, rulesForPreset } from "../src/game/rules.js";
+import { makeCard, makeHandFighter, makeMatchConfig } from "./helpers/fixtures.js";
+
+{
+  // Presets only differ where they mean to, and copies don't leak edits back.
+  const quick = rulesForPreset("quick");
+  assert.equal(quick.targetWins, 6);
+  assert.equal(quick.reserveSize, 1);
+  assert.deepEqual(quick.ante, CLASSIC_RULES.ante);
+  quick.skillUses.swapReserve = 7;
+  assert.equal(rulesForPreset("quick").skillUses.swapReserve, 1);
+  assert.equal(rulesForPreset("marathon").skillUses.boostCard, 2);
+  assert.equal(handSizeForLanes(3, rulesForPreset("marathon").reserveSize), 6);
+}
+
+{
+  // Rules from a peer are clamped field by field; anything unusable falls back to Classic.
+  assert.deepEqual(normalizeRulesConfig(undefined), CLASSIC_RULES);
+  const rules = normalizeRulesConfig({
+    targetWins: 99,
+    reserveSize: 0,
+    deckSize: "12",
+    manaDivisor: 2.6,
+    manaCap: -3,
+    manaOverflow: "hoard",
+    ante: { minChance: 0.3, maxChance: 0.1 },
+    skillUses: { rerollReserve: -4, lockWheel: 3 },
+  });
+  assert.equal(rules.targetWins, 25);
+  assert.equal(rules.reserveSize, 1);
+  assert.equal(rules.deckSize, CLASSIC_RULES.deckSize);
+  assert.equal(rules.manaDivisor, 3);
+  assert.equal(rules.manaCap, 0);
+  // Classic never caps mana, so rules that predate the cap play as they did.
+  assert.equal(normalizeRulesConfig({ manaDivisor: 2 }).manaCap, 0);
+  assert.equal(rules.manaOverflow, CLASSIC_RULES.manaOverflow);
+  assert.equal(rules.ante.minChance, 0.3);
+  assert.equal(rules.ante.maxChance, 0.5);
+  assert.equal(rules.skillUses.rerollReserve, 0);
+  assert.equal(rules.skillUses.lockWheel, 3);
+  assert.equal(rules.skillUses.boostCard, CLASSIC_RULES.skillUses.boostCard);
+}
+
+{
+  // Reserve size and ante clamps come from the rules rather than constants.
+  const hand = [makeCard("a", 5), makeCard("b", 4), makeCard("c", 3)];
+  assert.equal(computeReserveSum(hand, []), 9);
+  assert.equal(computeReserveSum(hand, [], undefined, undefined, undefined, 3), 12);
+
+  const odds = calculateAnteOdds({
+    wins: { player: 0, enemy: 9 },
+    winGoal: 10,
+    initiative: "enemy",
+    rules: { ...CLASSIC_RULES.ante, minChance: 0.4, minPayout: 1.5 },
+  });
+  assert.equal(odds.player, 2.5);
+  assert.equal(odds.enemy, 1.5);
+}
+
+{
+  // A match on Quick rules refills to one reserve card and rejects a second one.
+  const config = makeMatchConfig({ seed: 5, winGoal: 6, laneCount: 1, rules: rulesForPreset("quick") });
+  const start = createMatchState(config, {
+    player: makeHandFighter("p", [5, 4, 3]),
+    enemy: makeHandFighter("e", [1, 2, 3]),
+  });
+  const rejected = matchReducer(start, { type: "chooseReserve", side: "player", cardIds: ["p-1", "p-2"] });
+  assert.ok(rejected.events.some((event) => event.type === "rejected" && event.reason.includes("at most 1")));
+
+  let state = matchReducer(start, { type: "assign", side: "player", lane: 0, cardId: "p-0" }).state;
+  state = matchReducer(state, { type: "assign", side: "enemy", lane: 0, cardId: "e-0" }).state;
+  state = matchReducer(state, { type: "reveal" }).state;
+  assert.equal(state.reserveSums?.player, 4);
+}
+
+console.log("rules config test passed");
@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+
+import {
+  DEFAULT_RULESET,
+  customTemplatesFor,
+  decodeRulesetCode,
+  encodeRulesetCode,
+  withRulesetTemplates,
+  type Ruleset,
+} from "../src/game/rulesetCode.js";
+import { findRulesPreset, rulesForPreset } from "../src/game/rules.js";
+import {
+  listBuiltinWheelTemplates,
+  normalizeWheelSetChoice,
+  resolveWheelTemplates,
+  type WheelTemplate,
+} from "../src/game/wheel.js";
+
+const spiral: WheelTemplate = { id: "spiral", name: "Spiräl", slices: 20, lengths: [6, 6, 4, 3] };
+const library = [...listBuiltinWheelTemplates(), spiral];
+
+{
+  // Defaults encode to an empty patch and every setting survives a round trip.
+  assert.equal(encodeRulesetCode(DEFAULT_RULESET), "RW1-e30");
+  assert.deepEqual(decodeRulesetCode("RW1-e30"), DEFAULT_RULESET);
+
+  const wheelSet = { kind: "templates" as const, templateIds: ["spiral", "bandit"] };
+  const ruleset: Ruleset = {
+    gameMode: ["grimoire", "ante"],
+    easyMode: true,
+    laneCount: 4,
+    wheelSet,
+    templates: customTemplatesFor(wheelSet, 4, library),
+    slice0Rule: "jackpot",
+    tieBreak: "arcana",
+    rules: { ...rulesForPreset("marathon"), targetWins: 15, manaDivisor: 4 },
+  };
+  assert.deepEqual(ruleset.templates, [spiral]);
+
+  const code = encodeRulesetCode(ruleset);
+  assert.match(code, /^RW1-[A-Za-z0-9_-]+$/);
+  assert.deepEqual(decodeRulesetCode(`  ${code}\n`), ruleset);
+}
+
+{
+  // Templates from a code stand in for local ones with the same id.
+  const decoded = decodeRulesetCode(
+    encodeRulesetCode({
+      ...DEFAULT_RULESET,
+      laneCount: 1,
+      wheelSet: { kind: "templates", templateIds: ["spiral"] },
+      templates: [spiral],
+    }),
+  )!;
+  const local = { ...spiral, lengths: [15] };
+  const merged = withRulesetTemplates([...listBuiltinWheelTemplates(), local], decoded.templates);
+  assert.deepEqual(resolveWheelTemplates(decoded.wheelSet, 1, merged), [spiral]);
+}
+
+{
+  // Garbage is rejected; bad fields fall back or clamp instead of failing the whole code.
+  assert.equal(decodeRulesetCode(""), null);
+  assert.equal(decodeRulesetCode("RW1-!!!"), null);
+  assert.equal(decodeRulesetCode("RW2-e30"), null);
+  assert.equal(decodeRulesetCode(`RW1-${Buffer.from("[1]").toString("base64url")}`), null);
+
+  const patch = { laneCount: 99, wheelSet: { kind: "archetypes", player: "nobody" }, rules: { reserveSize: 9 } };
+  const decoded = decodeRulesetCode(`RW1-${Buffer.from(JSON.stringify(patch)).toString("base64url")}`)!;
+  assert.equal(decoded.laneCount, 5);
+  assert.deepEqual(decoded.wheelSet, { kind: "rotation" });
+  assert.equal(decoded.rules.reserveSize, 4);
+  assert.equal(findRulesPreset(decoded.rules), null);
+  assert.equal(findRulesPreset({ ...rulesForPreset("quick"), targetWins: 9 }), "quick");
+  assert.deepEqual(normalizeWheelSetChoice({ kind: "templates", templateIds: [] }), { kind: "rotation" });
+}
+
+console.log("ruleset code test passed");
@@ -0,0 +1,150 @@
+import assert from "node:assert/strict";
+
+import type { Section } from "../src/game/types.js";
+import { createMatchState, matchReducer } from "../src/game/matchEngine.js";
+import { createSpellRng, resolvePendingSpell } from "../src/game/spellEngine.js";
+import { getSpellById, type SpellTargetInstance } from "../src/game/spells.js";
+import { validateSpellSpec } from "../src/game/spellSpec.js";
+import { getVictoryCondition } from "../src/game/victoryConditions.js";
+import {
+  applyWheelSectionEdit,
+  normalizeWheelSectionEdits,
+  sectionIndexAt,
+  sectionLength,
+} from "../src/game/wheel.js";
+import { makeCard, makeFighter, makeSpellFighter, makeMatchConfig } from "./helpers/fixtures.js";
+import { castSpell, sectionTarget, skipTarget, withMana } from "./helpers/casting.js";
+
+const wheel: Section[] = [
+  { id: "Strongest", color: "#f43f5e", start: 1, end: 5 },
+  { id: "Weakest", color: "#10b981", start: 6, end: 10 },
+  { id: "ClosestToTarget", color: "#0ea5e9", start: 11, end: 15, target: 3 },
+  { id: "Initiative", color: "#a855f7", start: 0, end: 0 },
+];
+
+{
+  // Resizing moves the boundary with the next section, or the previous one at the end of the wheel.
+  const widened = applyWheelSectionEdit(wheel, { wheelIndex: 0, sectionIndex: 0, kind: "resize", amount: 2 }, 16);
+  assert.deepEqual(widened.slice(0, 2).map((s) => [s.start, s.end]), [[1, 7], [8, 10]]);
+
+  const narrowed = applyWheelSectionEdit(wheel, { wheelIndex: 0, sectionIndex: 2, kind: "resize", amount: -1 }, 16);
+  assert.deepEqual(narrowed.slice(1, 3).map((s) => [s.start, s.end]), [[6, 11], [12, 15]]);
+
+  // Every section keeps a slice, and slice 0 can't be resized.
+  const capped = applyWheelSectionEdit(wheel, { wheelIndex: 0, sectionIndex: 0, kind: "resize", amount: 9 }, 16);
+  assert.equal(sectionLength(capped[1]!, 16), 1);
+  assert.equal(applyWheelSectionEdit(wheel, { wheelIndex: 0, sectionIndex: 3, kind: "resize", amount: 1 }, 16), wheel);
+
+  assert.equal(sectionIndexAt(wheel, 0), 3);
+  assert.equal(sectionIndexAt(wheel, 7), 1);
+}
+
+{
+  // Recoloring takes the new condition's color and target; retargeting maps the roll onto its range.
+  const recolored = applyWheelSectionEdit(wheel, { wheelIndex: 0, sectionIndex: 0, kind: "recolor", id: "ClosestToTarget", roll: 0 }, 16);
+  assert.equal(recolored[0]!.id, "ClosestToTarget");
+  assert.equal(recolored[0]!.color, "#f59e0b");
+  assert.equal(recolored[0]!.target, 0);
+
+  const retargeted = applyWheelSectionEdit(wheel, { wheelIndex: 0, sectionIndex: 2, kind: "retarget", roll: 0.99 }, 16);
+  assert.equal(retargeted[2]!.target, 15);
+  assert.equal(applyWheelSectionEdit(wheel, { wheelIndex: 0, sectionIndex: 0, kind: "retarget", roll: 0.5 }, 16), wheel);
+
+  const normalized = normalizeWheelSectionEdits([
+    { wheelIndex: 1, sectionIndex: 0, kind: "resize", amount: 99 },
+    { wheelIndex: 1, sectionIndex: 0, kind: "recolor", id: "Nonsense" },
+    { wheelIndex: 1, sectionIndex: 0, kind: "retarget", roll: 4 },
+    { wheelIndex: -1, sectionIndex: 0, kind: "resize", amount: 1 },
+  ]);
+  assert.deepEqual(normalized, [{ wheelIndex: 1, sectionIndex: 0, kind: "resize", amount: 32 }]);
+}
+
+{
+  // Reshape widens the picked section; its eye bonus re-rolls the target with the roll in the payload.
+  const spell = getSpellById("reshape");
+  assert.ok(spell, "reshape should be registered");
+  const section: SpellTargetInstance = {
+    type: "section",
+    wheelId: "2",
+    sectionIndex: 2,
+    condition: "ClosestToTarget",
+    stageIndex: 0,
+  };
+  const eye: SpellTargetInstance = { type: "card", cardId: "p-0", owner: "ally", arcana: "eye", cardValue: 1, stageIndex: 1 };
+  const result = resolvePendingSpell({
+    descriptor: { side: "player", spell, targets: [section, eye], currentStage: 2, spentMana: spell.cost },
+    caster: makeSpellFighter("p"),
+    opponent: makeSpellFighter("e"),
+    phase: "choose",
+    runtimeState: {},
+  });
+  assert.equal(result.outcome, "success");
+  const edits = result.outcome === "success" ? result.payload?.wheelSectionEdits ?? [] : [];
+  assert.deepEqual(edits[0], { wheelIndex: 2, sectionIndex: 2, kind: "resize", amount: 1 });
+  assert.equal(edits[1]?.kind, "retarget");
+
+  assert.deepEqual(
+    validateSpellSpec({
+      id: "bad",
+      name: "Bad",
+      description: "",
+      cost: 1,
+      requirements: [],
+      targets: [{ type: "section", scope: "sideways", conditions: ["Nope"] }],
+      effects: [{ type: "rewriteSection", target: 0 }],
+    }),
+    [
+      'bad.targets[0].scope: expected "current" or "any".',
+      "bad.targets[0].conditions: expected a list of victory conditions.",
+      "bad.effects[0]: expected a condition, resize or reroll.",
+    ],
+  );
+}
+
+{
+  // Rolls come from the stream the resolver is given, which the match seed and cast count pick.
+  const spell = getSpellById("transmute");
+  assert.ok(spell, "transmute should be registered");
+  const section: SpellTargetInstance = { type: "section", wheelId: "0", sectionIndex: 0, condition: "Strongest", stageIndex: 0 };
+  const recolor = (rng: () => number) => {
+    const result = resolvePendingSpell({
+      descriptor: { side: "player", spell, targets: [section, skipTarget(1)], currentStage: 2, spentMana: spell.cost },
+      caster: makeSpellFighter("p"),
+      opponent: makeSpellFighter("e"),
+      phase: "choose",
+      runtimeState: {},
+      rng,
+    });
+    return result.outcome === "success" ? result.payload?.wheelSectionEdits?.[0] : undefined;
+  };
+  const first = recolor(createSpellRng(11, "player", "transmute"));
+  const stream = createSpellRng(11, "player", "transmute");
+  stream();
+  assert.ok(first?.kind === "recolor" && first.roll === stream());
+  assert.deepEqual(recolor(createSpellRng(11, "player", "transmute")), first);
+
+  const cast = { player: { transmute: { lastRound: 1, casts: 1 } }, enemy: {} };
+  assert.notDeepEqual(recolor(createSpellRng(11, "player", "transmute", cast)), first);
+}
+
+{
+  // In a match, Transmute rewrites only the wheel it names and logs the change.
+  const config = makeMatchConfig({ seed: 11, winGoal: 50 });
+  const fighters = () => ({
+    player: makeFighter("p", [makeCard("p-eye", 1, "eye"), ...makeSpellFighter("p").hand.slice(1)]),
+    enemy: makeSpellFighter("e"),
+  });
+  const state = withMana(createMatchState(config, fighters()), 3);
+  const target = state.wheelSections[0]!.findIndex((s) => sectionLength(s, 16) > 0);
+  const cast = castSpell(state, "player", "transmute", [sectionTarget(state, 0, target), skipTarget(1)]);
+  const declared = cast.events.find((event) => event.type === "spellDeclared");
+  const edit = declared?.type === "spellDeclared" ? declared.entry.payload.wheelSectionEdits?.[0] : undefined;
+  assert.ok(edit?.kind === "recolor" && edit.id !== state.wheelSections[0]![target]!.id);
+
+  const rewritten = cast.state.wheelSections[0]![target]!;
+  assert.equal(rewritten.id, edit.id);
+  assert.ok(cast.events.some((event) => event.type === "log" && event.message.includes(`turns ${getVictoryCondition(edit.id)?.label}`)));
+  assert.deepEqual(cast.state.wheelSections.slice(1), createMatchState(config, fighters()).wheelSections.slice(1));
+}
+
+console.log("section rewrite test passed");
@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+
+import type { Card, Fighter } from "../src/game/types.js";
+import { createSeededRng, deriveSeed } from "../src/game/math.js";
+import { drawOne, freshFive, refillTo } from "../src/game/decks.js";
+import { chooseBestMove, type GameState } from "../src/game/ai/DecisionEngine.js";
+import { generateWheelSet, settleFighterAfterRound } from "../src/game/matchEngine.js";
+import { makeCard } from "./helpers/fixtures.js";
+
+const cards = Array.from({ length: 10 }, (_, i) => makeCard(`c${i}`, i));
+const ids = (list: Card[]) => list.map((card) => card.id);
+
+{
+  // Derived seeds are stable per label and differ between labels.
+  assert.equal(deriveSeed(7, "deck:player"), deriveSeed(7, "deck:player"));
+  assert.notEqual(deriveSeed(7, "deck:player"), deriveSeed(7, "deck:enemy"));
+  assert.notEqual(deriveSeed(7, "deck:player"), deriveSeed(8, "deck:player"));
+}
+
+{
+  // Reshuffle-on-empty follows the supplied RNG.
+  const empty: Fighter = { name: "A", deck: [], hand: [], discard: cards, exhaust: [] };
+  const a = drawOne(empty, createSeededRng(99));
+  const b = drawOne(empty, createSeededRng(99));
+  assert.deepEqual(ids(a.hand), ids(b.hand));
+  assert.deepEqual(ids(a.deck), ids(b.deck));
+
+  const refillA = refillTo(empty, 5, createSeededRng(3));
+  const refillB = refillTo(empty, 5, createSeededRng(3));
+  assert.deepEqual(ids(refillA.hand), ids(refillB.hand));
+
+  const pool: Fighter = { name: "A", deck: cards.slice(0, 5), hand: cards.slice(5), discard: [], exhaust: [] };
+  assert.deepEqual(ids(freshFive(pool, createSeededRng(11)).hand), ids(freshFive(pool, createSeededRng(11)).hand));
+}
+
+{
+  // Settling a round draws the same replacements for the same seed.
+  const fighter: Fighter = { name: "A", deck: [], hand: cards.slice(0, 5), discard: cards.slice(5), exhaust: [] };
+  const played = fighter.hand.slice(0, 3);
+  const a = settleFighterAfterRound(fighter, played, createSeededRng(5));
+  const b = settleFighterAfterRound(fighter, played, createSeededRng(5));
+  assert.deepEqual(ids(a.hand), ids(b.hand));
+}
+
+{
+  // Padding a short hand takes its card ids from the same seeded stream.
+  const fighter: Fighter = { name: "A", deck: [], hand: cards.slice(0, 2), discard: [], exhaust: [] };
+  const a = settleFighterAfterRound(fighter, [], createSeededRng(8));
+  const b = settleFighterAfterRound(fighter, [], createSeededRng(8));
+  assert.equal(a.hand.length, 5);
+  assert.deepEqual(ids(a.hand), ids(b.hand));
+  assert.equal(new Set(ids(a.hand)).size, 5);
+}
+
+{
+  // CPU simulation is reproducible when given a seeded RNG.
+  const state: GameState = {
+    wheels: [0, 1, 2].map(() => ({ aiCard: null, playerCard: null })),
+    aiHand: cards.slice(0, 5),
+    playerHand: cards.slice(5),
+    tokens: [0, 0, 0],
+    wheelSections: generateWheelSet(createSeededRng(21), false),
+    initiative: "player",
+  };
+  const first = chooseBestMove(state, undefined, 40, createSeededRng(8));
+  const second = chooseBestMove(state, undefined, 40, createSeededRng(8));
+  assert.ok(first && second);
+  assert.equal(first.card.id, second.card.id);
+  assert.equal(first.wheelIndex, second.wheelIndex);
+  assert.equal(first.prob, second.prob);
+}
+
+console.log("seededDeterminism test passed");
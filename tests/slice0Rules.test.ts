@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+
+import type { Section } from "../src/game/types.js";
+import {
+  createMatchState,
+  matchReducer,
+  resolveWheelOutcome,
+} from "../src/game/matchEngine.js";
+import { summarizeRoundOutcome, type RoundAnalysis } from "../src/features/threeWheel/hooks/roundOutcomeSummary.js";
+import { normalizeSlice0Rule } from "../src/game/slice0Rules.js";
+import { makeHandFighter, makeMatchConfig } from "./helpers/fixtures.js";
+
+const strongest: Section = { id: "Strongest", color: "#000", start: 1, end: 15 };
+
+// 3 + 4 steps from slice 9 lands on slice 0 of a 16-slice wheel.
+const landing = {
+  wheel: 0,
+  sections: [strongest],
+  startToken: 9,
+  playerValue: 3,
+  enemyValue: 4,
+  reserves: { player: 0, enemy: 0 },
+  initiative: "player" as const,
+};
+
+{
+  // Each rule decides an empty slice 0 differently; a slice-0 section still wins over the rule.
+  const noWin = resolveWheelOutcome(landing);
+  assert.equal(noWin.targetSlice, 0);
+  assert.equal(noWin.tie, true);
+  assert.equal(noWin.detail, "Slice 0: no win");
+  assert.equal(noWin.slice0, undefined);
+
+  const jackpot = resolveWheelOutcome({ ...landing, slice0Rule: "jackpot" });
+  assert.equal(jackpot.winner, "enemy");
+  assert.equal(jackpot.wins, 2);
+  assert.equal(jackpot.slice0, "jackpot");
+
+  const evenDuel = resolveWheelOutcome({ ...landing, playerValue: 4, startToken: 8, slice0Rule: "jackpot" });
+  assert.equal(evenDuel.tie, true);
+  assert.equal(evenDuel.wins, undefined);
+
+  const reversal = resolveWheelOutcome({ ...landing, slice0Rule: "reversal" });
+  assert.equal(reversal.tie, true);
+  assert.equal(reversal.slice0, "reversal");
+
+  const decided = resolveWheelOutcome({
+    ...landing,
+    sections: [strongest, { id: "Weakest", color: "#fff", start: 0, end: 0 }],
+    slice0Rule: "jackpot",
+  });
+  assert.equal(decided.winner, "player");
+  assert.equal(decided.wins, undefined);
+  assert.equal(decided.slice0, undefined);
+
+  assert.equal(normalizeSlice0Rule("carryOver"), "carryOver");
+  assert.equal(normalizeSlice0Rule("bogus"), "noWin");
+}
+
+{
+  // Carry-over pots grow on slice 0 and pay out to the lane's next winner; reversals flip initiative.
+  const outcome = (wheel: number, patch: Partial<RoundAnalysis["outcomes"][number]>) => ({
+    steps: 1,
+    targetSlice: 1,
+    section: strongest,
+    winner: null,
+    tie: true,
+    wheel,
+    detail: "",
+    ...patch,
+  });
+  const summarize = (outcomes: RoundAnalysis["outcomes"], carryOver?: number[]) =>
+    summarizeRoundOutcome({
+      analysis: { outcomes, localReserve: 0, remoteReserve: 0, pReserve: 0, eReserve: 0, usedRemoteReport: false },
+      wins: { player: 0, enemy: 0 },
+      carryOver,
+      initiative: "player",
+      round: 1,
+      namesByLegacy: { player: "Hero", enemy: "Nemesis" },
+      HUD_COLORS: { player: "#0af", enemy: "#f36" },
+      isAnteMode: false,
+      anteState: { round: 0, bets: { player: 0, enemy: 0 }, odds: { player: 1, enemy: 1 } },
+      winGoal: 10,
+      localLegacySide: "player",
+      remoteLegacySide: "enemy",
+    });
+
+  const carried = summarize([outcome(0, { slice0: "carryOver" }), outcome(1, {})], [1, 2]);
+  assert.deepEqual(carried.carryOver, [2, 2]);
+  assert.ok(carried.logs.some((line) => line.includes("Wheel 1 carries 2 wins")));
+
+  const paid = summarize(
+    [outcome(0, { tie: false, winner: "player" }), outcome(1, { tie: false, winner: "enemy", wins: 2 })],
+    [2, 1],
+  );
+  assert.deepEqual(paid.wins, { player: 3, enemy: 3 });
+  assert.deepEqual(paid.carryOver, [0, 0]);
+
+  const reversed = summarize([outcome(0, { tie: false, winner: "player" }), outcome(1, { slice0: "reversal" })]);
+  assert.equal(reversed.roundWinner, "player");
+  assert.equal(reversed.nextInitiative, "enemy");
+  assert.ok(reversed.logs.some((line) => line.includes("initiative flips to Nemesis")));
+}
+
+{
+  // The match engine holds the carry-over pot across rounds and resets it on a rematch.
+  const config = makeMatchConfig({ seed: 3, winGoal: 5, laneCount: 1, slice0Rule: "carryOver" });
+  const start = createMatchState(config, {
+    player: makeHandFighter("p", [3, 1, 1]),
+    enemy: makeHandFighter("e", [13, 1, 1]),
+  });
+  assert.deepEqual(start.carryOver, [0]);
+
+  let state = matchReducer(start, { type: "assign", side: "player", lane: 0, cardId: "p-0" }).state;
+  state = matchReducer(state, { type: "assign", side: "enemy", lane: 0, cardId: "e-0" }).state;
+  const revealed = matchReducer(state, { type: "reveal" }).state;
+  assert.equal(revealed.analysis?.outcomes[0]?.slice0, "carryOver");
+  assert.deepEqual(revealed.pendingCarryOver, [1]);
+  assert.deepEqual(revealed.carryOver, [0]);
+
+  const next = matchReducer(revealed, { type: "nextRound" }).state;
+  assert.deepEqual(next.carryOver, [1]);
+  assert.equal(next.pendingCarryOver, null);
+}
+
+console.log("slice 0 rules test passed");
@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+
+import { chooseCpuSpellResponse, type CpuSpellContext } from "../src/game/ai/grimoireCpu.js";
+import {
+  advanceSpellCombo,
+  comboBonusPayload,
+  createSpellComboState,
+  getComboChain,
+  getComboProgress,
+  getSpellArcana,
+  type SpellComboState,
+} from "../src/game/spellCombos.js";
+import { createSpellStackEntry, resolveSpellStackEntries } from "../src/game/spellEngine.js";
+import { getSpellById, type SpellDefinition } from "../src/game/spells.js";
+import { makeCard, makeHandFighter } from "./helpers/fixtures.js";
+
+const spell = (id: string): SpellDefinition => {
+  const definition = getSpellById(id);
+  assert.ok(definition, `${id} should be registered`);
+  return definition;
+};
+
+{
+  // Fire then blade in one phase sets off Searing Edge and clears the chain.
+  const at = { round: 2, phase: "roundEnd" };
+  assert.equal(getSpellArcana("fireball"), "fire");
+  assert.equal(getSpellArcana("iceShard"), "blade");
+
+  let state: SpellComboState = createSpellComboState(at);
+  let step = advanceSpellCombo(state, "player", "fireball", at);
+  assert.equal(step.combo, null);
+  state = step.state;
+  assert.deepEqual(getComboChain(state, "player", at), ["fire"]);
+  assert.deepEqual(getComboChain(state, "enemy", at), []);
+
+  // The other side's spells don't break the chain.
+  state = advanceSpellCombo(state, "enemy", "hex", at).state;
+  step = advanceSpellCombo(state, "player", "iceShard", at);
+  assert.equal(step.combo?.id, "searingEdge");
+  assert.deepEqual(getComboChain(step.state, "player", at), []);
+
+  // Blade on its own starts nothing, and only the latest arcana carry over.
+  step = advanceSpellCombo(step.state, "player", "iceShard", at);
+  assert.equal(step.combo, null);
+  assert.deepEqual(getComboChain(step.state, "player", at), ["blade"]);
+}
+
+{
+  // A chain lasts one phase of one round.
+  const at = { round: 1, phase: "choose" };
+  const state = advanceSpellCombo(undefined, "player", "kindle", at).state;
+  assert.deepEqual(getComboChain(state, "player", { round: 1, phase: "roundEnd" }), []);
+  assert.deepEqual(getComboChain(state, "player", { round: 2, phase: "choose" }), []);
+  assert.equal(advanceSpellCombo(state, "player", "iceShard", { round: 1, phase: "roundEnd" }).combo, null);
+  assert.equal(advanceSpellCombo(state, "player", "iceShard", at).combo?.id, "searingEdge");
+}
+
+{
+  // Progress names what each started combo needs next; bonuses become payloads.
+  assert.deepEqual(
+    getComboProgress(["moon"]).map(({ combo, next }) => [combo.id, next]),
+    [["coilingTide", "serpent"]],
+  );
+  assert.deepEqual(
+    getComboProgress(["eye", "moon"]).map(({ combo, next }) => [combo.id, next]),
+    [["coilingTide", "serpent"]],
+  );
+  assert.deepEqual(getComboProgress(["blade"]), []);
+
+  const searing = advanceSpellCombo(
+    advanceSpellCombo(undefined, "enemy", "fireball", { round: 1, phase: "roundEnd" }).state,
+    "enemy",
+    "iceShard",
+    { round: 1, phase: "roundEnd" },
+  ).combo;
+  assert.ok(searing);
+  assert.deepEqual(comboBonusPayload(searing, "enemy", "CPU"), {
+    caster: "enemy",
+    logMessages: ["CPU chains a Searing Edge combo: Drain 2 from the opponent's reserve."],
+    reserveDrains: [{ side: "player", amount: 2 }],
+  });
+}
+
+{
+  // Countered entries are flagged, so they don't count toward a chain.
+  const fireball = createSpellStackEntry(
+    { side: "player", spell: spell("fireball"), targets: [], spentMana: 2 },
+    { caster: "player" },
+  );
+  const counter = createSpellStackEntry(
+    { side: "enemy", spell: spell("counterspell"), targets: [], spentMana: 4 },
+    { caster: "enemy" },
+  );
+  const resolved = resolveSpellStackEntries([fireball, counter]);
+  assert.deepEqual(
+    resolved.map(({ entry, countered }) => [entry.spellId, countered]),
+    [
+      ["counterspell", false],
+      ["fireball", true],
+    ],
+  );
+}
+
+{
+  // The CPU reaches for the spell that finishes its combo: after a moon spell, Hex
+  // also takes the initiative.
+  const context = (comboChain: CpuSpellContext["comboChain"]): CpuSpellContext => ({
+    casterSide: "enemy",
+    caster: makeHandFighter("e", [1, 2]),
+    opponent: makeHandFighter("p", [4, 4]),
+    board: { player: [makeCard("p-board", 9)], enemy: [makeCard("e-board", 2)] },
+    reserveSums: { player: 8, enemy: 3 },
+    initiative: "player",
+    availableSpells: [
+      { spell: spell("fireball"), cost: 2 },
+      { spell: spell("hex"), cost: 4 },
+    ],
+    mana: 6,
+    comboChain,
+  });
+  assert.equal(chooseCpuSpellResponse(context(undefined))?.spell.id, "fireball");
+  assert.equal(chooseCpuSpellResponse(context(["moon"]))?.spell.id, "hex");
+  assert.equal(chooseCpuSpellResponse(context(["fire"]))?.spell.id, "fireball");
+}
+
+console.log("spell combos test passed");
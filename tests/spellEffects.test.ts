@@ -2,8 +2,6 @@ import assert from "node:assert/strict";
 
 import {
   applyCardStatAdjustments,
-  applyChilledCardUpdates,
-  type LaneChillStacks,
   type LegacySide,
 } from "../src/features/threeWheel/utils/spellEffectTransforms.js";
 import { collectRuntimeSpellEffects } from "../src/features/threeWheel/utils/spellEffectTransforms.js";
@@ -13,6 +11,7 @@ import {
   type SpellEffectPayload,
 } from "../src/game/spellEngine.js";
 import { handleInitiativeEffects } from "../src/game/spellEffectHandlers.js";
+import type { StatusEffect } from "../src/game/statusEffects.js";
 import type { Card, Fighter } from "../src/game/types.js";
 
 const opponentOf = (side: LegacySide): LegacySide => (side === "player" ? "enemy" : "player");
@@ -47,44 +46,42 @@ const opponentOf = (side: LegacySide): LegacySide => (side === "player" ? "enemy
   assert.equal((updated!.enemy[0] as Card).number, 4);
 }
 
-// Ice Shard freezes the matching lane by adding chilled stacks.
+// Ice Shard chills the lane the frozen card sits in, on the opponent's side.
 {
   const runtimeState = {
-    chilledCards: { "enemy-card": 1 },
-  } as const;
+    statusEffects: [
+      {
+        kind: "chill",
+        target: { type: "card", cardId: "enemy-card", owner: "enemy", lane: 1 },
+        stacks: 2,
+        rounds: 2,
+      },
+    ],
+  };
   const caster: LegacySide = "player";
   const summary = collectRuntimeSpellEffects(runtimeState, caster);
-  assert(summary.chilledCards && summary.chilledCards.length === 1);
-  const chilled = summary.chilledCards![0]!;
-  assert.equal(chilled.owner, opponentOf(caster));
-  assert.equal(chilled.stacks, 1);
-
-  const assignState = {
-    player: [null, null, null] as (Card | null)[],
-    enemy: [
-      { id: "enemy-card", name: "Rogue", number: 3, tags: [] },
-      null,
-      null,
-    ] as (Card | null)[],
-  };
-  const laneStacks: LaneChillStacks = { player: [0, 0, 0], enemy: [0, 0, 0] };
-  const updatedStacks = applyChilledCardUpdates(laneStacks, assignState, summary.chilledCards!);
-  assert(updatedStacks, "Chilled update should return modified lane stacks");
-  assert.equal(updatedStacks!.enemy[0], 1);
+  assert.deepEqual(summary.statusEffects, [
+    {
+      kind: "chill",
+      owner: caster,
+      target: { type: "lane", side: opponentOf(caster), lane: 1 },
+      stacks: 2,
+      duration: { unit: "rounds", remaining: 2 },
+    },
+  ]);
 }
 
-// Time Twist builds initiative and queues delayed log messages.
+// Time Twist leaves momentum on the caster and draws a card.
 {
   const runtimeState = {
-    timeMomentum: 2,
-    delayedEffects: ["Future surge charged."],
+    statusEffects: [{ kind: "momentum", side: "caster" }],
     drawCards: 1,
   } as const;
   const caster: LegacySide = "enemy";
   const summary = collectRuntimeSpellEffects(runtimeState, caster);
-  assert.equal(summary.initiative, caster);
-  assert(summary.delayedEffects && summary.delayedEffects.length === 1);
-  assert.equal(summary.delayedEffects![0], "Future surge charged.");
+  assert(summary.statusEffects && summary.statusEffects.length === 1);
+  assert.equal(summary.statusEffects![0]!.kind, "momentum");
+  assert.deepEqual(summary.statusEffects![0]!.target, { type: "fighter", side: caster });
   assert(summary.drawCards && summary.drawCards.length === 1);
   assert.equal(summary.drawCards![0]!.side, caster);
   assert.equal(summary.drawCards![0]!.count, 1);
@@ -110,9 +107,9 @@ const opponentOf = (side: LegacySide): LegacySide => (side === "player" ? "enemy
     player: [...playerBoard],
     enemy: [...enemyBoard],
   };
-  let tokens: [number, number, number] = [0, 0, 0];
+  let tokens: number[] = [0, 0, 0];
   let reserveSums: { player: number; enemy: number } | null = { player: 5, enemy: 5 };
-  let chillStacks: LaneChillStacks = { player: [0, 0, 0], enemy: [0, 0, 0] };
+  let statusEffects: StatusEffect[] = [];
   let initiative: LegacySide = "enemy";
   const log: string[] = [];
   let playerFighter: Fighter = {
@@ -162,8 +159,8 @@ const opponentOf = (side: LegacySide): LegacySide => (side === "player" ? "enemy
       tokens = updater(tokens);
       return tokens;
     },
-    updateLaneChillStacks: (updater) => {
-      chillStacks = updater(chillStacks);
+    updateStatusEffects: (updater) => {
+      statusEffects = updater(statusEffects);
     },
     setInitiative: (side) => {
       initiative = side;
@@ -201,7 +198,7 @@ const opponentOf = (side: LegacySide): LegacySide => (side === "player" ? "enemy
   assert(log.includes("Spell resolved."));
   assert.deepEqual(tokens, [0, 0, 0]);
   assert.deepEqual(reserveSums, { player: 5, enemy: 5 });
-  assert.deepEqual(chillStacks, { player: [0, 0, 0], enemy: [0, 0, 0] });
+  assert.deepEqual(statusEffects, []);
 }
 
 // handleInitiativeEffects honors winOnTie when challenge values match.
@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+
+import { chooseCpuSpellResponse, type CpuSpellContext } from "../src/game/ai/grimoireCpu.js";
+import { createSpellStackEntry } from "../src/game/spellEngine.js";
+import {
+  awardMana,
+  createSpellCastHistory,
+  getSpellCastBlock,
+  recordSpellCast,
+  spellCooldownRemaining,
+} from "../src/game/spellLimits.js";
+import { getSpellById, type SpellDefinition } from "../src/game/spells.js";
+import { validateSpellSpec } from "../src/game/spellSpec.js";
+import { validateSpellDeclaration } from "../src/game/spellValidation.js";
+import { makeCard, makeHandFighter } from "./helpers/fixtures.js";
+
+const spell = (id: string): SpellDefinition => {
+  const definition = getSpellById(id);
+  assert.ok(definition, `${id} should be registered`);
+  return definition;
+};
+
+{
+  // A cooldown of 2 sits out the next two rounds; an ultimate is spent after one cast.
+  const timeTwist = spell("timeTwist");
+  assert.equal(timeTwist.cooldown, 2);
+  assert.equal(spell("suddenStrike").ultimate, true);
+
+  let history = createSpellCastHistory();
+  assert.equal(getSpellCastBlock(timeTwist, history, "player", 3), null);
+  history = recordSpellCast(history, "player", "timeTwist", 3);
+  history = recordSpellCast(history, "enemy", "suddenStrike", 3);
+
+  assert.deepEqual(getSpellCastBlock(timeTwist, history, "player", 4), { kind: "cooldown", rounds: 2 });
+  assert.equal(spellCooldownRemaining(timeTwist, history.player.timeTwist, 5), 1);
+  assert.equal(getSpellCastBlock(timeTwist, history, "player", 6), null);
+  assert.equal(getSpellCastBlock(timeTwist, history, "enemy", 4), null);
+  assert.deepEqual(getSpellCastBlock(spell("suddenStrike"), history, "enemy", 12), { kind: "spent" });
+  assert.equal(recordSpellCast(history, "player", "timeTwist", 6).player.timeTwist?.casts, 2);
+}
+
+{
+  // Gains stop at the cap, or keep half of what spills over; no cap means no limit.
+  assert.equal(awardMana(7, 5, { manaCap: 10, manaOverflow: "discard" }), 10);
+  assert.equal(awardMana(12, 3, { manaCap: 10, manaOverflow: "discard" }), 12);
+  assert.equal(awardMana(7, 6, { manaCap: 10, manaOverflow: "decay" }), 11);
+  assert.equal(awardMana(7, 6, { manaCap: 0, manaOverflow: "discard" }), 13);
+}
+
+{
+  // Specs reject cooldowns that aren't whole rounds.
+  const errors = validateSpellSpec({
+    id: "slow",
+    name: "Slow",
+    description: "",
+    cost: 1,
+    cooldown: 1.5,
+    ultimate: "yes",
+    requirements: [],
+    targets: [{ type: "none" }],
+    effects: [{ type: "log", text: "{caster} waits." }],
+  });
+  assert.deepEqual(errors, ["slow.cooldown: expected a whole number of rounds.", "slow.ultimate: expected true or false."]);
+}
+
+{
+  // A peer can't cast a spell that is still cooling down.
+  const counterspell = spell("counterspell");
+  const entry = createSpellStackEntry(
+    { side: "enemy", spell: counterspell, targets: [], spentMana: 4 },
+    { caster: "enemy" },
+  );
+  const fighters = { player: makeHandFighter("p", [1]), enemy: makeHandFighter("e", [1]) };
+  const context = {
+    fighters,
+    assign: { player: [null], enemy: [null] },
+    wheelSections: [],
+    activeWheels: [true],
+    phase: "choose" as const,
+    mana: 6,
+    stackOpen: true,
+    canReact: true,
+    round: 4,
+    seed: 1,
+  };
+  assert.ok(validateSpellDeclaration(entry, { ...context, castHistory: createSpellCastHistory() }).ok);
+  const cooling = recordSpellCast(createSpellCastHistory(), "enemy", "counterspell", 3);
+  const result = validateSpellDeclaration(entry, { ...context, castHistory: cooling });
+  assert.deepEqual(result, { ok: false, reason: "Counterspell is on cooldown" });
+}
+
+{
+  // The CPU skips spells on cooldown and keeps its ultimate for a big enough moment.
+  const drain = (amount: number) =>
+    createSpellStackEntry(
+      { side: "player", spell: spell("hex"), targets: [], spentMana: 4 },
+      { caster: "player", reserveDrains: [{ side: "enemy", amount }] },
+    );
+  const context = (amount: number, availableSpells: CpuSpellContext["availableSpells"]): CpuSpellContext => ({
+    casterSide: "enemy",
+    caster: makeHandFighter("e", [3, 3]),
+    opponent: makeHandFighter("p", [3, 3]),
+    board: { player: [], enemy: [] },
+    reserveSums: { player: 6, enemy: 6 },
+    initiative: "player",
+    availableSpells,
+    spellStack: [drain(amount)],
+  });
+  const counterspell = spell("counterspell");
+  const ultimate = { ...counterspell, ultimate: true };
+
+  assert.equal(chooseCpuSpellResponse(context(3, [{ spell: counterspell, cost: 4 }]))?.spell.id, "counterspell");
+  assert.equal(chooseCpuSpellResponse(context(3, [{ spell: counterspell, cost: 4, readyIn: 1 }])), null);
+  assert.equal(chooseCpuSpellResponse(context(3, [{ spell: ultimate, cost: 4 }])), null);
+  assert.equal(chooseCpuSpellResponse(context(6, [{ spell: ultimate, cost: 4 }]))?.spell.id, "counterspell");
+}
+
+{
+  // It holds its mana when a better spell comes off cooldown next round.
+  const board = {
+    player: [makeCard("p-board", 9)],
+    enemy: [makeCard("e-board", 2)],
+  };
+  const context = (mana: number, iceShardReadyIn: number): CpuSpellContext => ({
+    casterSide: "enemy",
+    caster: makeHandFighter("e", [1]),
+    opponent: makeHandFighter("p", [1]),
+    board,
+    reserveSums: { player: 1, enemy: 1 },
+    initiative: "player",
+    availableSpells: [
+      { spell: spell("fireball"), cost: 2 },
+      { spell: spell("iceShard"), cost: 1, readyIn: iceShardReadyIn },
+    ],
+    mana,
+  });
+
+  assert.equal(chooseCpuSpellResponse(context(2, 0))?.spell.id, "iceShard");
+  assert.equal(chooseCpuSpellResponse(context(2, 1)), null);
+  assert.equal(chooseCpuSpellResponse(context(3, 1))?.spell.id, "fireball");
+  assert.equal(chooseCpuSpellResponse(context(2, 2))?.spell.id, "fireball");
+}
+
+console.log("spell limits test passed");
@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+
+import type { Fighter, Section } from "../src/game/types.js";
+import { previewSpellEffects, type SpellPreviewBoard } from "../src/game/spellPreview.js";
+import { makeCard, makeHandFighter } from "./helpers/fixtures.js";
+
+const wheel: Section[] = [
+  { id: "Strongest", color: "#f43f5e", start: 1, end: 15 },
+  { id: "Initiative", color: "#a855f7", start: 0, end: 0 },
+];
+
+/** A fighter holding `hand` with a single 6 left to draw. */
+const makeFighter = (prefix: string, hand: number[]): Fighter => ({
+  ...makeHandFighter(prefix, hand),
+  deck: [makeCard(`${prefix}-deck`, 6)],
+});
+
+const player = makeFighter("p", [3, 2, 4]);
+const enemy = makeFighter("e", [5, 1, 1]);
+
+const board: SpellPreviewBoard = {
+  assign: { player: [player.hand[0]!], enemy: [enemy.hand[0]!] },
+  fighters: { player, enemy },
+  reservePenalties: { player: 0, enemy: 0 },
+  reserveChoices: { player: [], enemy: [] },
+  reserveSize: 2,
+  splitChoices: {},
+  tokens: [0],
+  wheelSections: [wheel],
+  wheelSlices: [16],
+  wheelLocks: [false],
+  pointerShifts: [0],
+  initiative: "enemy",
+  statusEffects: [],
+  localLegacySide: "player",
+};
+
+{
+  // Nothing cast, nothing moves.
+  const preview = previewSpellEffects(board, { caster: "player" });
+  assert.equal(preview.lanes[0]!.winner.before, "enemy");
+  assert.equal(preview.lanes[0]!.flips, false);
+  assert.deepEqual(preview.reserves.player, { before: 6, after: 6 });
+}
+
+{
+  // Shrinking the enemy card hands the lane over; drains and initiative show up too.
+  const snapshot = structuredClone(board);
+  const preview = previewSpellEffects(board, {
+    caster: "player",
+    cardAdjustments: [{ owner: "enemy", cardId: "e-0", numberDelta: -4 }],
+    reserveDrains: [{ side: "enemy", amount: 1 }],
+    handAdjustments: [{ side: "player", cardId: "p-1", numberDelta: 3 }],
+    initiative: "player",
+  });
+
+  assert.deepEqual(preview.lanes[0]!.winner, { before: "enemy", after: "player" });
+  assert.equal(preview.lanes[0]!.flips, true);
+  assert.deepEqual(preview.lanes[0]!.values, {
+    player: { before: 3, after: 3 },
+    enemy: { before: 5, after: 1 },
+  });
+  assert.deepEqual(preview.reserves, { player: { before: 6, after: 9 }, enemy: { before: 2, after: 1 } });
+  assert.deepEqual(preview.initiative, { before: "enemy", after: "player" });
+
+  // The real board is left alone.
+  assert.deepEqual(board, snapshot);
+}
+
+console.log("spell preview test passed");
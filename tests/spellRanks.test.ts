@@ -0,0 +1,203 @@
+import assert from "node:assert/strict";
+
+import type { Card } from "../src/game/types.js";
+import { chooseCpuSpellResponse } from "../src/game/ai/grimoireCpu.js";
+import {
+  GRIMOIRE_SPELL_REQUIREMENTS,
+  countFighterSymbols,
+  createEmptySymbolMap,
+  getSpellRank,
+  symbolsForSpellRank,
+  type GrimoireSymbols,
+} from "../src/game/grimoire.js";
+import {
+  createSpellStackEntry,
+  normalizeSpellStackEntry,
+  resolvePendingSpell,
+  type SpellEffectPayload,
+} from "../src/game/spellEngine.js";
+import {
+  getSpellAtRank,
+  getSpellById,
+  getSpellForGrimoire,
+  getSpellTargetStages,
+  type SpellDefinition,
+  type SpellTargetInstance,
+} from "../src/game/spells.js";
+import { compileSpellSpec, validateSpellSpec } from "../src/game/spellSpec.js";
+import { SPELL_SPECS } from "../src/game/spellData.js";
+import { validateSpellDeclaration, type SpellValidationContext } from "../src/game/spellValidation.js";
+import { makeCard, makeFighter } from "./helpers/fixtures.js";
+
+const symbols = (partial: Partial<GrimoireSymbols>): GrimoireSymbols => ({ ...createEmptySymbolMap(), ...partial });
+
+const spell = (id: string): SpellDefinition => {
+  const definition = getSpellById(id);
+  assert.ok(definition, `${id} should be registered`);
+  return definition;
+};
+
+const boardTarget = (id: string, lane: number, value: number, stageIndex: number): SpellTargetInstance => ({
+  type: "card",
+  cardId: id,
+  owner: "enemy",
+  cardName: `${value}`,
+  location: "board",
+  lane,
+  stageIndex,
+  cardValue: value,
+});
+
+{
+  // Every two symbols past the requirement is a rank, up to 3; missing ones count first.
+  const fireball = GRIMOIRE_SPELL_REQUIREMENTS.fireball;
+  assert.equal(getSpellRank(symbols({ fire: 2 }), fireball), 0);
+  assert.equal(getSpellRank(symbols({ fire: 3 }), fireball), 1);
+  assert.equal(getSpellRank(symbols({ fire: 5 }), fireball), 2);
+  assert.equal(getSpellRank(symbols({ fire: 9 }), fireball), 3);
+  assert.equal(getSpellRank(symbols({ fire: 9 }), fireball, 2), 2);
+  assert.equal(getSpellRank(symbols({ fire: 3, moon: 3 }), GRIMOIRE_SPELL_REQUIREMENTS.kindle), 2);
+
+  assert.equal(symbolsForSpellRank(symbols({ fire: 6 }), fireball, 3), 1);
+  assert.equal(symbolsForSpellRank(symbols({ fire: 1 }), fireball, 2), 4);
+  assert.equal(symbolsForSpellRank(symbols({ fire: 4, moon: 1 }), GRIMOIRE_SPELL_REQUIREMENTS.kindle, 2), 1);
+
+  // A deck holds one arcana card per symbol, wherever those cards are now; fillers hold none.
+  const filler: Card = { ...makeCard("d2", 3), tags: ["grimoireFiller"] };
+  const fighter = makeFighter("cpu", [makeCard("h", 1, "fire")], [makeCard("d1", 2, "fire"), filler, makeCard("d3", 4, "eye")]);
+  assert.deepEqual(countFighterSymbols(fighter), symbols({ fire: 2, eye: 1 }));
+}
+
+{
+  // Higher ranks hit harder, cost less and add a target stage.
+  const base = spell("fireball");
+  const rank3 = getSpellForGrimoire(base, symbols({ fire: 7 }));
+  assert.equal(base.rank, 1);
+  assert.equal(rank3.rank, 3);
+  assert.equal(rank3.cost, 1);
+  assert.equal(getSpellTargetStages(base.target).length, 2);
+  assert.equal(getSpellTargetStages(rank3.target).length, 3);
+  assert.equal(getSpellAtRank(base, 9), rank3);
+  assert.equal(getSpellAtRank(rank3, 1), base);
+  assert.equal(getSpellForGrimoire(spell("timeTwist"), symbols({ eye: 9 })).rank, undefined);
+
+  const resolve = (definition: SpellDefinition, targets: SpellTargetInstance[]) => {
+    const result = resolvePendingSpell({
+      descriptor: { side: "player", spell: definition, targets, currentStage: targets.length, spentMana: definition.cost },
+      caster: makeFighter("p", []),
+      opponent: makeFighter("e", []),
+      phase: "roundEnd",
+      runtimeState: {},
+    });
+    assert.equal(result.outcome, "success");
+    return result.outcome === "success" ? result.payload : null;
+  };
+  const first = boardTarget("e-0", 0, 6, 0);
+  assert.deepEqual(resolve(getSpellAtRank(base, 2), [first])?.cardAdjustments, [
+    { owner: "enemy", cardId: "e-0", numberDelta: -3 },
+  ]);
+  assert.deepEqual(resolve(rank3, [first, { type: "none", stageIndex: 1 }, boardTarget("e-1", 1, 4, 2)])?.cardAdjustments, [
+    { owner: "enemy", cardId: "e-0", numberDelta: -3 },
+    { owner: "enemy", cardId: "e-1", numberDelta: -1 },
+  ]);
+}
+
+{
+  // Specs check their ranks, and rank effects may pick from the stages ranks add.
+  const spec = (ranks: unknown) => ({
+    id: "spark",
+    name: "Spark",
+    description: "",
+    cost: 2,
+    requirements: [],
+    targets: [{ type: "card", ownership: "enemy" }],
+    effects: [{ type: "adjustCard", target: 0, amount: { rank: [1, 2] } }],
+    ranks,
+  });
+  assert.deepEqual(
+    validateSpellSpec(spec([{ description: "Hits two.", targets: [{ type: "card", ownership: "enemy" }], effects: [{ type: "adjustCard", target: 1, amount: -1 }] }])),
+    [],
+  );
+  assert.deepEqual(validateSpellSpec(spec([{ description: "", cost: -1, effects: [{ type: "adjustCard", target: 1, amount: -1 }] }])), [
+    "spark.ranks[0].description: expected a non-empty string.",
+    "spark.ranks[0].cost: expected a number of at least 0.",
+    'spark.ranks[0].effects[0].target: expected a target index below 1 or "opponentReserve".',
+  ]);
+  assert.deepEqual(validateSpellSpec(spec([{ description: "a" }, { description: "b" }, { description: "c" }])), [
+    "spark.ranks: expected a list of up to 2 ranks.",
+  ]);
+}
+
+{
+  // The stack carries the rank, and a peer's rank is checked against what the spell has.
+  const rank2 = getSpellAtRank(spell("fireball"), 2);
+  const target = boardTarget("e-0", 0, 6, 0);
+  const payload: SpellEffectPayload = {
+    caster: "player",
+    cardAdjustments: [{ owner: "enemy", cardId: "e-0", numberDelta: -3 }],
+  };
+  const entry = createSpellStackEntry({ side: "player", spell: rank2, targets: [target], spentMana: 2 }, payload);
+  assert.equal(entry.rank, 2);
+  assert.equal(normalizeSpellStackEntry(JSON.parse(JSON.stringify(entry)))?.rank, 2);
+
+  const context: SpellValidationContext = {
+    fighters: { player: makeFighter("p", []), enemy: makeFighter("e", []) },
+    assign: { player: [null], enemy: [makeCard("e-0", 6)] },
+    wheelSections: [],
+    activeWheels: [true],
+    phase: "roundEnd",
+    mana: 5,
+    stackOpen: false,
+    canReact: false,
+    seed: 1,
+  };
+  const reasonOf = (overrides: Partial<SpellValidationContext>, rank = 2) => {
+    const result = validateSpellDeclaration({ ...entry, rank }, { ...context, ...overrides });
+    return result.ok ? null : result.reason;
+  };
+  assert.equal(reasonOf({}), null);
+  assert.equal(reasonOf({ profileSymbols: symbols({ fire: 5 }) }), null);
+  assert.equal(reasonOf({ profileSymbols: symbols({ fire: 3 }) }), "their grimoire can't cast Fireball at rank 2");
+  assert.equal(reasonOf({}, 4), "Fireball has no rank 4");
+  // Damage of 2 isn't what rank 2 does.
+  assert.match(reasonOf({}, 1) ?? "", /don't match/);
+}
+
+{
+  // The CPU weighs its rank: a rank 3 Fireball also scorches a second card.
+  const enemyBoard = [makeCard("p-0", 8), makeCard("p-1", 5)];
+  const allyBoard = [makeCard("e-0", 4), makeCard("e-1", 4)];
+  const decide = (rank: number) =>
+    chooseCpuSpellResponse({
+      casterSide: "enemy",
+      caster: makeFighter("e", []),
+      opponent: makeFighter("p", []),
+      board: { player: enemyBoard, enemy: allyBoard },
+      reserveSums: { player: 0, enemy: 0 },
+      initiative: "player",
+      availableSpells: [{ spell: getSpellAtRank(spell("fireball"), rank), cost: rank >= 3 ? 1 : 2 }],
+    });
+  assert.deepEqual(decide(1)?.targets.map((target) => target.type), ["card"]);
+  const ranked = decide(3);
+  assert.deepEqual(ranked?.targets.map((target) => target.type), ["card", "none", "card"]);
+  assert.equal(ranked?.spell.rank, 3);
+
+  // What a rank does is read from the spell's data: retune rank 2 to splash and the CPU follows.
+  const fireballSpec = SPELL_SPECS.find((entry) => entry.id === "fireball")!;
+  const retuned = compileSpellSpec({
+    ...fireballSpec,
+    ranks: [fireballSpec.ranks![1]!],
+  });
+  const retunedDecision = chooseCpuSpellResponse({
+    casterSide: "enemy",
+    caster: makeFighter("e", []),
+    opponent: makeFighter("p", []),
+    board: { player: enemyBoard, enemy: allyBoard },
+    reserveSums: { player: 0, enemy: 0 },
+    initiative: "player",
+    availableSpells: [{ spell: getSpellAtRank(retuned, 2), cost: 2 }],
+  });
+  assert.deepEqual(retunedDecision?.targets.map((target) => target.type), ["card", "none", "card"]);
+}
+
+console.log("spell ranks test passed");
@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+
+import { SPELL_SPECS } from "../src/game/spellData.js";
+import { compileSpellSpec, loadSpellSpecs, validateSpellSpec, type SpellSpec } from "../src/game/spellSpec.js";
+import { getSpellById, listSpellIds, type SpellRuntimeState, type SpellTargetInstance } from "../src/game/spells.js";
+import { makeHandFighter } from "./helpers/fixtures.js";
+
+const card = (cardId: string, patch: Partial<Extract<SpellTargetInstance, { type: "card" }>> = {}): SpellTargetInstance => ({
+  type: "card",
+  cardId,
+  cardName: cardId,
+  owner: "ally",
+  location: "board",
+  ...patch,
+});
+
+const cast = (id: string, targets: SpellTargetInstance[], opponentHand: number[] = []) => {
+  const spell = getSpellById(id);
+  assert.ok(spell, `${id} should be registered`);
+  const state: SpellRuntimeState = {};
+  spell.resolver({
+    caster: makeHandFighter("Hero", []),
+    opponent: makeHandFighter("Foe", opponentHand),
+    phase: "roundEnd",
+    targets,
+    target: targets[targets.length - 1],
+    state,
+  });
+  return state;
+};
+
+{
+  // Every built-in spell is data that validates and registers under its id.
+  assert.equal(SPELL_SPECS.length, 22);
+  SPELL_SPECS.forEach((spec) => assert.deepEqual(validateSpellSpec(spec), [], spec.id));
+  assert.deepEqual(listSpellIds(), SPELL_SPECS.map((spec) => spec.id));
+  assert.equal(getSpellById("timeTwist")?.target.type, "card");
+  assert.equal(getSpellById("fireball")?.target.type, "sequence");
+}
+
+{
+  // Compiled resolvers fill the same runtime state the hand-written ones did.
+  const fireball = cast("fireball", [card("foe", { owner: "enemy" }), card("ember", { arcana: "fire", cardValue: 3 })]);
+  assert.deepEqual(fireball.cardAdjustments, [{ target: card("foe", { owner: "enemy" }), numberDelta: -5 }]);
+  assert.deepEqual(fireball.log, ["Hero scorches foe with a Fireball."]);
+
+  const kindle = cast("kindle", [card("a", { location: "hand" }), { type: "none" }]);
+  assert.equal(kindle.cardAdjustments, undefined);
+  assert.equal(kindle.handAdjustments?.[0]?.numberDelta, 2);
+
+  const shard = cast("iceShard", [card("foe", { owner: "enemy" }), card("edge", { arcana: "blade" })]);
+  assert.deepEqual(shard.statusEffects, [{ kind: "chill", target: card("foe", { owner: "enemy" }), stacks: 2, rounds: 2 }]);
+
+  const strike = cast("suddenStrike", [card("a", { arcana: "blade" })]);
+  assert.equal(strike.initiativeChallenges?.[0]?.winOnTie, true);
+
+  const twist = cast("timeTwist", [card("r", { location: "hand", arcana: "eye" })]);
+  assert.deepEqual(twist.statusEffects, [{ kind: "momentum", side: "caster" }]);
+  assert.equal(twist.drawCards, 1);
+  assert.equal(twist.handDiscards?.length, 1);
+
+  const offering = cast("offering", [card("a"), card("fuel", { location: "hand", arcana: "fire", cardValue: 4 })]);
+  assert.equal(offering.cardAdjustments?.[0]?.numberDelta, 8);
+
+  // A non-🌒 card can't phase with a reserve, and does nothing at all.
+  assert.deepEqual(cast("phantom", [card("a"), card("b", { location: "hand" })]), {});
+  assert.equal(cast("phantom", [card("a", { arcana: "moon" }), card("b", { location: "hand" })]).positionSwaps?.length, 1);
+}
+
+{
+  // Crosscut compares against the opponent's first reserve card, looked up when the pick has no value.
+  const hit = cast("crosscut", [card("r", { location: "hand", cardValue: 9 }), card("edge", { arcana: "blade" })], [4]);
+  assert.deepEqual(hit.reserveDrains?.map((drain) => drain.amount), [5]);
+  assert.equal(hit.cardAdjustments?.[0]?.numberDelta, 5);
+  assert.match(hit.log?.[0] ?? "", /revealing a difference of 5/);
+
+  const empty = cast("crosscut", [card("r", { location: "hand", cardValue: 9 })]);
+  assert.equal(empty.reserveDrains, undefined);
+  assert.match(empty.log?.[0] ?? "", /Foe has no reserve to reveal/);
+}
+
+{
+  // The loader reads JSON text, reports broken specs by path and keeps the good ones.
+  const good: SpellSpec = {
+    id: "spark",
+    name: "Spark",
+    description: "Damage a card by 1",
+    cost: 1,
+    requirements: [{ arcana: "fire", symbols: 1 }],
+    targets: [{ type: "card", ownership: "enemy", location: "board" }],
+    effects: [{ type: "adjustCard", target: 0, amount: -1 }],
+  };
+  const broken = {
+    ...good,
+    id: "fizzle",
+    allowedPhases: ["lunch"],
+    effects: [
+      { type: "adjustCard", target: 3, amount: { var: "power" } },
+      { type: "log", text: "{caster} hits {1}" },
+      { type: "teleport" },
+    ],
+  };
+  const { spells, errors } = loadSpellSpecs(JSON.stringify([good, broken, good]));
+  assert.deepEqual(spells.map((spell) => spell.id), ["spark"]);
+  assert.deepEqual(errors, [
+    "fizzle.allowedPhases: expected a list of phases.",
+    'fizzle.effects[0].target: expected a target index below 1 or "opponentReserve".',
+    'fizzle.effects[0].amount.var: "power" isn\'t defined under let.',
+    "fizzle.effects[1].text: unknown placeholder {1}.",
+    "fizzle.effects[2]: unknown effect.",
+    "spark: duplicate spell id.",
+  ]);
+  assert.deepEqual(loadSpellSpecs("{").spells, []);
+  assert.equal(loadSpellSpecs({}).errors[0], "Spell data must be a list of spells.");
+
+  const state: SpellRuntimeState = {};
+  compileSpellSpec(good).resolver({
+    caster: makeHandFighter("Hero", []),
+    opponent: makeHandFighter("Foe", []),
+    phase: "choose",
+    targets: [card("x", { owner: "enemy" })],
+    state,
+  });
+  assert.equal(state.cardAdjustments?.[0]?.numberDelta, -1);
+}
+
+console.log("spell spec test passed");
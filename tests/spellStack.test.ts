@@ -0,0 +1,146 @@
+import assert from "node:assert/strict";
+
+import { chooseCpuSpellResponse, type CpuSpellContext } from "../src/game/ai/grimoireCpu.js";
+import {
+  createSpellStackEntry,
+  normalizeSpellStackEntry,
+  resolvePendingSpell,
+  resolveSpellStack,
+  type SpellEffectPayload,
+  type SpellStackEntry,
+} from "../src/game/spellEngine.js";
+import { getSpellById, type SpellDefinition } from "../src/game/spells.js";
+import { validateSpellSpec } from "../src/game/spellSpec.js";
+import {
+  dampenSpellEffectPayload,
+  redirectSpellEffectPayload,
+} from "../src/features/threeWheel/utils/spellEffectTransforms.js";
+import { makeSpellFighter } from "./helpers/fixtures.js";
+
+const spell = (id: string): SpellDefinition => {
+  const definition = getSpellById(id);
+  assert.ok(definition, `${id} should be registered`);
+  return definition;
+};
+
+const fireball: SpellEffectPayload = {
+  caster: "player",
+  cardAdjustments: [{ owner: "enemy", cardId: "e-1", numberDelta: -5 }],
+  reserveDrains: [{ side: "enemy", amount: 3 }],
+  drawCards: [{ side: "player", count: 1 }],
+};
+
+const entry = (id: string, side: SpellStackEntry["side"], spellName: string, payload: SpellEffectPayload, reaction?: SpellStackEntry["reaction"]): SpellStackEntry => ({
+  id,
+  side,
+  spellId: spellName.toLowerCase(),
+  spellName,
+  payload,
+  targets: [],
+  spentMana: 0,
+  ...(reaction ? { reaction } : {}),
+});
+
+const counter = (side: SpellStackEntry["side"], id = "c") => entry(id, side, "Counterspell", { caster: side }, "counter");
+
+{
+  // Reduce halves toward zero and drops what's left at nothing; redirect swaps who drains and draws.
+  assert.deepEqual(dampenSpellEffectPayload(fireball), {
+    caster: "player",
+    cardAdjustments: [{ owner: "enemy", cardId: "e-1", numberDelta: -2 }],
+    reserveDrains: [{ side: "enemy", amount: 1 }],
+  });
+  assert.deepEqual(redirectSpellEffectPayload({ ...fireball, initiative: "player" }), {
+    ...fireball,
+    reserveDrains: [{ side: "player", amount: 3 }],
+    drawCards: [{ side: "enemy", count: 1 }],
+    initiative: "enemy",
+  });
+}
+
+{
+  // The stack resolves last in, first out; a countered counter lets the spell through.
+  const spellEntry = entry("s", "player", "Fireball", fireball);
+  assert.deepEqual(resolveSpellStack([spellEntry]), [fireball]);
+
+  const countered = resolveSpellStack([spellEntry, counter("enemy")]);
+  assert.deepEqual(countered, [{ caster: "enemy" }, { caster: "player", logMessages: ["Fireball fizzles."] }]);
+
+  const recountered = resolveSpellStack([spellEntry, counter("enemy", "c1"), counter("player", "c2")]);
+  assert.deepEqual(recountered.map((payload) => payload.caster), ["player", "enemy", "player"]);
+  assert.equal(recountered[1]!.logMessages?.[0], "Counterspell fizzles.");
+  assert.deepEqual(recountered[2], fireball);
+
+  const dampened = resolveSpellStack([spellEntry, entry("d", "enemy", "Dampen", { caster: "enemy" }, "reduce")]);
+  assert.deepEqual(dampened[1], dampenSpellEffectPayload(fireball));
+}
+
+{
+  // Stack entries carry the spell's reaction; entries from a peer must match their caster.
+  const payload = resolvePendingSpell({
+    descriptor: { side: "enemy", spell: spell("counterspell"), targets: [], currentStage: 0, spentMana: 4 },
+    caster: makeSpellFighter("e"),
+    opponent: makeSpellFighter("p"),
+    phase: "choose",
+    runtimeState: {},
+  });
+  assert.equal(payload.outcome, "success");
+  const created = createSpellStackEntry(
+    { side: "enemy", spell: spell("counterspell"), targets: [], spentMana: 4 },
+    { caster: "enemy" },
+  );
+  assert.equal(created.reaction, "counter");
+  assert.deepEqual(normalizeSpellStackEntry(JSON.parse(JSON.stringify(created))), created);
+
+  assert.equal(normalizeSpellStackEntry({ ...created, payload: { caster: "player" } }), null);
+  assert.equal(normalizeSpellStackEntry({ ...created, side: "both" }), null);
+  assert.equal(normalizeSpellStackEntry({ ...created, reaction: "explode" })?.reaction, undefined);
+
+  assert.deepEqual(
+    validateSpellSpec({
+      id: "bad",
+      name: "Bad",
+      description: "",
+      cost: 1,
+      requirements: [],
+      reaction: "ignore",
+      targets: [{ type: "none" }],
+      effects: [{ type: "log", text: "{caster} shrugs." }],
+    }),
+    ['bad.reaction: expected "counter", "reduce" or "redirect".'],
+  );
+}
+
+{
+  // The CPU counters spells worth the mana, ignores small ones and saves its own spell from a counter.
+  const context = (spellStack: SpellStackEntry[]): CpuSpellContext => ({
+    casterSide: "enemy",
+    caster: makeSpellFighter("e"),
+    opponent: makeSpellFighter("p"),
+    board: { player: [], enemy: [] },
+    reserveSums: { player: 4, enemy: 4 },
+    initiative: "player",
+    availableSpells: [
+      { spell: spell("counterspell"), cost: 4 },
+      { spell: spell("dampen"), cost: 2 },
+      { spell: spell("iceShard"), cost: 1 },
+    ],
+    spellStack,
+  });
+
+  const big = chooseCpuSpellResponse(context([entry("s", "player", "Fireball", fireball)]));
+  assert.equal(big?.spell.id, "counterspell");
+  assert.deepEqual(big?.targets, []);
+
+  const small = entry("s", "player", "Spark", { caster: "player", reserveDrains: [{ side: "enemy", amount: 1 }] });
+  assert.equal(chooseCpuSpellResponse(context([small])), null);
+
+  const own = entry("s", "enemy", "Fireball", { ...fireball, caster: "enemy", cardAdjustments: [], reserveDrains: [{ side: "player", amount: 4 }] });
+  assert.equal(chooseCpuSpellResponse(context([own, counter("player")]))?.spell.id, "counterspell");
+  assert.equal(chooseCpuSpellResponse(context([own])), null);
+
+  // Outside a reaction window, reactions are never picked.
+  assert.notEqual(chooseCpuSpellResponse(context([]))?.spell.reaction, "counter");
+}
+
+console.log("spell stack test passed");
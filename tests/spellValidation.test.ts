@@ -0,0 +1,181 @@
+import assert from "node:assert/strict";
+
+import type { Section } from "../src/game/types.js";
+import {
+  createSpellRng,
+  createSpellStackEntry,
+  resolvePendingSpell,
+  type SpellEffectPayload,
+  type SpellStackEntry,
+} from "../src/game/spellEngine.js";
+import { getSpellById, type SpellDefinition, type SpellTargetInstance } from "../src/game/spells.js";
+import { normalizeMatchGrimoire } from "../src/game/grimoire.js";
+import { validateSpellDeclaration, type SpellValidationContext } from "../src/game/spellValidation.js";
+import { makeCard, makeFighter } from "./helpers/fixtures.js";
+
+const spell = (id: string): SpellDefinition => {
+  const definition = getSpellById(id);
+  assert.ok(definition, `${id} should be registered`);
+  return definition;
+};
+
+const wheel: Section[] = [
+  { id: "Strongest", color: "#f43f5e", start: 1, end: 8 },
+  { id: "Weakest", color: "#0ea5e9", start: 9, end: 15 },
+];
+
+const ember = makeCard("p-ember", 3, "fire");
+const enemyCard = makeCard("e-0", 6, "moon");
+const player = makeFighter("p", [ember]);
+const enemy = makeFighter("e", [makeCard("e-1", 2, "blade")]);
+
+const context: SpellValidationContext = {
+  fighters: { player, enemy },
+  assign: { player: [null], enemy: [enemyCard] },
+  wheelSections: [wheel],
+  activeWheels: [true],
+  phase: "roundEnd",
+  mana: 5,
+  stackOpen: false,
+  canReact: false,
+  seed: 7,
+};
+
+const enemyTarget: SpellTargetInstance = {
+  type: "card",
+  cardId: "e-0",
+  owner: "enemy",
+  cardName: "6",
+  arcana: "moon",
+  location: "board",
+  lane: 0,
+  stageIndex: 0,
+  cardValue: 6,
+};
+const emberTarget: SpellTargetInstance = {
+  type: "card",
+  cardId: "p-ember",
+  owner: "ally",
+  cardName: "3",
+  arcana: "fire",
+  location: "hand",
+  lane: null,
+  stageIndex: 1,
+  cardValue: 3,
+};
+
+/** A declaration the way the caster's client would build it. */
+const declare = (id: string, targets: SpellTargetInstance[], spentMana: number): SpellStackEntry => {
+  const definition = spell(id);
+  const result = resolvePendingSpell({
+    descriptor: { side: "player", spell: definition, targets, currentStage: targets.length, spentMana },
+    caster: player,
+    opponent: enemy,
+    phase: "roundEnd",
+    runtimeState: {},
+    rng: createSpellRng(context.seed, "player", id),
+  });
+  assert.equal(result.outcome, "success");
+  const payload: SpellEffectPayload = (result.outcome === "success" && result.payload) || { caster: "player" };
+  return createSpellStackEntry({ side: "player", spell: definition, targets, spentMana }, payload);
+};
+
+const reasonOf = (entry: SpellStackEntry, overrides: Partial<SpellValidationContext> = {}) => {
+  const result = validateSpellDeclaration(entry, { ...context, ...overrides });
+  return result.ok ? null : result.reason;
+};
+
+{
+  // A legal cast passes and hands back the same effects.
+  const fireball = declare("fireball", [enemyTarget, emberTarget], 2);
+  const result = validateSpellDeclaration(fireball, context);
+  assert.ok(result.ok);
+  assert.deepEqual(result.payload?.cardAdjustments, [{ owner: "enemy", cardId: "e-0", numberDelta: -5 }]);
+}
+
+{
+  // Spells, phases, mana and the grimoire are checked before any target.
+  const fireball = declare("fireball", [enemyTarget], 2);
+  assert.equal(reasonOf({ ...fireball, spellId: "wish" }), "unknown spell wish");
+  assert.match(reasonOf(fireball, { knownSpellIds: ["iceShard"] }) ?? "", /isn't one of their spells/);
+  assert.match(reasonOf(fireball, { grimoireSymbols: { fire: 0, blade: 2, eye: 0, moon: 1, serpent: 0 } }) ?? "", /grimoire/);
+  assert.match(reasonOf(fireball, { phase: "choose" }) ?? "", /can't be cast now/);
+  assert.match(reasonOf(fireball, { stackOpen: true }) ?? "", /can't be cast now/);
+  assert.match(reasonOf(fireball, { mana: 1 }) ?? "", /not enough mana/);
+  assert.match(reasonOf({ ...fireball, spentMana: 0 }) ?? "", /costs 2, not 0/);
+  assert.match(reasonOf(declare("counterspell", [], 4)) ?? "", /nothing for Counterspell to answer/);
+}
+
+{
+  // Targets are rebuilt from the board: owner, location, arcana and the card itself.
+  const ownCard = { ...enemyTarget, owner: "ally" as const };
+  assert.match(reasonOf({ ...declare("fireball", [enemyTarget], 2), targets: [ownCard] }) ?? "", /wrong side/);
+
+  const inHand = { ...enemyTarget, location: "hand" as const, lane: null };
+  assert.match(reasonOf({ ...declare("fireball", [enemyTarget], 2), targets: [inHand] }) ?? "", /on the board/);
+
+  const moved = { ...enemyTarget, lane: 1 };
+  assert.match(reasonOf({ ...declare("fireball", [enemyTarget], 2), targets: [moved] }) ?? "", /isn't where the caster says/);
+
+  const waterlogged = { ...player, hand: [{ ...ember, arcana: "moon" as const }] };
+  const boosted = declare("fireball", [enemyTarget, emberTarget], 2);
+  assert.match(reasonOf(boosted, { fighters: { player: waterlogged, enemy } }) ?? "", /wrong arcana/);
+}
+
+{
+  // A claimed value the card doesn't have changes the effects, and the effects must match.
+  const inflated = declare("fireball", [enemyTarget, { ...emberTarget, cardValue: 9 }], 2);
+  assert.match(reasonOf(inflated) ?? "", /don't match/);
+
+  const fireball = declare("fireball", [enemyTarget], 2);
+  const tampered: SpellEffectPayload = { ...fireball.payload, reserveDrains: [{ side: "enemy", amount: 9 }] };
+  assert.match(reasonOf({ ...fireball, payload: tampered }) ?? "", /don't match/);
+}
+
+{
+  // A card in a lane this client can't see yet is taken at its owner's word for the lane,
+  // but its arcana and value come from the card in their hand.
+  const hiddenLanes = { player: [true], enemy: [false] };
+  const hiddenEmber: SpellTargetInstance = { ...emberTarget, location: "board", lane: 0 };
+  const fireball = declare("fireball", [enemyTarget, hiddenEmber], 2);
+  assert.equal(reasonOf(fireball, { hiddenLanes }), null);
+  assert.match(reasonOf(fireball) ?? "", /isn't where the caster says/);
+
+  const inflated = declare("fireball", [enemyTarget, { ...hiddenEmber, cardValue: 9 }], 2);
+  assert.match(reasonOf(inflated, { hiddenLanes }) ?? "", /don't match/);
+  const waterlogged = { ...player, hand: [{ ...ember, arcana: "moon" as const }] };
+  assert.match(reasonOf(fireball, { hiddenLanes, fighters: { player: waterlogged, enemy } }) ?? "", /wrong arcana/);
+  assert.match(reasonOf(fireball, { hiddenLanes, fighters: { player: { ...player, hand: [] }, enemy } }) ?? "", /isn't where/);
+}
+
+{
+  // Section rewrites roll from the match seed, so the caster can't pick their own rolls.
+  const section: SpellTargetInstance = { type: "section", wheelId: "0", sectionIndex: 1, condition: "Weakest", stageIndex: 0 };
+  const transmute = declare("transmute", [section], 3);
+  const result = validateSpellDeclaration(transmute, context);
+  assert.ok(result.ok);
+  assert.deepEqual(result.payload?.wheelSectionEdits, transmute.payload.wheelSectionEdits);
+
+  const edit = transmute.payload.wheelSectionEdits?.[0];
+  assert.equal(edit?.kind, "recolor");
+  const unchanged = { ...transmute.payload, wheelSectionEdits: [{ ...edit!, id: "Weakest" }] } as SpellEffectPayload;
+  assert.match(reasonOf({ ...transmute, payload: unchanged }) ?? "", /don't match/);
+  const rerolled = { ...transmute.payload, wheelSectionEdits: [{ ...edit!, roll: 0.5 }] } as SpellEffectPayload;
+  assert.match(reasonOf({ ...transmute, payload: rerolled }) ?? "", /don't match/);
+  assert.match(reasonOf(transmute, { seed: 8 }) ?? "", /don't match/);
+}
+
+{
+  // A peer's grimoire keeps only the spells its symbols unlock, and its spells gate theirs.
+  const grimoire = normalizeMatchGrimoire({ spellIds: ["fireball", "hex", "wish"], symbols: { fire: 3, serpent: 1 } });
+  assert.deepEqual(grimoire.spellIds, ["fireball"]);
+  assert.equal(grimoire.symbols.fire, 3);
+  assert.deepEqual(normalizeMatchGrimoire("nonsense").spellIds, []);
+
+  const fireball = declare("fireball", [enemyTarget], 2);
+  assert.equal(reasonOf(fireball, { knownSpellIds: grimoire.spellIds, profileSymbols: grimoire.symbols }), null);
+  const hex = normalizeMatchGrimoire({ spellIds: ["hex"], symbols: { serpent: 3 } });
+  assert.match(reasonOf(fireball, { knownSpellIds: hex.spellIds }) ?? "", /isn't one of their spells/);
+}
+
+console.log("spell validation test passed");
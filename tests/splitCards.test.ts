@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+
+import type { Card, Fighter, Section } from "../src/game/types.js";
+import { createSeededRng } from "../src/game/math.js";
+import { chooseBestMove, type GameState } from "../src/game/ai/DecisionEngine.js";
+import {
+  analyzeRound,
+  cardWheelValue,
+  createMatchState,
+  matchReducer,
+} from "../src/game/matchEngine.js";
+import { makeCard, makeDeckFighter, makeMatchConfig } from "./helpers/fixtures.js";
+
+const split: Card = { id: "s-1", name: "1|7", type: "split", leftValue: 1, rightValue: 7, tags: [] };
+
+/** The usual dealt fighter with `extra` cards at the front of the hand. */
+const splitFighter = (prefix: string, extra: Card[] = []): Fighter => {
+  const dealt = makeDeckFighter(prefix);
+  return { ...dealt, hand: [...extra, ...dealt.hand].slice(0, dealt.hand.length) };
+};
+
+const config = makeMatchConfig({ seed: 77 });
+
+{
+  // The chosen face drives the wheel value; unchosen splits default to the left face.
+  assert.equal(cardWheelValue(split), 1);
+  assert.equal(cardWheelValue(split, { [split.id]: "right" }), 7);
+}
+
+{
+  // Assigning records a face, chooseFace flips it, and only split cards accept a face.
+  const start = createMatchState(config, { player: splitFighter("p", [split]), enemy: splitFighter("e") });
+  const assigned = matchReducer(start, { type: "assign", side: "player", lane: 0, cardId: split.id, face: "right" });
+  assert.equal(assigned.state.splitChoices[split.id], "right");
+
+  const flipped = matchReducer(assigned.state, { type: "chooseFace", side: "player", cardId: split.id, face: "left" });
+  assert.equal(flipped.state.splitChoices[split.id], "left");
+
+  const normalId = start.player.hand.find((card) => card.id !== split.id)!.id;
+  const withNormal = matchReducer(assigned.state, { type: "assign", side: "player", lane: 1, cardId: normalId });
+  const rejected = matchReducer(withNormal.state, { type: "chooseFace", side: "player", cardId: normalId, face: "right" });
+  assert.equal(rejected.events[0]?.type, "rejected");
+  assert.equal(rejected.state, withNormal.state);
+}
+
+{
+  // Wheel steps follow the chosen face.
+  const sections: Section[][] = [[], [], []];
+  const played = [{ p: split, e: null }, { p: null, e: null }, { p: null, e: null }];
+  const base = {
+    played,
+    wheelSections: sections,
+    tokens: [0, 0, 0] as [number, number, number],
+    reserves: { player: 0, enemy: 0 },
+    initiative: "player" as const,
+    localLegacySide: "player" as const,
+  };
+  assert.equal(analyzeRound({ ...base, splitChoices: { [split.id]: "left" } }).outcomes[0].steps, 1);
+  assert.equal(analyzeRound({ ...base, splitChoices: { [split.id]: "right" } }).outcomes[0].steps, 7);
+}
+
+{
+  // The CPU picks a face whenever it plays a split card.
+  const state: GameState = {
+    wheels: [0, 1, 2].map(() => ({ aiCard: null, playerCard: null })),
+    aiHand: [split],
+    playerHand: [makeCard("p-1", 3)],
+    tokens: [0, 0, 0],
+    wheelSections: [[], [], []],
+    initiative: "enemy",
+  };
+  const move = chooseBestMove(state, undefined, 20, createSeededRng(4));
+  assert.ok(move);
+  assert.equal(move.card.id, split.id);
+  assert.ok(move.face === "left" || move.face === "right");
+}
+
+console.log("splitCards test passed");
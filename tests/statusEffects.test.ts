@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+
+import { createMatchState, matchReducer, type MatchState } from "../src/game/matchEngine.js";
+import {
+  applyStatusEffect,
+  chillStacksByLane,
+  createStatusEffect,
+  fireStatusTrigger,
+  normalizeStatusEffects,
+} from "../src/game/statusEffects.js";
+import { makeSpellFighter, makeMatchConfig } from "./helpers/fixtures.js";
+
+const chill = (lane: number, rounds: number) =>
+  createStatusEffect("chill", "player", { type: "lane", side: "enemy", lane }, {
+    stacks: rounds,
+    duration: { unit: "rounds", remaining: rounds },
+  });
+
+{
+  // Each kind lands by its own stacking rule.
+  const stacked = applyStatusEffect([chill(0, 1)], chill(0, 2));
+  assert.equal(stacked.length, 1);
+  assert.equal(stacked[0]!.stacks, 3);
+  assert.deepEqual(stacked[0]!.duration, { unit: "rounds", remaining: 3 });
+  assert.equal(applyStatusEffect(stacked, chill(1, 1)).length, 2);
+
+  const momentum = createStatusEffect("momentum", "player", { type: "fighter", side: "player" });
+  const refreshed = applyStatusEffect([{ ...momentum, stacks: 2 }], momentum);
+  assert.equal(refreshed.length, 1);
+  assert.equal(refreshed[0]!.stacks, 2);
+
+  const omen = (note: string) => createStatusEffect("omen", "enemy", { type: "fighter", side: "enemy" }, { note });
+  assert.equal(applyStatusEffect([omen("One")], omen("Two")).length, 2);
+}
+
+{
+  // Triggers fire before durations tick; round durations only count down at round start.
+  const momentum = createStatusEffect("momentum", "enemy", { type: "fighter", side: "enemy" });
+  const omen = createStatusEffect("omen", "player", { type: "fighter", side: "player" }, { note: "The stars align." });
+  const brief = createStatusEffect("chill", "player", { type: "lane", side: "enemy", lane: 2 }, {
+    duration: { unit: "phase", until: "preResolve" },
+  });
+
+  const pre = fireStatusTrigger([momentum, omen, brief], "preResolve");
+  assert.deepEqual(pre.outcomes, [{ type: "takeInitiative", side: "enemy" }]);
+  assert.equal(pre.effects.length, 2);
+
+  const post = fireStatusTrigger(pre.effects, "postResolve");
+  assert.deepEqual(post.outcomes, [{ type: "holdInitiative", side: "enemy" }]);
+
+  const next = fireStatusTrigger([...post.effects, chill(0, 1)], "roundStart");
+  assert.deepEqual(next.outcomes, [{ type: "log", message: "The stars align." }]);
+  assert.deepEqual(next.effects.map((effect) => [effect.kind, effect.duration]), [["chill", { unit: "rounds", remaining: 0 }]]);
+  assert.deepEqual(chillStacksByLane(next.effects, 3), { player: [0, 0, 0], enemy: [1, 0, 0] });
+}
+
+{
+  // Effects from a peer are checked against their kind; bad entries are dropped.
+  const normalized = normalizeStatusEffects([
+    chill(0, 1),
+    { kind: "chill", owner: "player", target: { type: "fighter", side: "enemy" }, stacks: 1, duration: { unit: "rounds", remaining: 1 } },
+    { kind: "plague", owner: "player", target: { type: "fighter", side: "enemy" }, stacks: 1, duration: { unit: "rounds", remaining: 1 } },
+    { kind: "momentum", owner: "enemy", target: { type: "fighter", side: "enemy" }, stacks: 1, duration: { unit: "rounds", remaining: 99 } },
+  ]);
+  assert.equal(normalized.length, 2);
+  assert.deepEqual(normalized[0], chill(0, 1));
+  assert.deepEqual(normalized[1]!.duration, { unit: "rounds", remaining: 9 });
+  assert.deepEqual(normalizeStatusEffects("nope"), []);
+}
+
+{
+  // In a match, chill holds a lane across the next round and momentum carries initiative over.
+  const config = makeMatchConfig({ seed: 5, winGoal: 50 });
+  let state: MatchState = createMatchState(config, { player: makeSpellFighter("p"), enemy: makeSpellFighter("e") });
+  // As an earlier Ice Shard and Time Twist from the enemy would leave them.
+  state = {
+    ...state,
+    statusEffects: [
+      createStatusEffect("chill", "enemy", { type: "lane", side: "player", lane: 0 }),
+      createStatusEffect("momentum", "enemy", { type: "fighter", side: "enemy" }),
+    ],
+  };
+
+  const blocked = matchReducer(state, { type: "assign", side: "player", lane: 0, cardId: state.player.hand[0]!.id });
+  assert.deepEqual(blocked.events, [{ type: "rejected", action: "assign", reason: "Lane 1 is chilled." }]);
+
+  for (const side of ["player", "enemy"] as const) {
+    const lanes = side === "player" ? [1, 2] : [0, 1, 2];
+    for (const lane of lanes) {
+      state = matchReducer(state, { type: "assign", side, lane, cardId: state[side].hand[0]!.id }).state;
+    }
+  }
+  state = matchReducer(state, { type: "reveal" }).state;
+  assert.equal(state.initiative, "enemy");
+  assert.equal(state.pendingInitiative, "enemy");
+
+  state = matchReducer(state, { type: "nextRound" }).state;
+  assert.equal(state.initiative, "enemy");
+  assert.deepEqual(state.statusEffects.map((effect) => effect.kind), ["chill"]);
+  const stillBlocked = matchReducer(state, { type: "assign", side: "player", lane: 0, cardId: state.player.hand[0]!.id });
+  assert.equal(stillBlocked.events[0]?.type, "rejected");
+
+  state = matchReducer(state, { type: "reveal" }).state;
+  state = matchReducer(state, { type: "nextRound" }).state;
+  assert.deepEqual(state.statusEffects, []);
+  const freed = matchReducer(state, { type: "assign", side: "player", lane: 0, cardId: state.player.hand[0]!.id });
+  assert.equal(freed.events.some((event) => event.type === "rejected"), false);
+}
+
+console.log("status effects test passed");
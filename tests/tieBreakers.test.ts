@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+
+import type { Section } from "../src/game/types.js";
+import {
+  createMatchState,
+  matchReducer,
+  resolveWheelOutcome,
+} from "../src/game/matchEngine.js";
+import { breakTie, normalizeTieBreak } from "../src/game/tieBreakers.js";
+import { makeCard, makeHandFighter, makeMatchConfig } from "./helpers/fixtures.js";
+
+const strongest: Section = { id: "Strongest", color: "#000", start: 1, end: 15 };
+
+// Two 5s land on slice 10, a Strongest tie.
+const even = {
+  wheel: 0,
+  sections: [strongest],
+  startToken: 0,
+  playerValue: 5,
+  enemyValue: 5,
+  playerCard: makeCard("p", 5, "serpent"),
+  enemyCard: makeCard("e", 5, "blade"),
+  reserves: { player: 4, enemy: 9 },
+  initiative: "player" as const,
+};
+
+{
+  // Each tie-break settles an even condition its own way; "none" keeps today's tie.
+  const none = resolveWheelOutcome(even);
+  assert.equal(none.tie, true);
+  assert.equal(none.tieBreak, undefined);
+
+  const initiative = resolveWheelOutcome({ ...even, tieBreak: "initiative" });
+  assert.equal(initiative.winner, "player");
+  assert.equal(initiative.tieBreak, "initiative");
+  assert.match(initiative.detail, /tie to initiative/);
+
+  assert.equal(resolveWheelOutcome({ ...even, tieBreak: "reserve" }).winner, "enemy");
+  assert.equal(resolveWheelOutcome({ ...even, tieBreak: "arcana" }).winner, "enemy");
+
+  const carried = resolveWheelOutcome({ ...even, tieBreak: "carryOver" });
+  assert.equal(carried.tie, true);
+  assert.equal(carried.tieBreak, "carryOver");
+
+  // Decided lanes and empty slice 0 are left alone.
+  const decided = resolveWheelOutcome({ ...even, enemyValue: 6, tieBreak: "initiative" });
+  assert.equal(decided.winner, "enemy");
+  assert.equal(decided.tieBreak, undefined);
+  const slice0 = resolveWheelOutcome({ ...even, startToken: 6, tieBreak: "initiative" });
+  assert.equal(slice0.targetSlice, 0);
+  assert.equal(slice0.winner, null);
+}
+
+{
+  // A tie-break that can't separate the sides leaves the lane tied.
+  const ctx = { playerCard: null, enemyCard: null, reserves: { player: 3, enemy: 3 }, initiative: "enemy" as const };
+  assert.equal(breakTie("reserve", ctx), null);
+  assert.equal(breakTie("arcana", ctx), null);
+  assert.equal(breakTie("initiative", ctx), "enemy");
+  assert.equal(breakTie("carryOver", ctx), null);
+  assert.equal(normalizeTieBreak("arcana"), "arcana");
+  assert.equal(normalizeTieBreak(undefined), "none");
+}
+
+{
+  // A match set to carry ties over grows the lane's pot instead of awarding nobody.
+  const config = makeMatchConfig({ seed: 11, winGoal: 5, laneCount: 1, tieBreak: "carryOver" });
+  const start = {
+    ...createMatchState(config, { player: makeHandFighter("p", [5, 1, 1]), enemy: makeHandFighter("e", [5, 1, 1]) }),
+    wheelSections: [[strongest]],
+  };
+
+  let state = matchReducer(start, { type: "assign", side: "player", lane: 0, cardId: "p-0" }).state;
+  state = matchReducer(state, { type: "assign", side: "enemy", lane: 0, cardId: "e-0" }).state;
+  const revealed = matchReducer(state, { type: "reveal" });
+  assert.equal(revealed.state.analysis?.outcomes[0]?.tieBreak, "carryOver");
+  assert.deepEqual(revealed.state.pendingCarryOver, [1]);
+  assert.ok(
+    revealed.events.some((event) => event.type === "log" && event.message.includes("Wheel 1 carries 1 win")),
+  );
+}
+
+console.log("tie breakers test passed");
@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+
+import type { Section, VC } from "../src/game/types.js";
+import { createSeededRng } from "../src/game/math.js";
+import { genWheelSections } from "../src/game/wheel.js";
+import { resolveWheelOutcome } from "../src/game/matchEngine.js";
+import {
+  getRotationPool,
+  getVictoryCondition,
+  listVictoryConditions,
+  registerVictoryCondition,
+} from "../src/game/victoryConditions.js";
+import { makeCard } from "./helpers/fixtures.js";
+
+const fullWheel = (id: VC, target?: number): Section[] => [{ id, color: "#fff", start: 1, end: 15, target }];
+
+const resolve = (id: VC, playerValue: number, enemyValue: number, extra: Partial<Parameters<typeof resolveWheelOutcome>[0]> = {}) =>
+  resolveWheelOutcome({
+    wheel: 0,
+    sections: fullWheel(id),
+    startToken: 0,
+    playerValue,
+    enemyValue,
+    reserves: { player: 4, enemy: 9 },
+    initiative: "enemy",
+    ...extra,
+  });
+
+{
+  // Every registered condition has metadata and resolves through the shared resolver.
+  for (const def of listVictoryConditions()) {
+    assert.ok(def.icon && def.color && def.label, `${def.id} needs metadata`);
+    const outcome = resolve(def.id, 3, 2);
+    assert.ok(outcome.detail.length > 0);
+  }
+  assert.deepEqual(getRotationPool({ easyMode: true }).sort(), [
+    "ClosestToTarget",
+    "Initiative",
+    "ReserveSum",
+    "Strongest",
+    "Weakest",
+  ]);
+}
+
+{
+  // New conditions decide lanes by their own rules.
+  assert.equal(resolve("EvenBeatsOdd", 3, 2).winner, "enemy");
+  assert.equal(resolve("EvenBeatsOdd", 4, 2).tie, true);
+  assert.equal(resolve("LowestReserve", 1, 1).winner, "player");
+
+  const exact = { sections: fullWheel("ExactSum", 9) };
+  assert.equal(resolve("ExactSum", 6, 3, exact).winner, "enemy");
+  assert.equal(resolve("ExactSum", 6, 4, exact).winner, "player");
+
+  const lanes = {
+    player: [makeCard("p1", 1, "fire"), makeCard("p2", 2, "moon"), null],
+    enemy: [makeCard("e1", 1, "fire"), makeCard("e2", 2, "fire"), null],
+  };
+  assert.equal(resolve("ArcanaCount", 1, 1, { lanes }).winner, "player");
+}
+
+{
+  // Wheels only deal registered conditions and are reproducible per seed.
+  const sections = genWheelSections("bandit", createSeededRng(12));
+  assert.equal(sections.length, 5);
+  sections.forEach((section) => assert.ok(getVictoryCondition(section.id)));
+  assert.deepEqual(genWheelSections("bandit", createSeededRng(12)), sections);
+  genWheelSections("bandit", createSeededRng(5), { easyMode: true }).forEach((section) =>
+    assert.ok(getVictoryCondition(section.id)?.basic),
+  );
+}
+
+{
+  // Registering replaces a condition for both the resolver and the wheel metadata.
+  const original = getVictoryCondition("Initiative")!;
+  registerVictoryCondition({ ...original, resolve: () => ({ winner: "player", detail: "house rule" }) });
+  assert.equal(resolve("Initiative", 1, 1).winner, "player");
+  registerVictoryCondition(original);
+  assert.equal(resolve("Initiative", 1, 1).winner, "enemy");
+}
+
+console.log("victoryConditions test passed");
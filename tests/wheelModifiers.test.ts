@@ -0,0 +1,188 @@
+import assert from "node:assert/strict";
+
+import type { Section } from "../src/game/types.js";
+import {
+  analyzeRound,
+  createMatchState,
+  matchReducer,
+  resolveWheelOutcome,
+} from "../src/game/matchEngine.js";
+import { resolvePendingSpell } from "../src/game/spellEngine.js";
+import { getSpellById, type SpellTargetInstance } from "../src/game/spells.js";
+import { deriveAbilityForCard } from "../src/game/skills.js";
+import { applySkillAbilityEffect } from "../src/features/threeWheel/utils/skillAbilityExecution.js";
+import { makeCard, makeFighter, makeHandFighter, makeMatchConfig } from "./helpers/fixtures.js";
+import { cardTarget, castSpell, skipTarget, wheelTarget, withMana } from "./helpers/casting.js";
+
+const baseConfig = makeMatchConfig({ seed: 7 });
+
+const strongest: Section = { id: "Strongest", color: "#000", start: 1, end: 15 };
+
+{
+  // A locked wheel reads the slice its token started on; a shift moves the read, not the token.
+  const base = {
+    wheel: 0,
+    sections: [strongest],
+    startToken: 2,
+    playerValue: 3,
+    enemyValue: 4,
+    playerCard: makeCard("p", 3),
+    enemyCard: makeCard("e", 4),
+    lanes: { player: [], enemy: [] },
+    reserves: { player: 0, enemy: 0 },
+    initiative: "player" as const,
+  };
+  const plain = resolveWheelOutcome(base);
+  assert.equal(plain.steps, 7);
+  assert.equal(plain.targetSlice, 9);
+  assert.equal(plain.locked, undefined);
+
+  const locked = resolveWheelOutcome({ ...base, locked: true });
+  assert.equal(locked.steps, 0);
+  assert.equal(locked.targetSlice, 2);
+  assert.equal(locked.locked, true);
+
+  const shifted = resolveWheelOutcome({ ...base, pointerShift: -3 });
+  assert.equal(shifted.steps, 7);
+  assert.equal(shifted.targetSlice, 6);
+  assert.equal(shifted.pointerShift, -3);
+
+  // Pulling the pointer back onto slice 0 makes it a no-win slice.
+  const toZero = resolveWheelOutcome({ ...base, locked: true, pointerShift: -2 });
+  assert.equal(toZero.targetSlice, 0);
+  assert.equal(toZero.winner, null);
+
+  const analysis = analyzeRound({
+    played: [{ p: base.playerCard, e: base.enemyCard }],
+    wheelSections: [[strongest]],
+    tokens: [2],
+    reserves: base.reserves,
+    initiative: "player",
+    localLegacySide: "player",
+    wheelLocks: [true],
+    pointerShifts: [1],
+  });
+  assert.equal(analysis.outcomes[0]?.targetSlice, 3);
+}
+
+{
+  // Anchor and Misdirect lock and shift wheels in the match state until the next round.
+  const player = makeFighter("p", [
+    makeCard("p-0", 2, "serpent"),
+    makeCard("p-1", 1),
+    makeCard("p-2", 2),
+    makeCard("p-3", 3),
+    makeCard("p-4", 5, "moon"),
+  ]);
+  const start = withMana(createMatchState(baseConfig, { player, enemy: makeHandFighter("e", [1, 2, 3, 4, 5]) }), 5);
+  assert.deepEqual(start.wheelLocks, [false, false, false]);
+  assert.deepEqual(start.pointerShifts, [0, 0, 0]);
+
+  const anchored = castSpell(start, "player", "anchor", [wheelTarget(1), skipTarget(1)]);
+  assert.deepEqual(anchored.state.wheelLocks, [false, true, false]);
+  assert.ok(anchored.events.some((event) => event.type === "log" && event.message.includes("Wheel 2 is locked")));
+
+  const cast = castSpell(anchored.state, "player", "misdirect", [
+    wheelTarget(2),
+    cardTarget(anchored.state, "player", "p-0", 1),
+  ]);
+  assert.deepEqual(cast.state.pointerShifts, [0, 0, -3]);
+  assert.equal(cast.state.mana.player, 0);
+
+  let state = cast.state;
+  for (const [lane, cardId] of ["p-1", "p-2", "p-3"].entries()) {
+    state = matchReducer(state, { type: "assign", side: "player", lane, cardId }).state;
+  }
+  for (const [lane, cardId] of ["e-0", "e-1", "e-2"].entries()) {
+    state = matchReducer(state, { type: "assign", side: "enemy", lane, cardId }).state;
+  }
+  const revealed = matchReducer(state, { type: "reveal" }).state;
+  assert.equal(revealed.analysis?.outcomes[1]?.steps, 0);
+  assert.equal(revealed.tokens[1], 0);
+  // The third wheel's token steps 3 + 3 = 6; its pointer reads three slices back.
+  assert.equal(revealed.analysis?.outcomes[2]?.targetSlice, 3);
+
+  const next = matchReducer(revealed, { type: "nextRound" }).state;
+  assert.deepEqual(next.wheelLocks, [false, false, false]);
+  assert.deepEqual(next.pointerShifts, [0, 0, 0]);
+}
+
+{
+  // Anchor and Misdirect resolve into wheel lock and pointer shift payloads.
+  const caster = makeHandFighter("p", [1]);
+  const opponent = makeHandFighter("e", [1]);
+  const wheel: SpellTargetInstance = { type: "wheel", wheelId: "1", stageIndex: 0 };
+  const cast = (spellId: string, bonus: SpellTargetInstance) => {
+    const spell = getSpellById(spellId);
+    assert.ok(spell, `${spellId} should be registered`);
+    const result = resolvePendingSpell({
+      descriptor: { side: "enemy", spell, targets: [wheel, bonus], currentStage: 2, spentMana: spell.cost },
+      caster,
+      opponent,
+      phase: "choose",
+      runtimeState: {},
+    });
+    assert.equal(result.outcome, "success");
+    return result.outcome === "success" ? result.payload : null;
+  };
+
+  const anchor = cast("anchor", { type: "none", stageIndex: 1 });
+  assert.deepEqual(anchor?.wheelLocks, [{ wheelIndex: 1 }]);
+  assert.equal(anchor?.pointerShifts, undefined);
+
+  const misdirect = cast("misdirect", {
+    type: "card",
+    cardId: "p-0",
+    owner: "ally",
+    arcana: "serpent",
+    cardValue: 2,
+    stageIndex: 1,
+  });
+  assert.deepEqual(misdirect?.pointerShifts, [{ wheelIndex: 1, amount: -3 }]);
+}
+
+{
+  // Printed 7s shift a pointer and 9s lock a wheel; the rest keep their abilities.
+  assert.equal(deriveAbilityForCard(7), "shiftPointer");
+  assert.equal(deriveAbilityForCard(9), "lockWheel");
+  assert.equal(deriveAbilityForCard(6), "reserveBoost");
+  assert.equal(deriveAbilityForCard(8), "reserveBoost");
+
+  let locks = [false, false, false];
+  let shifts = [0, 0, 0];
+  const run = (ability: "shiftPointer" | "lockWheel", laneIndex: number) =>
+    applySkillAbilityEffect({
+      ability,
+      actorName: "Hero",
+      side: "player",
+      laneIndex: 0,
+      target: { type: "lane", laneIndex },
+      skillCard: makeCard("skill", ability === "lockWheel" ? 9 : 7),
+      storedSkillValue: 0,
+      sideAssignments: { player: [null, null, null], enemy: [null, null, null] },
+      concludeAssignUpdate: () => {},
+      recalcWheelForLane: () => ({ value: 0, changed: false }),
+      getFighterSnapshot: () => makeHandFighter("p", []),
+      updateFighter: () => {},
+      drawOne: (fighter) => fighter,
+      updateReservePreview: () => {},
+      appendLog: () => {},
+      updateWheelLocks: (updater) => {
+        locks = updater(locks);
+      },
+      updatePointerShifts: (updater) => {
+        shifts = updater(shifts);
+      },
+    });
+
+  assert.equal(run("shiftPointer", 2).success, true);
+  assert.deepEqual(shifts, [0, 0, 1]);
+  assert.equal(run("lockWheel", 0).success, true);
+  assert.deepEqual(locks, [true, false, false]);
+  const again = run("lockWheel", 0);
+  assert.equal(again.success, false);
+  assert.equal(again.failureReason, "That wheel is already locked.");
+  assert.equal(run("lockWheel", 5).success, false);
+}
+
+console.log("wheel modifiers test passed");
@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+
+import type { Section } from "../src/game/types.js";
+import { createSeededRng } from "../src/game/math.js";
+import { WHEEL_TEMPLATES, genWheelSections, normalizeSliceCount } from "../src/game/wheel.js";
+import {
+  advanceTokens,
+  analyzeRound,
+  createMatchState,
+  getWheelSliceCounts,
+  resolveWheelOutcome,
+} from "../src/game/matchEngine.js";
+import { handleWheelTokenAdjustments } from "../src/game/spellEffectHandlers.js";
+import { makeCard, makeDeckFighter, makeMatchConfig } from "./helpers/fixtures.js";
+
+const coveredSlices = (sections: Section[], slices: number) => {
+  const covered = new Set<number>();
+  sections.forEach((section) => {
+    for (let i = section.start; ; i = (i + 1) % slices) {
+      covered.add(i);
+      if (i === section.end) break;
+    }
+  });
+  return covered;
+};
+
+{
+  // Sections fill every slice but 0, whatever the wheel size.
+  for (const slices of [12, 16, 20, 24]) {
+    for (const easyMode of [false, true]) {
+      const sections = genWheelSections("beast", createSeededRng(slices), { slices, easyMode });
+      const covered = coveredSlices(sections, slices);
+      assert.equal(covered.size, slices - 1, `${slices} slices, easy=${easyMode}`);
+      assert.ok(!covered.has(0));
+    }
+  }
+  assert.equal(normalizeSliceCount(100), 32);
+  assert.equal(normalizeSliceCount(undefined), 16);
+}
+
+{
+  // Tokens wrap at the wheel's own slice count.
+  const wheel: Section[] = [{ id: "Strongest", color: "#fff", start: 1, end: 11 }];
+  const base = {
+    wheel: 0,
+    sections: wheel,
+    startToken: 10,
+    playerValue: 1,
+    enemyValue: 1,
+    reserves: { player: 0, enemy: 0 },
+    initiative: "player" as const,
+  };
+  const small = resolveWheelOutcome({ ...base, slices: 12 });
+  assert.equal(small.targetSlice, 0);
+  assert.equal(small.tie, true);
+  assert.equal(resolveWheelOutcome(base).targetSlice, 12);
+
+  const analysis = analyzeRound({
+    played: [{ p: makeCard("p", 1), e: makeCard("e", 1) }, { p: makeCard("p2", 9), e: makeCard("e2", 9) }],
+    wheelSections: [wheel, wheel],
+    tokens: [10, 10],
+    reserves: { player: 0, enemy: 0 },
+    initiative: "player",
+    localLegacySide: "player",
+    wheelSlices: [12, 24],
+  });
+  assert.deepEqual(advanceTokens([10, 10], analysis), [0, 4]);
+}
+
+{
+  // Spell token nudges wrap per wheel.
+  let tokens = [11, 11];
+  handleWheelTokenAdjustments(
+    [
+      { wheelIndex: 0, amount: 2 },
+      { wheelIndex: 1, amount: 2 },
+    ],
+    { updateTokens: (updater) => (tokens = updater(tokens)), wheelSlices: [12, 20] },
+  );
+  assert.deepEqual(tokens, [1, 13]);
+}
+
+{
+  // Matches take each lane's slice count from its template.
+  const config = makeMatchConfig({ seed: 8 });
+  assert.deepEqual(getWheelSliceCounts(), [16, 16, 16]);
+
+  const original = WHEEL_TEMPLATES.beast;
+  WHEEL_TEMPLATES.beast = { ...original, slices: 24 };
+  try {
+    const state = createMatchState(config, { player: makeDeckFighter("p"), enemy: makeDeckFighter("e") });
+    assert.deepEqual(state.wheelSlices, [16, 16, 24]);
+    assert.equal(coveredSlices(state.wheelSections[2], 24).size, 23);
+  } finally {
+    WHEEL_TEMPLATES.beast = original;
+  }
+}
+
+console.log("wheelSlices test passed");
@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+
+import { createSeededRng } from "../src/game/math.js";
+import {
+  WHEEL_TEMPLATES,
+  findSlice0Section,
+  genWheelSections,
+  normalizeWheelTemplate,
+  resolveWheelTemplates,
+  type WheelTemplate,
+} from "../src/game/wheel.js";
+import { createMatchState, resolveWheelOutcome } from "../src/game/matchEngine.js";
+import { makeDeckFighter, makeMatchConfig } from "./helpers/fixtures.js";
+
+const duel: WheelTemplate = {
+  id: "duel",
+  name: "Duel",
+  slices: 12,
+  lengths: [6, 5],
+  conditions: ["ClosestToTarget", "Strongest"],
+  targetRanges: { ClosestToTarget: { min: 3, max: 3 } },
+  slice0: "Initiative",
+  archetype: "beast",
+};
+
+{
+  // Built-ins deal the same wheels whether named or passed as data.
+  assert.deepEqual(
+    genWheelSections(WHEEL_TEMPLATES.sorcerer, createSeededRng(4)),
+    genWheelSections("sorcerer", createSeededRng(4)),
+  );
+}
+
+{
+  // Templates pick the conditions, their target ranges and what slice 0 does.
+  const sections = genWheelSections(duel, createSeededRng(9));
+  const slice0 = findSlice0Section(sections);
+  const dealt = sections.filter((section) => section !== slice0);
+  assert.deepEqual(dealt.map((section) => section.id).sort(), ["ClosestToTarget", "Strongest"]);
+  assert.equal(dealt.find((section) => section.id === "ClosestToTarget")?.target, 3);
+  assert.equal(slice0?.id, "Initiative");
+
+  const outcome = resolveWheelOutcome({
+    wheel: 0,
+    sections,
+    startToken: 0,
+    playerValue: 5,
+    enemyValue: 7,
+    reserves: { player: 0, enemy: 0 },
+    initiative: "enemy",
+    slices: 12,
+  });
+  assert.equal(outcome.targetSlice, 0);
+  assert.equal(outcome.winner, "enemy");
+}
+
+{
+  // Stored templates are validated before use.
+  assert.equal(normalizeWheelTemplate({ id: "x", lengths: [] }), null);
+  assert.equal(normalizeWheelTemplate("nope"), null);
+  const cleaned = normalizeWheelTemplate({ id: "x", slices: 99, lengths: [3, -1, 2], conditions: ["Bogus", "Weakest"], slice0: "Bogus" });
+  assert.deepEqual(cleaned, { id: "x", name: "x", slices: 32, lengths: [3, 2], conditions: ["Weakest"] });
+}
+
+{
+  // Wheel sets resolve per lane: rotation, archetypes (custom entries win) and explicit lists.
+  const library = [...Object.values(WHEEL_TEMPLATES), duel];
+  const ids = (templates: WheelTemplate[]) => templates.map((template) => template.id);
+  assert.deepEqual(ids(resolveWheelTemplates({ kind: "rotation" }, 4, library)), ["bandit", "sorcerer", "beast", "bandit"]);
+  assert.deepEqual(
+    ids(resolveWheelTemplates({ kind: "archetypes", player: "sorcerer", enemy: "beast" }, 3, library)),
+    ["sorcerer", "duel", "sorcerer"],
+  );
+  assert.deepEqual(
+    ids(resolveWheelTemplates({ kind: "templates", templateIds: ["duel", "missing"] }, 3, library)),
+    ["duel", "sorcerer", "duel"],
+  );
+}
+
+{
+  // Matches deal each lane from the configured template.
+  const config = makeMatchConfig({ seed: 3, laneCount: 2, wheelTemplates: [duel, WHEEL_TEMPLATES.bandit] });
+  const state = createMatchState(config, { player: makeDeckFighter("p"), enemy: makeDeckFighter("e") });
+  assert.deepEqual(state.wheelSlices, [12, 16]);
+  assert.ok(findSlice0Section(state.wheelSections[0]));
+  assert.equal(findSlice0Section(state.wheelSections[1]), undefined);
+}
+
+console.log("wheelTemplates test passed");
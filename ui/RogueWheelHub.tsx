@@ -21,6 +21,7 @@ export type HubShellProps = {
   onContinue?: () => void;
   onNew?: () => void;
   onMultiplayer?: () => void;
+  onWheelEditor?: () => void;
   onHowTo?: () => void;
   onSettings?: () => void;
   onQuit?: () => void;
@@ -48,6 +49,7 @@ export default function RogueWheelHub(props: HubShellProps) {
     onContinue,
     onNew,
     onMultiplayer,
+    onWheelEditor,
     onHowTo,
     onSettings,
     onQuit,
@@ -119,10 +121,13 @@ export default function RogueWheelHub(props: HubShellProps) {
         : null,
       { key: "new", label: hasSave ? "New Run" : "Singleplayer", onClick: safeOnNew, icon: <span className="h-4 w-4 flex items-center justify-center">{ICONS.swords}</span> },
       { key: "mp", label: "Multiplayer", onClick: onMultiplayer, icon: <span className="h-4 w-4 flex items-center justify-center">🧑‍🤝‍🧑</span> },
+      onWheelEditor
+        ? { key: "wheels", label: "Wheel Editor", onClick: onWheelEditor, icon: <span className="h-4 w-4 flex items-center justify-center">🎡</span> }
+        : null,
       { key: "howto", label: "How to Play", onClick: () => { onHowTo?.(); setShowHowTo(true); }, icon: <span className="h-4 w-4 flex items-center justify-center">{ICONS.book}</span> },
       { key: "quit", label: "Quit", onClick: onQuit, icon: <span className="h-4 w-4 flex items-center justify-center">{ICONS.power}</span> },
     ].filter(Boolean) as MenuItem[],
-    [hasSave, safeOnContinue, safeOnNew, onMultiplayer, onHowTo, onSettings, onQuit]
+    [hasSave, safeOnContinue, safeOnNew, onMultiplayer, onWheelEditor, onHowTo, onSettings, onQuit]
   );
 
   useEffect(() => {